@@ -0,0 +1,541 @@
+import { Nfa } from './nfa';
+import { PatternComplexity } from './types';
+
+/** Upper bound on product-automaton work before giving up */
+const ANALYSIS_BUDGET = 2_000_000;
+
+/**
+ * Tracks product-automaton work so pathological patterns cannot stall analysis.
+ */
+export class AnalysisBudget {
+    private remaining = ANALYSIS_BUDGET;
+
+    spend(amount = 1): boolean {
+        this.remaining -= amount;
+        return this.remaining >= 0;
+    }
+}
+
+/**
+ * Strongly connected components of a graph over nodes 0..count-1,
+ * computed with an iterative Tarjan's algorithm.
+ *
+ * Components are numbered in reverse topological order: every edge goes
+ * from a component to one with an equal or lower number.
+ */
+export function stronglyConnectedComponents(
+    count: number,
+    successors: (node: number) => readonly number[],
+): { component: Int32Array; componentCount: number } {
+    const index = new Int32Array(count).fill(-1);
+    const lowLink = new Int32Array(count);
+    const component = new Int32Array(count).fill(-1);
+    const onStack = new Uint8Array(count);
+    const stack: number[] = [];
+    let nextIndex = 0;
+    let componentCount = 0;
+
+    for (let root = 0; root < count; root++) {
+        if (index[root] !== -1) {
+            continue;
+        }
+        const work: Array<{ node: number; edges: readonly number[]; next: number }> = [];
+        const enter = (node: number) => {
+            index[node] = lowLink[node] = nextIndex++;
+            stack.push(node);
+            onStack[node] = 1;
+            work.push({ node, edges: successors(node), next: 0 });
+        };
+        enter(root);
+
+        while (work.length > 0) {
+            const frame = work[work.length - 1];
+            if (frame.next < frame.edges.length) {
+                const target = frame.edges[frame.next++];
+                if (index[target] === -1) {
+                    enter(target);
+                } else if (onStack[target]) {
+                    lowLink[frame.node] = Math.min(lowLink[frame.node], index[target]);
+                }
+                continue;
+            }
+
+            work.pop();
+            if (work.length > 0) {
+                const parent = work[work.length - 1].node;
+                lowLink[parent] = Math.min(lowLink[parent], lowLink[frame.node]);
+            }
+            if (lowLink[frame.node] === index[frame.node]) {
+                let member: number;
+                do {
+                    member = stack.pop()!;
+                    onStack[member] = 0;
+                    component[member] = componentCount;
+                } while (member !== frame.node);
+                componentCount++;
+            }
+        }
+    }
+
+    return { component, componentCount };
+}
+
+/**
+ * Strongly connected components of an automaton, with which of them contain a cycle.
+ */
+export interface NfaComponents {
+    component: Int32Array;
+    members: number[][];
+    cyclic: boolean[];
+}
+
+export function nfaComponents(nfa: Nfa): NfaComponents {
+    const { component, componentCount } = stronglyConnectedComponents(
+        nfa.labels.length,
+        (state) => nfa.transitions[state],
+    );
+    const members: number[][] = Array.from({ length: componentCount }, () => []);
+    const cyclic: boolean[] = new Array(componentCount).fill(false);
+
+    for (let state = 0; state < nfa.labels.length; state++) {
+        members[component[state]].push(state);
+        for (const target of nfa.transitions[state]) {
+            if (component[target] === component[state]) {
+                cyclic[component[state]] = true;
+            }
+        }
+    }
+
+    return { component, members, cyclic };
+}
+
+/**
+ * Whether two states can consume a common character.
+ */
+function overlap(nfa: Nfa, a: number, b: number): boolean {
+    return a === b || nfa.labels[a]!.intersects(nfa.labels[b]!);
+}
+
+/**
+ * A state and a non-empty word on which the state loops ambiguously.
+ * Words are lists of code points.
+ */
+export interface AmbiguityWitness {
+    state: number;
+    pump: number[];
+}
+
+/**
+ * The pair automaton of one component: pairs of states (p, q) that can
+ * be reached by reading the same word, encoded as `i * size + j` over
+ * the component's local state indices.
+ */
+interface PairGraph {
+    members: number[];
+    size: number;
+    local: Map<number, number>;
+    successors: (pair: number) => readonly number[];
+    component: Int32Array;
+}
+
+function pairGraph(nfa: Nfa, members: number[], budget: AnalysisBudget): PairGraph {
+    const size = members.length;
+    const local = new Map(members.map((state, i) => [state, i]));
+    const cache = new Map<number, number[]>();
+
+    const successors = (pair: number): number[] => {
+        let result = cache.get(pair);
+        if (result) {
+            return result;
+        }
+        result = [];
+        const p = members[Math.floor(pair / size)];
+        const q = members[pair % size];
+        for (const a of nfa.transitions[p]) {
+            const i = local.get(a);
+            if (i === undefined) {
+                continue;
+            }
+            for (const b of nfa.transitions[q]) {
+                const j = local.get(b);
+                if (j !== undefined && overlap(nfa, a, b)) {
+                    result.push(i * size + j);
+                }
+            }
+        }
+        budget.spend(result.length + 1);
+        cache.set(pair, result);
+        return result;
+    };
+
+    const { component } = stronglyConnectedComponents(size * size, successors);
+    return { members, size, local, successors, component };
+}
+
+/**
+ * Where a pair automaton diverges: either an off-diagonal pair in the same
+ * component as the diagonal pair (i, i), or a parallel transition from
+ * (i, i) to (j, j) that stays in that component.
+ */
+type Divergence =
+    | { diagonal: number; offDiagonal: number }
+    | { diagonal: number; parallelTo: number };
+
+function findDivergence(nfa: Nfa, graph: PairGraph): Divergence | undefined {
+    const { members, size, local, component } = graph;
+
+    const diagonalOf = new Map<number, number>();
+    for (let i = 0; i < size; i++) {
+        diagonalOf.set(component[i * size + i], i);
+    }
+    for (let pair = 0; pair < size * size; pair++) {
+        const diagonal = diagonalOf.get(component[pair]);
+        if (diagonal !== undefined && Math.floor(pair / size) !== pair % size) {
+            return { diagonal, offDiagonal: pair };
+        }
+    }
+
+    for (let i = 0; i < size; i++) {
+        const seen = new Set<number>();
+        for (const a of nfa.transitions[members[i]]) {
+            const j = local.get(a);
+            if (j === undefined) {
+                continue;
+            }
+            if (seen.has(a) && component[j * size + j] === component[i * size + i]) {
+                return { diagonal: i, parallelTo: j };
+            }
+            seen.add(a);
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * A character both states of a pair can consume.
+ */
+function pairCharacter(nfa: Nfa, graph: PairGraph, pair: number): number {
+    const p = graph.members[Math.floor(pair / graph.size)];
+    const q = graph.members[pair % graph.size];
+    return nfa.labels[p]!.intersect(nfa.labels[q]!).sample()!;
+}
+
+/**
+ * Shortest word leading from one pair to another in the same pair component.
+ */
+function pairPath(nfa: Nfa, graph: PairGraph, from: number, to: number): number[] {
+    const parents = new Map<number, number>([[from, from]]);
+    const queue = [from];
+    for (let head = 0; head < queue.length && !parents.has(to); head++) {
+        for (const next of graph.successors(queue[head])) {
+            if (!parents.has(next) && graph.component[next] === graph.component[from]) {
+                parents.set(next, queue[head]);
+                queue.push(next);
+            }
+        }
+    }
+
+    const word: number[] = [];
+    for (let pair = to; pair !== from; pair = parents.get(pair)!) {
+        word.unshift(pairCharacter(nfa, graph, pair));
+    }
+    return word;
+}
+
+/**
+ * Find a component with exponential degree of ambiguity (EDA): a state
+ * with two different paths back to itself that read the same word.
+ *
+ * Works on the pair automaton restricted to one component. EDA exists
+ * exactly when some component of the pair automaton contains a diagonal
+ * pair (q, q) together with a diverging step, that is an off-diagonal
+ * pair or two different parallel transitions.
+ *
+ * Returns the first such component index from `from` on, or undefined
+ * when there is none. Returns null when the analysis budget runs out.
+ */
+export function findExponentialAmbiguity(
+    nfa: Nfa,
+    components: NfaComponents,
+    budget = new AnalysisBudget(),
+    from = 0,
+): number | undefined | null {
+    for (let c = from; c < components.members.length; c++) {
+        if (!components.cyclic[c]) {
+            continue;
+        }
+        const size = components.members[c].length;
+        if (!budget.spend(size * size)) {
+            return null;
+        }
+        const graph = pairGraph(nfa, components.members[c], budget);
+        if (!budget.spend()) {
+            return null;
+        }
+        if (findDivergence(nfa, graph)) {
+            return c;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Build the pumping word for a component found by findExponentialAmbiguity:
+ * reading it from the returned state can loop back in two different ways.
+ */
+export function exponentialWitness(nfa: Nfa, components: NfaComponents, c: number): AmbiguityWitness | undefined {
+    const graph = pairGraph(nfa, components.members[c], new AnalysisBudget());
+    const divergence = findDivergence(nfa, graph);
+    if (!divergence) {
+        return undefined;
+    }
+
+    const { size } = graph;
+    const diagonal = divergence.diagonal * size + divergence.diagonal;
+    let pump: number[];
+    if ('offDiagonal' in divergence) {
+        pump = [
+            ...pairPath(nfa, graph, diagonal, divergence.offDiagonal),
+            ...pairPath(nfa, graph, divergence.offDiagonal, diagonal),
+        ];
+    } else {
+        const target = divergence.parallelTo * size + divergence.parallelTo;
+        pump = [pairCharacter(nfa, graph, target), ...pairPath(nfa, graph, target, diagonal)];
+    }
+
+    return { state: graph.members[divergence.diagonal], pump };
+}
+
+/**
+ * Check for infinite degree of ambiguity (IDA) between two cyclic
+ * components: states p in `from` and q in `to` and a word w such that
+ * p loops on w, p reaches q on w, and q loops on w.
+ *
+ * Searches the triple automaton from (p, p, q) for (p, q, q) and returns
+ * p with w, undefined when there is no such word, or null when the
+ * analysis budget runs out.
+ */
+export function infiniteAmbiguityWitness(
+    nfa: Nfa,
+    components: NfaComponents,
+    from: number,
+    to: number,
+    budget = new AnalysisBudget(),
+): AmbiguityWitness | undefined | null {
+    const { component } = components;
+    const between = statesBetween(nfa, components, from, to);
+    const stateCount = nfa.labels.length;
+    const key = (x: number, y: number, z: number) => (x * stateCount + y) * stateCount + z;
+
+    for (const p of components.members[from]) {
+        for (const q of components.members[to]) {
+            const start = key(p, p, q);
+            const target = key(p, q, q);
+            const parents = new Map<number, [number, number]>([[start, [start, -1]]]);
+            const queue: Array<[number, number, number]> = [[p, p, q]];
+
+            for (let head = 0; head < queue.length; head++) {
+                const [x, y, z] = queue[head];
+                const current = key(x, y, z);
+                if (!budget.spend()) {
+                    return null;
+                }
+                for (const x2 of nfa.transitions[x]) {
+                    if (component[x2] !== from) {
+                        continue;
+                    }
+                    for (const z2 of nfa.transitions[z]) {
+                        if (component[z2] !== to || !overlap(nfa, x2, z2)) {
+                            continue;
+                        }
+                        const common = nfa.labels[x2]!.intersect(nfa.labels[z2]!);
+                        for (const y2 of nfa.transitions[y]) {
+                            const next = key(x2, y2, z2);
+                            if (!between.has(y2) || parents.has(next) || !nfa.labels[y2]!.intersects(common)) {
+                                continue;
+                            }
+                            parents.set(next, [current, common.intersect(nfa.labels[y2]!).sample()!]);
+                            if (next === target) {
+                                const pump: number[] = [];
+                                for (let node = target; node !== start; node = parents.get(node)![0]) {
+                                    pump.unshift(parents.get(node)![1]);
+                                }
+                                return { state: p, pump };
+                            }
+                            queue.push([x2, y2, z2]);
+                        }
+                    }
+                }
+            }
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * States on some path from component `from` to component `to`.
+ */
+function statesBetween(nfa: Nfa, components: NfaComponents, from: number, to: number): Set<number> {
+    const { component } = components;
+    const forward = new Set<number>(components.members[from]);
+    const predecessors = new Map<number, number[]>();
+    const queue = [...forward];
+    while (queue.length > 0) {
+        const state = queue.pop()!;
+        for (const next of nfa.transitions[state]) {
+            if (component[next] < to) {
+                continue;
+            }
+            const known = predecessors.get(next);
+            if (known) {
+                known.push(state);
+            } else {
+                predecessors.set(next, [state]);
+            }
+            if (!forward.has(next)) {
+                forward.add(next);
+                queue.push(next);
+            }
+        }
+    }
+
+    const between = new Set<number>(components.members[to].filter((state) => forward.has(state)));
+    const backward = [...between];
+    while (backward.length > 0) {
+        for (const previous of predecessors.get(backward.pop()!) ?? []) {
+            if (!between.has(previous)) {
+                between.add(previous);
+                backward.push(previous);
+            }
+        }
+    }
+    return between;
+}
+
+/**
+ * Longest chain of cyclic components where each consecutive pair has
+ * infinite degree of ambiguity. A chain of k components means the
+ * backtracking cost grows like n^k.
+ *
+ * Returns the chain, or null when the analysis budget runs out.
+ */
+export function findPolynomialAmbiguity(
+    nfa: Nfa,
+    components: NfaComponents,
+    budget = new AnalysisBudget(),
+): number[] | null {
+    const count = components.members.length;
+    const successors: Array<Set<number>> = Array.from({ length: count }, () => new Set());
+    for (let state = 0; state < nfa.labels.length; state++) {
+        for (const target of nfa.transitions[state]) {
+            const from = components.component[state];
+            const to = components.component[target];
+            if (from !== to) {
+                successors[from].add(to);
+            }
+        }
+    }
+
+    // Components are in reverse topological order, so walking up from zero
+    // visits every component after all of its successors. Only cyclic
+    // components can take part in a chain, so only those are tracked.
+    const reachable: Array<Set<number>> = Array.from({ length: count }, () => new Set());
+    for (let c = 0; c < count; c++) {
+        for (const next of successors[c]) {
+            if (components.cyclic[next]) {
+                reachable[c].add(next);
+            }
+            for (const further of reachable[next]) {
+                reachable[c].add(further);
+            }
+        }
+    }
+
+    const chains: number[][] = Array.from({ length: count }, (_, c) => (components.cyclic[c] ? [c] : []));
+    let longest: number[] = [];
+    const search = nfa.search === undefined ? -1 : components.component[nfa.search];
+    // Retrying at the next position only costs when the match can still
+    // fail after the chain, not when it has reached an accepting state
+    const canFail = (chain: number[]) => !components.members[chain[chain.length - 1]]
+        .some((state) => nfa.alwaysAccepting[state]);
+
+    for (let c = 0; c < count; c++) {
+        if (!components.cyclic[c]) {
+            continue;
+        }
+        for (const later of reachable[c]) {
+            if (!components.cyclic[later] || chains[later].length + 1 <= chains[c].length
+                || (c === search && !canFail(chains[later]))) {
+                continue;
+            }
+            const ambiguous = infiniteAmbiguityWitness(nfa, components, c, later, budget);
+            if (ambiguous === null) {
+                return null;
+            }
+            if (ambiguous) {
+                chains[c] = [c, ...chains[later]];
+            }
+        }
+        if (chains[c].length > longest.length) {
+            longest = chains[c];
+        }
+    }
+
+    return longest;
+}
+
+/**
+ * Where an automaton's backtracking blowup comes from.
+ */
+export interface AmbiguityReport {
+    complexity: PatternComplexity;
+    components: NfaComponents;
+    /** Components with exponential ambiguity */
+    exponential: number[];
+    /** Longest chain of components with infinite ambiguity, when not exponential */
+    chain: number[];
+}
+
+/**
+ * Find every exponentially ambiguous component, or failing that the
+ * longest polynomial chain. Returns undefined when the automaton is too
+ * large to analyze.
+ */
+export function analyzeAmbiguity(nfa: Nfa): AmbiguityReport | undefined {
+    const budget = new AnalysisBudget();
+    const components = nfaComponents(nfa);
+
+    const exponential: number[] = [];
+    for (let c = findExponentialAmbiguity(nfa, components, budget); c !== undefined;
+        c = findExponentialAmbiguity(nfa, components, budget, c + 1)) {
+        if (c === null) {
+            // Keep what was found before the budget ran out
+            if (exponential.length === 0) {
+                return undefined;
+            }
+            break;
+        }
+        exponential.push(c);
+    }
+    if (exponential.length > 0) {
+        return { complexity: { type: 'exponential' }, components, exponential, chain: [] };
+    }
+
+    const chain = findPolynomialAmbiguity(nfa, components, budget);
+    if (chain === null) {
+        return undefined;
+    }
+    const complexity: PatternComplexity = chain.length > 1 ? { type: 'polynomial', degree: chain.length } : { type: 'linear' };
+    return { complexity, components, exponential, chain };
+}
+
+/**
+ * Classify how backtracking time can grow with input length.
+ * Returns undefined when the automaton is too large to analyze.
+ */
+export function classifyComplexity(nfa: Nfa): PatternComplexity | undefined {
+    return analyzeAmbiguity(nfa)?.complexity;
+}
@@ -1,100 +1,254 @@
-import { PatternAnalysis, SafeRegexReason } from './types';
+import {
+    AnalyzeOptions,
+    DEFAULT_CONFIG,
+    PatternAnalysis,
+    PatternComplexity,
+    PatternFinding,
+    FindingSeverity,
+    RegexNode,
+    RegexPattern,
+    RegexQuantifier,
+    SafeRegexReason,
+} from './types';
+import { parsePattern, walkRegex } from './parser';
+import { buildNfa, isLoop, MAX_REPEAT_COPIES } from './nfa';
+import { analyzeAmbiguity } from './ambiguity';
+import { checkFeatures } from './features';
 
 /**
- * Patterns known to cause exponential backtracking
+ * Structural causes of exponential ambiguity, most specific first.
+ * Used to name the loop the automaton has found to be ambiguous.
  */
-const DANGEROUS_PATTERNS: Array<{ regex: RegExp; reason: SafeRegexReason; message: string }> = [
+const EXPONENTIAL_CAUSES: Array<{
+    test: (loop: RegexQuantifier) => boolean;
+    ruleId: string;
+    reason: SafeRegexReason;
+    message: string;
+}> = [
     {
-        // Nested quantifiers: (a+)+, (a*)+, etc.
-        regex: /\([^)]*[+*][^)]*\)[+*]/,
+        // Nested quantifiers: (a+)+, (a*)+, and counted ones such as (?:a{1,50}){1,50}
+        test: (loop) => hasUnboundedDescendant(loop.body) || loop.max <= MAX_REPEAT_COPIES,
+        ruleId: 'nested-quantifiers',
         reason: 'nested_quantifiers',
         message: 'Pattern contains nested quantifiers which can cause exponential backtracking',
     },
     {
-        // Overlapping alternations with quantifiers: (a|ab)+
-        regex: /\([^)]*\|[^)]*\)[+*]/,
+        // Overlapping alternations with quantifiers: (a|aa)+
+        test: (loop) => loop.body.type === 'Group' && loop.body.body.alternatives.length > 1,
+        ruleId: 'overlapping-alternation',
         reason: 'overlapping_alternation',
-        message: 'Pattern contains alternation with quantifier which may cause backtracking',
+        message: 'Pattern contains overlapping alternation with quantifier which can cause exponential backtracking',
     },
     {
-        // Repeated groups: (a+){n} followed by quantifier
-        regex: /\([^)]+\)\{[0-9,]+\}[+*]?/,
+        test: () => true,
+        ruleId: 'exponential-backtracking',
         reason: 'catastrophic_backtracking',
-        message: 'Pattern contains repeated group which may cause backtracking',
-    },
-    {
-        // Deeply nested groups with quantifiers
-        regex: /\([^)]*\([^)]*[+*]\)[^)]*[+*]\)/,
-        reason: 'nested_quantifiers',
-        message: 'Pattern contains deeply nested quantifiers',
-    },
-    {
-        // Character class with quantifier followed by similar class
-        regex: /\[[^\]]+\][+*]\[[^\]]+\][+*]/,
-        reason: 'catastrophic_backtracking',
-        message: 'Pattern contains overlapping character classes with quantifiers',
+        message: 'Pattern is ambiguous in a way that can cause exponential backtracking',
     },
 ];
 
 /**
  * Analyze a regex pattern for potential ReDoS vulnerabilities.
  * 
- * This performs static analysis only - it cannot catch all dangerous patterns.
- * Use testWithTimeout() for runtime protection.
+ * Builds a position automaton from the parsed pattern and looks for
+ * exponential (EDA) and infinite polynomial (IDA) degrees of ambiguity,
+ * which is what makes a backtracking matcher blow up on a failing input.
+ * Patterns not anchored with `^` include the search for a starting
+ * position, so `a+$` is quadratic.
+ * 
+ * Every ambiguous loop is reported in `findings` with its position in the
+ * pattern. Polynomial backtracking within `maxPolynomialDegree` is
+ * reported as a warning.
+ * 
+ * Syntax that `features` forbids is reported under the
+ * `feature-not-allowed` and `flag-not-allowed` rules, and such a finding
+ * takes precedence for `reason` over backtracking.
+ * 
+ * This performs static analysis only - assertions, lookarounds and
+ * backreferences are approximated. Use testWithTimeout() for runtime protection.
  */
-export function analyzePattern(pattern: string): PatternAnalysis {
-    for (const dangerous of DANGEROUS_PATTERNS) {
-        if (dangerous.regex.test(pattern)) {
-            return {
-                safe: false,
-                reason: dangerous.reason,
-                message: dangerous.message,
-            };
-        }
-    }
+export function analyzePattern(pattern: string, flags?: string, options: AnalyzeOptions = {}): PatternAnalysis {
+    const maxPolynomialDegree = options.maxPolynomialDegree ?? DEFAULT_CONFIG.maxPolynomialDegree;
 
-    // Check for excessive quantifier nesting depth
-    const nestingDepth = countQuantifierNesting(pattern);
-    if (nestingDepth > 2) {
+    let ast: RegexPattern;
+    try {
+        ast = parsePattern(pattern, flags);
+    } catch (error) {
+        const message = `Invalid regex syntax: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        const position = error instanceof Error ? /\(at position (\d+)\)$/.exec(error.message) : null;
+        const start = position ? Number(position[1]) : 0;
+        const end = position ? Math.min(start + 1, pattern.length) : pattern.length;
         return {
             safe: false,
-            reason: 'nested_quantifiers',
-            message: `Pattern has excessive quantifier nesting depth (${nestingDepth})`,
+            reason: 'invalid_syntax',
+            message,
+            findings: [finding(pattern, 'invalid-syntax', 'invalid_syntax', 'error', message, start, end)],
         };
     }
 
-    return { safe: true, reason: 'ok' };
+    const violations = options.features ? checkFeatures(ast, flags ?? '', options.features) : [];
+    const nfa = buildNfa(ast, { search: true });
+    const report = nfa && analyzeAmbiguity(nfa);
+    if (!report) {
+        const message = 'Pattern is too complex to analyze for backtracking';
+        const limit = finding(pattern, 'analysis-limit', 'catastrophic_backtracking', 'error', message, 0, pattern.length);
+        const error = violations[0] ?? limit;
+        return { safe: false, reason: error.reason, message: error.message, findings: [limit, ...violations] };
+    }
+
+    const { complexity } = report;
+    const findings: PatternFinding[] = [];
+    const loopOf = (c: number) => enclosingLoop(ast, report.components.members[c].map((state) => nfa.nodes[state]!));
+
+    for (const c of report.exponential) {
+        const loop = ambiguousLoop(ast, report.components.members[c].map((state) => nfa.nodes[state]!)) ?? loopOf(c);
+        const cause = EXPONENTIAL_CAUSES.find((candidate) => loop && candidate.test(loop)) ?? EXPONENTIAL_CAUSES[2];
+        const [start, end] = loop ? [loop.start, loop.end] : [0, pattern.length];
+        if (!findings.some((other) => other.start === start && other.end === end)) {
+            findings.push(finding(pattern, cause.ruleId, cause.reason, 'error', cause.message, start, end));
+        }
+    }
+
+    if (complexity.type === 'polynomial') {
+        // The search prefix is not part of the pattern, so the span covers the rest of the chain
+        const search = nfa.search === undefined ? -1 : report.components.component[nfa.search];
+        const loops = report.chain.filter((c) => c !== search).map(loopOf);
+        const [start, end] = chainSpan(ast, loops, pattern);
+        const severity = complexity.degree > maxPolynomialDegree ? 'error' : 'warning';
+        const message = `Pattern can cause polynomial backtracking of degree ${complexity.degree}`;
+        findings.push(finding(pattern, 'polynomial-backtracking', 'catastrophic_backtracking', severity, message, start, end));
+    }
+
+    findings.push(...violations);
+    findings.sort((a, b) => a.start - b.start || b.end - a.end);
+    const error = violations[0] ?? findings.find((candidate) => candidate.severity === 'error');
+    if (error) {
+        return { safe: false, reason: error.reason, message: error.message, complexity, findings };
+    }
+    return { safe: true, reason: 'ok', complexity, findings };
+}
+
+function finding(
+    pattern: string,
+    ruleId: string,
+    reason: SafeRegexReason,
+    severity: FindingSeverity,
+    message: string,
+    start: number,
+    end: number,
+): PatternFinding {
+    return { ruleId, reason, severity, message, start, end, expression: pattern.slice(start, end) };
 }
 
 /**
- * Count the nesting depth of quantifiers in a pattern.
+ * The innermost quantifier that loops (is unbounded for the automaton)
+ * and contains all the given nodes: the loop that makes them cyclic.
  */
-function countQuantifierNesting(pattern: string): number {
-    let maxDepth = 0;
-    let currentDepth = 0;
-    let inGroup = 0;
-
-    for (let i = 0; i < pattern.length; i++) {
-        const char = pattern[i];
-        const prev = pattern[i - 1];
-
-        // Track group depth
-        if (char === '(' && prev !== '\\') {
-            inGroup++;
-        } else if (char === ')' && prev !== '\\') {
-            inGroup = Math.max(0, inGroup - 1);
+function enclosingLoop(ast: RegexPattern, nodes: RegexNode[]): RegexQuantifier | undefined {
+    const start = Math.min(...nodes.map((node) => node.start));
+    const end = Math.max(...nodes.map((node) => node.end));
+    return innermostQuantifier(ast, start, end, isLoop);
+}
+
+/**
+ * The smallest loop touching the given nodes that is exponentially
+ * ambiguous by itself, such as (a+)+ rather than a+ for the state of `a`.
+ */
+function ambiguousLoop(ast: RegexPattern, nodes: RegexNode[]): RegexQuantifier | undefined {
+    const loops: RegexQuantifier[] = [];
+    walkRegex(ast, (node) => {
+        if (node.type === 'Quantifier' && isLoop(node)
+            && nodes.some((member) => member.start >= node.start && member.end <= node.end)) {
+            loops.push(node);
+        }
+        return true;
+    });
+    loops.sort((a, b) => (a.end - a.start) - (b.end - b.start));
+    return loops.find((loop) => {
+        const alone: RegexPattern = {
+            ...ast,
+            body: {
+                type: 'Disjunction',
+                alternatives: [{ type: 'Alternative', terms: [loop], start: loop.start, end: loop.end }],
+                start: loop.start,
+                end: loop.end,
+            },
+        };
+        const nfa = buildNfa(alone);
+        return Boolean(nfa && analyzeAmbiguity(nfa)?.exponential.length);
+    });
+}
+
+/**
+ * Span covering the loops of a polynomial chain. When the loops are copies
+ * of one loop made by a counted repetition, such as (a+){10}, the span
+ * covers that repetition.
+ */
+function chainSpan(ast: RegexPattern, loops: Array<RegexQuantifier | undefined>, pattern: string): [number, number] {
+    if (loops.some((loop) => !loop)) {
+        return [0, pattern.length];
+    }
+    const start = Math.min(...loops.map((loop) => loop!.start));
+    const end = Math.max(...loops.map((loop) => loop!.end));
+    if (new Set(loops).size < loops.length) {
+        const repeat = innermostQuantifier(ast, start, end, (q) => q.max > 1 && (q.start < start || q.end > end));
+        if (repeat) {
+            return [repeat.start, repeat.end];
         }
+    }
+    return [start, end];
+}
 
-        // Track quantifiers
-        if ((char === '+' || char === '*' || char === '?') && prev !== '\\') {
-            if (inGroup > 0) {
-                currentDepth = inGroup;
-                maxDepth = Math.max(maxDepth, currentDepth);
-            }
+function innermostQuantifier(
+    ast: RegexPattern,
+    start: number,
+    end: number,
+    predicate: (quantifier: RegexQuantifier) => boolean,
+): RegexQuantifier | undefined {
+    let innermost: RegexQuantifier | undefined;
+    walkRegex(ast, (node) => {
+        if (node.start > start || node.end < end) {
+            return false;
+        }
+        if (node.type === 'Quantifier' && predicate(node)) {
+            innermost = node;
         }
+        return true;
+    });
+    return innermost;
+}
+
+/**
+ * Human-readable form of a complexity class, e.g. `O(n^2)`.
+ */
+export function describeComplexity(complexity: PatternComplexity): string {
+    switch (complexity.type) {
+        case 'linear':
+            return 'O(n)';
+        case 'polynomial':
+            return `O(n^${complexity.degree})`;
+        case 'exponential':
+            return 'O(2^n)';
     }
+}
 
-    return maxDepth;
+function someNode(root: RegexNode, predicate: (node: RegexNode) => boolean): boolean {
+    let found = false;
+    walkRegex(root, (node) => {
+        if (!found && predicate(node)) {
+            found = true;
+        }
+        return !found;
+    });
+    return found;
+}
+
+function someQuantifier(root: RegexNode, predicate: (quantifier: RegexQuantifier) => boolean): boolean {
+    return someNode(root, (node) => node.type === 'Quantifier' && predicate(node));
+}
+
+function hasUnboundedDescendant(root: RegexNode): boolean {
+    return someQuantifier(root, (q) => q.max === Infinity);
 }
 
 /**
@@ -103,7 +257,7 @@ function countQuantifierNesting(pattern: string): number {
  */
 export function quickSafetyCheck(pattern: string): boolean {
     // No quantifiers = safe
-    if (!/[+*?]/.test(pattern)) {
+    if (!/[+*?{]/.test(pattern)) {
         return true;
     }
 
@@ -113,10 +267,9 @@ export function quickSafetyCheck(pattern: string): boolean {
     }
 
     // Simple anchored patterns are usually safe
-    if (/^\^[^+*?()]+\$$/.test(pattern)) {
+    if (/^\^[^+*?{()]+\$$/.test(pattern)) {
         return true;
     }
 
     return false;
 }
-
@@ -0,0 +1,161 @@
+import { AttackInput, AttackInputOptions, PatternComplexity } from './types';
+import { parsePattern } from './parser';
+import { buildNfa, Nfa } from './nfa';
+import { CharSet, MAX_CODE_UNIT } from './charset';
+import {
+    AmbiguityWitness,
+    AnalysisBudget,
+    exponentialWitness,
+    findExponentialAmbiguity,
+    findPolynomialAmbiguity,
+    infiniteAmbiguityWitness,
+    nfaComponents,
+} from './ambiguity';
+
+/** Pump repetitions for exponential patterns: about 2^30 paths */
+const DEFAULT_EXPONENTIAL_REPETITIONS = 30;
+
+/** Input length for polynomial patterns */
+const DEFAULT_POLYNOMIAL_LENGTH = 10000;
+
+/**
+ * Build an input that makes a backtracking engine blow up on the pattern:
+ * a prefix reaching the ambiguous part, the pump repeated, then a suffix
+ * that makes the overall match fail so every path gets explored.
+ *
+ * Returns undefined when the pattern is invalid, too large to analyze,
+ * or has linear complexity.
+ *
+ * Assertions and lookarounds are ignored while building the input, so for
+ * patterns relying on them the input is a best effort.
+ *
+ * @example
+ * ```typescript
+ * const attack = generateAttackInput('^(a+)+$', { length: 30 });
+ * // attack.prefix === 'a', attack.pump === 'a', attack.suffix === 'b'
+ * ```
+ */
+export function generateAttackInput(pattern: string, options: AttackInputOptions = {}): AttackInput | undefined {
+    let nfa: Nfa | undefined;
+    try {
+        nfa = buildNfa(parsePattern(pattern, options.flags), { search: true });
+    } catch {
+        return undefined;
+    }
+    if (!nfa) {
+        return undefined;
+    }
+
+    const found = findWitness(nfa);
+    if (!found || found.witness.pump.length === 0) {
+        return undefined;
+    }
+    const { witness, complexity } = found;
+
+    // The search reaches its own state without reading anything
+    const prefix = witness.state === nfa.search ? [] : pathTo(nfa, witness.state);
+    if (prefix === undefined) {
+        return undefined;
+    }
+    const suffix = failingSuffix(nfa, [...prefix, ...witness.pump, ...witness.pump]);
+
+    const prefixText = String.fromCodePoint(...prefix);
+    const pumpText = String.fromCodePoint(...witness.pump);
+    let repetitions: number;
+    if (options.length !== undefined) {
+        repetitions = Math.floor((options.length - prefixText.length - suffix.length) / pumpText.length);
+    } else if (complexity.type === 'exponential') {
+        repetitions = DEFAULT_EXPONENTIAL_REPETITIONS;
+    } else {
+        repetitions = Math.floor(DEFAULT_POLYNOMIAL_LENGTH / pumpText.length);
+    }
+    repetitions = Math.max(repetitions, 1);
+
+    return {
+        prefix: prefixText,
+        pump: pumpText,
+        suffix,
+        input: prefixText + pumpText.repeat(repetitions) + suffix,
+        repetitions,
+        complexity,
+    };
+}
+
+function findWitness(nfa: Nfa): { witness: AmbiguityWitness; complexity: PatternComplexity } | undefined {
+    const budget = new AnalysisBudget();
+    const components = nfaComponents(nfa);
+
+    const exponential = findExponentialAmbiguity(nfa, components, budget);
+    if (exponential === null) {
+        return undefined;
+    }
+    if (exponential !== undefined) {
+        const witness = exponentialWitness(nfa, components, exponential);
+        return witness && { witness, complexity: { type: 'exponential' } };
+    }
+
+    const chain = findPolynomialAmbiguity(nfa, components, budget);
+    if (chain === null || chain.length < 2) {
+        return undefined;
+    }
+    // The first link of the chain is enough to show the growth; pumping
+    // it also drives the later components through the same characters
+    const witness = infiniteAmbiguityWitness(nfa, components, chain[0], chain[1]);
+    return witness ? { witness, complexity: { type: 'polynomial', degree: chain.length } } : undefined;
+}
+
+/**
+ * Shortest word leading from the initial state into the given state.
+ */
+function pathTo(nfa: Nfa, target: number): number[] | undefined {
+    const parents = new Map<number, number>([[0, 0]]);
+    const queue = [0];
+    for (let head = 0; head < queue.length && !parents.has(target); head++) {
+        for (const next of nfa.transitions[queue[head]]) {
+            if (!parents.has(next) && !nfa.labels[next]!.isEmpty()) {
+                parents.set(next, queue[head]);
+                queue.push(next);
+            }
+        }
+    }
+    if (!parents.has(target)) {
+        return undefined;
+    }
+
+    const word: number[] = [];
+    for (let state = target; state !== 0; state = parents.get(state)!) {
+        word.unshift(nfa.labels[state]!.sample()!);
+    }
+    return word;
+}
+
+/**
+ * A character no state active after reading the word can consume, so a
+ * match attempt has to give up on every path. Empty when every character
+ * can continue the match. The search prefix reads anything and is left out.
+ */
+function failingSuffix(nfa: Nfa, word: number[]): string {
+    let active = new Set([0]);
+    for (const char of word) {
+        const next = new Set<number>();
+        for (const state of active) {
+            for (const target of nfa.transitions[state]) {
+                if (target !== nfa.search && nfa.labels[target]!.has(char)) {
+                    next.add(target);
+                }
+            }
+        }
+        active = next;
+    }
+
+    let continuing = CharSet.empty();
+    for (const state of active) {
+        for (const target of nfa.transitions[state]) {
+            if (target !== nfa.search) {
+                continuing = continuing.union(nfa.labels[target]!);
+            }
+        }
+    }
+    const failing = continuing.complement(MAX_CODE_UNIT).sample();
+    return failing === undefined ? '' : String.fromCharCode(failing);
+}
@@ -0,0 +1,278 @@
+import { BoundedExecOptions, BoundedExecResult, DEFAULT_CONFIG } from './types';
+import { compilePattern, Program } from './program';
+import { buildMatch, InputReader } from './input';
+
+const LIMIT = Symbol('backtrack limit');
+const DEADLINE = Symbol('deadline');
+
+/** Steps between clock reads when a deadline is set */
+const CLOCK_INTERVAL = 1024;
+
+const programCache = new WeakMap<RegExp, Program>();
+
+/**
+ * Compile a RegExp once and reuse the program for later executions.
+ */
+export function programFor(regex: RegExp): Program {
+    let program = programCache.get(regex);
+    if (!program) {
+        program = compilePattern(regex.source, regex.flags);
+        programCache.set(regex, program);
+    }
+    return program;
+}
+
+/**
+ * Canonical form for case-insensitive backreference comparison,
+ * following the spec's Canonicalize for unicode and non-unicode modes.
+ */
+function canonicalize(char: string, unicode: boolean): string {
+    if (unicode) {
+        const lower = char.toLowerCase();
+        return [...lower].length === 1 ? lower : char;
+    }
+    const upper = char.toUpperCase();
+    if (upper.length !== 1 || (char.charCodeAt(0) >= 128 && upper.charCodeAt(0) < 128)) {
+        return char;
+    }
+    return upper;
+}
+
+/**
+ * Depth-first matcher over a compiled program, counting every executed
+ * instruction against a fixed budget.
+ */
+class Backtracker {
+    steps = 0;
+
+    constructor(
+        private readonly reader: InputReader,
+        private readonly maxSteps: number,
+        private readonly deadline = Infinity,
+    ) {}
+
+    /**
+     * Try to match the program at `start`, writing capture positions into
+     * `slots`. Lookarounds run as nested, atomic calls.
+     */
+    run(program: Program, start: number, slots: number[]): boolean {
+        const { instructions, backward } = program;
+        const registers: number[] = new Array(program.registers).fill(-1);
+        // Choice points as (pc, pos, undo length) triples
+        const stack: number[] = [];
+        // Overwritten slots as (index, old value) pairs; registers use negative indices
+        const undo: number[] = [];
+        const set = (index: number, value: number) => {
+            if (index >= 0) {
+                undo.push(index, slots[index]);
+                slots[index] = value;
+            } else {
+                undo.push(index, registers[-index - 1]);
+                registers[-index - 1] = value;
+            }
+        };
+
+        let pc = 0;
+        let pos = start;
+        for (;;) {
+            if (++this.steps > this.maxSteps) {
+                throw LIMIT;
+            }
+            if (this.steps % CLOCK_INTERVAL === 0 && Date.now() > this.deadline) {
+                throw DEADLINE;
+            }
+            const instruction = instructions[pc];
+            let ok = true;
+            switch (instruction.op) {
+                case 'char': {
+                    const char = backward ? this.reader.before(pos) : this.reader.after(pos);
+                    if (char && instruction.set.has(char[0])) {
+                        pos += backward ? -char[1] : char[1];
+                        pc++;
+                    } else {
+                        ok = false;
+                    }
+                    break;
+                }
+                case 'split':
+                    stack.push(instruction.alt, pos, undo.length);
+                    pc = instruction.next;
+                    break;
+                case 'jump':
+                    pc = instruction.to;
+                    break;
+                case 'save':
+                    set(instruction.slot, pos);
+                    pc++;
+                    break;
+                case 'clear':
+                    for (let slot = instruction.from; slot < instruction.to; slot++) {
+                        set(slot, -1);
+                    }
+                    pc++;
+                    break;
+                case 'mark':
+                    set(-instruction.register - 1, pos);
+                    pc++;
+                    break;
+                case 'progress':
+                    ok = registers[instruction.register] !== pos;
+                    pc++;
+                    break;
+                case 'assert':
+                    ok = this.reader.assert(instruction.kind, instruction.multiline, pos);
+                    pc++;
+                    break;
+                case 'backref': {
+                    const end = this.backref(instruction.group, instruction.ignoreCase, backward, pos, slots);
+                    ok = end !== undefined;
+                    pos = end ?? pos;
+                    pc++;
+                    break;
+                }
+                case 'lookaround': {
+                    const inner = slots.slice();
+                    ok = this.run(instruction.program, pos, inner) !== instruction.negate;
+                    if (ok && !instruction.negate) {
+                        inner.forEach((value, index) => {
+                            if (value !== slots[index]) {
+                                set(index, value);
+                            }
+                        });
+                    }
+                    pc++;
+                    break;
+                }
+                case 'match':
+                    return true;
+            }
+
+            if (!ok) {
+                if (stack.length === 0) {
+                    return false;
+                }
+                const undoLength = stack.pop()!;
+                pos = stack.pop()!;
+                pc = stack.pop()!;
+                while (undo.length > undoLength) {
+                    const value = undo.pop()!;
+                    const index = undo.pop()!;
+                    if (index >= 0) {
+                        slots[index] = value;
+                    } else {
+                        registers[-index - 1] = value;
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Match the text captured by a group at pos. Returns the new position,
+     * or undefined when it does not match. Unset groups match empty.
+     */
+    private backref(group: number, ignoreCase: boolean, backward: boolean, pos: number, slots: number[]): number | undefined {
+        const start = slots[group * 2];
+        const end = slots[group * 2 + 1];
+        if (start < 0 || end < 0) {
+            return pos;
+        }
+        const { input, unicode } = this.reader;
+        const length = end - start;
+        const from = backward ? pos - length : pos;
+        if (from < 0 || from + length > input.length) {
+            return undefined;
+        }
+        const captured = input.slice(start, end);
+        const candidate = input.slice(from, from + length);
+        let equal = captured === candidate;
+        if (!equal && ignoreCase) {
+            const a = unicode ? [...captured] : captured.split('');
+            const b = unicode ? [...candidate] : candidate.split('');
+            equal = a.length === b.length && a.every((char, i) => canonicalize(char, unicode) === canonicalize(b[i], unicode));
+        }
+        return equal ? (backward ? from : from + length) : undefined;
+    }
+}
+
+/**
+ * Execute a regex like `regex.exec(input)` on a backtracking interpreter
+ * that counts executed steps and gives up once `maxSteps` is exceeded.
+ *
+ * The step count depends only on the pattern and input, so the outcome is
+ * the same on every machine. `lastIndex` is honored and updated for global
+ * and sticky regexes, as with the native exec.
+ *
+ * With a `deadline`, the matcher also reads the clock as it goes and stops
+ * with `reason: 'execution_timeout'` once the deadline has passed.
+ *
+ * @example
+ * ```typescript
+ * const result = execBounded(/^(a+)+$/, 'a'.repeat(30) + 'b', { maxSteps: 10000 });
+ * // { matched: false, match: null, reason: 'backtrack_limit', steps: 10001, error: '...' }
+ * ```
+ */
+export function execBounded(regex: RegExp, input: string, options: BoundedExecOptions = {}): BoundedExecResult {
+    const maxSteps = options.maxSteps ?? DEFAULT_CONFIG.maxBacktrackDepth;
+    let program: Program;
+    try {
+        program = programFor(regex);
+    } catch (error) {
+        if (error instanceof RangeError) {
+            return { matched: false, match: null, reason: 'pattern_too_long', steps: 0, error: error.message };
+        }
+        return {
+            matched: false,
+            match: null,
+            reason: 'invalid_syntax',
+            steps: 0,
+            error: `Invalid regex syntax: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        };
+    }
+
+    const { flags } = program;
+    const stateful = flags.global || flags.sticky;
+    const reader = new InputReader(input, flags.unicode || flags.unicodeSets);
+    const backtracker = new Backtracker(reader, maxSteps, options.deadline);
+    const slots: number[] = new Array(program.slots);
+
+    try {
+        for (let start = stateful ? regex.lastIndex : 0; start <= input.length; start = reader.advance(start)) {
+            slots.fill(-1);
+            if (backtracker.run(program, start, slots)) {
+                if (stateful) {
+                    regex.lastIndex = slots[1];
+                }
+                return { matched: true, match: buildMatch(program, input, slots), reason: 'ok', steps: backtracker.steps };
+            }
+            if (flags.sticky) {
+                break;
+            }
+        }
+    } catch (error) {
+        if (error === DEADLINE) {
+            return {
+                matched: false,
+                match: null,
+                reason: 'execution_timeout',
+                steps: backtracker.steps,
+                error: 'Regex execution passed its deadline',
+            };
+        }
+        if (error !== LIMIT) {
+            throw error;
+        }
+        return {
+            matched: false,
+            match: null,
+            reason: 'backtrack_limit',
+            steps: backtracker.steps,
+            error: `Regex execution exceeded ${maxSteps} backtracking steps`,
+        };
+    }
+
+    if (stateful) {
+        regex.lastIndex = 0;
+    }
+    return { matched: false, match: null, reason: 'ok', steps: backtracker.steps };
+}
@@ -0,0 +1,11 @@
+import { EXIT_USAGE, runCli } from './cli';
+
+runCli(process.argv.slice(2))
+    .then((code) => {
+        process.exitCode = code;
+    })
+    .catch((error: unknown) => {
+        // Usage errors are reported by runCli; anything else, such as an I/O failure, ends up here
+        process.stderr.write(`pressurelid: ${error instanceof Error ? error.message : String(error)}\n`);
+        process.exitCode = EXIT_USAGE;
+    });
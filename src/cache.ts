@@ -0,0 +1,105 @@
+import { RegexCacheOptions, RegexCacheStats, SafeRegexResult } from './types';
+
+/**
+ * A compiled result with the notification its compilation made, which
+ * SafeRegex repeats on every hit.
+ */
+export interface CachedCompilation {
+    result: SafeRegexResult;
+    notice?: { kind: 'block' | 'warning'; message: string };
+}
+
+interface Entry {
+    value: CachedCompilation;
+    expires: number;
+}
+
+/**
+ * Least-recently-used cache of SafeRegex results, keyed by pattern,
+ * flags and the settings that affect the result. Pass it as the `cache`
+ * option to share it between SafeRegex instances; instances with
+ * different settings use different entries, so `configure()` never
+ * returns a result computed under the old settings.
+ *
+ * @example
+ * ```typescript
+ * const cache = new RegexCache({ maxSize: 5000, ttlMs: 60_000 });
+ * const safe = new SafeRegex({ cache });
+ * safe.create(userPattern);
+ * cache.stats(); // { hits: 0, misses: 1, evictions: 0, size: 1 }
+ * ```
+ */
+export class RegexCache {
+    private readonly maxSize: number;
+    private readonly ttlMs: number;
+    private readonly entries = new Map<string, Entry>();
+    private hits = 0;
+    private misses = 0;
+    private evictions = 0;
+
+    constructor(options: RegexCacheOptions = {}) {
+        this.maxSize = options.maxSize ?? 1000;
+        this.ttlMs = options.ttlMs ?? Infinity;
+        if (!(this.maxSize >= 1) || !(this.ttlMs > 0)) {
+            throw new RangeError('RegexCache maxSize must be at least 1 and ttlMs positive');
+        }
+    }
+
+    /** Number of entries, expired ones included until they are looked up or evicted */
+    get size(): number {
+        return this.entries.size;
+    }
+
+    /**
+     * The entry for a key, marking it most recently used, or undefined
+     * when it is missing or expired.
+     */
+    get(key: string): CachedCompilation | undefined {
+        const entry = this.entries.get(key);
+        if (!entry || entry.expires <= Date.now()) {
+            if (entry) {
+                this.entries.delete(key);
+            }
+            this.misses++;
+            return undefined;
+        }
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        this.hits++;
+        return entry.value;
+    }
+
+    /**
+     * Store an entry, evicting the least recently used one when full.
+     */
+    set(key: string, value: CachedCompilation): void {
+        this.entries.delete(key);
+        if (this.entries.size >= this.maxSize) {
+            this.entries.delete(this.entries.keys().next().value!);
+            this.evictions++;
+        }
+        this.entries.set(key, { value, expires: Date.now() + this.ttlMs });
+    }
+
+    /**
+     * Drop every entry. The statistics are kept.
+     */
+    clear(): void {
+        this.entries.clear();
+    }
+
+    stats(): RegexCacheStats {
+        return { hits: this.hits, misses: this.misses, evictions: this.evictions, size: this.entries.size };
+    }
+}
+
+let sharedCache: RegexCache | undefined;
+
+/**
+ * The cache used by createSafeRegex and globToSafeRegex.
+ * Created on first use with default options.
+ */
+export function sharedRegexCache(): RegexCache {
+    sharedCache ??= new RegexCache();
+    return sharedCache;
+}
@@ -0,0 +1,311 @@
+import {
+    RegexCharacterClass,
+    RegexCharacterClassEscape,
+    RegexClassElement,
+    RegexFlags,
+    RegexNode,
+} from './types';
+
+export const MAX_CODE_POINT = 0x10ffff;
+export const MAX_CODE_UNIT = 0xffff;
+
+type Range = readonly [number, number];
+
+/**
+ * An immutable set of code points stored as sorted, disjoint, inclusive ranges.
+ */
+export class CharSet {
+    private constructor(readonly ranges: ReadonlyArray<Range>) {}
+
+    static empty(): CharSet {
+        return new CharSet([]);
+    }
+
+    static of(...values: number[]): CharSet {
+        return CharSet.fromRanges(values.map((value) => [value, value]));
+    }
+
+    static range(min: number, max: number): CharSet {
+        return new CharSet([[min, max]]);
+    }
+
+    /**
+     * Build a set from ranges in any order, merging overlaps.
+     */
+    static fromRanges(ranges: Iterable<Range>): CharSet {
+        const sorted = [...ranges].filter(([min, max]) => min <= max).sort((a, b) => a[0] - b[0]);
+        const merged: Array<[number, number]> = [];
+        for (const [min, max] of sorted) {
+            const last = merged[merged.length - 1];
+            if (last && min <= last[1] + 1) {
+                last[1] = Math.max(last[1], max);
+            } else {
+                merged.push([min, max]);
+            }
+        }
+        return new CharSet(merged);
+    }
+
+    isEmpty(): boolean {
+        return this.ranges.length === 0;
+    }
+
+    has(value: number): boolean {
+        return this.ranges.some(([min, max]) => value >= min && value <= max);
+    }
+
+    /** Smallest member, or undefined for the empty set */
+    first(): number | undefined {
+        return this.ranges[0]?.[0];
+    }
+
+    /**
+     * A representative member, preferring readable ASCII over control
+     * characters and other code points.
+     */
+    sample(): number | undefined {
+        for (const preferred of PREFERRED_SAMPLES) {
+            const member = this.intersect(preferred).first();
+            if (member !== undefined) {
+                return member;
+            }
+        }
+        return this.first();
+    }
+
+    union(other: CharSet): CharSet {
+        return CharSet.fromRanges([...this.ranges, ...other.ranges]);
+    }
+
+    intersect(other: CharSet): CharSet {
+        const result: Range[] = [];
+        let i = 0;
+        let j = 0;
+        while (i < this.ranges.length && j < other.ranges.length) {
+            const [aMin, aMax] = this.ranges[i];
+            const [bMin, bMax] = other.ranges[j];
+            const min = Math.max(aMin, bMin);
+            const max = Math.min(aMax, bMax);
+            if (min <= max) {
+                result.push([min, max]);
+            }
+            if (aMax < bMax) {
+                i++;
+            } else {
+                j++;
+            }
+        }
+        return new CharSet(result);
+    }
+
+    /**
+     * Whether the sets share a member, without allocating the intersection.
+     */
+    intersects(other: CharSet): boolean {
+        let i = 0;
+        let j = 0;
+        while (i < this.ranges.length && j < other.ranges.length) {
+            const [aMin, aMax] = this.ranges[i];
+            const [bMin, bMax] = other.ranges[j];
+            if (Math.max(aMin, bMin) <= Math.min(aMax, bMax)) {
+                return true;
+            }
+            if (aMax < bMax) {
+                i++;
+            } else {
+                j++;
+            }
+        }
+        return false;
+    }
+
+    complement(maxValue: number): CharSet {
+        const result: Range[] = [];
+        let next = 0;
+        for (const [min, max] of this.ranges) {
+            if (min > next) {
+                result.push([next, Math.min(min - 1, maxValue)]);
+            }
+            next = max + 1;
+        }
+        if (next <= maxValue) {
+            result.push([next, maxValue]);
+        }
+        return CharSet.fromRanges(result);
+    }
+
+    subtract(other: CharSet): CharSet {
+        return this.intersect(other.complement(MAX_CODE_POINT));
+    }
+}
+
+const DIGIT = CharSet.range(0x30, 0x39);
+const PREFERRED_SAMPLES = [
+    CharSet.range(0x61, 0x7a),
+    CharSet.range(0x41, 0x5a),
+    DIGIT,
+    CharSet.range(0x21, 0x7e),
+    CharSet.range(0x20, 0x20),
+];
+const WORD = CharSet.fromRanges([[0x30, 0x39], [0x41, 0x5a], [0x5f, 0x5f], [0x61, 0x7a]]);
+const SPACE = CharSet.fromRanges([
+    [0x09, 0x0d], [0x20, 0x20], [0xa0, 0xa0], [0x1680, 0x1680], [0x2000, 0x200a],
+    [0x2028, 0x2029], [0x202f, 0x202f], [0x205f, 0x205f], [0x3000, 0x3000], [0xfeff, 0xfeff],
+]);
+const LINE_TERMINATORS = CharSet.of(0x0a, 0x0d, 0x2028, 0x2029);
+
+/** Ranges larger than this are assumed to be closed under case folding */
+const CASE_FOLD_RANGE_LIMIT = 0x3000;
+
+const SURROGATES: Range = [0xd800, 0xdfff];
+
+const propertyCache = new Map<string, CharSet>();
+let allCodePoints: string | undefined;
+
+/**
+ * Every code point except lone surrogates, in order, as one string.
+ */
+function codePointString(): string {
+    if (allCodePoints === undefined) {
+        const parts: string[] = [];
+        for (let value = 0; value <= MAX_CODE_POINT; value += 0x1000) {
+            const chunk: string[] = [];
+            for (let cp = value; cp < value + 0x1000; cp++) {
+                if (cp < SURROGATES[0] || cp > SURROGATES[1]) {
+                    chunk.push(String.fromCodePoint(cp));
+                }
+            }
+            parts.push(chunk.join(''));
+        }
+        allCodePoints = parts.join('');
+    }
+    return allCodePoints;
+}
+
+/**
+ * Members of a `\p{...}` property, computed by letting the engine scan
+ * a string of every code point once.
+ */
+function propertySet(property: string): CharSet {
+    let cached = propertyCache.get(property);
+    if (!cached) {
+        const ranges: Array<[number, number]> = [];
+        for (const match of codePointString().matchAll(new RegExp(`\\p{${property}}+`, 'gv'))) {
+            for (const char of match[0]) {
+                const value = char.codePointAt(0)!;
+                ranges.push([value, value]);
+            }
+        }
+        const lone = new RegExp(`^\\p{${property}}$`, 'v');
+        for (let value = SURROGATES[0]; value <= SURROGATES[1]; value++) {
+            if (lone.test(String.fromCharCode(value))) {
+                ranges.push([value, value]);
+            }
+        }
+        cached = CharSet.fromRanges(ranges);
+        propertyCache.set(property, cached);
+    }
+    return cached;
+}
+
+/**
+ * Add the simple upper and lower case variants of every member.
+ */
+function caseFold(set: CharSet): CharSet {
+    const extra: Range[] = [];
+    for (const [min, max] of set.ranges) {
+        if (max - min > CASE_FOLD_RANGE_LIMIT) {
+            continue;
+        }
+        for (let value = min; value <= max; value++) {
+            const char = String.fromCodePoint(value);
+            for (const variant of [char.toLowerCase(), char.toUpperCase()]) {
+                const folded = variant.codePointAt(0)!;
+                if (variant.length === String.fromCodePoint(folded).length && folded !== value) {
+                    extra.push([folded, folded]);
+                }
+            }
+        }
+    }
+    return extra.length === 0 ? set : set.union(CharSet.fromRanges(extra));
+}
+
+function escapeSet(node: RegexCharacterClassEscape, maxValue: number): CharSet {
+    let set: CharSet;
+    switch (node.kind) {
+        case 'digit':
+            set = DIGIT;
+            break;
+        case 'space':
+            set = SPACE;
+            break;
+        case 'word':
+            set = WORD;
+            break;
+        default:
+            set = propertySet(node.property!);
+    }
+    return node.negate ? set.complement(maxValue) : set;
+}
+
+function classElementSet(element: RegexClassElement, maxValue: number): CharSet {
+    switch (element.type) {
+        case 'Character':
+            return CharSet.of(element.value);
+        case 'CharacterRange':
+            return CharSet.range(element.min.value, element.max.value);
+        case 'CharacterClassEscape':
+            return escapeSet(element, maxValue);
+        case 'CharacterClass':
+            return classSet(element, maxValue);
+        case 'ClassStringDisjunction':
+            // Multi-character strings are approximated by their characters
+            return CharSet.fromRanges(element.alternatives.flat().map(({ value }) => [value, value]));
+    }
+}
+
+function classSet(node: RegexCharacterClass, maxValue: number): CharSet {
+    const sets = node.elements.map((element) => classElementSet(element, maxValue));
+    let set: CharSet;
+    if (node.kind === 'intersection') {
+        set = sets.reduce((result, next) => result.intersect(next));
+    } else if (node.kind === 'subtraction') {
+        set = sets.reduce((result, next) => result.subtract(next));
+    } else {
+        set = sets.reduce((result, next) => result.union(next), CharSet.empty());
+    }
+    return node.negate ? set.complement(maxValue) : set;
+}
+
+/**
+ * The characters a single-character AST node can consume under the given flags.
+ * Returns undefined for nodes that do not consume exactly one character.
+ */
+export function nodeCharSet(node: RegexNode, flags: RegexFlags): CharSet | undefined {
+    const maxValue = flags.unicode || flags.unicodeSets ? MAX_CODE_POINT : MAX_CODE_UNIT;
+    let set: CharSet;
+
+    switch (node.type) {
+        case 'Character':
+            set = CharSet.of(node.value);
+            break;
+        case 'Dot':
+            return flags.dotAll
+                ? CharSet.range(0, maxValue)
+                : LINE_TERMINATORS.complement(maxValue);
+        case 'CharacterClassEscape':
+            set = escapeSet(node, maxValue);
+            break;
+        case 'CharacterClass':
+            // Case folding applies before negation, so fold the members first
+            set = classSet({ ...node, negate: false }, maxValue);
+            if (flags.ignoreCase) {
+                set = caseFold(set);
+            }
+            return node.negate ? set.complement(maxValue) : set;
+        default:
+            return undefined;
+    }
+
+    return flags.ignoreCase ? caseFold(set) : set;
+}
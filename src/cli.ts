@@ -0,0 +1,553 @@
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { isAbsolute, join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import {
+    DEFAULT_CONFIG,
+    PatternComplexity,
+    PatternFinding,
+    SECURITY_PROFILES,
+    SafeRegexConfig,
+    SafeRegexReason,
+    SecurityProfile,
+    SourcePosition,
+} from './types';
+import { describeComplexity } from './analyze';
+import { extractRegexes } from './scanner';
+import { extractSchemaPatterns } from './schema';
+import { SafeRegex } from './safe-regex';
+import { VERSION } from './version';
+
+/**
+ * Everything the command line touches outside of its arguments
+ */
+export interface CliIo {
+    stdout: (text: string) => void;
+    stderr: (text: string) => void;
+    readFile: (path: string) => Promise<string>;
+
+    /** The path itself for a file, or the files below a directory */
+    listFiles: (path: string) => Promise<string[]>;
+
+    /** Contents of standard input, or '' when it is a terminal */
+    readStdin: () => Promise<string>;
+}
+
+/** Every pattern is safe */
+export const EXIT_OK = 0;
+
+/** At least one pattern is unsafe */
+export const EXIT_UNSAFE = 1;
+
+/** Bad arguments or unreadable input */
+export const EXIT_USAGE = 2;
+
+type OutputFormat = 'text' | 'json' | 'sarif';
+
+/**
+ * A pattern read from the command line, stdin or a file
+ */
+interface PatternInput {
+    pattern: string;
+    flags?: string;
+
+    /** Where the pattern came from, e.g. 'patterns.txt:3' or 'argument 1' */
+    source: string;
+
+    /** File the pattern was read from, absent for arguments and stdin */
+    file?: string;
+
+    /** 1-based line of the pattern in its file or stdin */
+    line?: number;
+
+    /** Source position of an offset into the pattern, when it is known */
+    locate?: (offset: number) => SourcePosition;
+}
+
+interface CheckResult {
+    input: PatternInput;
+    safe: boolean;
+    reason: SafeRegexReason;
+    error?: string;
+    complexity?: PatternComplexity;
+    findings: PatternFinding[];
+}
+
+class UsageError extends Error {}
+
+const USAGE = `Usage: pressurelid [options] [pattern...]
+
+       pressurelid --scan [options] [path...]
+       pressurelid --schema [options] <file...>
+
+Checks regex patterns for catastrophic backtracking. Patterns come from
+arguments, --file, or one per line on stdin when neither is given. With
+--scan, the arguments are JavaScript or TypeScript files and directories
+(default: the current directory) whose regex literals and constant
+RegExp calls are checked. With --schema, the arguments are JSON Schema
+or OpenAPI 3.x documents in JSON whose pattern keywords and
+patternProperties keys are checked, with the u flag unless --flags is
+given.
+
+Options:
+  -f, --file <path>       Read patterns from a file: one per line, or a JSON
+                          array of strings or {"pattern", "flags"} objects
+                          when the name ends in .json ("-" reads stdin)
+      --flags <flags>     Regex flags for patterns without their own
+      --scan              Check the regexes in source files instead
+      --schema            Check the patterns in JSON Schema or OpenAPI files
+      --format <format>   Output format: text, json or sarif (default: text)
+      --max-length <n>    Maximum pattern length (default: ${DEFAULT_CONFIG.maxLength})
+      --max-degree <n>    Highest polynomial degree accepted (default: ${DEFAULT_CONFIG.maxPolynomialDegree})
+      --strict            Reject any super-linear backtracking (--max-degree 1)
+      --profile <name>    Security profile: strict, balanced or permissive;
+                          --max-length and --max-degree override its limits
+  -h, --help              Show this help
+  -v, --version           Show the version
+
+Exit codes: 0 when every pattern is safe, 1 when any is not, 2 on usage errors.
+Use -- before patterns that start with a dash.
+`;
+
+const RULE_DESCRIPTIONS: Record<string, string> = {
+    'nested-quantifiers': 'Nested quantifiers can backtrack exponentially',
+    'overlapping-alternation': 'Quantified alternation with overlapping branches can backtrack exponentially',
+    'exponential-backtracking': 'Ambiguous loop can backtrack exponentially',
+    'polynomial-backtracking': 'Adjacent overlapping quantifiers can backtrack polynomially',
+    'invalid-syntax': 'Pattern is not a valid regex',
+    'analysis-limit': 'Pattern is too large to analyze',
+    'pattern-too-long': 'Pattern exceeds the maximum length',
+    'feature-not-allowed': 'Pattern uses syntax the profile forbids',
+    'flag-not-allowed': 'Pattern uses a flag the profile forbids',
+};
+
+/** Files searched for regexes by --scan, declaration files aside */
+const SOURCE_FILE = /(?<!\.d)\.[cm]?[jt]sx?$/;
+
+/**
+ * Run the `pressurelid` command with the given arguments (without the
+ * node and script paths) and resolve with its exit code.
+ *
+ * @example
+ * ```typescript
+ * process.exitCode = await runCli(['--format', 'sarif', '(a+)+$']);
+ * ```
+ */
+export async function runCli(args: string[], io: CliIo = nodeIo()): Promise<number> {
+    try {
+        const { values, positionals } = parseArgs({
+            args,
+            allowPositionals: true,
+            options: {
+                file: { type: 'string', short: 'f', multiple: true },
+                flags: { type: 'string' },
+                format: { type: 'string', default: 'text' },
+                'max-length': { type: 'string' },
+                'max-degree': { type: 'string' },
+                strict: { type: 'boolean', default: false },
+                profile: { type: 'string' },
+                scan: { type: 'boolean', default: false },
+                schema: { type: 'boolean', default: false },
+                help: { type: 'boolean', short: 'h', default: false },
+                version: { type: 'boolean', short: 'v', default: false },
+            },
+        });
+
+        if (values.help) {
+            io.stdout(USAGE);
+            return EXIT_OK;
+        }
+        if (values.version) {
+            io.stdout(`${VERSION}\n`);
+            return EXIT_OK;
+        }
+
+        const format = values.format as OutputFormat;
+        if (!['text', 'json', 'sarif'].includes(format)) {
+            throw new UsageError(`Unknown format '${values.format}', expected text, json or sarif`);
+        }
+        const config: Partial<SafeRegexConfig> = {};
+        if (values.profile !== undefined) {
+            if (!Object.hasOwn(SECURITY_PROFILES, values.profile)) {
+                throw new UsageError(`Unknown profile '${values.profile}', expected strict, balanced or permissive`);
+            }
+            config.profile = values.profile as SecurityProfile;
+        }
+        if (values['max-length'] !== undefined) {
+            config.maxLength = positiveInteger('--max-length', values['max-length']);
+        }
+        if (values['max-degree'] !== undefined) {
+            config.maxPolynomialDegree = positiveInteger('--max-degree', values['max-degree']);
+        }
+        if (values.strict) {
+            config.maxPolynomialDegree = 1;
+        }
+
+        if (values.scan && values.schema) {
+            throw new UsageError('--scan and --schema cannot be combined');
+        }
+        if (values.schema && positionals.length === 0) {
+            throw new UsageError('--schema needs at least one schema file');
+        }
+
+        const inputs = values.scan
+            ? await scanPaths(positionals.length > 0 ? positionals : ['.'], io)
+            : values.schema
+                ? await readSchemas(positionals, values.flags ?? 'u', io)
+                : positionals.map((pattern, index): PatternInput => ({
+                    pattern,
+                    flags: values.flags,
+                    source: `argument ${index + 1}`,
+                }));
+        const files = values.file ?? [];
+        for (const file of files) {
+            inputs.push(...await readPatternFile(file, values.flags, io));
+        }
+        if (!values.scan && !values.schema && positionals.length === 0 && files.length === 0) {
+            inputs.push(...readLines(await io.readStdin(), '<stdin>', undefined, values.flags));
+        }
+        if (inputs.length === 0 && !values.scan && !values.schema) {
+            throw new UsageError('No patterns to check');
+        }
+
+        const results = checkPatterns(inputs, config);
+        io.stdout(FORMATTERS[format](results));
+        return results.every((result) => result.safe) ? EXIT_OK : EXIT_UNSAFE;
+    } catch (error) {
+        if (error instanceof UsageError || isParseArgsError(error)) {
+            io.stderr(`pressurelid: ${(error as Error).message}\nRun 'pressurelid --help' for usage.\n`);
+            return EXIT_USAGE;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Check each pattern with SafeRegex.create. Patterns over the length
+ * limit are not analyzed, and get a finding for the limit instead.
+ */
+function checkPatterns(inputs: PatternInput[], config: Partial<SafeRegexConfig>): CheckResult[] {
+    const safe = new SafeRegex(config);
+
+    return inputs.map((input) => {
+        const result = safe.create(input.pattern, input.flags);
+        const findings = [...result.findings ?? []];
+        if (result.reason === 'pattern_too_long') {
+            findings.unshift({
+                ruleId: 'pattern-too-long',
+                reason: 'pattern_too_long',
+                severity: 'error',
+                message: result.error!,
+                start: 0,
+                end: input.pattern.length,
+                expression: input.pattern,
+            });
+        }
+        return {
+            input,
+            safe: result.safe,
+            reason: result.reason ?? 'ok',
+            ...(result.error === undefined ? {} : { error: result.error }),
+            ...(result.complexity === undefined ? {} : { complexity: result.complexity }),
+            findings,
+        };
+    });
+}
+
+/**
+ * The regexes in the JavaScript and TypeScript files at or below each path.
+ */
+async function scanPaths(paths: string[], io: CliIo): Promise<PatternInput[]> {
+    const inputs: PatternInput[] = [];
+    for (const path of paths) {
+        let files: string[];
+        try {
+            files = await io.listFiles(path);
+        } catch (error) {
+            throw new UsageError(`Cannot read ${path}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        for (const file of files.filter((name) => SOURCE_FILE.test(name))) {
+            const content = await readInput(file, io);
+            for (const regex of extractRegexes(content)) {
+                inputs.push({
+                    pattern: regex.pattern,
+                    flags: regex.flags,
+                    source: `${file}:${regex.line}:${regex.column}`,
+                    file,
+                    line: regex.line,
+                    locate: regex.position,
+                });
+            }
+        }
+    }
+    return inputs;
+}
+
+/**
+ * The `pattern` keywords and `patternProperties` keys of JSON Schema or
+ * OpenAPI documents, labelled with their JSON pointer. References that
+ * cannot be followed are reported on stderr.
+ */
+async function readSchemas(files: string[], flags: string, io: CliIo): Promise<PatternInput[]> {
+    const inputs: PatternInput[] = [];
+    for (const file of files) {
+        const content = await readInput(file, io);
+        let document: unknown;
+        try {
+            document = JSON.parse(content);
+        } catch (error) {
+            throw new UsageError(`Cannot parse ${file}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        const { patterns, unresolvedRefs } = extractSchemaPatterns(document);
+        for (const { pointer, ref } of unresolvedRefs) {
+            io.stderr(`pressurelid: ${file}#${pointer}: cannot follow $ref '${ref}'\n`);
+        }
+        for (const { pointer, pattern } of patterns) {
+            const input: PatternInput = { pattern, flags, source: `${file}#${pointer}`, file };
+            const at = content.indexOf(JSON.stringify(pattern));
+            if (at >= 0) {
+                input.line = content.slice(0, at).split('\n').length;
+            }
+            inputs.push(input);
+        }
+    }
+    return inputs;
+}
+
+async function readInput(file: string, io: CliIo): Promise<string> {
+    try {
+        return await io.readFile(file);
+    } catch (error) {
+        throw new UsageError(`Cannot read ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+async function readPatternFile(file: string, flags: string | undefined, io: CliIo): Promise<PatternInput[]> {
+    if (file === '-') {
+        return readLines(await io.readStdin(), '<stdin>', undefined, flags);
+    }
+    const content = await readInput(file, io);
+    return /\.json$/i.test(file) ? readJson(content, file, flags) : readLines(content, file, file, flags);
+}
+
+/**
+ * One pattern per non-blank line.
+ */
+function readLines(content: string, name: string, file: string | undefined, flags: string | undefined): PatternInput[] {
+    const inputs: PatternInput[] = [];
+    content.split(/\r?\n/).forEach((pattern, index) => {
+        if (pattern.trim() !== '') {
+            const line = index + 1;
+            inputs.push({ pattern, flags, source: `${name}:${line}`, file, line, locate: (offset) => ({ line, column: offset + 1 }) });
+        }
+    });
+    return inputs;
+}
+
+/**
+ * An array of patterns, each a string or an object with `pattern` and
+ * optional `flags`. The line of each is found by searching for its
+ * JSON-encoded form.
+ */
+function readJson(content: string, file: string, flags: string | undefined): PatternInput[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(content);
+    } catch (error) {
+        throw new UsageError(`Cannot parse ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!Array.isArray(data)) {
+        throw new UsageError(`${file} must contain an array of patterns`);
+    }
+
+    let cursor = 0;
+    return data.map((entry: unknown, index): PatternInput => {
+        const item = typeof entry === 'string' ? { pattern: entry } : entry as { pattern?: unknown; flags?: unknown };
+        if (item === null || typeof item !== 'object' || typeof item.pattern !== 'string'
+            || (item.flags !== undefined && typeof item.flags !== 'string')) {
+            throw new UsageError(`${file}: entry ${index + 1} must be a string or an object with a string "pattern"`);
+        }
+
+        const input: PatternInput = {
+            pattern: item.pattern,
+            flags: (item.flags as string | undefined) ?? flags,
+            source: `${file}[${index}]`,
+            file,
+        };
+        const at = content.indexOf(JSON.stringify(item.pattern), cursor);
+        if (at >= 0) {
+            cursor = at + 1;
+            input.line = content.slice(0, at).split('\n').length;
+            input.source = `${file}:${input.line}`;
+        }
+        return input;
+    });
+}
+
+function positiveInteger(option: string, value: string): number {
+    if (!/^\d+$/.test(value) || Number(value) < 1) {
+        throw new UsageError(`${option} must be a positive integer, got '${value}'`);
+    }
+    return Number(value);
+}
+
+function isParseArgsError(error: unknown): boolean {
+    return error instanceof TypeError && String((error as { code?: unknown }).code).startsWith('ERR_PARSE_ARGS');
+}
+
+const FORMATTERS: Record<OutputFormat, (results: CheckResult[]) => string> = {
+    text: formatText,
+    json: formatJson,
+    sarif: formatSarif,
+};
+
+/**
+ * One line per pattern, followed by its findings and a summary.
+ */
+function formatText(results: CheckResult[]): string {
+    const lines: string[] = [];
+    for (const result of results) {
+        const complexity = result.complexity ? `  ${describeComplexity(result.complexity)}` : '';
+        lines.push(`${result.safe ? 'ok  ' : 'FAIL'}  ${result.input.source}  ${result.input.pattern}${complexity}`);
+        for (const finding of result.findings) {
+            lines.push(`      ${finding.severity} ${finding.ruleId} at ${finding.start}-${finding.end} \`${finding.expression}\`: ${finding.message}`);
+        }
+    }
+    const unsafe = results.filter((result) => !result.safe).length;
+    lines.push('', unsafe === 0
+        ? `${results.length} ${plural(results.length)} checked, all safe`
+        : `${results.length} ${plural(results.length)} checked, ${unsafe} unsafe`);
+    return `${lines.join('\n')}\n`;
+}
+
+function plural(count: number): string {
+    return count === 1 ? 'pattern' : 'patterns';
+}
+
+function formatJson(results: CheckResult[]): string {
+    const output = {
+        version: VERSION,
+        results: results.map(({ input, ...result }) => ({
+            pattern: input.pattern,
+            ...(input.flags === undefined ? {} : { flags: input.flags }),
+            source: input.source,
+            ...result,
+        })),
+        summary: {
+            checked: results.length,
+            unsafe: results.filter((result) => !result.safe).length,
+        },
+    };
+    return `${JSON.stringify(output, null, 2)}\n`;
+}
+
+/**
+ * SARIF 2.1.0 log with one result per finding. Findings in patterns read
+ * line by line or scanned from source are located down to the column.
+ */
+function formatSarif(results: CheckResult[]): string {
+    const ruleIds = [...new Set(results.flatMap((result) => result.findings.map((finding) => finding.ruleId)))];
+    const sarifResults = results.flatMap(({ input, findings }) => findings.map((finding) => {
+        const location: Record<string, unknown> = {
+            logicalLocations: [{ name: input.source, kind: 'regex' }],
+        };
+        if (input.file !== undefined) {
+            const region = sarifRegion(input, finding);
+            location.physicalLocation = {
+                artifactLocation: { uri: artifactUri(input.file) },
+                ...(region ? { region } : {}),
+            };
+        }
+        return {
+            ruleId: finding.ruleId,
+            ruleIndex: ruleIds.indexOf(finding.ruleId),
+            level: finding.severity,
+            message: { text: `${finding.message}: \`${finding.expression}\` in /${input.pattern}/${input.flags ?? ''}` },
+            locations: [location],
+            properties: { pattern: input.pattern, reason: finding.reason, start: finding.start, end: finding.end },
+        };
+    }));
+
+    const log = {
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [{
+            tool: {
+                driver: {
+                    name: 'pressurelid',
+                    version: VERSION,
+                    informationUri: 'https://utilarium.github.io/pressurelid/',
+                    rules: ruleIds.map((id) => ({
+                        id,
+                        shortDescription: { text: RULE_DESCRIPTIONS[id] ?? id },
+                    })),
+                },
+            },
+            results: sarifResults,
+        }],
+    };
+    return `${JSON.stringify(log, null, 2)}\n`;
+}
+
+function sarifRegion(input: PatternInput, finding: PatternFinding): Record<string, number> | undefined {
+    if (input.locate) {
+        const start = input.locate(finding.start);
+        const end = input.locate(finding.end);
+        return { startLine: start.line, startColumn: start.column, endLine: end.line, endColumn: end.column };
+    }
+    return input.line === undefined ? undefined : { startLine: input.line };
+}
+
+/**
+ * Relative paths stay relative to the working directory, which SARIF
+ * consumers resolve against the repository root.
+ */
+function artifactUri(file: string): string {
+    return isAbsolute(file) ? pathToFileURL(file).href : encodeURI(file.replace(/\\/g, '/'));
+}
+
+function nodeIo(): CliIo {
+    return {
+        stdout: (text) => process.stdout.write(text),
+        stderr: (text) => process.stderr.write(text),
+        readFile: (path) => readFile(path, 'utf8'),
+        listFiles,
+        readStdin: async () => {
+            if (process.stdin.isTTY) {
+                return '';
+            }
+            let content = '';
+            process.stdin.setEncoding('utf8');
+            for await (const chunk of process.stdin) {
+                content += chunk;
+            }
+            return content;
+        },
+    };
+}
+
+/**
+ * Files below a directory in name order, skipping node_modules and
+ * hidden entries.
+ */
+async function listFiles(path: string): Promise<string[]> {
+    if (!(await stat(path)).isDirectory()) {
+        return [path];
+    }
+    const files: string[] = [];
+    const entries = await readdir(path, { withFileTypes: true });
+    entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+    for (const entry of entries) {
+        if (entry.name === 'node_modules' || entry.name.startsWith('.')) {
+            continue;
+        }
+        const child = join(path, entry.name);
+        if (entry.isDirectory()) {
+            files.push(...await listFiles(child));
+        } else if (entry.isFile()) {
+            files.push(child);
+        }
+    }
+    return files;
+}
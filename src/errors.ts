@@ -0,0 +1,156 @@
+import { PatternComplexity, PatternFinding, RegexExecutionResult, RegexOperation, SafeRegexReason, SafeRegexResult } from './types';
+
+/**
+ * Base class of the errors thrown by the `OrThrow` methods of SafeRegex
+ * and by testWithTimeout(). Carries the reason code a result would have
+ * had, the pattern (or glob) concerned and the findings of its analysis.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   const regex = safe.createOrThrow(userPattern);
+ * } catch (error) {
+ *   if (error instanceof UnsafePatternError) {
+ *     // error.reason, error.complexity, error.findings
+ *   }
+ * }
+ * ```
+ */
+export class SafeRegexError extends Error {
+    constructor(
+        message: string,
+        readonly reason: SafeRegexReason,
+        readonly pattern: string,
+        readonly findings: PatternFinding[] = [],
+    ) {
+        super(message);
+        this.name = 'SafeRegexError';
+    }
+}
+
+/**
+ * The pattern or glob is longer than `maxLength`, or the glob expands
+ * to too many alternatives.
+ */
+export class PatternTooLongError extends SafeRegexError {
+    constructor(message: string, pattern: string) {
+        super(message, 'pattern_too_long', pattern);
+        this.name = 'PatternTooLongError';
+    }
+}
+
+/**
+ * The pattern is not a valid regex for its flags.
+ */
+export class InvalidSyntaxError extends SafeRegexError {
+    constructor(message: string, pattern: string, findings: PatternFinding[] = []) {
+        super(message, 'invalid_syntax', pattern, findings);
+        this.name = 'InvalidSyntaxError';
+    }
+}
+
+/**
+ * The pattern was rejected for its backtracking, found by the analysis
+ * or measured by createWithProbe().
+ */
+export class UnsafePatternError extends SafeRegexError {
+    constructor(
+        message: string,
+        reason: SafeRegexReason,
+        pattern: string,
+        findings: PatternFinding[] = [],
+        readonly complexity?: PatternComplexity,
+    ) {
+        super(message, reason, pattern, findings);
+        this.name = 'UnsafePatternError';
+    }
+}
+
+/**
+ * The pattern uses a feature or flag the `features` policy forbids.
+ */
+export class FeatureNotAllowedError extends SafeRegexError {
+    constructor(message: string, reason: 'feature_not_allowed' | 'flag_not_allowed', pattern: string, findings: PatternFinding[] = []) {
+        super(message, reason, pattern, findings);
+        this.name = 'FeatureNotAllowedError';
+    }
+}
+
+/**
+ * The input is over the limit from `maxInputLength` and
+ * `inputComplexityBudget`, so it was not matched.
+ */
+export class InputTooLongError extends SafeRegexError {
+    constructor(message: string, pattern: string, readonly inputLength: number, readonly limit: number) {
+        super(message, 'input_too_long', pattern);
+        this.name = 'InputTooLongError';
+    }
+}
+
+/**
+ * Matching was stopped by `timeoutMs`, or by `maxBacktrackDepth` with
+ * `reason: 'backtrack_limit'`. `limit` is in milliseconds or steps.
+ */
+export class ExecutionTimeoutError extends SafeRegexError {
+    constructor(
+        message: string,
+        reason: 'execution_timeout' | 'backtrack_limit',
+        pattern: string,
+        readonly operation: RegexOperation,
+        readonly limit: number,
+    ) {
+        super(message, reason, pattern);
+        this.name = 'ExecutionTimeoutError';
+    }
+}
+
+/**
+ * The error for a result create() or globToRegex() rejected.
+ */
+export function resultError(pattern: string, result: SafeRegexResult): SafeRegexError {
+    const message = result.error ?? 'Pattern blocked';
+    const findings = result.findings ?? [];
+    switch (result.reason) {
+        case 'pattern_too_long':
+            return new PatternTooLongError(message, pattern);
+        case 'invalid_syntax':
+            return new InvalidSyntaxError(message, pattern, findings);
+        case 'feature_not_allowed':
+        case 'flag_not_allowed':
+            return new FeatureNotAllowedError(message, result.reason, pattern, findings);
+        case 'nested_quantifiers':
+        case 'overlapping_alternation':
+        case 'catastrophic_backtracking':
+        case 'measured_backtracking':
+            return new UnsafePatternError(message, result.reason, pattern, findings, result.complexity);
+        default:
+            return new SafeRegexError(message, result.reason ?? 'invalid_syntax', pattern, findings);
+    }
+}
+
+/**
+ * The error for an execution that did not finish with `reason: 'ok'`.
+ * `limit` is the one that applies to the reason.
+ */
+export function executionError(
+    operation: RegexOperation,
+    regex: RegExp,
+    input: string,
+    result: RegexExecutionResult,
+    limit: number,
+): SafeRegexError {
+    const message = result.error ?? `Regex execution failed with reason ${result.reason}`;
+    switch (result.reason) {
+        case 'pattern_too_long':
+            return new PatternTooLongError(message, regex.source);
+        case 'input_too_long':
+            return new InputTooLongError(message, regex.source, input.length, limit);
+        case 'execution_timeout':
+        case 'backtrack_limit':
+            return new ExecutionTimeoutError(message, result.reason, regex.source, operation, limit);
+        case 'invalid_syntax':
+            return new InvalidSyntaxError(message, regex.source);
+        default:
+            return new SafeRegexError(message, result.reason, regex.source);
+    }
+}
@@ -0,0 +1,578 @@
+import type { ESLint, Linter, Rule, SourceCode } from 'eslint';
+import type * as ESTree from 'estree';
+import { DEFAULT_CONFIG } from './types';
+import { analyzePattern } from './analyze';
+import { DEFAULT_TAINT_SOURCES, TaintTracker, findVariable } from './taint';
+import { VERSION } from './version';
+
+const PACKAGE = '@utilarium/pressurelid';
+
+type RegExpCall = (ESTree.NewExpression | ESTree.CallExpression) & Rule.NodeParentExtension;
+
+/**
+ * Flags regex literals, and `RegExp` calls with a constant pattern, that
+ * analyzePattern rejects. Findings in a literal are reported on the
+ * offending sub-expression; findings in a string on the whole string.
+ */
+const noUnsafeRegex: Rule.RuleModule = {
+    meta: {
+        type: 'problem',
+        docs: {
+            description: 'Disallow regexes that can backtrack catastrophically',
+            recommended: true,
+        },
+        schema: [{
+            type: 'object',
+            properties: {
+                maxPolynomialDegree: { type: 'integer', minimum: 1 },
+            },
+            additionalProperties: false,
+        }],
+        messages: {
+            unsafe: '{{message}}: `{{expression}}`',
+        },
+    },
+    create(context) {
+        const maxPolynomialDegree: number = context.options[0]?.maxPolynomialDegree ?? DEFAULT_CONFIG.maxPolynomialDegree;
+        const { sourceCode } = context;
+
+        const check = (node: ESTree.Node, pattern: string, flags: string, offset?: number) => {
+            const analysis = analyzePattern(pattern, flags, { maxPolynomialDegree });
+            for (const finding of analysis.findings) {
+                if (finding.severity !== 'error') {
+                    continue;
+                }
+                const data = { message: finding.message, expression: finding.expression };
+                if (offset === undefined) {
+                    context.report({ node, messageId: 'unsafe', data });
+                } else {
+                    context.report({
+                        loc: {
+                            start: sourceCode.getLocFromIndex(offset + finding.start),
+                            end: sourceCode.getLocFromIndex(offset + finding.end),
+                        },
+                        messageId: 'unsafe',
+                        data,
+                    });
+                }
+            }
+        };
+
+        return {
+            Literal(node) {
+                if ('regex' in node && node.regex) {
+                    check(node, node.regex.pattern, node.regex.flags, node.range![0] + 1);
+                }
+            },
+            'NewExpression, CallExpression'(node: RegExpCall) {
+                if (!isRegExpCall(node, sourceCode)) {
+                    return;
+                }
+                const [patternArgument, flagsArgument] = node.arguments;
+                const pattern = constantString(patternArgument);
+                if (pattern !== undefined) {
+                    check(patternArgument, pattern, (flagsArgument && constantString(flagsArgument)) ?? '');
+                }
+            },
+        };
+    },
+};
+
+/**
+ * Flags `RegExp` calls whose pattern is not a constant, which should go
+ * through `createSafeRegex` or `SafeRegex.create` instead. The fix
+ * rewrites `new RegExp(pattern, flags)` to
+ * `createSafeRegex(pattern, flags).regex ?? /(?!)/g`, importing
+ * `createSafeRegex` when needed; it is not offered for spread arguments,
+ * more than two arguments, or outside ES modules.
+ */
+const requireSafeRegexForDynamicPatterns: Rule.RuleModule = {
+    meta: {
+        type: 'suggestion',
+        docs: {
+            description: 'Require dynamic regex patterns to be checked by SafeRegex',
+            recommended: true,
+        },
+        fixable: 'code',
+        schema: [],
+        messages: {
+            dynamic: 'Dynamic pattern passed to RegExp; use createSafeRegex() or SafeRegex.create() to check it first',
+        },
+    },
+    create(context) {
+        const { sourceCode } = context;
+
+        return {
+            'NewExpression, CallExpression'(node: RegExpCall) {
+                if (!isRegExpCall(node, sourceCode)) {
+                    return;
+                }
+                const [patternArgument] = node.arguments;
+                if (patternArgument === undefined || constantString(patternArgument) !== undefined || isRegexLiteral(patternArgument)) {
+                    return;
+                }
+                if (checkedBySafeRegex(node, sourceCode)) {
+                    return;
+                }
+                context.report({
+                    node,
+                    messageId: 'dynamic',
+                    fix: (fixer) => wrapInCreateSafeRegex(fixer, node, sourceCode),
+                });
+            },
+        };
+    },
+};
+
+/**
+ * The fix for requireSafeRegexForDynamicPatterns, or null when none is possible.
+ */
+function wrapInCreateSafeRegex(fixer: Rule.RuleFixer, node: RegExpCall, sourceCode: SourceCode): Rule.Fix[] | null {
+    const args = node.arguments;
+    if (args.length > 2 || args.some((arg) => arg.type === 'SpreadElement')) {
+        return null;
+    }
+    const binding = importBinding(fixer, sourceCode, node, 'createSafeRegex');
+    if (!binding) {
+        return null;
+    }
+    const text = checkedRegex(binding.name, args.map((arg) => sourceCode.getText(arg)).join(', '));
+    return [...binding.fixes, fixer.replaceText(node, isOperand(node) ? text : `(${text})`)];
+}
+
+/**
+ * `createSafeRegex(args).regex` that fails closed: a rejected pattern
+ * gives a regex that never matches instead of undefined. It is global so
+ * that `matchAll` and `replaceAll` accept it.
+ */
+function checkedRegex(name: string, args: string): string {
+    return `${name}(${args}).regex ?? /(?!)/g`;
+}
+
+/**
+ * Whether `node` can be replaced by a `??` expression without parentheses.
+ */
+function isOperand(node: ESTree.Node & Rule.NodeParentExtension): boolean {
+    const { parent } = node;
+    switch (parent.type) {
+        case 'CallExpression':
+        case 'NewExpression':
+            return parent.arguments.includes(node as ESTree.Expression);
+        case 'VariableDeclarator':
+            return parent.init === node;
+        case 'ReturnStatement':
+        case 'ExpressionStatement':
+            return true;
+        case 'ArrayExpression':
+            return parent.elements.includes(node as ESTree.Expression);
+        default:
+            return false;
+    }
+}
+
+/**
+ * How to refer to an export of this package at `node`, with the fixes
+ * that import it if it is not imported yet. Null outside ES modules or
+ * when another binding has the name.
+ */
+function importBinding(
+    fixer: Rule.RuleFixer,
+    sourceCode: SourceCode,
+    node: ESTree.Node,
+    exported: string,
+): { name: string; fixes: Rule.Fix[] } | null {
+    if (sourceCode.ast.sourceType !== 'module') {
+        return null;
+    }
+    const imports = sourceCode.ast.body.filter((statement): statement is ESTree.ImportDeclaration =>
+        statement.type === 'ImportDeclaration' && statement.source.value === PACKAGE);
+    let name: string | undefined;
+    for (const declaration of imports) {
+        for (const specifier of declaration.specifiers) {
+            if (specifier.type === 'ImportSpecifier' && importedName(specifier) === exported) {
+                name = specifier.local.name;
+            } else if (specifier.type === 'ImportNamespaceSpecifier') {
+                name ??= `${specifier.local.name}.${exported}`;
+            }
+        }
+    }
+    if (name !== undefined) {
+        return { name, fixes: [] };
+    }
+    if (findVariable(sourceCode.getScope(node), exported)) {
+        return null;
+    }
+
+    const named = imports.find((declaration) => declaration.specifiers.some((specifier) => specifier.type === 'ImportSpecifier'));
+    if (named) {
+        return { name: exported, fixes: [fixer.insertTextAfter(named.specifiers.at(-1)!, `, ${exported}`)] };
+    }
+    const lastImport = sourceCode.ast.body.filter((statement) => statement.type === 'ImportDeclaration').at(-1);
+    const statement = `import { ${exported} } from '${PACKAGE}';`;
+    return {
+        name: exported,
+        fixes: [lastImport
+            ? fixer.insertTextAfter(lastImport, `\n${statement}`)
+            : fixer.insertTextBeforeRange([0, 0], `${statement}\n`)],
+    };
+}
+
+/** String methods that compile a string argument into a regex */
+const MATCH_METHODS = new Set(['match', 'matchAll', 'search']);
+
+/** String methods that take a string argument literally */
+const LITERAL_METHODS = new Set(['replace', 'replaceAll', 'split']);
+
+/**
+ * Flags untrusted data, as traced by TaintTracker, that reaches a
+ * `RegExp` call or the pattern of `match`, `matchAll` or `search`.
+ *
+ * The fix works as a codemod. Untrusted parts of a pattern with constant
+ * text around them, and untrusted patterns given to `replace`,
+ * `replaceAll` or `split`, are meant literally and are wrapped in
+ * `escapeForRegex()`. Any other untrusted pattern is meant as a regex
+ * and goes through `createSafeRegex()`. Both expect a string, so the fix
+ * is only applied when the wrapped operands are known to be strings; a
+ * parameter could as well hold a RegExp, and the rewrite is then offered
+ * as a suggestion.
+ */
+const noUntrustedRegex: Rule.RuleModule = {
+    meta: {
+        type: 'problem',
+        docs: {
+            description: 'Disallow regexes built from untrusted data',
+            recommended: false,
+        },
+        fixable: 'code',
+        hasSuggestions: true,
+        schema: [{
+            type: 'object',
+            properties: {
+                sources: { type: 'array', items: { type: 'string' }, uniqueItems: true },
+            },
+            additionalProperties: false,
+        }],
+        messages: {
+            untrusted: 'Untrusted data from {{source}} is used as a regex pattern; escape it with escapeForRegex() or check it with createSafeRegex()',
+            escape: 'Escape the untrusted parts with escapeForRegex()',
+            check: 'Check the pattern with createSafeRegex()',
+        },
+    },
+    create(context) {
+        const { sourceCode } = context;
+        const taint = new TaintTracker(sourceCode, context.options[0]?.sources ?? DEFAULT_TAINT_SOURCES);
+
+        const untrustedPattern = (pattern: ESTree.Node | undefined): string | undefined => {
+            if (pattern === undefined || pattern.type === 'SpreadElement') {
+                return undefined;
+            }
+            return taint.sourceOf(pattern);
+        };
+
+        // A fix when every wrapped operand is a string, a suggestion otherwise
+        const fixOrSuggest = (operands: ESTree.Node[], messageId: string, fix: Rule.ReportFixer) => (
+            operands.every((operand) => isString(operand, sourceCode))
+                ? { fix }
+                : { suggest: [{ messageId, fix }] }
+        );
+
+        return {
+            'NewExpression, CallExpression'(node: RegExpCall) {
+                if (isRegExpCall(node, sourceCode)) {
+                    const [pattern] = node.arguments;
+                    const source = checkedBySafeRegex(node, sourceCode) ? undefined : untrustedPattern(pattern);
+                    if (source === undefined) {
+                        return;
+                    }
+                    const { parent } = node;
+                    const literal = parent.type === 'CallExpression' && parent.arguments[0] === node
+                        && LITERAL_METHODS.has(methodName(parent) ?? '');
+                    const parts = escapedParts(pattern, taint, literal);
+                    context.report({
+                        node,
+                        messageId: 'untrusted',
+                        data: { source },
+                        ...(parts
+                            ? fixOrSuggest(parts, 'escape', (fixer) => escapeUntrusted(fixer, parts, pattern, sourceCode))
+                            : fixOrSuggest([pattern], 'check', (fixer) => wrapInCreateSafeRegex(fixer, node, sourceCode))),
+                    });
+                    return;
+                }
+
+                const method = node.type === 'CallExpression' ? methodName(node) : undefined;
+                if (method === undefined || !MATCH_METHODS.has(method)) {
+                    return;
+                }
+                const [pattern] = node.arguments;
+                if ((pattern?.type === 'NewExpression' || pattern?.type === 'CallExpression') && isRegExpCall(pattern as RegExpCall, sourceCode)) {
+                    // Reported where the RegExp is constructed
+                    return;
+                }
+                const source = untrustedPattern(pattern);
+                if (source === undefined) {
+                    return;
+                }
+                const parts = escapedParts(pattern, taint, false);
+                context.report({
+                    node: pattern,
+                    messageId: 'untrusted',
+                    data: { source },
+                    ...(parts
+                        ? fixOrSuggest(parts, 'escape', (fixer) => escapeUntrusted(fixer, parts, pattern, sourceCode))
+                        : fixOrSuggest([pattern], 'check', (fixer) => {
+                            const binding = importBinding(fixer, sourceCode, node, 'createSafeRegex');
+                            if (!binding) {
+                                return null;
+                            }
+                            const flags = method === 'matchAll' ? ", 'g'" : '';
+                            return [...binding.fixes, fixer.replaceText(pattern, checkedRegex(binding.name, `${sourceCode.getText(pattern)}${flags}`))];
+                        })),
+                });
+            },
+        };
+    },
+};
+
+/**
+ * The parts of a pattern to wrap in `escapeForRegex()`: all of it when
+ * `literal`, otherwise the untrusted parts of a template or concatenation
+ * with constant text. Undefined when that does not apply.
+ */
+function escapedParts(pattern: ESTree.Node, taint: TaintTracker, literal: boolean): ESTree.Node[] | undefined {
+    let parts: ESTree.Node[];
+    if (literal) {
+        parts = [pattern];
+    } else if (pattern.type === 'TemplateLiteral' && pattern.quasis.some((quasi) => quasi.value.raw !== '')) {
+        parts = pattern.expressions;
+    } else if (pattern.type === 'BinaryExpression' && pattern.operator === '+') {
+        parts = concatenated(pattern);
+        if (!parts.some((part) => constantString(part))) {
+            return undefined;
+        }
+    } else {
+        return undefined;
+    }
+    const untrusted = parts.filter((part) => taint.sourceOf(part) !== undefined);
+    return untrusted.length > 0 ? untrusted : undefined;
+}
+
+/**
+ * The fix that wraps `parts` of `pattern` in `escapeForRegex()`.
+ */
+function escapeUntrusted(
+    fixer: Rule.RuleFixer,
+    parts: ESTree.Node[],
+    pattern: ESTree.Node,
+    sourceCode: SourceCode,
+): Rule.Fix[] | null {
+    const binding = importBinding(fixer, sourceCode, pattern, 'escapeForRegex');
+    if (!binding) {
+        return null;
+    }
+    return [
+        ...binding.fixes,
+        ...parts.map((part) => {
+            const text = sourceCode.getText(part);
+            return fixer.replaceText(part, `${binding.name}(${part.type === 'SequenceExpression' ? `(${text})` : text})`);
+        }),
+    ];
+}
+
+/**
+ * The operands of a chain of `+`.
+ */
+function concatenated(node: ESTree.Node): ESTree.Node[] {
+    return node.type === 'BinaryExpression' && node.operator === '+'
+        ? [...concatenated(node.left), ...concatenated(node.right)]
+        : [node];
+}
+
+/** Functions that always return a string */
+const STRING_FUNCTIONS = new Set(['String', 'decodeURIComponent', 'encodeURIComponent', 'decodeURI', 'encodeURI', 'escapeForRegex']);
+
+/** String methods that return a string */
+const STRING_METHODS = new Set([
+    'trim', 'trimStart', 'trimEnd', 'toLowerCase', 'toUpperCase', 'toLocaleLowerCase', 'toLocaleUpperCase',
+    'normalize', 'padStart', 'padEnd', 'repeat', 'slice', 'substring', 'charAt', 'concat',
+]);
+
+/**
+ * Whether `node` is known to be a string: a string literal, a template,
+ * a concatenation with a string, `String(...)` and the like, or a
+ * `const` initialised with one of those. `slice` and `concat` also exist
+ * on arrays, so they only count on a receiver that is a string.
+ */
+function isString(node: ESTree.Node, sourceCode: SourceCode, depth = 0): boolean {
+    if (depth > 10) {
+        return false;
+    }
+    const string = (operand: ESTree.Node) => isString(operand, sourceCode, depth + 1);
+    switch (node.type) {
+        case 'Literal':
+            return typeof node.value === 'string';
+        case 'TemplateLiteral':
+            return true;
+        case 'TaggedTemplateExpression':
+            return constantString(node) !== undefined;
+        case 'BinaryExpression':
+            return node.operator === '+' && (string(node.left) || string(node.right));
+        case 'ConditionalExpression':
+            return string(node.consequent) && string(node.alternate);
+        case 'CallExpression': {
+            const { callee } = node;
+            if (callee.type === 'Identifier') {
+                return STRING_FUNCTIONS.has(callee.name);
+            }
+            const method = methodName(node);
+            return method !== undefined && STRING_METHODS.has(method)
+                && (!['slice', 'concat'].includes(method) || string((callee as ESTree.MemberExpression).object));
+        }
+        case 'Identifier': {
+            const variable = findVariable(sourceCode.getScope(node), node.name);
+            const declarator = variable?.defs.length === 1 ? variable.defs[0] : undefined;
+            return declarator?.type === 'Variable' && declarator.parent.kind === 'const'
+                && declarator.node.init !== null && declarator.node.init !== undefined && string(declarator.node.init);
+        }
+        default: {
+            // `x as string` in TypeScript
+            const cast = node as unknown as { type: string; expression: ESTree.Node; typeAnnotation: { type: string } };
+            return cast.type === 'TSAsExpression' && cast.typeAnnotation.type === 'TSStringKeyword';
+        }
+    }
+}
+
+/**
+ * `m` for a call `receiver.m(...)` or `receiver?.m(...)`.
+ */
+function methodName(node: ESTree.CallExpression): string | undefined {
+    const { callee } = node;
+    return callee.type === 'MemberExpression' && !callee.computed && callee.property.type === 'Identifier'
+        ? callee.property.name
+        : undefined;
+}
+
+/**
+ * `new RegExp(...)` or `RegExp(...)` with the global RegExp.
+ */
+function isRegExpCall(node: RegExpCall, sourceCode: SourceCode): boolean {
+    if (node.callee.type !== 'Identifier' || node.callee.name !== 'RegExp') {
+        return false;
+    }
+    const variable = findVariable(sourceCode.getScope(node), 'RegExp');
+    return !variable || variable.defs.length === 0;
+}
+
+function isRegexLiteral(node: ESTree.Node): boolean {
+    return node.type === 'Literal' && 'regex' in node;
+}
+
+/**
+ * Whether a `RegExp` call, or its `.source`, is the pattern given to
+ * `createSafeRegex()` or to `create()` on a SafeRegex, which checks it
+ * before anything is matched.
+ */
+function checkedBySafeRegex(node: RegExpCall, sourceCode: SourceCode): boolean {
+    const { parent } = node;
+    const argument = parent.type === 'MemberExpression' && parent.object === node && !parent.computed
+        && parent.property.type === 'Identifier' && parent.property.name === 'source'
+        ? parent as ESTree.MemberExpression & Rule.NodeParentExtension
+        : node;
+    const call = argument.parent;
+    return call.type === 'CallExpression' && call.arguments[0] === argument && isSafeRegexCall(call, sourceCode);
+}
+
+/**
+ * `createSafeRegex(...)`, also through a namespace, or `safe.create(...)`
+ * where `safe` is a SafeRegex.
+ */
+function isSafeRegexCall(node: ESTree.CallExpression, sourceCode: SourceCode): boolean {
+    const { callee } = node;
+    if (callee.type === 'Identifier') {
+        return callee.name === 'createSafeRegex';
+    }
+    if (callee.type !== 'MemberExpression' || callee.property.type !== 'Identifier') {
+        return false;
+    }
+    if (callee.property.name === 'createSafeRegex') {
+        return true;
+    }
+    if (callee.property.name !== 'create') {
+        return false;
+    }
+    let object: ESTree.Node | null | undefined = callee.object;
+    if (object.type === 'Identifier') {
+        const definition = findVariable(sourceCode.getScope(node), object.name)?.defs[0]?.node as ESTree.Node | undefined;
+        object = definition?.type === 'VariableDeclarator' ? definition.init : undefined;
+    }
+    return object?.type === 'NewExpression' && isNamed(object.callee, 'SafeRegex');
+}
+
+/**
+ * `name`, or `something.name`.
+ */
+function isNamed(node: ESTree.Node, name: string): boolean {
+    return node.type === 'Identifier' ? node.name === name
+        : node.type === 'MemberExpression' && node.property.type === 'Identifier' && node.property.name === name;
+}
+
+/**
+ * The value of a string literal, a template without substitutions or a
+ * `String.raw` template.
+ */
+function constantString(node: ESTree.Node | undefined): string | undefined {
+    if (node?.type === 'Literal' && typeof node.value === 'string') {
+        return node.value;
+    }
+    if (node?.type === 'TemplateLiteral' && node.expressions.length === 0) {
+        return node.quasis[0].value.cooked ?? undefined;
+    }
+    if (node?.type === 'TaggedTemplateExpression' && node.quasi.expressions.length === 0
+        && node.tag.type === 'MemberExpression' && !node.tag.computed
+        && node.tag.object.type === 'Identifier' && node.tag.object.name === 'String'
+        && node.tag.property.type === 'Identifier' && node.tag.property.name === 'raw') {
+        return node.quasi.quasis[0].value.raw;
+    }
+    return undefined;
+}
+
+function importedName(specifier: ESTree.ImportSpecifier): string {
+    return specifier.imported.type === 'Identifier' ? specifier.imported.name : String(specifier.imported.value);
+}
+
+/**
+ * ESLint plugin with the `no-unsafe-regex`,
+ * `require-safe-regex-for-dynamic-patterns` and `no-untrusted-regex`
+ * rules.
+ *
+ * @example
+ * ```javascript
+ * // eslint.config.mjs
+ * import pressurelid from '@utilarium/pressurelid/eslint-plugin';
+ *
+ * export default [
+ *     pressurelid.configs.recommended,
+ * ];
+ * ```
+ */
+const plugin: ESLint.Plugin & { configs: Record<string, Linter.Config> } = {
+    meta: {
+        name: PACKAGE,
+        version: VERSION,
+    },
+    rules: {
+        'no-unsafe-regex': noUnsafeRegex,
+        'require-safe-regex-for-dynamic-patterns': requireSafeRegexForDynamicPatterns,
+        'no-untrusted-regex': noUntrustedRegex,
+    },
+    configs: {},
+};
+
+plugin.configs.recommended = {
+    plugins: { pressurelid: plugin },
+    rules: {
+        'pressurelid/no-unsafe-regex': 'error',
+        'pressurelid/require-safe-regex-for-dynamic-patterns': 'warn',
+    },
+};
+
+export default plugin;
@@ -0,0 +1,81 @@
+import { FeaturePolicy, PatternFinding, RegexNode, RegexPattern } from './types';
+import { walkRegex } from './parser';
+
+type Feature = Exclude<keyof FeaturePolicy, 'allowedFlags'>;
+
+/**
+ * The feature a node uses, with the message reported when it is forbidden.
+ */
+const FEATURES: Array<{ feature: Feature; test: (node: RegexNode) => boolean; message: string }> = [
+    {
+        feature: 'backreferences',
+        test: (node) => node.type === 'Backreference',
+        message: 'Backreferences are not allowed',
+    },
+    {
+        feature: 'lookahead',
+        test: (node) => node.type === 'Lookaround' && node.kind === 'lookahead',
+        message: 'Lookahead assertions are not allowed',
+    },
+    {
+        feature: 'lookbehind',
+        test: (node) => node.type === 'Lookaround' && node.kind === 'lookbehind',
+        message: 'Lookbehind assertions are not allowed',
+    },
+    {
+        feature: 'unicodePropertyEscapes',
+        test: (node) => node.type === 'CharacterClassEscape' && node.kind === 'property',
+        message: 'Unicode property escapes are not allowed',
+    },
+    {
+        feature: 'unboundedQuantifiers',
+        test: (node) => node.type === 'Quantifier' && node.max === Infinity,
+        message: 'Unbounded quantifiers are not allowed',
+    },
+];
+
+/**
+ * Findings for every use of a feature or flag that the policy forbids.
+ * Forbidden flags are reported over the whole pattern.
+ */
+export function checkFeatures(ast: RegexPattern, flags: string, policy: Partial<FeaturePolicy>): PatternFinding[] {
+    const findings: PatternFinding[] = [];
+    const pattern = ast.source;
+
+    if (policy.allowedFlags !== undefined) {
+        for (const flag of flags) {
+            if (!policy.allowedFlags.includes(flag)) {
+                findings.push({
+                    ruleId: 'flag-not-allowed',
+                    reason: 'flag_not_allowed',
+                    severity: 'error',
+                    message: `Flag '${flag}' is not allowed`,
+                    start: 0,
+                    end: pattern.length,
+                    expression: pattern,
+                });
+            }
+        }
+    }
+
+    const forbidden = FEATURES.filter(({ feature }) => policy[feature] === false);
+    if (forbidden.length > 0) {
+        walkRegex(ast, (node) => {
+            for (const { test, message } of forbidden) {
+                if (test(node)) {
+                    findings.push({
+                        ruleId: 'feature-not-allowed',
+                        reason: 'feature_not_allowed',
+                        severity: 'error',
+                        message,
+                        start: node.start,
+                        end: node.end,
+                        expression: pattern.slice(node.start, node.end),
+                    });
+                }
+            }
+        });
+    }
+
+    return findings;
+}
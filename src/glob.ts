@@ -0,0 +1,633 @@
+import { GlobOptions } from './types';
+import { CharSet } from './charset';
+
+/** Patterns a glob may expand to through braces before it is rejected */
+export const MAX_BRACE_EXPANSIONS = 1000;
+
+const DOT = CharSet.of(0x2e);
+
+/** Characters with a meaning in regex source outside classes */
+const REGEX_SPECIAL = /[\\^$.*+?()[\]{}|/]/;
+
+/**
+ * Named classes usable inside brackets, e.g. `[[:alpha:]]`
+ */
+const POSIX_CLASSES: Record<string, CharSet> = {
+    alnum: CharSet.fromRanges([[0x30, 0x39], [0x41, 0x5a], [0x61, 0x7a]]),
+    alpha: CharSet.fromRanges([[0x41, 0x5a], [0x61, 0x7a]]),
+    blank: CharSet.of(0x09, 0x20),
+    cntrl: CharSet.fromRanges([[0x00, 0x1f], [0x7f, 0x7f]]),
+    digit: CharSet.range(0x30, 0x39),
+    graph: CharSet.range(0x21, 0x7e),
+    lower: CharSet.range(0x61, 0x7a),
+    print: CharSet.range(0x20, 0x7e),
+    punct: CharSet.fromRanges([[0x21, 0x2f], [0x3a, 0x40], [0x5b, 0x60], [0x7b, 0x7e]]),
+    space: CharSet.fromRanges([[0x09, 0x0d], [0x20, 0x20]]),
+    upper: CharSet.range(0x41, 0x5a),
+    word: CharSet.fromRanges([[0x30, 0x39], [0x41, 0x5a], [0x5f, 0x5f], [0x61, 0x7a]]),
+    xdigit: CharSet.fromRanges([[0x30, 0x39], [0x41, 0x46], [0x61, 0x66]]),
+};
+
+/**
+ * One element of a path segment. `globstar` only occurs as a whole segment.
+ */
+type GlobToken =
+    | { type: 'literal'; value: string }
+    | { type: 'any' }
+    | { type: 'star' }
+    | { type: 'globstar' }
+    | { type: 'class'; set: CharSet; negate: boolean }
+    | { type: 'extglob'; kind: '@' | '!' | '+' | '*' | '?'; alternatives: GlobToken[][] };
+
+/**
+ * Convert a glob to the source of an anchored regex matching the same paths.
+ *
+ * Supports `*`, `?`, `**` as a whole path segment, bracket classes
+ * (`[abc]`, `[!abc]`, `[a-z]`, `[[:alpha:]]`), braces (`{a,b}`, nested,
+ * and ranges such as `{1..10}`, `{01..10..2}` and `{a..e}`), extglobs
+ * (`@(a|b)`, `?(a|b)`, `+(a|b)`, `*(a|b)`, `!(a|b)`), backslash escapes
+ * and leading `!` to negate the whole glob. Wildcards do not match a
+ * leading `.` in a segment unless `dot` is set, so dotfiles are only
+ * matched by globs that spell out the dot.
+ *
+ * Letter case is up to the flags the pattern is compiled with;
+ * `caseSensitive` is not used here.
+ *
+ * Throws RangeError when braces expand to more than
+ * MAX_BRACE_EXPANSIONS patterns, and SyntaxError for a class range whose
+ * ends are out of order, such as `[z-a]`.
+ *
+ * @example
+ * ```typescript
+ * new RegExp(globToPattern('src/**\/*.{ts,tsx}')).test('src/a/b.tsx'); // true
+ * new RegExp(globToPattern('src/**\/*.ts', { partial: true })).test('src/a'); // true
+ * ```
+ */
+export function globToPattern(glob: string, options: GlobOptions = {}): string {
+    let start = 0;
+    while (glob[start] === '!' && glob[start + 1] !== '(') {
+        start++;
+    }
+    const negated = start % 2 === 1;
+    const body = glob.slice(start);
+    const matchBase = options.matchBase === true && !body.includes('/');
+    const expanded = expandBraces(body);
+    const compiler = new GlobCompiler(options);
+
+    if (options.partial) {
+        // Negated and basename globs can match below any directory
+        if (negated || matchBase) {
+            return '^[\\s\\S]*$';
+        }
+        return `^${alternation(expanded.map((alternative) => compiler.compilePartial(alternative)))}$`;
+    }
+
+    let source = alternation(expanded.map((alternative) => compiler.compile(alternative)));
+    if (matchBase) {
+        source = compiler.anyDirectories() + source;
+    }
+    return negated ? `^(?!${source}$)[\\s\\S]*$` : `^${source}$`;
+}
+
+function alternation(sources: string[]): string {
+    const unique = [...new Set(sources)];
+    return unique.length === 1 ? unique[0] : `(?:${unique.join('|')})`;
+}
+
+/**
+ * Index of the `]` closing the class opened at `open`, or -1.
+ */
+function classEnd(glob: string, open: number): number {
+    let i = open + 1;
+    if (glob[i] === '!' || glob[i] === '^') {
+        i++;
+    }
+    if (glob[i] === ']') {
+        i++;
+    }
+    for (; i < glob.length; i++) {
+        if (glob[i] === '\\') {
+            i++;
+        } else if (glob[i] === '[' && glob[i + 1] === ':') {
+            const close = glob.indexOf(':]', i + 2);
+            if (close !== -1) {
+                i = close + 1;
+            }
+        } else if (glob[i] === ']') {
+            return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Index of the bracket closing the one at `open` (`{` or `(`), skipping
+ * escapes and classes, or -1.
+ */
+function groupEnd(glob: string, open: number): number {
+    const [opening, closing] = glob[open] === '{' ? ['{', '}'] : ['(', ')'];
+    let depth = 0;
+    for (let i = open; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '\\') {
+            i++;
+        } else if (char === '[') {
+            i = Math.max(i, classEnd(glob, i));
+        } else if (char === opening) {
+            depth++;
+        } else if (char === closing && --depth === 0) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Split at `separator` outside nested brackets, escapes and classes.
+ */
+function splitTopLevel(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let from = 0;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (char === '\\') {
+            i++;
+        } else if (char === '[') {
+            i = Math.max(i, classEnd(text, i));
+        } else if (char === '{' || char === '(') {
+            depth++;
+        } else if (char === '}' || char === ')') {
+            depth--;
+        } else if (char === separator && depth === 0) {
+            parts.push(text.slice(from, i));
+            from = i + 1;
+        }
+    }
+    parts.push(text.slice(from));
+    return parts;
+}
+
+/**
+ * Values of a `{x..y}` or `{x..y..step}` range, or undefined when the
+ * text is not a range.
+ */
+function braceRange(text: string): string[] | undefined {
+    const match = /^(?:(-?\d+)\.\.(-?\d+)|([a-zA-Z])\.\.([a-zA-Z]))(?:\.\.(-?\d+))?$/.exec(text);
+    if (!match) {
+        return undefined;
+    }
+    const numeric = match[1] !== undefined;
+    const from = numeric ? Number(match[1]) : match[3].charCodeAt(0);
+    const to = numeric ? Number(match[2]) : match[4].charCodeAt(0);
+    const step = Math.abs(Number(match[5] ?? 1)) || 1;
+    if (Math.floor(Math.abs(to - from) / step) + 1 > MAX_BRACE_EXPANSIONS) {
+        throw new RangeError(`Brace range {${text}} expands to more than ${MAX_BRACE_EXPANSIONS} patterns`);
+    }
+
+    // Zero-padded endpoints pad every value to the same width
+    const padded = numeric && [match[1], match[2]].some((end) => /^-?0\d/.test(end));
+    const width = padded ? Math.max(match[1].length, match[2].length) : 0;
+    const values: string[] = [];
+    for (let value = from; from <= to ? value <= to : value >= to; value += from <= to ? step : -step) {
+        if (!numeric) {
+            values.push(String.fromCharCode(value));
+        } else {
+            const digits = String(Math.abs(value)).padStart(width - (value < 0 ? 1 : 0), '0');
+            values.push(value < 0 ? `-${digits}` : digits);
+        }
+    }
+    return values;
+}
+
+/**
+ * Expand the braces of a glob into the globs they stand for.
+ * Braces without a comma or range stay literal.
+ */
+function expandBraces(glob: string): string[] {
+    for (let open = 0; open < glob.length; open++) {
+        if (glob[open] === '\\') {
+            open++;
+            continue;
+        }
+        if (glob[open] === '[') {
+            open = Math.max(open, classEnd(glob, open));
+            continue;
+        }
+        if (glob[open] !== '{') {
+            continue;
+        }
+        const close = groupEnd(glob, open);
+        if (close === -1) {
+            return [glob];
+        }
+        const body = glob.slice(open + 1, close);
+        const options = splitTopLevel(body, ',');
+        const values = options.length > 1 ? options.flatMap(expandBraces) : braceRange(body);
+        if (!values) {
+            continue;
+        }
+
+        const prefix = glob.slice(0, open);
+        const suffixes = expandBraces(glob.slice(close + 1));
+        if (values.length * suffixes.length > MAX_BRACE_EXPANSIONS) {
+            throw new RangeError(`Braces expand to more than ${MAX_BRACE_EXPANSIONS} patterns`);
+        }
+        return values.flatMap((value) => suffixes.map((suffix) => prefix + value + suffix));
+    }
+    return [glob];
+}
+
+/**
+ * Parse a bracket class ending at `close`.
+ */
+function parseClass(glob: string, open: number, close: number): GlobToken {
+    let i = open + 1;
+    const negate = glob[i] === '!' || glob[i] === '^';
+    if (negate) {
+        i++;
+    }
+    const ranges: Array<[number, number]> = [];
+    let set = CharSet.empty();
+    while (i < close) {
+        if (glob[i] === '[' && glob[i + 1] === ':') {
+            const end = glob.indexOf(':]', i + 2);
+            const named = end !== -1 && end < close ? POSIX_CLASSES[glob.slice(i + 2, end)] : undefined;
+            if (named) {
+                set = set.union(named);
+                i = end + 2;
+                continue;
+            }
+        }
+        const [low, next] = classChar(glob, i);
+        if (glob[next] === '-' && next + 1 < close) {
+            const [high, after] = classChar(glob, next + 1);
+            if (high < low) {
+                throw new SyntaxError(`Range out of order in class ${glob.slice(open, close + 1)}`);
+            }
+            ranges.push([low, high]);
+            i = after;
+        } else {
+            ranges.push([low, low]);
+            i = next;
+        }
+    }
+    return { type: 'class', set: set.union(CharSet.fromRanges(ranges)), negate };
+}
+
+/**
+ * Code unit of the (possibly escaped) class character at `i`, and the
+ * index after it.
+ */
+function classChar(glob: string, i: number): [number, number] {
+    if (glob[i] === '\\' && i + 1 < glob.length) {
+        return [glob.charCodeAt(i + 1), i + 2];
+    }
+    return [glob.charCodeAt(i), i + 1];
+}
+
+/**
+ * Tokenize a glob. Separators become `undefined` entries, except inside
+ * extglobs, where `/` is an ordinary character.
+ */
+function tokenize(glob: string, inExtglob: boolean): Array<GlobToken | undefined> {
+    const tokens: Array<GlobToken | undefined> = [];
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+
+        if ('@!+*?'.includes(char) && glob[i + 1] === '(') {
+            const close = groupEnd(glob, i + 1);
+            if (close !== -1) {
+                tokens.push({
+                    type: 'extglob',
+                    kind: char as '@' | '!' | '+' | '*' | '?',
+                    alternatives: splitTopLevel(glob.slice(i + 2, close), '|')
+                        .map((alternative) => tokenize(alternative, true) as GlobToken[]),
+                });
+                i = close;
+                continue;
+            }
+        }
+
+        switch (char) {
+            case '\\':
+                tokens.push({ type: 'literal', value: glob[i + 1] ?? '\\' });
+                i++;
+                break;
+            case '/':
+                tokens.push(inExtglob ? { type: 'literal', value: '/' } : undefined);
+                break;
+            case '?':
+                tokens.push({ type: 'any' });
+                break;
+            case '*': {
+                let end = i;
+                while (glob[end + 1] === '*') {
+                    end++;
+                }
+                const wholeSegment = (i === 0 || glob[i - 1] === '/') && (end + 1 === glob.length || glob[end + 1] === '/');
+                tokens.push({ type: end > i && wholeSegment && !inExtglob ? 'globstar' : 'star' });
+                i = end;
+                break;
+            }
+            case '[': {
+                const close = classEnd(glob, i);
+                if (close === -1) {
+                    tokens.push({ type: 'literal', value: char });
+                } else {
+                    tokens.push(parseClass(glob, i, close));
+                    i = close;
+                }
+                break;
+            }
+            default:
+                tokens.push({ type: 'literal', value: char });
+        }
+    }
+    return tokens;
+}
+
+/**
+ * Split tokens into path segments, merging consecutive globstars.
+ */
+function segmentsOf(tokens: Array<GlobToken | undefined>): GlobToken[][] {
+    const segments: GlobToken[][] = [[]];
+    for (const token of tokens) {
+        if (token) {
+            segments[segments.length - 1].push(token);
+        } else {
+            segments.push([]);
+        }
+    }
+    return segments.filter((segment, i) => !(isGlobstar(segment) && i > 0 && isGlobstar(segments[i - 1])));
+}
+
+function isGlobstar(segment: GlobToken[]): boolean {
+    return segment.length === 1 && segment[0].type === 'globstar';
+}
+
+function escapeClassChar(code: number): string {
+    if ((code >= 0x30 && code <= 0x39) || (code >= 0x41 && code <= 0x5a) || (code >= 0x61 && code <= 0x7a)) {
+        return String.fromCharCode(code);
+    }
+    return code <= 0xff
+        ? `\\x${code.toString(16).padStart(2, '0')}`
+        : `\\u${code.toString(16).padStart(4, '0')}`;
+}
+
+function classSource(set: CharSet, negate: boolean): string {
+    const members = set.ranges
+        .map(([min, max]) => min === max ? escapeClassChar(min) : `${escapeClassChar(min)}-${escapeClassChar(max)}`)
+        .join('');
+    return negate ? `[^${members}]` : `[${members}]`;
+}
+
+/**
+ * Turns tokenized globs into regex source for one set of options.
+ */
+class GlobCompiler {
+    private readonly separatorSet: CharSet;
+    /** The separator as regex source */
+    private readonly separator: string;
+    /** Any character within a segment */
+    private readonly segmentChar: string;
+    /** A segment a globstar may pass through */
+    private readonly globstarSegment: string;
+
+    constructor(private readonly options: GlobOptions) {
+        const separator = options.separator ?? '/';
+        this.separatorSet = CharSet.of(separator.charCodeAt(0));
+        this.separator = separator === '/' ? '/' : '\\\\';
+        this.segmentChar = `[^${this.separator}]`;
+        this.globstarSegment = options.dot ? `${this.segmentChar}+` : `[^${this.separator}.]${this.segmentChar}*`;
+    }
+
+    /**
+     * Regex for one brace-free glob.
+     */
+    compile(glob: string): string {
+        const segments = segmentsOf(tokenize(glob, false));
+        const { separator, globstarSegment } = this;
+        let after = '';
+        for (let i = segments.length - 1; i >= 0; i--) {
+            const tokens = segments[i];
+            const leading = i > 0 && !(isGlobstar(segments[i - 1])) ? separator : '';
+            let source: string;
+            if (!isGlobstar(tokens)) {
+                source = leading + this.segmentRegex(tokens, after);
+            } else if (i < segments.length - 1) {
+                source = `${leading}(?:${globstarSegment}${separator})*`;
+            } else if (i > 0) {
+                // A trailing globstar also matches the directory itself
+                source = `(?:${separator}(?:${globstarSegment})?)*`;
+            } else {
+                source = `(?:${globstarSegment}${separator})*(?:${globstarSegment})?`;
+            }
+            after = source + after;
+        }
+        return after;
+    }
+
+    /**
+     * Regex for any number of leading directories, dotted or not.
+     */
+    anyDirectories(): string {
+        return `(?:${this.segmentChar}*${this.separator})*`;
+    }
+
+    /**
+     * Regex for paths whose segments match a leading part of the glob's
+     * segments, so a directory walk can skip everything else. Everything
+     * below a globstar is kept.
+     */
+    compilePartial(glob: string): string {
+        const segments = segmentsOf(tokenize(glob, false));
+        const { separator } = this;
+        const rest = `(?:${separator}[\\s\\S]*)?`;
+        let source = '';
+        for (let i = segments.length - 1; i >= 0; i--) {
+            if (isGlobstar(segments[i])) {
+                source = '[\\s\\S]*';
+            } else {
+                const segment = this.segmentRegex(segments[i], rest);
+                source = source === '' ? segment : `${segment}(?:${separator}${source})?`;
+            }
+        }
+        return `(?:${source})?`;
+    }
+
+    /**
+     * Regex for one segment. Segments starting with a wildcard do not match
+     * dotfiles unless the dot option is set.
+     */
+    private segmentRegex(tokens: GlobToken[], after: string): string {
+        if (tokens.length === 1 && tokens[0].type === 'star') {
+            return this.globstarSegment;
+        }
+        const wildcardFirst = tokens.length > 0 && tokens[0].type !== 'literal';
+        if (!wildcardFirst || this.options.dot) {
+            return this.tokensRegex(tokens, after);
+        }
+        // An empty class never matches: every way through the segment starts with a dot
+        return this.dotlessRegex(tokens, after) ?? '[]';
+    }
+
+    /**
+     * Regex for a class; classes never match the separator.
+     */
+    private classRegex(token: { set: CharSet; negate: boolean }): string {
+        return token.negate
+            ? classSource(token.set.union(this.separatorSet), true)
+            : classSource(token.set.subtract(this.separatorSet), false);
+    }
+
+    private tokenRegex(token: GlobToken, rest: string): string {
+        switch (token.type) {
+            case 'literal':
+                return REGEX_SPECIAL.test(token.value) ? `\\${token.value}` : token.value;
+            case 'any':
+                return this.segmentChar;
+            case 'star':
+            case 'globstar':
+                return `${this.segmentChar}*`;
+            case 'class':
+                return this.classRegex(token);
+            case 'extglob': {
+                const body = token.alternatives.map((alternative) => this.tokensRegex(alternative, rest)).join('|');
+                switch (token.kind) {
+                    case '@':
+                        return `(?:${body})`;
+                    case '?':
+                        return `(?:${body})?`;
+                    case '+':
+                        return `(?:${body})+`;
+                    case '*':
+                        return `(?:${body})*`;
+                    case '!':
+                        // Anything in the segment, except where one of the patterns would match with the rest
+                        return `(?:(?!(?:${body})${rest}$)${this.segmentChar}*?)`;
+                }
+            }
+        }
+    }
+
+    /**
+     * Regex for a sequence of tokens followed by `after`. Built from the end
+     * so negated extglobs can look at everything after them.
+     */
+    private tokensRegex(tokens: GlobToken[], after: string): string {
+        let source = '';
+        for (let i = tokens.length - 1; i >= 0; i--) {
+            source = this.tokenRegex(tokens[i], source + after) + source;
+        }
+        return source;
+    }
+
+    /**
+     * Regex for a segment that must not start with `.`, or undefined when
+     * it always would.
+     */
+    private dotlessRegex(tokens: GlobToken[], after: string): string | undefined {
+        if (tokens.length === 0) {
+            return '';
+        }
+        const [first, ...rest] = tokens;
+        const restSource = this.tokensRegex(rest, after);
+        const dotless = `[^${this.separator}.]`;
+        switch (first.type) {
+            case 'literal':
+                return first.value === '.' ? undefined : this.tokensRegex(tokens, after);
+            case 'any':
+                return dotless + restSource;
+            case 'class': {
+                const token = first.negate
+                    ? { set: first.set.union(DOT), negate: true }
+                    : { set: first.set.subtract(DOT), negate: false };
+                return this.classRegex(token) + restSource;
+            }
+            case 'star':
+            case 'globstar': {
+                const nonEmpty = `${dotless}${this.segmentChar}*${restSource}`;
+                const empty = this.dotlessRegex(rest, after);
+                if (empty === undefined) {
+                    return nonEmpty;
+                }
+                return empty === restSource ? `(?:${dotless}${this.segmentChar}*)?${restSource}` : `(?:${nonEmpty}|${empty})`;
+            }
+            case 'extglob': {
+                const leading = this.leadingRegex(tokens, after);
+                if (!mayBeEmpty(tokens)) {
+                    return leading;
+                }
+                return leading === undefined ? '' : `(?:${leading})?`;
+            }
+        }
+    }
+
+    /**
+     * Regex for the non-empty matches of a sequence of tokens that do not
+     * start with `.`, or undefined when there are none. Extglobs get the
+     * dot excluded from the class of their first character rather than
+     * with a lookahead, so the linear engine can run them.
+     */
+    private leadingRegex(tokens: GlobToken[], after: string): string | undefined {
+        if (tokens.length === 0) {
+            return undefined;
+        }
+        const [first, ...rest] = tokens;
+        const restSource = this.tokensRegex(rest, after);
+        const dotless = `[^${this.separator}.]`;
+        switch (first.type) {
+            case 'literal':
+            case 'any':
+            case 'class':
+                return this.dotlessRegex(tokens, after);
+            case 'star':
+            case 'globstar':
+                return definedAlternation([`${dotless}${this.segmentChar}*${restSource}`, this.leadingRegex(rest, after)]);
+            case 'extglob': {
+                const context = restSource + after;
+                let consuming: string | undefined;
+                if (first.kind === '!') {
+                    const body = first.alternatives.map((alternative) => this.tokensRegex(alternative, context)).join('|');
+                    consuming = `(?:(?!(?:${body})${context}$)${dotless}${this.segmentChar}*?)${restSource}`;
+                } else {
+                    // The first iteration that consumes anything starts the segment
+                    const repeat = first.kind === '+' || first.kind === '*' ? this.tokenRegex({ ...first, kind: '*' }, context) : '';
+                    const iteration = definedAlternation(first.alternatives.map((alternative) => this.leadingRegex(alternative, repeat + context)));
+                    consuming = iteration === undefined ? undefined : iteration + repeat + restSource;
+                }
+                const skippable = (first.kind !== '@' && first.kind !== '+') || first.alternatives.some(mayBeEmpty);
+                return definedAlternation([consuming, skippable ? this.leadingRegex(rest, after) : undefined]);
+            }
+        }
+    }
+}
+
+/**
+ * Whether a sequence of tokens can match the empty string.
+ */
+function mayBeEmpty(tokens: GlobToken[]): boolean {
+    return tokens.every((token) => {
+        switch (token.type) {
+            case 'literal':
+            case 'any':
+            case 'class':
+                return false;
+            case 'star':
+            case 'globstar':
+                return true;
+            case 'extglob':
+                return token.kind === '@' || token.kind === '+' ? token.alternatives.some(mayBeEmpty) : true;
+        }
+    });
+}
+
+/**
+ * Regex for any of `sources`, leaving out undefined ones; undefined when
+ * none is left.
+ */
+function definedAlternation(sources: (string | undefined)[]): string | undefined {
+    const defined = sources.filter((source): source is string => source !== undefined);
+    return defined.length === 0 ? undefined : alternation(defined);
+}
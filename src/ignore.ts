@@ -0,0 +1,241 @@
+import { IgnoreFormat, IgnoreMatcherOptions, IgnoreRule } from './types';
+import { SafeRegex } from './safe-regex';
+
+interface IgnoreLayer {
+    base: string;
+    rules: IgnoreRule[];
+}
+
+/**
+ * Matches paths against `.gitignore` or `.dockerignore` rules.
+ *
+ * Each rule becomes a glob compiled by `SafeRegex.globToRegex`, so every
+ * generated regex goes through the same checks as `SafeRegex.create`.
+ * Rules that fail them are kept with their `error` and never match.
+ *
+ * Ignore files in subdirectories are added with their directory as base;
+ * deeper files take precedence over shallower ones, and within a file
+ * the last matching rule wins.
+ *
+ * @example
+ * ```typescript
+ * const matcher = new IgnoreMatcher();
+ * matcher.add('node_modules/\n*.log\n!keep.log');
+ * matcher.add('*.tmp', 'packages/app');
+ *
+ * matcher.ignores('node_modules/lib/index.js'); // true
+ * matcher.ignores('logs/keep.log');             // false
+ * matcher.ignores('packages/app/a.tmp');        // true
+ * ```
+ */
+export class IgnoreMatcher {
+    private readonly format: IgnoreFormat;
+    private readonly caseSensitive: boolean;
+    private readonly safe: SafeRegex;
+    private readonly layers: IgnoreLayer[] = [];
+
+    constructor(options: IgnoreMatcherOptions = {}) {
+        this.format = options.format ?? 'gitignore';
+        this.caseSensitive = options.caseSensitive ?? true;
+        this.safe = options.safeRegex ?? new SafeRegex();
+    }
+
+    /**
+     * Add the contents of an ignore file located in `base`, a directory
+     * relative to the root. Returns the parsed rules, including rejected ones.
+     */
+    add(content: string, base = ''): IgnoreRule[] {
+        const dir = normalizePath(base);
+        const rules: IgnoreRule[] = [];
+        content.split(/\r?\n/).forEach((text, index) => {
+            const rule = this.parseRule(text, dir, index + 1);
+            if (rule) {
+                rules.push(rule);
+            }
+        });
+
+        // Keep layers ordered by depth so deeper files are applied last
+        const depth = depthOf(dir);
+        let at = this.layers.length;
+        while (at > 0 && depthOf(this.layers[at - 1].base) > depth) {
+            at--;
+        }
+        this.layers.splice(at, 0, { base: dir, rules });
+        return rules;
+    }
+
+    /**
+     * Whether a path relative to the root is ignored. A trailing `/`
+     * marks the path as a directory, as does `isDir`.
+     */
+    ignores(path: string, isDir = false): boolean {
+        const normalized = normalizePath(path);
+        if (normalized === '') {
+            return false;
+        }
+        const directory = isDir || /\/$/.test(path);
+        const segments = normalized.split('/');
+
+        if (this.format === 'dockerignore') {
+            // Each rule matches the path or any of its parent directories
+            let ignored = false;
+            for (const rule of this.applicableRules(normalized)) {
+                const relative = relativeTo(normalized, rule.base);
+                if (matchesPathOrParent(rule, relative)) {
+                    ignored = !rule.negate;
+                }
+            }
+            return ignored;
+        }
+
+        // Git never looks inside an ignored directory, so nothing below it can be re-included
+        for (let i = 1; i < segments.length; i++) {
+            if (this.matches(segments.slice(0, i).join('/'), true)) {
+                return true;
+            }
+        }
+        return this.matches(normalized, directory);
+    }
+
+    /**
+     * All rules added so far, in the order they are applied.
+     */
+    rules(): IgnoreRule[] {
+        return this.layers.flatMap((layer) => layer.rules);
+    }
+
+    /**
+     * Whether the last rule matching this exact path ignores it.
+     */
+    private matches(path: string, isDir: boolean): boolean {
+        let ignored = false;
+        for (const rule of this.applicableRules(path)) {
+            if (rule.directoryOnly && !isDir) {
+                continue;
+            }
+            if (rule.regex!.test(relativeTo(path, rule.base))) {
+                ignored = !rule.negate;
+            }
+        }
+        return ignored;
+    }
+
+    /**
+     * Compiled rules from the ignore files whose directory contains the path.
+     */
+    private applicableRules(path: string): IgnoreRule[] {
+        return this.layers
+            .filter((layer) => layer.base === '' || path.startsWith(`${layer.base}/`))
+            .flatMap((layer) => layer.rules.filter((rule) => rule.regex));
+    }
+
+    /**
+     * Parse one line of an ignore file, or undefined for blanks and comments.
+     */
+    private parseRule(text: string, base: string, line: number): IgnoreRule | undefined {
+        let body = trimTrailingSpaces(this.format === 'dockerignore' ? text.trim() : text);
+        if (body === '' || body.startsWith('#')) {
+            return undefined;
+        }
+        const pattern = body;
+
+        const negate = body.startsWith('!');
+        if (negate) {
+            body = body.slice(1);
+        }
+        const directoryOnly = this.format === 'gitignore' && /[^\\]\/$|^\/$/.test(body);
+        body = body.replace(/\/+$/, '');
+
+        // Patterns with a slash before the end are relative to the ignore file;
+        // .dockerignore patterns always are
+        const anchored = this.format === 'dockerignore' || body.includes('/');
+        body = body.replace(/^\/+/, '');
+        if (this.format === 'dockerignore') {
+            body = body.replace(/^(\.\/)+/, '');
+        }
+
+        const rule: IgnoreRule = { pattern, base, line, negate, directoryOnly };
+        if (body === '') {
+            rule.error = 'Rule matches no path';
+            rule.reason = 'invalid_syntax';
+            return rule;
+        }
+
+        const glob = toGlob(body, anchored);
+        const result = this.safe.globToRegex(glob, { dot: true, caseSensitive: this.caseSensitive });
+        if (result.safe && result.regex) {
+            rule.regex = result.regex;
+        } else {
+            rule.error = result.error;
+            rule.reason = result.reason;
+        }
+        return rule;
+    }
+}
+
+/**
+ * Translate an ignore pattern into the glob syntax of globToPattern.
+ * Ignore files have no braces or extglobs, so those characters are escaped.
+ */
+function toGlob(body: string, anchored: boolean): string {
+    let glob = '';
+    for (let i = 0; i < body.length; i++) {
+        const char = body[i];
+        if (char === '\\') {
+            glob += body.slice(i, i + 2);
+            i++;
+        } else if ('{}()|'.includes(char)) {
+            glob += `\\${char}`;
+        } else {
+            glob += char;
+        }
+    }
+
+    // A trailing /** matches what is inside the directory, not the directory itself
+    glob = glob.replace(/(^|\/)\*\*$/, '$1**/*');
+    return anchored ? glob : `**/${glob}`;
+}
+
+/**
+ * Remove trailing spaces unless they are escaped with a backslash.
+ */
+function trimTrailingSpaces(text: string): string {
+    let end = text.length;
+    while (end > 0 && text[end - 1] === ' ') {
+        let backslashes = 0;
+        while (end - 2 - backslashes >= 0 && text[end - 2 - backslashes] === '\\') {
+            backslashes++;
+        }
+        if (backslashes % 2 === 1) {
+            break;
+        }
+        end--;
+    }
+    return text.slice(0, end);
+}
+
+function matchesPathOrParent(rule: IgnoreRule, path: string): boolean {
+    const segments = path.split('/');
+    for (let i = segments.length; i > 0; i--) {
+        if (rule.regex!.test(segments.slice(0, i).join('/'))) {
+            return true;
+        }
+    }
+    return false;
+}
+
+function normalizePath(path: string): string {
+    return path
+        .replace(/\\/g, '/')
+        .replace(/^(\.?\/)+/, '')
+        .replace(/\/+/g, '/')
+        .replace(/\/$/, '');
+}
+
+function relativeTo(path: string, base: string): string {
+    return base === '' ? path : path.slice(base.length + 1);
+}
+
+function depthOf(base: string): number {
+    return base === '' ? 0 : base.split('/').length;
+}
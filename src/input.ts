@@ -0,0 +1,99 @@
+import { Program } from './program';
+
+function isWordChar(code: number | undefined): boolean {
+    return code !== undefined && (
+        (code >= 0x30 && code <= 0x39) || (code >= 0x41 && code <= 0x5a) || code === 0x5f || (code >= 0x61 && code <= 0x7a)
+    );
+}
+
+function isLineTerminator(code: number): boolean {
+    return code === 0x0a || code === 0x0d || code === 0x2028 || code === 0x2029;
+}
+
+/**
+ * Characters of the input as read by the pattern: code points in
+ * unicode mode, UTF-16 code units otherwise.
+ */
+export class InputReader {
+    constructor(readonly input: string, readonly unicode: boolean) {}
+
+    /** Code point starting at pos and its width, or undefined at the end */
+    after(pos: number): [number, number] | undefined {
+        if (pos >= this.input.length) {
+            return undefined;
+        }
+        const code = this.input.charCodeAt(pos);
+        if (this.unicode && code >= 0xd800 && code <= 0xdbff && pos + 1 < this.input.length) {
+            const low = this.input.charCodeAt(pos + 1);
+            if (low >= 0xdc00 && low <= 0xdfff) {
+                return [(code - 0xd800) * 0x400 + low - 0xdc00 + 0x10000, 2];
+            }
+        }
+        return [code, 1];
+    }
+
+    /** Code point ending at pos and its width, or undefined at the start */
+    before(pos: number): [number, number] | undefined {
+        if (pos <= 0) {
+            return undefined;
+        }
+        const code = this.input.charCodeAt(pos - 1);
+        if (this.unicode && code >= 0xdc00 && code <= 0xdfff && pos >= 2) {
+            const high = this.input.charCodeAt(pos - 2);
+            if (high >= 0xd800 && high <= 0xdbff) {
+                return [(high - 0xd800) * 0x400 + code - 0xdc00 + 0x10000, 2];
+            }
+        }
+        return [code, 1];
+    }
+
+    /** Position where the next match attempt starts */
+    advance(pos: number): number {
+        return pos + (this.after(pos)?.[1] ?? 1);
+    }
+
+    /** Whether a zero-width assertion holds at pos */
+    assert(kind: 'start' | 'end' | 'wordBoundary' | 'nonWordBoundary', multiline: boolean, pos: number): boolean {
+        const { input } = this;
+        switch (kind) {
+            case 'start':
+                return pos === 0 || (multiline && isLineTerminator(input.charCodeAt(pos - 1)));
+            case 'end':
+                return pos === input.length || (multiline && isLineTerminator(input.charCodeAt(pos)));
+            default: {
+                const boundary = isWordChar(this.before(pos)?.[0]) !== isWordChar(this.after(pos)?.[0]);
+                return boundary === (kind === 'wordBoundary');
+            }
+        }
+    }
+}
+
+/**
+ * Build the array RegExp.prototype.exec returns from capture slots.
+ */
+export function buildMatch(program: Program, input: string, slots: number[]): RegExpExecArray {
+    const groupCount = program.slots / 2;
+    const values: Array<string | undefined> = [];
+    const indices: Array<[number, number] | undefined> = [];
+    for (let group = 0; group < groupCount; group++) {
+        const start = slots[group * 2];
+        const end = slots[group * 2 + 1];
+        const set = start >= 0 && end >= 0;
+        values.push(set ? input.slice(start, end) : undefined);
+        indices.push(set ? [start, end] : undefined);
+    }
+
+    const names = Object.entries(program.groupNames);
+    const groups = names.length === 0 ? undefined : Object.create(null) as Record<string, string | undefined>;
+    const indexGroups = names.length === 0 ? undefined : Object.create(null) as Record<string, [number, number] | undefined>;
+    for (const [name, group] of names) {
+        groups![name] = values[group];
+        indexGroups![name] = indices[group];
+    }
+
+    const match = Object.assign(values as [string, ...Array<string | undefined>], { index: slots[0], input, groups });
+    if (program.flags.hasIndices) {
+        Object.assign(match, { indices: Object.assign(indices, { groups: indexGroups }) });
+    }
+    return match as RegExpExecArray;
+}
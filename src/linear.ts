@@ -0,0 +1,221 @@
+import { compilePattern, Program } from './program';
+import { buildMatch, InputReader } from './input';
+
+interface Thread {
+    pc: number;
+    slots: number[];
+    /**
+     * Loop registers marked at the current position. Marks from earlier
+     * positions always pass the progress check, so only these matter.
+     */
+    marks: number[];
+}
+
+/**
+ * Pike VM: runs every thread of the program in lockstep over the input,
+ * keeping one thread per instruction (per set of open empty loop passes,
+ * which nesting keeps small). Threads stay in priority
+ * order, so the match found is the one a backtracking engine would find,
+ * in O(input length x program size) time.
+ */
+class PikeVm {
+    private readonly visited: Int32Array;
+    private generation = 0;
+    /** Visited (instruction, marks) pairs for threads inside empty loop passes */
+    private visitedMarked = new Set<string>();
+
+    constructor(private readonly program: Program, private readonly reader: InputReader) {
+        this.visited = new Int32Array(program.instructions.length).fill(-1);
+    }
+
+    private nextGeneration(): void {
+        this.generation++;
+        this.visitedMarked = new Set();
+    }
+
+    /**
+     * Whether the thread's state was already reached in this step.
+     * Threads in the middle of an empty loop pass are told apart by their
+     * marks, since those decide which later progress checks fail.
+     */
+    private seen(thread: Thread): boolean {
+        if (thread.marks.length === 0) {
+            if (this.visited[thread.pc] === this.generation) {
+                return true;
+            }
+            this.visited[thread.pc] = this.generation;
+            return false;
+        }
+        const key = `${thread.pc}:${[...thread.marks].sort((a, b) => a - b).join(',')}`;
+        if (this.visitedMarked.has(key)) {
+            return true;
+        }
+        this.visitedMarked.add(key);
+        return false;
+    }
+
+    /**
+     * Find the leftmost match starting at or after `start` (only at
+     * `start` when sticky). Returns its capture slots.
+     */
+    search(start: number, sticky: boolean): number[] | undefined {
+        const empty: Thread = { pc: 0, slots: new Array(this.program.slots).fill(-1), marks: [] };
+        let matched: number[] | undefined;
+        let pos = start;
+        let threads: Thread[] = [];
+        this.nextGeneration();
+        this.addThread(threads, empty, 0, pos);
+
+        for (;;) {
+            const char = this.reader.after(pos);
+            const next: Thread[] = [];
+            this.nextGeneration();
+            for (const thread of threads) {
+                const instruction = this.program.instructions[thread.pc];
+                if (instruction.op === 'match') {
+                    // Lower-priority threads can only find less preferred matches
+                    matched = thread.slots;
+                    break;
+                }
+                if (instruction.op === 'char' && char && instruction.set.has(char[0])) {
+                    this.addThread(next, { ...thread, marks: [] }, thread.pc + 1, pos + char[1]);
+                }
+            }
+            if (!char) {
+                return matched;
+            }
+            pos += char[1];
+            if (!matched && !sticky) {
+                this.addThread(next, empty, 0, pos);
+            }
+            if (next.length === 0 && (matched || sticky)) {
+                return matched;
+            }
+            threads = next;
+        }
+    }
+
+    /**
+     * Follow non-consuming instructions from `pc` at `pos`, adding the
+     * threads that end on `char` or `match` in priority order.
+     */
+    private addThread(list: Thread[], from: Thread, pc: number, pos: number): void {
+        const stack: Thread[] = [{ ...from, pc }];
+        while (stack.length > 0) {
+            const thread = stack.pop()!;
+            if (this.seen(thread)) {
+                continue;
+            }
+
+            const instruction = this.program.instructions[thread.pc];
+            const next = thread.pc + 1;
+            switch (instruction.op) {
+                case 'jump':
+                    stack.push({ ...thread, pc: instruction.to });
+                    break;
+                case 'split':
+                    stack.push({ ...thread, pc: instruction.alt }, { ...thread, pc: instruction.next });
+                    break;
+                case 'save': {
+                    const slots = thread.slots.slice();
+                    slots[instruction.slot] = pos;
+                    stack.push({ ...thread, pc: next, slots });
+                    break;
+                }
+                case 'clear': {
+                    const slots = thread.slots.slice();
+                    slots.fill(-1, instruction.from, instruction.to);
+                    stack.push({ ...thread, pc: next, slots });
+                    break;
+                }
+                case 'mark':
+                    stack.push({ ...thread, pc: next, marks: [...thread.marks, instruction.register] });
+                    break;
+                case 'progress':
+                    if (!thread.marks.includes(instruction.register)) {
+                        stack.push({ ...thread, pc: next });
+                    }
+                    break;
+                case 'assert':
+                    if (this.reader.assert(instruction.kind, instruction.multiline, pos)) {
+                        stack.push({ ...thread, pc: next });
+                    }
+                    break;
+                case 'char':
+                case 'match':
+                    list.push(thread);
+                    break;
+                default:
+                    // Backreferences and lookarounds are rejected at construction
+                    break;
+            }
+        }
+    }
+}
+
+/**
+ * A RegExp that matches with a linear-time engine instead of the native
+ * backtracking one, so no input can make it blow up. Supports everything
+ * except backreferences and lookarounds.
+ *
+ * `test`, `exec` and the string methods (`match`, `matchAll`, `replace`,
+ * `search`, `split`) all go through the linear engine.
+ *
+ * @example
+ * ```typescript
+ * const regex = new LinearRegExp('^(a+)+$');
+ * regex.test('a'.repeat(100000) + 'b'); // false, in linear time
+ * ```
+ */
+export class LinearRegExp extends RegExp {
+    private readonly program: Program;
+
+    /**
+     * Throws SyntaxError for invalid patterns and for patterns using
+     * backreferences or lookarounds.
+     */
+    constructor(pattern: string | RegExp, flags?: string) {
+        super(pattern, flags);
+        const program = compilePattern(this.source, this.flags);
+        if (program.hasBackrefsOrLookarounds) {
+            throw new SyntaxError(
+                `Invalid regular expression: /${this.source}/${this.flags}: `
+                + 'Backreferences and lookarounds are not supported by the linear engine',
+            );
+        }
+        this.program = program;
+    }
+
+    exec(string: string): RegExpExecArray | null {
+        const input = String(string);
+        const { flags } = this.program;
+        const stateful = flags.global || flags.sticky;
+        const start = stateful ? this.lastIndex : 0;
+        const slots = start > input.length
+            ? undefined
+            : new PikeVm(this.program, new InputReader(input, flags.unicode || flags.unicodeSets)).search(start, flags.sticky);
+
+        if (!slots) {
+            if (stateful) {
+                this.lastIndex = 0;
+            }
+            return null;
+        }
+        if (stateful) {
+            this.lastIndex = slots[1];
+        }
+        return buildMatch(this.program, input, slots);
+    }
+}
+
+/**
+ * Whether a pattern can be matched by LinearRegExp.
+ */
+export function supportsLinearMatching(pattern: string, flags?: string): boolean {
+    try {
+        new LinearRegExp(pattern, flags);
+        return true;
+    } catch {
+        return false;
+    }
+}
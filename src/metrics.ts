@@ -0,0 +1,155 @@
+import { RegexMetricsOptions, RegexOperation, SafeRegexEvents } from './types';
+import type { SafeRegex } from './safe-regex';
+
+/** Bucket bounds of the execution-time histogram, in seconds */
+const DEFAULT_BUCKETS = [0.0001, 0.0005, 0.001, 0.005, 0.01, 0.05, 0.1, 0.5, 1, 5];
+
+interface Histogram {
+    /** Observations at or below each bucket bound, so already cumulative */
+    buckets: number[];
+    sum: number;
+    count: number;
+}
+
+/**
+ * Counters and execution-time histograms collected from the events of
+ * SafeRegex instances, exported in the Prometheus text format:
+ *
+ * - `pressurelid_patterns_total{reason}`: patterns and globs checked,
+ *   with `reason="ok"` for those created
+ * - `pressurelid_cache_hits_total`: results found in the cache
+ * - `pressurelid_executions_total{operation,reason}`: calls to the
+ *   execution methods, by how they ended
+ * - `pressurelid_execution_duration_seconds{operation}`: histogram of
+ *   the time those calls took
+ *
+ * @example
+ * ```typescript
+ * const metrics = new RegexMetrics();
+ * metrics.observe(safe);
+ *
+ * app.get('/metrics', (req, res) => {
+ *   res.type('text/plain; version=0.0.4').send(metrics.toPrometheus());
+ * });
+ * ```
+ */
+export class RegexMetrics {
+    private readonly bounds: number[];
+    private readonly prefix: string;
+    private readonly patterns = new Map<string, number>();
+    private cacheHits = 0;
+    private readonly executions = new Map<string, { operation: RegexOperation; reason: string; count: number }>();
+    private readonly durations = new Map<RegexOperation, Histogram>();
+
+    constructor(options: RegexMetricsOptions = {}) {
+        this.bounds = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+        this.prefix = options.prefix ?? 'pressurelid';
+        if (!this.bounds.every((bound) => Number.isFinite(bound))) {
+            throw new RangeError('RegexMetrics buckets must be finite numbers');
+        }
+        if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(this.prefix)) {
+            throw new RangeError(`RegexMetrics prefix '${this.prefix}' is not a valid metric name`);
+        }
+    }
+
+    /**
+     * Collect the events of a SafeRegex instance. Returns a function that
+     * stops collecting; the counts so far are kept.
+     */
+    observe(safe: SafeRegex): () => void {
+        const created = (): void => this.countPattern('ok');
+        const blocked = (event: SafeRegexEvents['blocked']): void => this.countPattern(event.reason);
+        const cacheHit = (): void => {
+            this.cacheHits++;
+        };
+        const executed = (event: SafeRegexEvents['executed']): void => this.countExecution(event);
+
+        safe.on('created', created).on('blocked', blocked).on('cacheHit', cacheHit).on('executed', executed);
+        return () => {
+            safe.off('created', created).off('blocked', blocked).off('cacheHit', cacheHit).off('executed', executed);
+        };
+    }
+
+    /**
+     * The metrics in the Prometheus text exposition format.
+     */
+    toPrometheus(): string {
+        const lines: string[] = [];
+        const header = (name: string, type: 'counter' | 'histogram', help: string): string => {
+            lines.push(`# HELP ${this.prefix}_${name} ${help}`, `# TYPE ${this.prefix}_${name} ${type}`);
+            return `${this.prefix}_${name}`;
+        };
+
+        const patterns = header('patterns_total', 'counter', 'Patterns and globs checked, by reason (ok when created).');
+        for (const [reason, count] of [...this.patterns].sort(([a], [b]) => a.localeCompare(b))) {
+            lines.push(`${patterns}${labels({ reason })} ${count}`);
+        }
+
+        lines.push(`${header('cache_hits_total', 'counter', 'Checks answered from the cache.')} ${this.cacheHits}`);
+
+        const executions = header('executions_total', 'counter', 'Calls to the execution methods, by operation and reason.');
+        const sortedExecutions = [...this.executions].sort(([a], [b]) => a.localeCompare(b));
+        for (const [, { operation, reason, count }] of sortedExecutions) {
+            lines.push(`${executions}${labels({ operation, reason })} ${count}`);
+        }
+
+        const duration = header('execution_duration_seconds', 'histogram', 'Time taken by the execution methods, in seconds.');
+        for (const [operation, histogram] of [...this.durations].sort(([a], [b]) => a.localeCompare(b))) {
+            this.bounds.forEach((bound, index) => {
+                lines.push(`${duration}_bucket${labels({ operation, le: String(bound) })} ${histogram.buckets[index]}`);
+            });
+            lines.push(
+                `${duration}_bucket${labels({ operation, le: '+Inf' })} ${histogram.count}`,
+                `${duration}_sum${labels({ operation })} ${histogram.sum}`,
+                `${duration}_count${labels({ operation })} ${histogram.count}`,
+            );
+        }
+
+        return `${lines.join('\n')}\n`;
+    }
+
+    /**
+     * Set every counter and histogram back to zero.
+     */
+    reset(): void {
+        this.patterns.clear();
+        this.cacheHits = 0;
+        this.executions.clear();
+        this.durations.clear();
+    }
+
+    private countPattern(reason: string): void {
+        this.patterns.set(reason, (this.patterns.get(reason) ?? 0) + 1);
+    }
+
+    private countExecution({ operation, reason, durationMs }: SafeRegexEvents['executed']): void {
+        const key = `${operation}\0${reason}`;
+        const execution = this.executions.get(key) ?? { operation, reason, count: 0 };
+        execution.count++;
+        this.executions.set(key, execution);
+
+        let histogram = this.durations.get(operation);
+        if (!histogram) {
+            histogram = { buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+            this.durations.set(operation, histogram);
+        }
+        const seconds = durationMs / 1000;
+        this.bounds.forEach((bound, index) => {
+            if (seconds <= bound) {
+                histogram!.buckets[index]++;
+            }
+        });
+        histogram.sum += seconds;
+        histogram.count++;
+    }
+}
+
+/**
+ * Label set in the exposition format, with values escaped.
+ */
+function labels(values: Record<string, string>): string {
+    const escaped = Object.entries(values).map(([name, value]) => (
+        `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+    ));
+    return `{${escaped.join(',')}}`;
+}
@@ -0,0 +1,264 @@
+import { CharSet, MAX_CODE_POINT, nodeCharSet } from './charset';
+import { walkRegex } from './parser';
+import { RegexFlags, RegexGroup, RegexNode, RegexPattern, RegexQuantifier } from './types';
+
+/** Counted repetitions beyond this many copies are treated as unbounded */
+export const MAX_REPEAT_COPIES = 100;
+
+const loops = new WeakMap<RegexQuantifier, boolean>();
+
+/**
+ * Whether the automaton treats a quantifier as a loop: it is unbounded,
+ * or its count times the counts of the repetitions nested in it exceeds
+ * MAX_REPEAT_COPIES. Expanding `(?:a{1,50}){1,50}` into copies would hide
+ * that it backtracks like `(?:a+)+`.
+ */
+export function isLoop(quantifier: RegexQuantifier): boolean {
+    let loop = loops.get(quantifier);
+    if (loop === undefined) {
+        loop = quantifier.max === Infinity || quantifier.max * nestedCopies(quantifier.body) > MAX_REPEAT_COPIES;
+        loops.set(quantifier, loop);
+    }
+    return loop;
+}
+
+/**
+ * Largest product of the counts of nested repetitions that are expanded
+ * into copies, 1 when there are none.
+ */
+function nestedCopies(root: RegexNode): number {
+    let most = 1;
+    walkRegex(root, (node) => {
+        if (node.type !== 'Quantifier') {
+            return true;
+        }
+        const copies = isLoop(node) ? nestedCopies(node.body) : node.max * nestedCopies(node.body);
+        most = Math.max(most, copies);
+        return false;
+    });
+    return most;
+}
+
+/** Patterns expanding to more states than this are not analyzed */
+export const MAX_NFA_STATES = 50000;
+
+/**
+ * A position automaton (Glushkov construction) without epsilon transitions.
+ *
+ * State 0 is the initial state. Every other state consumes one character
+ * from its label when it is entered. A transition target may appear more
+ * than once in a state's list: each copy is a different route through the
+ * pattern, which is exactly the ambiguity a backtracking matcher explores.
+ */
+export interface Nfa {
+    labels: Array<CharSet | undefined>;
+    /** AST node each state was created from */
+    nodes: Array<RegexNode | undefined>;
+    transitions: number[][];
+    accepting: boolean[];
+    /** Accepting states with no assertion left to pass, where a match cannot fail any more */
+    alwaysAccepting: boolean[];
+    /** The state of the implicit `[\s\S]*?` search prefix, when there is one */
+    search?: number;
+}
+
+interface Fragment {
+    first: number[];
+    last: number[];
+    nullable: boolean;
+    /** States of `last` from which the end is reached without passing an assertion */
+    lastFree: number[];
+    /** Whether the fragment can match empty without passing an assertion */
+    nullableFree: boolean;
+}
+
+const EMPTY: Fragment = { first: [], last: [], nullable: true, lastFree: [], nullableFree: true };
+
+const ASSERTION: Fragment = { ...EMPTY, nullableFree: false };
+
+/**
+ * Build the position automaton for a parsed pattern.
+ *
+ * Assertions and lookarounds are treated as empty matches, and a
+ * backreference as another copy of the group it refers to, so the
+ * automaton over-approximates the language of the pattern.
+ * Returns undefined if the automaton would exceed MAX_NFA_STATES.
+ *
+ * With `search`, a pattern that `test()` and `exec()` may match anywhere,
+ * one that is neither sticky nor anchored with `^`, gets the implicit
+ * `[\s\S]*?` prefix of that search as a looping state. A backtracking
+ * matcher retries the pattern at every position, so a loop that can read
+ * what the prefix reads adds a degree, as in `a+$`.
+ */
+export function buildNfa(ast: RegexPattern, options: { search?: boolean } = {}): Nfa | undefined {
+    const builder = new NfaBuilder(ast, options.search ?? false);
+    try {
+        return builder.build();
+    } catch (error) {
+        if (error === TOO_LARGE) {
+            return undefined;
+        }
+        throw error;
+    }
+}
+
+const TOO_LARGE = Symbol('too large');
+
+class NfaBuilder {
+    private readonly nfa: Nfa = { labels: [undefined], nodes: [undefined], transitions: [[]], accepting: [false], alwaysAccepting: [false] };
+    private readonly groups = new Map<number, RegexGroup>();
+    private readonly openGroups: number[] = [];
+    private readonly flags: RegexFlags;
+
+    constructor(private readonly ast: RegexPattern, private readonly search: boolean) {
+        this.flags = ast.flags;
+        walkRegex(ast, (node) => {
+            if (node.type === 'Group' && node.index !== undefined) {
+                this.groups.set(node.index, node);
+            }
+        });
+    }
+
+    build(): Nfa {
+        const fragment = this.fragment(this.ast.body);
+        this.link([0], fragment.first);
+        if (this.search && !this.anchored()) {
+            const prefix = this.state(CharSet.range(0, MAX_CODE_POINT));
+            this.link([0], prefix.first);
+            this.link(prefix.last, [...prefix.first, ...fragment.first]);
+            this.nfa.search = prefix.first[0];
+        }
+        for (const state of fragment.last) {
+            this.nfa.accepting[state] = true;
+        }
+        for (const state of fragment.lastFree) {
+            this.nfa.alwaysAccepting[state] = true;
+        }
+        this.nfa.accepting[0] = fragment.nullable;
+        this.nfa.alwaysAccepting[0] = fragment.nullableFree;
+        return this.nfa;
+    }
+
+    /**
+     * Whether a match can only start where the search starts: the regex
+     * is sticky, or every alternative begins with `^` without the `m` flag.
+     */
+    private anchored(): boolean {
+        if (this.flags.sticky) {
+            return true;
+        }
+        return !this.flags.multiline && this.ast.body.alternatives.every(({ terms: [first] }) => (
+            first?.type === 'Assertion' && first.kind === 'start'
+        ));
+    }
+
+    private state(label: CharSet, node?: RegexNode): Fragment {
+        const id = this.nfa.labels.length;
+        if (id > MAX_NFA_STATES) {
+            throw TOO_LARGE;
+        }
+        this.nfa.labels.push(label);
+        this.nfa.nodes.push(node);
+        this.nfa.transitions.push([]);
+        this.nfa.accepting.push(false);
+        this.nfa.alwaysAccepting.push(false);
+        return { first: [id], last: [id], nullable: false, lastFree: [id], nullableFree: false };
+    }
+
+    private link(from: number[], to: number[]): void {
+        for (const source of from) {
+            this.nfa.transitions[source].push(...to);
+        }
+    }
+
+    private concat(a: Fragment, b: Fragment): Fragment {
+        this.link(a.last, b.first);
+        return {
+            first: a.nullable ? [...a.first, ...b.first] : a.first,
+            last: b.nullable ? [...a.last, ...b.last] : b.last,
+            nullable: a.nullable && b.nullable,
+            lastFree: b.nullableFree ? [...a.lastFree, ...b.lastFree] : b.lastFree,
+            nullableFree: a.nullableFree && b.nullableFree,
+        };
+    }
+
+    private alternate(a: Fragment, b: Fragment): Fragment {
+        return {
+            first: [...a.first, ...b.first],
+            last: [...a.last, ...b.last],
+            nullable: a.nullable || b.nullable,
+            lastFree: [...a.lastFree, ...b.lastFree],
+            nullableFree: a.nullableFree || b.nullableFree,
+        };
+    }
+
+    private repeat(body: Fragment, allowEmpty: boolean): Fragment {
+        this.link(body.last, body.first);
+        return { ...body, nullable: allowEmpty || body.nullable, nullableFree: allowEmpty || body.nullableFree };
+    }
+
+    private optional(body: Fragment): Fragment {
+        return { ...body, nullable: true, nullableFree: true };
+    }
+
+    private fragment(node: RegexNode): Fragment {
+        switch (node.type) {
+            case 'Disjunction':
+                return node.alternatives
+                    .map((alternative) => this.fragment(alternative))
+                    .reduce((result, next) => this.alternate(result, next));
+            case 'Alternative':
+                return node.terms.reduce((result, term) => this.concat(result, this.fragment(term)), EMPTY);
+            case 'Group':
+                return this.groupFragment(node);
+            case 'Quantifier':
+                return this.quantifierFragment(node);
+            case 'Backreference': {
+                const group = this.groups.get(node.index);
+                return group && !this.openGroups.includes(node.index) ? this.groupFragment(group) : EMPTY;
+            }
+            case 'Assertion':
+            case 'Lookaround':
+                return ASSERTION;
+            default: {
+                const label = nodeCharSet(node, this.flags);
+                return label ? this.state(label, node) : EMPTY;
+            }
+        }
+    }
+
+    private groupFragment(group: RegexGroup): Fragment {
+        if (group.index === undefined) {
+            return this.fragment(group.body);
+        }
+        this.openGroups.push(group.index);
+        const fragment = this.fragment(group.body);
+        this.openGroups.pop();
+        return fragment;
+    }
+
+    /**
+     * Expand `body{min,max}` into copies: min mandatory copies, then either
+     * a loop or a chain of nested optional copies.
+     */
+    private quantifierFragment(quantifier: RegexQuantifier): Fragment {
+        const { body, min, max } = quantifier;
+        const copies = Math.min(min, MAX_REPEAT_COPIES);
+        const unbounded = isLoop(quantifier);
+
+        let result = EMPTY;
+        for (let i = unbounded && copies > 0 ? 1 : 0; i < copies; i++) {
+            result = this.concat(result, this.fragment(body));
+        }
+
+        if (unbounded) {
+            return this.concat(result, this.repeat(this.fragment(body), copies === 0));
+        }
+
+        let tail: Fragment | undefined;
+        for (let i = 0; i < max - min; i++) {
+            tail = this.optional(tail ? this.concat(this.fragment(body), tail) : this.fragment(body));
+        }
+        return tail ? this.concat(result, tail) : result;
+    }
+}
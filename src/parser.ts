@@ -0,0 +1,951 @@
+import {
+    RegexAlternative,
+    RegexAtom,
+    RegexBackreference,
+    RegexCharacter,
+    RegexCharacterClass,
+    RegexCharacterClassEscape,
+    RegexClassElement,
+    RegexClassStringDisjunction,
+    RegexDisjunction,
+    RegexFlags,
+    RegexGroup,
+    RegexLookaround,
+    RegexNode,
+    RegexPattern,
+    RegexTerm,
+} from './types';
+
+const FLAG_NAMES: Record<string, keyof RegexFlags> = {
+    d: 'hasIndices',
+    g: 'global',
+    i: 'ignoreCase',
+    m: 'multiline',
+    s: 'dotAll',
+    u: 'unicode',
+    v: 'unicodeSets',
+    y: 'sticky',
+};
+
+const SYNTAX_CHARACTERS = '^$\\.*+?()[]{}|/';
+
+/** Characters that must be escaped inside a `v`-mode class */
+const CLASS_SET_SYNTAX_CHARACTERS = '()[]{}/-\\|';
+
+/** Characters that are reserved when doubled inside a `v`-mode class */
+const CLASS_SET_RESERVED_DOUBLES = '&!#$%*+,.:;<=>?@^`~';
+
+/** Punctuators that may be escaped inside a `v`-mode class */
+const CLASS_SET_RESERVED_PUNCTUATORS = '&-!#%,:;<=>@`~';
+
+const CONTROL_ESCAPES: Record<string, number> = {
+    f: 0x0c,
+    n: 0x0a,
+    r: 0x0d,
+    t: 0x09,
+    v: 0x0b,
+};
+
+const CLASS_ESCAPES: Record<string, RegexCharacterClassEscape['kind']> = {
+    d: 'digit',
+    s: 'space',
+    w: 'word',
+};
+
+const ID_START = /[$_\p{ID_Start}]/u;
+const ID_CONTINUE = /[$\u200C\u200D\p{ID_Continue}]/u;
+
+/**
+ * Parse a flags string such as `gi` into a flags object.
+ * Throws a SyntaxError for unknown, repeated or conflicting flags.
+ */
+export function parseFlags(flags = ''): RegexFlags {
+    const result: RegexFlags = {
+        hasIndices: false,
+        global: false,
+        ignoreCase: false,
+        multiline: false,
+        dotAll: false,
+        unicode: false,
+        unicodeSets: false,
+        sticky: false,
+    };
+
+    for (const flag of flags) {
+        const name = FLAG_NAMES[flag];
+        if (!name || result[name]) {
+            throw new SyntaxError(`Invalid regular expression flags '${flags}'`);
+        }
+        result[name] = true;
+    }
+
+    if (result.unicode && result.unicodeSets) {
+        throw new SyntaxError(`Invalid regular expression flags '${flags}'`);
+    }
+
+    return result;
+}
+
+/**
+ * Parse a regex pattern into a typed AST.
+ *
+ * Follows the ECMAScript grammar, including the Annex B extensions that
+ * apply when neither `u` nor `v` is set, and throws a SyntaxError for
+ * patterns the JavaScript engine would reject.
+ *
+ * @example
+ * ```typescript
+ * const ast = parsePattern('^(a+)+$');
+ * ast.body.alternatives[0].terms[1].type; // 'Quantifier'
+ * ```
+ */
+export function parsePattern(pattern: string, flags = ''): RegexPattern {
+    return new PatternParser(pattern, parseFlags(flags), flags).parse();
+}
+
+/**
+ * Visit every node of a regex AST depth-first, parents before children.
+ * Returning false from the callback skips the node's children.
+ */
+export function walkRegex(
+    node: RegexNode,
+    visit: (node: RegexNode, parent: RegexNode | undefined) => boolean | void,
+    parent?: RegexNode,
+): void {
+    if (visit(node, parent) === false) {
+        return;
+    }
+    for (const child of childNodes(node)) {
+        walkRegex(child, visit, node);
+    }
+}
+
+/**
+ * Direct children of a regex AST node.
+ */
+export function childNodes(node: RegexNode): RegexNode[] {
+    switch (node.type) {
+        case 'Pattern':
+            return [node.body];
+        case 'Disjunction':
+            return node.alternatives;
+        case 'Alternative':
+            return node.terms;
+        case 'Group':
+        case 'Lookaround':
+            return [node.body];
+        case 'Quantifier':
+            return [node.body];
+        case 'CharacterClass':
+            return node.elements;
+        case 'CharacterRange':
+            return [node.min, node.max];
+        case 'ClassStringDisjunction':
+            return node.alternatives.flat();
+        default:
+            return [];
+    }
+}
+
+interface GroupScan {
+    count: number;
+    hasNames: boolean;
+}
+
+/**
+ * Count capturing groups ahead of parsing. Annex B decides whether `\N`
+ * is a backreference or a legacy octal escape based on the total count,
+ * and whether `\k` is special based on the presence of named groups.
+ */
+function scanGroups(source: string, unicodeSets: boolean): GroupScan {
+    let count = 0;
+    let hasNames = false;
+    let classDepth = 0;
+
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (char === '\\') {
+            i++;
+        } else if (char === '[') {
+            classDepth = unicodeSets ? classDepth + 1 : 1;
+        } else if (char === ']') {
+            classDepth = Math.max(0, classDepth - 1);
+        } else if (char === '(' && classDepth === 0) {
+            if (source[i + 1] !== '?') {
+                count++;
+            } else if (source[i + 2] === '<' && source[i + 3] !== '=' && source[i + 3] !== '!') {
+                count++;
+                hasNames = true;
+            }
+        }
+    }
+
+    return { count, hasNames };
+}
+
+function isHexDigit(char: string | undefined): boolean {
+    return char !== undefined && /^[0-9a-fA-F]$/.test(char);
+}
+
+function isDecimalDigit(char: string | undefined): boolean {
+    return char !== undefined && char >= '0' && char <= '9';
+}
+
+function isOctalDigit(char: string | undefined): boolean {
+    return char !== undefined && char >= '0' && char <= '7';
+}
+
+function isSurrogateLead(value: number): boolean {
+    return value >= 0xd800 && value <= 0xdbff;
+}
+
+function isSurrogateTrail(value: number): boolean {
+    return value >= 0xdc00 && value <= 0xdfff;
+}
+
+/**
+ * Recursive-descent parser over the pattern source.
+ */
+class PatternParser {
+    private pos = 0;
+    private groupIndex = 0;
+    private readonly unicodeMode: boolean;
+    private readonly unicodeSets: boolean;
+    private readonly namedGroupsMode: boolean;
+    private readonly totalGroups: number;
+    private readonly groupNames: Record<string, number> = {};
+    private readonly backreferences: RegexBackreference[] = [];
+
+    constructor(
+        private readonly source: string,
+        private readonly flags: RegexFlags,
+        private readonly flagsText: string,
+    ) {
+        this.unicodeMode = flags.unicode || flags.unicodeSets;
+        this.unicodeSets = flags.unicodeSets;
+        const scan = scanGroups(source, flags.unicodeSets);
+        this.totalGroups = scan.count;
+        this.namedGroupsMode = this.unicodeMode || scan.hasNames;
+    }
+
+    parse(): RegexPattern {
+        const body = this.parseDisjunction();
+        if (this.pos < this.source.length) {
+            throw this.error('Unmatched \')\'');
+        }
+
+        for (const reference of this.backreferences) {
+            if (typeof reference.ref === 'string') {
+                const index = this.groupNames[reference.ref];
+                if (index === undefined) {
+                    throw this.error('Invalid named capture referenced', reference.start);
+                }
+                reference.index = index;
+            }
+        }
+
+        return {
+            type: 'Pattern',
+            source: this.source,
+            flags: this.flags,
+            body,
+            groupCount: this.groupIndex,
+            groupNames: { ...this.groupNames },
+            start: 0,
+            end: this.source.length,
+        };
+    }
+
+    private error(message: string, position = this.pos): SyntaxError {
+        return new SyntaxError(
+            `Invalid regular expression: /${this.source}/${this.flagsText}: ${message} (at position ${position})`,
+        );
+    }
+
+    private current(offset = 0): string | undefined {
+        return this.source[this.pos + offset];
+    }
+
+    private lookingAt(text: string): boolean {
+        return this.source.startsWith(text, this.pos);
+    }
+
+    private eat(text: string): boolean {
+        if (this.lookingAt(text)) {
+            this.pos += text.length;
+            return true;
+        }
+        return false;
+    }
+
+    private atEnd(): boolean {
+        return this.pos >= this.source.length;
+    }
+
+    /**
+     * Read one source character, combining surrogate pairs in unicode mode.
+     */
+    private readCodePoint(): number {
+        const value = this.unicodeMode
+            ? this.source.codePointAt(this.pos)!
+            : this.source.charCodeAt(this.pos);
+        this.pos += value > 0xffff ? 2 : 1;
+        return value;
+    }
+
+    private character(value: number, start: number): RegexCharacter {
+        return { type: 'Character', value, start, end: this.pos };
+    }
+
+    private parseDisjunction(): RegexDisjunction {
+        const start = this.pos;
+        const alternatives = [this.parseAlternative()];
+        while (this.eat('|')) {
+            alternatives.push(this.parseAlternative());
+        }
+        return { type: 'Disjunction', alternatives, start, end: this.pos };
+    }
+
+    private parseAlternative(): RegexAlternative {
+        const start = this.pos;
+        const terms: RegexTerm[] = [];
+        while (!this.atEnd() && this.current() !== '|' && this.current() !== ')') {
+            terms.push(this.parseTerm());
+        }
+        return { type: 'Alternative', terms, start, end: this.pos };
+    }
+
+    private parseTerm(): RegexTerm {
+        const start = this.pos;
+
+        if (this.eat('^')) {
+            return { type: 'Assertion', kind: 'start', start, end: this.pos };
+        }
+        if (this.eat('$')) {
+            return { type: 'Assertion', kind: 'end', start, end: this.pos };
+        }
+        if (this.eat('\\b')) {
+            return { type: 'Assertion', kind: 'wordBoundary', start, end: this.pos };
+        }
+        if (this.eat('\\B')) {
+            return { type: 'Assertion', kind: 'nonWordBoundary', start, end: this.pos };
+        }
+
+        if (this.lookingAt('(?=') || this.lookingAt('(?!')) {
+            const lookahead = this.parseLookaround('lookahead', 3);
+            // Annex B allows quantified lookaheads outside unicode mode
+            return this.unicodeMode ? this.rejectQuantifier(lookahead) : this.parseQuantifier(lookahead, start);
+        }
+        if (this.lookingAt('(?<=') || this.lookingAt('(?<!')) {
+            return this.rejectQuantifier(this.parseLookaround('lookbehind', 4));
+        }
+
+        return this.parseQuantifier(this.parseAtom(), start);
+    }
+
+    private parseLookaround(kind: RegexLookaround['kind'], prefixLength: number): RegexLookaround {
+        const start = this.pos;
+        const negate = this.source[this.pos + prefixLength - 1] === '!';
+        this.pos += prefixLength;
+        const body = this.parseDisjunction();
+        if (!this.eat(')')) {
+            throw this.error('Unterminated group', start);
+        }
+        return { type: 'Lookaround', kind, negate, body, start, end: this.pos };
+    }
+
+    private rejectQuantifier<T extends RegexTerm>(term: T): T {
+        if (this.peekQuantifier()) {
+            throw this.error('Invalid quantifier');
+        }
+        return term;
+    }
+
+    /**
+     * Return the bounds of a quantifier at the current position without
+     * consuming it, or undefined if there is none.
+     */
+    private peekQuantifier(): { min: number; max: number; length: number } | undefined {
+        const char = this.current();
+        if (char === '*') {
+            return { min: 0, max: Infinity, length: 1 };
+        }
+        if (char === '+') {
+            return { min: 1, max: Infinity, length: 1 };
+        }
+        if (char === '?') {
+            return { min: 0, max: 1, length: 1 };
+        }
+        if (char !== '{') {
+            return undefined;
+        }
+
+        const match = /^\{(\d+)(?:(,)(\d*))?\}/.exec(this.source.slice(this.pos));
+        if (!match) {
+            if (this.unicodeMode) {
+                throw this.error('Incomplete quantifier');
+            }
+            return undefined;
+        }
+
+        const min = Number(match[1]);
+        const max = match[2] === undefined ? min : match[3] === '' ? Infinity : Number(match[3]);
+        if (max < min) {
+            throw this.error('numbers out of order in {} quantifier');
+        }
+        return { min, max, length: match[0].length };
+    }
+
+    private parseQuantifier(body: RegexAtom | RegexLookaround, start: number): RegexTerm {
+        const bounds = this.peekQuantifier();
+        if (!bounds) {
+            return body;
+        }
+        this.pos += bounds.length;
+        const greedy = !this.eat('?');
+
+        if (this.peekQuantifier()) {
+            throw this.error(
+                this.current() === '+'
+                    ? 'Nothing to repeat (possessive quantifiers are not supported)'
+                    : 'Nothing to repeat',
+            );
+        }
+
+        return {
+            type: 'Quantifier',
+            min: bounds.min,
+            max: bounds.max,
+            greedy,
+            body,
+            start,
+            end: this.pos,
+        };
+    }
+
+    private parseAtom(): RegexAtom {
+        const start = this.pos;
+        const char = this.current()!;
+
+        switch (char) {
+            case '.':
+                this.pos++;
+                return { type: 'Dot', start, end: this.pos };
+            case '(':
+                return this.parseGroup();
+            case '[':
+                return this.unicodeSets ? this.parseClassSet() : this.parseClass();
+            case '\\':
+                return this.parseAtomEscape();
+            case '*':
+            case '+':
+            case '?':
+                throw this.error('Nothing to repeat');
+            case '{':
+                if (this.peekQuantifier()) {
+                    throw this.error('Nothing to repeat');
+                }
+                break;
+            case '}':
+            case ']':
+                if (this.unicodeMode) {
+                    throw this.error(char === '}' ? 'Lone quantifier brackets' : 'Lone \']\'');
+                }
+                break;
+        }
+
+        return this.character(this.readCodePoint(), start);
+    }
+
+    private parseGroup(): RegexGroup {
+        const start = this.pos;
+        let capturing = true;
+        let name: string | undefined;
+        let modifiers: RegexGroup['modifiers'];
+
+        if (this.eat('(?:')) {
+            capturing = false;
+        } else if (this.lookingAt('(?<')) {
+            this.pos += 3;
+            name = this.parseGroupName();
+        } else if (this.lookingAt('(?')) {
+            const match = /^\(\?([ims]*)(?:-([ims]*))?:/.exec(this.source.slice(this.pos));
+            const add = match?.[1] ?? '';
+            const remove = match?.[2] ?? '';
+            const all = add + remove;
+            if (!match || new Set(all).size !== all.length || (match[2] !== undefined && all === '')) {
+                throw this.error('Invalid group');
+            }
+            this.pos += match[0].length;
+            capturing = false;
+            modifiers = { add, remove };
+        } else {
+            this.pos++;
+        }
+
+        let index: number | undefined;
+        if (capturing) {
+            index = ++this.groupIndex;
+            if (name !== undefined) {
+                if (name in this.groupNames) {
+                    throw this.error('Duplicate capture group name', start);
+                }
+                this.groupNames[name] = index;
+            }
+        }
+
+        const body = this.parseDisjunction();
+        if (!this.eat(')')) {
+            throw this.error('Unterminated group', start);
+        }
+
+        const group: RegexGroup = { type: 'Group', capturing, body, start, end: this.pos };
+        if (index !== undefined) {
+            group.index = index;
+        }
+        if (name !== undefined) {
+            group.name = name;
+        }
+        if (modifiers) {
+            group.modifiers = modifiers;
+        }
+        return group;
+    }
+
+    /**
+     * Read a group name up to and including the closing `>`.
+     */
+    private parseGroupName(): string {
+        const start = this.pos;
+        let name = '';
+        while (!this.atEnd() && this.current() !== '>') {
+            const char = String.fromCodePoint(this.source.codePointAt(this.pos)!);
+            const pattern = name === '' ? ID_START : ID_CONTINUE;
+            if (!pattern.test(char)) {
+                throw this.error('Invalid capture group name', start);
+            }
+            name += char;
+            this.pos += char.length;
+        }
+        if (name === '' || !this.eat('>')) {
+            throw this.error('Invalid capture group name', start);
+        }
+        return name;
+    }
+
+    private parseAtomEscape(): RegexAtom {
+        const start = this.pos;
+        const next = this.current(1);
+
+        if (next === undefined) {
+            throw this.error('\\ at end of pattern');
+        }
+
+        if (next >= '1' && next <= '9') {
+            const digits = /^\d+/.exec(this.source.slice(this.pos + 1))![0];
+            const value = Number(digits);
+            if (value <= this.totalGroups) {
+                this.pos += 1 + digits.length;
+                return this.backreference(value, value, start);
+            }
+            if (this.unicodeMode) {
+                throw this.error('Invalid escape');
+            }
+        }
+
+        if (next === 'k' && this.namedGroupsMode) {
+            this.pos += 2;
+            if (!this.eat('<')) {
+                throw this.error('Invalid named reference', start);
+            }
+            const name = this.parseGroupName();
+            return this.backreference(name, 0, start);
+        }
+
+        const classEscape = this.tryParseClassEscape();
+        if (classEscape) {
+            return classEscape;
+        }
+
+        return this.character(this.parseCharacterEscape(false), start);
+    }
+
+    private backreference(ref: number | string, index: number, start: number): RegexBackreference {
+        const reference: RegexBackreference = { type: 'Backreference', ref, index, start, end: this.pos };
+        this.backreferences.push(reference);
+        return reference;
+    }
+
+    /**
+     * Parse `\d`, `\s`, `\w`, `\p{...}` and negations at the current `\`.
+     */
+    private tryParseClassEscape(): RegexCharacterClassEscape | undefined {
+        const start = this.pos;
+        const letter = this.current(1)!;
+        const lower = letter.toLowerCase();
+        const negate = letter !== lower;
+
+        if (CLASS_ESCAPES[lower]) {
+            this.pos += 2;
+            return { type: 'CharacterClassEscape', kind: CLASS_ESCAPES[lower], negate, start, end: this.pos };
+        }
+
+        if (lower !== 'p' || !this.unicodeMode) {
+            return undefined;
+        }
+
+        const match = /^\{([A-Za-z0-9_]+(?:=[A-Za-z0-9_]+)?)\}/.exec(this.source.slice(this.pos + 2));
+        if (!match || !isValidProperty(match[1], this.unicodeSets && !negate)) {
+            throw this.error('Invalid property name');
+        }
+        this.pos += 2 + match[0].length;
+        return {
+            type: 'CharacterClassEscape',
+            kind: 'property',
+            negate,
+            property: match[1],
+            start,
+            end: this.pos,
+        };
+    }
+
+    /**
+     * Parse a character escape at the current `\` and return its value.
+     * Falls back to Annex B identity escapes outside unicode mode.
+     */
+    private parseCharacterEscape(inClass: boolean): number {
+        const next = this.current(1)!;
+
+        if (CONTROL_ESCAPES[next] !== undefined) {
+            this.pos += 2;
+            return CONTROL_ESCAPES[next];
+        }
+
+        if (next === 'c') {
+            const letter = this.current(2);
+            const valid = letter !== undefined && (/[A-Za-z]/.test(letter)
+                || (inClass && !this.unicodeMode && /[0-9_]/.test(letter)));
+            if (valid) {
+                this.pos += 3;
+                return letter.charCodeAt(0) % 32;
+            }
+            if (this.unicodeMode) {
+                throw this.error('Invalid unicode escape');
+            }
+            // Annex B: a lone `\c` is a literal backslash
+            this.pos += 1;
+            return 0x5c;
+        }
+
+        if (next === '0' && !isDecimalDigit(this.current(2))) {
+            this.pos += 2;
+            return 0;
+        }
+
+        if (isDecimalDigit(next)) {
+            if (this.unicodeMode) {
+                throw this.error(inClass ? 'Invalid class escape' : 'Invalid decimal escape');
+            }
+            return this.parseLegacyOctal();
+        }
+
+        if (next === 'x') {
+            if (isHexDigit(this.current(2)) && isHexDigit(this.current(3))) {
+                const value = parseInt(this.source.slice(this.pos + 2, this.pos + 4), 16);
+                this.pos += 4;
+                return value;
+            }
+            if (this.unicodeMode) {
+                throw this.error('Invalid escape');
+            }
+            this.pos += 2;
+            return 0x78;
+        }
+
+        if (next === 'u') {
+            const value = this.tryParseUnicodeEscape();
+            if (value !== undefined) {
+                return value;
+            }
+            if (this.unicodeMode) {
+                throw this.error('Invalid Unicode escape');
+            }
+            this.pos += 2;
+            return 0x75;
+        }
+
+        if (this.unicodeMode) {
+            const allowed = SYNTAX_CHARACTERS.includes(next)
+                || (inClass && next === '-')
+                || (inClass && this.unicodeSets && CLASS_SET_RESERVED_PUNCTUATORS.includes(next));
+            if (!allowed) {
+                throw this.error('Invalid escape');
+            }
+            this.pos += 2;
+            return next.charCodeAt(0);
+        }
+
+        if (next === 'k' && this.namedGroupsMode) {
+            throw this.error('Invalid named reference');
+        }
+
+        this.pos += 1;
+        return this.readCodePoint();
+    }
+
+    /**
+     * Annex B legacy octal escape such as `\12`; `\8` and `\9` are identity escapes.
+     */
+    private parseLegacyOctal(): number {
+        this.pos += 1;
+        if (!isOctalDigit(this.current())) {
+            return this.readCodePoint();
+        }
+
+        let digits = this.current()!;
+        this.pos++;
+        while (digits.length < 3 && isOctalDigit(this.current()) && parseInt(digits + this.current(), 8) <= 0o377) {
+            digits += this.current();
+            this.pos++;
+        }
+        return parseInt(digits, 8);
+    }
+
+    /**
+     * Parse `\uXXXX`, surrogate pairs and `\u{...}` at the current `\`.
+     */
+    private tryParseUnicodeEscape(): number | undefined {
+        const source = this.source;
+        const start = this.pos;
+
+        if (this.unicodeMode && source[start + 2] === '{') {
+            const match = /^\{([0-9a-fA-F]+)\}/.exec(source.slice(start + 2));
+            if (!match || parseInt(match[1], 16) > 0x10ffff) {
+                return undefined;
+            }
+            this.pos += 2 + match[0].length;
+            return parseInt(match[1], 16);
+        }
+
+        const hex = source.slice(start + 2, start + 6);
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+            return undefined;
+        }
+        const value = parseInt(hex, 16);
+        this.pos += 6;
+
+        if (this.unicodeMode && isSurrogateLead(value) && source.startsWith('\\u', this.pos)) {
+            const trailHex = source.slice(this.pos + 2, this.pos + 6);
+            const trail = /^[0-9a-fA-F]{4}$/.test(trailHex) ? parseInt(trailHex, 16) : NaN;
+            if (isSurrogateTrail(trail)) {
+                this.pos += 6;
+                return (value - 0xd800) * 0x400 + (trail - 0xdc00) + 0x10000;
+            }
+        }
+
+        return value;
+    }
+
+    /**
+     * Character class outside `v` mode: `[abc]`, `[^a-z\d]`.
+     */
+    private parseClass(): RegexCharacterClass {
+        const start = this.pos;
+        this.pos++;
+        const negate = this.eat('^');
+        const elements: RegexClassElement[] = [];
+
+        while (this.current() !== ']') {
+            if (this.atEnd()) {
+                throw this.error('Unterminated character class', start);
+            }
+
+            const first = this.parseClassAtom();
+            if (this.current() !== '-' || this.current(1) === ']' || this.current(1) === undefined) {
+                elements.push(first);
+                continue;
+            }
+
+            const dashStart = this.pos;
+            this.pos++;
+            const second = this.parseClassAtom();
+
+            if (first.type !== 'Character' || second.type !== 'Character') {
+                if (this.unicodeMode) {
+                    throw this.error('Invalid character class', dashStart);
+                }
+                elements.push(first, { type: 'Character', value: 0x2d, start: dashStart, end: dashStart + 1 }, second);
+                continue;
+            }
+
+            if (first.value > second.value) {
+                throw this.error('Range out of order in character class', dashStart);
+            }
+            elements.push({ type: 'CharacterRange', min: first, max: second, start: first.start, end: this.pos });
+        }
+
+        this.pos++;
+        return { type: 'CharacterClass', negate, kind: 'union', elements, start, end: this.pos };
+    }
+
+    private parseClassAtom(): RegexCharacter | RegexCharacterClassEscape {
+        const start = this.pos;
+        if (this.current() !== '\\') {
+            return this.character(this.readCodePoint(), start);
+        }
+
+        const next = this.current(1);
+        if (next === undefined) {
+            throw this.error('\\ at end of pattern');
+        }
+        if (next === 'b') {
+            this.pos += 2;
+            return this.character(0x08, start);
+        }
+        if (next === 'B' && this.unicodeMode) {
+            throw this.error('Invalid class escape');
+        }
+
+        const classEscape = this.tryParseClassEscape();
+        if (classEscape) {
+            return classEscape;
+        }
+        return this.character(this.parseCharacterEscape(true), start);
+    }
+
+    /**
+     * Character class in `v` mode, with nesting, `\q{...}`,
+     * intersection (`&&`) and subtraction (`--`).
+     */
+    private parseClassSet(): RegexCharacterClass {
+        const start = this.pos;
+        this.pos++;
+        const negate = this.eat('^');
+        const elements: RegexClassElement[] = [];
+        let kind: RegexCharacterClass['kind'] = 'union';
+
+        if (this.current() !== ']') {
+            const first = this.parseClassSetOperand(true);
+            elements.push(first);
+            if (this.lookingAt('&&')) {
+                kind = 'intersection';
+            } else if (this.lookingAt('--')) {
+                kind = 'subtraction';
+            }
+            if (kind !== 'union' && first.type === 'CharacterRange') {
+                throw this.error('Invalid set operation in character class');
+            }
+        }
+
+        while (this.current() !== ']') {
+            if (this.atEnd()) {
+                throw this.error('Unterminated character class', start);
+            }
+            if (kind === 'union') {
+                if (this.lookingAt('&&') || this.lookingAt('--')) {
+                    throw this.error('Invalid set operation in character class');
+                }
+                elements.push(this.parseClassSetOperand(true));
+                continue;
+            }
+
+            if (!this.eat(kind === 'intersection' ? '&&' : '--')) {
+                throw this.error('Invalid set operation in character class');
+            }
+            if (this.current() === '&' || this.current() === ']') {
+                throw this.error('Invalid set operation in character class');
+            }
+            elements.push(this.parseClassSetOperand(false));
+        }
+
+        if (negate) {
+            for (const element of elements) {
+                if (element.type === 'ClassStringDisjunction'
+                    && element.alternatives.some((alternative) => alternative.length !== 1)) {
+                    throw this.error('Negated character class may contain strings', start);
+                }
+            }
+        }
+
+        this.pos++;
+        return { type: 'CharacterClass', negate, kind, elements, start, end: this.pos };
+    }
+
+    private parseClassSetOperand(allowRange: boolean): RegexClassElement {
+        const start = this.pos;
+
+        if (this.current() === '[') {
+            return this.parseClassSet();
+        }
+        if (this.lookingAt('\\q{')) {
+            return this.parseClassStringDisjunction();
+        }
+
+        const first = this.parseClassSetCharacter();
+        if (first.type !== 'Character' || !allowRange || this.current() !== '-' || this.current(1) === '-') {
+            return first;
+        }
+
+        this.pos++;
+        const second = this.parseClassSetCharacter();
+        if (second.type !== 'Character') {
+            throw this.error('Invalid character class', start);
+        }
+        if (first.value > second.value) {
+            throw this.error('Range out of order in character class', start);
+        }
+        return { type: 'CharacterRange', min: first, max: second, start, end: this.pos };
+    }
+
+    private parseClassSetCharacter(): RegexCharacter | RegexCharacterClassEscape {
+        const start = this.pos;
+        const char = this.current();
+
+        if (char === undefined) {
+            throw this.error('Unterminated character class');
+        }
+        if (char === '\\') {
+            return this.parseClassAtom();
+        }
+        if (CLASS_SET_SYNTAX_CHARACTERS.includes(char)
+            || (CLASS_SET_RESERVED_DOUBLES.includes(char) && this.current(1) === char)) {
+            throw this.error('Invalid character in character class');
+        }
+        return this.character(this.readCodePoint(), start);
+    }
+
+    private parseClassStringDisjunction(): RegexClassStringDisjunction {
+        const start = this.pos;
+        this.pos += 3;
+        const alternatives: RegexCharacter[][] = [[]];
+
+        while (!this.eat('}')) {
+            if (this.atEnd()) {
+                throw this.error('Unterminated class string disjunction', start);
+            }
+            if (this.eat('|')) {
+                alternatives.push([]);
+                continue;
+            }
+            const charStart = this.pos;
+            const value = this.current() === '\\'
+                ? this.parseCharacterEscape(true)
+                : this.readCodePoint();
+            alternatives[alternatives.length - 1].push(this.character(value, charStart));
+        }
+
+        return { type: 'ClassStringDisjunction', alternatives, start, end: this.pos };
+    }
+}
+
+/**
+ * Check a `\p{...}` expression against the engine's Unicode tables.
+ */
+function isValidProperty(property: string, allowStringProperties: boolean): boolean {
+    try {
+        new RegExp(`\\p{${property}}`, allowStringProperties ? 'v' : 'u');
+        return true;
+    } catch {
+        return false;
+    }
+}
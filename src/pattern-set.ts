@@ -0,0 +1,427 @@
+import { PatternSetOptions, PatternSetRejection, PatternSetResult, SafeRegexResult } from './types';
+import { SafeRegex } from './safe-regex';
+import { compilePattern, Instruction, Program } from './program';
+import { CharSet } from './charset';
+import { InputReader } from './input';
+import { execBounded } from './backtrack';
+
+/** Input characters between clock reads */
+const CLOCK_INTERVAL = 1024;
+
+/** Cached DFA states before the cache starts over */
+const MAX_DFA_STATES = 10000;
+
+const NON_ASCII = CharSet.range(0x80, 0x10ffff);
+
+interface Entry {
+    id: string;
+    pattern: string;
+    flags?: string;
+    regex: RegExp;
+    program: Program;
+}
+
+interface DfaState {
+    /** Sorted `char` instructions the threads wait at */
+    threads: number[];
+    /** Transitions keyed by the character read and the character after it */
+    next: Map<number, Transition>;
+}
+
+interface Transition {
+    state: DfaState;
+    /** Patterns that match on the way */
+    matches: number[];
+}
+
+/**
+ * Programs of many patterns laid out in one instruction array and run
+ * together over the input, recording every pattern whose `match`
+ * instruction is reached. Captures and priorities do not matter for that,
+ * so saves and loop checks are skipped, and a set of threads is a state of
+ * a lazily built DFA: a step from it depends only on the character read
+ * and the one after it, which decide every assertion, so steps are
+ * computed once and cached.
+ *
+ * Each pattern's threads start at every position where its first
+ * character can appear (only at the start for sticky patterns).
+ */
+class SetVm {
+    private readonly instructions: Instruction[] = [];
+    /** Pattern index of each instruction */
+    private readonly owner: number[] = [];
+    private readonly starts: number[] = [];
+    private readonly sticky: boolean[] = [];
+    /** Patterns that can start with each ASCII character */
+    private readonly asciiStarts: number[][] = Array.from({ length: 0x80 }, () => []);
+    /** Patterns that can start with a non-ASCII character, with their first characters */
+    private readonly wideStarts: Array<[number, CharSet]> = [];
+    /** Patterns that can match without consuming input, started everywhere */
+    private readonly emptyStarts: number[] = [];
+    private readonly visited: Int32Array;
+    private generation = 0;
+    private states = new Map<string, DfaState>();
+
+    constructor(programs: Program[], private readonly unicode: boolean) {
+        programs.forEach((program, index) => {
+            const base = this.instructions.length;
+            this.starts.push(base);
+            this.sticky.push(program.flags.sticky);
+            for (const instruction of program.instructions) {
+                this.instructions.push(relocate(instruction, base));
+                this.owner.push(index);
+            }
+        });
+        this.visited = new Int32Array(this.instructions.length).fill(-1);
+        this.starts.forEach((start, index) => {
+            if (this.sticky[index]) {
+                return;
+            }
+            const first = this.firstChars(start);
+            if (!first) {
+                this.emptyStarts.push(index);
+                return;
+            }
+            for (let code = 0; code < 0x80; code++) {
+                if (first.has(code)) {
+                    this.asciiStarts[code].push(index);
+                }
+            }
+            if (first.intersects(NON_ASCII)) {
+                this.wideStarts.push([index, first]);
+            }
+        });
+    }
+
+    /**
+     * Mark the patterns that match somewhere in the input.
+     * Returns false when the deadline passed first.
+     */
+    run(input: string, matched: boolean[], deadline: number): boolean {
+        const reader = new InputReader(input, this.unicode);
+        let unmatched = matched.length;
+        const record = (matches: number[]) => {
+            for (const index of matches) {
+                if (!matched[index]) {
+                    matched[index] = true;
+                    unmatched--;
+                }
+            }
+        };
+
+        const threads: number[] = [];
+        const matches: number[] = [];
+        this.generation++;
+        for (const start of this.starts) {
+            this.addThread(threads, matches, start, 0, reader);
+        }
+        record(matches);
+        let state = this.intern(threads);
+
+        for (let pos = 0, steps = 0; unmatched > 0; steps++) {
+            const char = reader.after(pos);
+            if (!char) {
+                break;
+            }
+            const after = reader.after(pos + char[1]);
+            const key = char[0] * 0x110001 + (after ? after[0] + 1 : 0);
+            let transition = state.next.get(key);
+            if (!transition) {
+                transition = this.step(state, reader, pos, char);
+                state.next.set(key, transition);
+            }
+            record(transition.matches);
+            state = transition.state;
+            pos += char[1];
+
+            if (steps % CLOCK_INTERVAL === 0 && Date.now() > deadline) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Advance every thread of a state over the character at `pos` and
+     * start new threads after it.
+     */
+    private step(state: DfaState, reader: InputReader, pos: number, char: [number, number]): Transition {
+        const threads: number[] = [];
+        const matches: number[] = [];
+        const next = pos + char[1];
+        this.generation++;
+        for (const pc of state.threads) {
+            const instruction = this.instructions[pc];
+            if (instruction.op === 'char' && instruction.set.has(char[0])) {
+                this.addThread(threads, matches, pc + 1, next, reader);
+            }
+        }
+        for (const index of this.startsAt(reader, next)) {
+            this.addThread(threads, matches, this.starts[index], next, reader);
+        }
+        return { state: this.intern(threads), matches };
+    }
+
+    /**
+     * The state for a set of threads, starting over when too many are cached.
+     */
+    private intern(threads: number[]): DfaState {
+        threads.sort((a, b) => a - b);
+        const key = threads.join(',');
+        let state = this.states.get(key);
+        if (!state) {
+            if (this.states.size >= MAX_DFA_STATES) {
+                this.states = new Map();
+            }
+            state = { threads, next: new Map() };
+            this.states.set(key, state);
+        }
+        return state;
+    }
+
+    /**
+     * Follow non-consuming instructions from `start` at `pos`, collecting
+     * the `char` instructions and the patterns whose `match` is reached.
+     */
+    private addThread(threads: number[], matches: number[], start: number, pos: number, reader: InputReader): void {
+        const stack = [start];
+        while (stack.length > 0) {
+            const pc = stack.pop()!;
+            if (this.visited[pc] === this.generation) {
+                continue;
+            }
+            this.visited[pc] = this.generation;
+
+            const instruction = this.instructions[pc];
+            switch (instruction.op) {
+                case 'jump':
+                    stack.push(instruction.to);
+                    break;
+                case 'split':
+                    stack.push(instruction.alt, instruction.next);
+                    break;
+                case 'assert':
+                    if (reader.assert(instruction.kind, instruction.multiline, pos)) {
+                        stack.push(pc + 1);
+                    }
+                    break;
+                case 'char':
+                    threads.push(pc);
+                    break;
+                case 'match':
+                    matches.push(this.owner[pc]);
+                    break;
+                default:
+                    // save, clear, mark and progress only affect captures and priorities
+                    stack.push(pc + 1);
+                    break;
+            }
+        }
+    }
+
+    /**
+     * Characters a pattern's match can start with, or undefined when it
+     * can match without consuming any. Assertions are assumed to hold.
+     */
+    private firstChars(start: number): CharSet | undefined {
+        let first = CharSet.empty();
+        const seen = new Set<number>();
+        const stack = [start];
+        while (stack.length > 0) {
+            const pc = stack.pop()!;
+            if (seen.has(pc)) {
+                continue;
+            }
+            seen.add(pc);
+            const instruction = this.instructions[pc];
+            switch (instruction.op) {
+                case 'jump':
+                    stack.push(instruction.to);
+                    break;
+                case 'split':
+                    stack.push(instruction.alt, instruction.next);
+                    break;
+                case 'char':
+                    first = first.union(instruction.set);
+                    break;
+                case 'match':
+                    return undefined;
+                default:
+                    stack.push(pc + 1);
+                    break;
+            }
+        }
+        return first;
+    }
+
+    /**
+     * Patterns whose match can start with the character at `pos`.
+     */
+    private startsAt(reader: InputReader, pos: number): number[] {
+        const char = reader.after(pos);
+        if (!char) {
+            return this.emptyStarts;
+        }
+        const starts = char[0] < 0x80
+            ? this.asciiStarts[char[0]]
+            : this.wideStarts.filter(([, first]) => first.has(char[0])).map(([index]) => index);
+        return this.emptyStarts.length === 0 ? starts : [...this.emptyStarts, ...starts];
+    }
+}
+
+function relocate(instruction: Instruction, base: number): Instruction {
+    switch (instruction.op) {
+        case 'split':
+            return { op: 'split', next: instruction.next + base, alt: instruction.alt + base };
+        case 'jump':
+            return { op: 'jump', to: instruction.to + base };
+        default:
+            return instruction;
+    }
+}
+
+/**
+ * A set of patterns matched against an input at once, reporting the IDs
+ * of all patterns that match.
+ *
+ * Each pattern is checked with `SafeRegex.create` when added; rejected
+ * ones are left out and listed by `rejected()`. The accepted patterns are
+ * combined into one automaton that reads the input once, in time linear
+ * in the input and the total size of the patterns. Patterns with
+ * backreferences or lookarounds are matched one by one instead.
+ * Each `match()` call has a total time budget of `timeoutMs`.
+ *
+ * @example
+ * ```typescript
+ * const rules = new PatternSet();
+ * rules.add('disk', 'disk (full|failure)', 'i');
+ * rules.add('oom', '\\bout of memory\\b');
+ *
+ * rules.match('Disk full on /dev/sda1');
+ * // { ids: ['disk'], reason: 'ok' }
+ * ```
+ */
+export class PatternSet {
+    private readonly safe: SafeRegex;
+    private readonly timeoutMs: number;
+    private readonly entries = new Map<string, Entry>();
+    private readonly rejections = new Map<string, PatternSetRejection>();
+    private compiled?: { order: Entry[]; vms: Array<{ vm: SetVm; indices: number[] }>; others: number[] };
+
+    constructor(options: PatternSetOptions = {}) {
+        this.safe = options.safeRegex ?? new SafeRegex();
+        this.timeoutMs = options.timeoutMs ?? this.safe.getConfig().timeoutMs;
+    }
+
+    /** Number of accepted patterns */
+    get size(): number {
+        return this.entries.size;
+    }
+
+    /**
+     * Check a pattern and add it under `id`, replacing any pattern
+     * with the same ID. Returns the result of `SafeRegex.create`.
+     */
+    add(id: string, pattern: string, flags?: string): SafeRegexResult {
+        this.remove(id);
+        const result = this.safe.create(pattern, flags);
+        if (!result.safe || !result.regex) {
+            this.rejections.set(id, { id, pattern, flags, reason: result.reason ?? 'invalid_syntax', error: result.error });
+            return result;
+        }
+
+        let program: Program;
+        try {
+            program = compilePattern(result.regex.source, result.regex.flags);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            this.rejections.set(id, { id, pattern, flags, reason: 'pattern_too_long', error: message });
+            return { safe: false, error: message, reason: 'pattern_too_long', complexity: result.complexity };
+        }
+        this.entries.set(id, { id, pattern, flags, regex: result.regex, program });
+        return result;
+    }
+
+    /**
+     * Remove the pattern added under `id`. Returns whether there was one.
+     */
+    remove(id: string): boolean {
+        this.compiled = undefined;
+        const removed = this.rejections.delete(id);
+        return this.entries.delete(id) || removed;
+    }
+
+    /**
+     * Patterns that were not accepted, with the reason.
+     */
+    rejected(): PatternSetRejection[] {
+        return [...this.rejections.values()];
+    }
+
+    /**
+     * IDs of all accepted patterns that match somewhere in the input.
+     *
+     * When the time budget runs out, `reason` is `'execution_timeout'`
+     * and `ids` holds the patterns found to match until then.
+     */
+    match(input: string): PatternSetResult {
+        const { order, vms, others } = this.compile();
+        const deadline = Date.now() + this.timeoutMs;
+        const matched: boolean[] = new Array(order.length).fill(false);
+        const ids = () => order.filter((_, index) => matched[index]).map((entry) => entry.id);
+        const timedOut = (): PatternSetResult => ({
+            ids: ids(),
+            reason: 'execution_timeout',
+            error: `Pattern set matching timed out after ${this.timeoutMs}ms`,
+        });
+
+        for (const { vm, indices } of vms) {
+            const found = indices.map(() => false);
+            const finished = vm.run(input, found, deadline);
+            found.forEach((hit, i) => {
+                matched[indices[i]] = hit;
+            });
+            if (!finished) {
+                return timedOut();
+            }
+        }
+        for (const index of others) {
+            const { regex } = order[index];
+            regex.lastIndex = 0;
+            const result = execBounded(regex, input, { maxSteps: Infinity, deadline });
+            regex.lastIndex = 0;
+            if (result.reason === 'execution_timeout') {
+                return timedOut();
+            }
+            matched[index] = result.matched;
+        }
+        return { ids: ids(), reason: 'ok' };
+    }
+
+    /**
+     * Group the accepted patterns into one automaton per input mode
+     * (code units or code points), plus those that need backtracking.
+     */
+    private compile(): NonNullable<PatternSet['compiled']> {
+        if (!this.compiled) {
+            const order = [...this.entries.values()];
+            const others: number[] = [];
+            const groups = new Map<boolean, number[]>();
+            order.forEach((entry, index) => {
+                const { program } = entry;
+                if (program.hasBackrefsOrLookarounds) {
+                    others.push(index);
+                    return;
+                }
+                const unicode = program.flags.unicode || program.flags.unicodeSets;
+                groups.set(unicode, [...(groups.get(unicode) ?? []), index]);
+            });
+            const vms = [...groups].map(([unicode, indices]) => ({
+                vm: new SetVm(indices.map((index) => order[index].program), unicode),
+                indices,
+            }));
+            this.compiled = { order, vms, others };
+        }
+        return this.compiled;
+    }
+}
@@ -1,16 +1,116 @@
-export const VERSION = '__VERSION__';
+export { VERSION } from './version';
 
 // Types
 export type {
     SafeRegexConfig,
     SafeRegexResult,
     SafeRegexReason,
+    FeaturePolicy,
+    SecurityProfile,
+    PatternAnalysis,
+    PatternComplexity,
+    PatternFinding,
+    FindingSeverity,
+    SourceRegexKind,
+    SourcePosition,
+    ScanSourceOptions,
+    SourceRegex,
+    SourceFinding,
+    SourceScanResult,
+    RouteSyntax,
+    AnalyzeRouteOptions,
+    RouteParam,
+    RouteFinding,
+    RouteAnalysis,
+    SchemaPatternKeyword,
+    SchemaPattern,
+    UnresolvedSchemaRef,
+    SchemaAuditOptions,
+    AuditedSchemaPattern,
+    SchemaFinding,
+    SchemaAuditResult,
+    AnalyzeOptions,
+    AttackInput,
+    AttackInputOptions,
+    RegexExecutionResult,
+    MeasuredExecResult,
+    ProbeOptions,
+    ProbeMeasurement,
+    ProbeResult,
+    WorkerPoolOptions,
+    RegexCacheOptions,
+    RegexCacheStats,
+    RegexOperation,
+    RegexCreatedEvent,
+    RegexBlockedEvent,
+    RegexExecutedEvent,
+    RegexTimeoutEvent,
+    RegexCacheHitEvent,
+    SafeRegexEvents,
+    RegexMetricsOptions,
+    BoundedExecOptions,
+    BoundedExecResult,
+    TimedExecResult,
+    TimedMatchResult,
+    TimedMatchAllResult,
+    TimedReplaceResult,
+    TimedSplitResult,
+    RegexReplacement,
+    RegexEngine,
+    RegexSuggestion,
+    GlobOptions,
+    IgnoreFormat,
+    IgnoreMatcherOptions,
+    IgnoreRule,
+    PatternSetOptions,
+    PatternSetRejection,
+    PatternSetResult,
+    RegexFlags,
+    RegexNode,
+    RegexPattern,
+    RegexDisjunction,
+    RegexAlternative,
+    RegexTerm,
+    RegexAtom,
+    RegexCharacter,
+    RegexDot,
+    RegexCharacterClass,
+    RegexCharacterClassEscape,
+    RegexCharacterRange,
+    RegexClassElement,
+    RegexClassStringDisjunction,
+    RegexGroup,
+    RegexLookaround,
+    RegexAssertion,
+    RegexBackreference,
+    RegexQuantifier,
 } from './types';
 
-export { DEFAULT_CONFIG } from './types';
+export { DEFAULT_CONFIG, SECURITY_PROFILES } from './types';
 
 // Analysis (for advanced users)
-export { analyzePattern, quickSafetyCheck } from './analyze';
+export { analyzePattern, describeComplexity, quickSafetyCheck } from './analyze';
+export { parsePattern, parseFlags, walkRegex } from './parser';
+export { generateAttackInput } from './attack';
+export { suggestRewrites } from './rewrite';
+export { globToPattern } from './glob';
+export { scanSource } from './scanner';
+export { analyzeRoute } from './route';
+export { probePattern } from './probe';
+
+// Interruptible execution
+export { RegexWorkerPool, sharedWorkerPool } from './worker-pool';
+
+export { execBounded } from './backtrack';
+
+// Caching
+export { RegexCache, sharedRegexCache } from './cache';
+
+// Monitoring
+export { RegexMetrics } from './metrics';
+
+// Linear-time matching
+export { LinearRegExp, supportsLinearMatching } from './linear';
 
 // Main API
 export {
@@ -19,4 +119,16 @@ export {
     globToSafeRegex,
     escapeForRegex,
 } from './safe-regex';
+export {
+    SafeRegexError,
+    PatternTooLongError,
+    InvalidSyntaxError,
+    UnsafePatternError,
+    FeatureNotAllowedError,
+    InputTooLongError,
+    ExecutionTimeoutError,
+} from './errors';
+export { IgnoreMatcher } from './ignore';
+export { PatternSet } from './pattern-set';
+export { auditSchema } from './schema';
 
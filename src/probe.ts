@@ -0,0 +1,198 @@
+import { PatternComplexity, ProbeMeasurement, ProbeOptions, ProbeResult, RegexPattern } from './types';
+import { parsePattern, walkRegex } from './parser';
+import { CharSet, nodeCharSet } from './charset';
+import { generateAttackInput } from './attack';
+import { sharedWorkerPool } from './worker-pool';
+
+type InputFamily = NonNullable<ProbeResult['input']>;
+
+/** Input lengths start here and grow by GROWTH_FACTOR */
+const FIRST_LENGTH = 8;
+const GROWTH_FACTOR = 1.5;
+
+/** Measurements the growth exponent is fitted to */
+const FITTED_MEASUREMENTS = 4;
+
+/** Exponents above this are taken for exponential growth */
+const MAX_POLYNOMIAL_EXPONENT = 5;
+
+/** Characters of the pattern pumped one at a time */
+const MAX_PUMPED_CHARACTERS = 6;
+
+/** Suffixes tried to make the match fail, in order of preference */
+const FAILING_CHARACTERS = ['!', '~', '#', '\0', '\uffff'];
+
+/**
+ * Measure how matching time grows with input length, as a second
+ * opinion on the static analysis. The pattern runs on worker threads
+ * (stopped after `timeoutMs`) against inputs of growing length, each
+ * built from a prefix, a pumped string and a suffix meant to make the
+ * match fail. Pumps come from the attack input of the analysis and from
+ * the pattern's own characters, and the family of inputs whose time
+ * grows fastest is reported; probing stops at the first that grows
+ * exponentially.
+ *
+ * Growth is fitted over the longest inputs: an exponent near 1 is
+ * linear, near k polynomial of degree k, and above 5, or a match
+ * stopped early, exponential. Timing is noisy, so the result is a
+ * measurement of this engine on these inputs, not a proof; a probe that
+ * finds no blowup does not show there is none.
+ *
+ * @example
+ * ```typescript
+ * const probe = await probePattern('^(\\w+\\s?)+$');
+ * // probe.complexity: { type: 'exponential' }
+ * // probe.measurements: [{ length: 8, elapsedMs: 0.0004, timedOut: false }, ...]
+ * ```
+ */
+export async function probePattern(pattern: string, flags = '', options: ProbeOptions = {}): Promise<ProbeResult> {
+    const started = Date.now();
+    const maxLength = options.maxLength ?? 5000;
+    const timeoutMs = options.timeoutMs ?? 250;
+    const budgetMs = options.budgetMs ?? 3000;
+    const pool = options.workerPool ?? sharedWorkerPool();
+
+    let ast: RegexPattern;
+    let regex: RegExp;
+    try {
+        ast = parsePattern(pattern, flags);
+        regex = new RegExp(pattern, flags);
+    } catch (error) {
+        return {
+            measurements: [],
+            durationMs: Date.now() - started,
+            error: `Invalid regex syntax: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        };
+    }
+
+    let slowest: { input: InputFamily; measurements: ProbeMeasurement[]; exponent: number; complexity: PatternComplexity } | undefined;
+    for (const input of inputFamilies(ast, pattern, flags)) {
+        const measurements: ProbeMeasurement[] = [];
+        for (let target = FIRST_LENGTH; target <= maxLength; target = Math.ceil(target * GROWTH_FACTOR)) {
+            if (Date.now() - started >= budgetMs) {
+                break;
+            }
+            const repetitions = Math.max(1, Math.round((target - input.prefix.length - input.suffix.length) / input.pump.length));
+            const text = input.prefix + input.pump.repeat(repetitions) + input.suffix;
+            if (measurements.length > 0 && text.length <= measurements[measurements.length - 1].length) {
+                continue;
+            }
+            const result = await pool.measure(regex, text, timeoutMs);
+            const timedOut = result.reason === 'execution_timeout';
+            measurements.push({ length: text.length, elapsedMs: timedOut ? timeoutMs : result.elapsedMs!, timedOut });
+            if (timedOut) {
+                break;
+            }
+        }
+
+        const fit = fitGrowth(measurements);
+        if (fit && (!slowest || fit.exponent > slowest.exponent)) {
+            slowest = { input, measurements, ...fit };
+        }
+        if (slowest?.complexity.type === 'exponential') {
+            // Nothing grows faster, so the other inputs need not be timed
+            break;
+        }
+    }
+
+    if (!slowest) {
+        return { measurements: [], durationMs: Date.now() - started };
+    }
+    const { input, measurements, exponent, complexity } = slowest;
+    return { complexity, exponent, input, measurements, durationMs: Date.now() - started };
+}
+
+/**
+ * The exponent of time over length across the longest measurements, by
+ * least squares on their logarithms. A stopped match only bounds the
+ * exponent from below, measured from the last match that finished.
+ */
+function fitGrowth(measurements: ProbeMeasurement[]): { exponent: number; complexity: PatternComplexity } | undefined {
+    const finished = measurements.filter((measurement) => !measurement.timedOut);
+    const stopped = measurements.find((measurement) => measurement.timedOut);
+    if (finished.length === 0 && !stopped) {
+        return undefined;
+    }
+
+    let exponent = 0;
+    const fitted = finished.slice(-FITTED_MEASUREMENTS);
+    if (fitted.length >= 2) {
+        const xs = fitted.map((measurement) => Math.log(measurement.length));
+        const ys = fitted.map((measurement) => Math.log(Math.max(measurement.elapsedMs, Number.MIN_VALUE)));
+        const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+        const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+        const covariance = xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0);
+        const variance = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+        exponent = covariance / variance;
+    }
+    if (stopped) {
+        const last = finished[finished.length - 1];
+        const bound = last
+            ? Math.log(stopped.elapsedMs / last.elapsedMs) / Math.log(stopped.length / last.length)
+            : Infinity;
+        exponent = Math.max(exponent, bound);
+    }
+
+    if (exponent > MAX_POLYNOMIAL_EXPONENT) {
+        return { exponent, complexity: { type: 'exponential' } };
+    }
+    const degree = Math.round(exponent);
+    return { exponent, complexity: degree <= 1 ? { type: 'linear' } : { type: 'polynomial', degree } };
+}
+
+/**
+ * Inputs to try: the attack input of the analysis when there is one,
+ * then each of the pattern's characters pumped alone and all of them
+ * together, after the literal text the pattern starts with.
+ */
+function inputFamilies(ast: RegexPattern, pattern: string, flags: string): InputFamily[] {
+    const families: InputFamily[] = [];
+    const attack = generateAttackInput(pattern, { flags });
+    if (attack) {
+        families.push({ prefix: attack.prefix, pump: attack.pump, suffix: attack.suffix });
+    }
+
+    let alphabet = CharSet.empty();
+    const samples = new Set<number>();
+    walkRegex(ast, (node) => {
+        const set = nodeCharSet(node, ast.flags);
+        if (set) {
+            alphabet = alphabet.union(set);
+            const sample = set.sample();
+            if (sample !== undefined) {
+                samples.add(sample);
+            }
+            return false;
+        }
+        return undefined;
+    });
+
+    const suffix = FAILING_CHARACTERS.find((char) => !alphabet.has(char.codePointAt(0)!)) ?? '';
+    const prefix = leadingText(ast);
+    const characters = [...samples].slice(0, MAX_PUMPED_CHARACTERS).map((code) => String.fromCodePoint(code));
+    for (const pump of characters.length > 1 ? [...characters, characters.join('')] : characters) {
+        if (!families.some((family) => family.prefix === prefix && family.pump === pump && family.suffix === suffix)) {
+            families.push({ prefix, pump, suffix });
+        }
+    }
+    return families;
+}
+
+/**
+ * The literal characters every match starts with, up to the first
+ * term that is not a plain character.
+ */
+function leadingText(ast: RegexPattern): string {
+    if (ast.body.alternatives.length !== 1) {
+        return '';
+    }
+    let text = '';
+    for (const term of ast.body.alternatives[0].terms) {
+        if (term.type === 'Character') {
+            text += String.fromCodePoint(term.value);
+        } else if (term.type !== 'Assertion' || term.kind !== 'start') {
+            break;
+        }
+    }
+    return text;
+}
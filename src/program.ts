@@ -0,0 +1,331 @@
+import { CharSet, nodeCharSet } from './charset';
+import { parsePattern, walkRegex } from './parser';
+import {
+    RegexAlternative,
+    RegexCharacterClass,
+    RegexFlags,
+    RegexGroup,
+    RegexNode,
+    RegexPattern,
+    RegexQuantifier,
+} from './types';
+
+/** Programs with more instructions than this are not compiled */
+export const MAX_PROGRAM_SIZE = 100000;
+
+/**
+ * One instruction of a compiled pattern. `char` and `backref` consume
+ * input, moving backwards in lookbehind programs; the others only
+ * steer control flow or record positions.
+ */
+export type Instruction =
+    | { op: 'char'; set: CharSet }
+    /** Continue at `next` first and at `alt` when that fails */
+    | { op: 'split'; next: number; alt: number }
+    | { op: 'jump'; to: number }
+    | { op: 'save'; slot: number }
+    /** Reset capture slots `from` (inclusive) to `to` (exclusive) */
+    | { op: 'clear'; from: number; to: number }
+    /** Record the position in a loop register */
+    | { op: 'mark'; register: number }
+    /** Fail unless input was consumed since the register was marked */
+    | { op: 'progress'; register: number }
+    | { op: 'assert'; kind: 'start' | 'end' | 'wordBoundary' | 'nonWordBoundary'; multiline: boolean }
+    | { op: 'backref'; group: number; ignoreCase: boolean }
+    | { op: 'lookaround'; program: Program; negate: boolean }
+    | { op: 'match' };
+
+/**
+ * A pattern compiled to instructions for the matching engines.
+ * Capture slots 2k and 2k + 1 hold the start and end of group k,
+ * with group 0 being the whole match.
+ */
+export interface Program {
+    instructions: Instruction[];
+    /** Lookbehind bodies match right to left */
+    backward: boolean;
+    /** Number of capture slots */
+    slots: number;
+    /** Number of loop registers used by mark and progress */
+    registers: number;
+    flags: RegexFlags;
+    groupNames: Record<string, number>;
+    /** Whether the pattern uses backreferences or lookarounds */
+    hasBackrefsOrLookarounds: boolean;
+}
+
+/**
+ * Compile a pattern to a program.
+ * Throws SyntaxError for invalid patterns and RangeError when the program
+ * would exceed MAX_PROGRAM_SIZE.
+ */
+export function compilePattern(pattern: string | RegexPattern, flags?: string): Program {
+    const ast = typeof pattern === 'string' ? parsePattern(pattern, flags) : pattern;
+    return new ProgramCompiler(ast).compile();
+}
+
+function withModifiers(flags: RegexFlags, modifiers: RegexGroup['modifiers']): RegexFlags {
+    if (!modifiers) {
+        return flags;
+    }
+    const result = { ...flags };
+    for (const [flag, key] of [['i', 'ignoreCase'], ['m', 'multiline'], ['s', 'dotAll']] as const) {
+        if (modifiers.add.includes(flag)) {
+            result[key] = true;
+        }
+        if (modifiers.remove.includes(flag)) {
+            result[key] = false;
+        }
+    }
+    return result;
+}
+
+/**
+ * Whether a node can match without consuming input.
+ */
+function canBeEmpty(node: RegexNode): boolean {
+    switch (node.type) {
+        case 'Disjunction':
+            return node.alternatives.some(canBeEmpty);
+        case 'Alternative':
+            return node.terms.every(canBeEmpty);
+        case 'Group':
+            return canBeEmpty(node.body);
+        case 'Quantifier':
+            return node.min === 0 || canBeEmpty(node.body);
+        case 'Assertion':
+        case 'Lookaround':
+        case 'Backreference':
+            return true;
+        default:
+            return false;
+    }
+}
+
+interface Emitter {
+    instructions: Instruction[];
+    backward: boolean;
+}
+
+class ProgramCompiler {
+    private registers = 0;
+    private special = false;
+
+    constructor(private readonly ast: RegexPattern) {}
+
+    compile(): Program {
+        const main: Emitter = { instructions: [], backward: false };
+        this.emit(main, { op: 'save', slot: 0 });
+        this.node(main, this.ast.body, this.ast.flags);
+        this.emit(main, { op: 'save', slot: 1 });
+        this.emit(main, { op: 'match' });
+        return this.program(main);
+    }
+
+    private program(emitter: Emitter): Program {
+        return {
+            instructions: emitter.instructions,
+            backward: emitter.backward,
+            slots: (this.ast.groupCount + 1) * 2,
+            registers: this.registers,
+            flags: this.ast.flags,
+            groupNames: this.ast.groupNames,
+            hasBackrefsOrLookarounds: this.special,
+        };
+    }
+
+    private emit(emitter: Emitter, instruction: Instruction): number {
+        if (emitter.instructions.length >= MAX_PROGRAM_SIZE) {
+            throw new RangeError(`Pattern compiles to more than ${MAX_PROGRAM_SIZE} instructions`);
+        }
+        emitter.instructions.push(instruction);
+        return emitter.instructions.length - 1;
+    }
+
+    private node(emitter: Emitter, node: RegexNode, flags: RegexFlags): void {
+        switch (node.type) {
+            case 'Disjunction':
+                this.alternatives(emitter, node.alternatives, (alternative) => this.node(emitter, alternative, flags));
+                return;
+            case 'Alternative':
+                this.sequence(emitter, node, flags);
+                return;
+            case 'Group':
+                this.group(emitter, node, flags);
+                return;
+            case 'Quantifier':
+                this.quantifier(emitter, node, flags);
+                return;
+            case 'Assertion':
+                this.emit(emitter, { op: 'assert', kind: node.kind, multiline: flags.multiline });
+                return;
+            case 'Backreference':
+                this.special = true;
+                this.emit(emitter, { op: 'backref', group: node.index, ignoreCase: flags.ignoreCase });
+                return;
+            case 'Lookaround': {
+                this.special = true;
+                const body: Emitter = { instructions: [], backward: node.kind === 'lookbehind' };
+                this.node(body, node.body, flags);
+                this.emit(body, { op: 'match' });
+                this.emit(emitter, { op: 'lookaround', program: this.program(body), negate: node.negate });
+                return;
+            }
+            case 'CharacterClass':
+                this.characterClass(emitter, node, flags);
+                return;
+            default: {
+                const set = nodeCharSet(node, flags);
+                if (set) {
+                    this.emit(emitter, { op: 'char', set });
+                }
+            }
+        }
+    }
+
+    /**
+     * Emit alternatives tried in order, each jumping to the common end.
+     */
+    private alternatives<T>(emitter: Emitter, items: T[], emitItem: (item: T) => void): void {
+        const jumps: number[] = [];
+        items.forEach((item, i) => {
+            if (i < items.length - 1) {
+                const split = this.emit(emitter, { op: 'split', next: 0, alt: 0 });
+                emitItem(item);
+                jumps.push(this.emit(emitter, { op: 'jump', to: 0 }));
+                emitter.instructions[split] = { op: 'split', next: split + 1, alt: emitter.instructions.length };
+            } else {
+                emitItem(item);
+            }
+        });
+        for (const jump of jumps) {
+            emitter.instructions[jump] = { op: 'jump', to: emitter.instructions.length };
+        }
+    }
+
+    private sequence(emitter: Emitter, node: RegexAlternative, flags: RegexFlags): void {
+        const terms = emitter.backward ? [...node.terms].reverse() : node.terms;
+        for (const term of terms) {
+            this.node(emitter, term, flags);
+        }
+    }
+
+    private group(emitter: Emitter, node: RegexGroup, flags: RegexFlags): void {
+        const inner = withModifiers(flags, node.modifiers);
+        if (node.index === undefined) {
+            this.node(emitter, node.body, inner);
+            return;
+        }
+        const [first, second] = emitter.backward ? [1, 0] : [0, 1];
+        this.emit(emitter, { op: 'save', slot: node.index * 2 + first });
+        this.node(emitter, node.body, inner);
+        this.emit(emitter, { op: 'save', slot: node.index * 2 + second });
+    }
+
+    /**
+     * Classes with multi-character strings (`[\q{abc}x]` in v mode) try the
+     * longest strings first, then the single characters.
+     */
+    private characterClass(emitter: Emitter, node: RegexCharacterClass, flags: RegexFlags): void {
+        const strings = node.negate || node.kind !== 'union' ? [] : node.elements
+            .flatMap((element) => element.type === 'ClassStringDisjunction' ? element.alternatives : [])
+            .filter((string) => string.length !== 1)
+            .sort((a, b) => b.length - a.length);
+        const set = nodeCharSet(node, flags)!;
+        if (strings.length === 0) {
+            this.emit(emitter, { op: 'char', set });
+            return;
+        }
+
+        const single = nodeCharSet({
+            ...node,
+            elements: node.elements.map((element) => element.type === 'ClassStringDisjunction'
+                ? { ...element, alternatives: element.alternatives.filter((string) => string.length === 1) }
+                : element),
+        }, flags)!;
+        const options: Array<() => void> = strings.map((string) => () => {
+            const chars = emitter.backward ? [...string].reverse() : string;
+            for (const char of chars) {
+                this.emit(emitter, { op: 'char', set: nodeCharSet(char, flags)! });
+            }
+        });
+        if (!single.isEmpty()) {
+            options.push(() => this.emit(emitter, { op: 'char', set: single }));
+        }
+        this.alternatives(emitter, options, (emitOption) => emitOption());
+    }
+
+    private quantifier(emitter: Emitter, node: RegexQuantifier, flags: RegexFlags): void {
+        const captures = this.captureRange(node.body);
+
+        for (let i = 0; i < node.min; i++) {
+            this.iteration(emitter, node, flags, captures, undefined);
+        }
+
+        // Only bodies that can match empty need the progress check
+        const checked = canBeEmpty(node.body);
+
+        if (node.max === Infinity) {
+            const register = checked ? this.registers++ : undefined;
+            const loop = this.emit(emitter, { op: 'split', next: 0, alt: 0 });
+            this.iteration(emitter, node, flags, captures, register);
+            this.emit(emitter, { op: 'jump', to: loop });
+            this.patchSplit(emitter, loop, node.greedy, emitter.instructions.length);
+            return;
+        }
+
+        const splits: number[] = [];
+        for (let i = node.min; i < node.max; i++) {
+            const register = checked ? this.registers++ : undefined;
+            splits.push(this.emit(emitter, { op: 'split', next: 0, alt: 0 }));
+            this.iteration(emitter, node, flags, captures, register);
+        }
+        for (const split of splits) {
+            this.patchSplit(emitter, split, node.greedy, emitter.instructions.length);
+        }
+    }
+
+    /**
+     * One pass through a quantifier body. Captures inside the body are
+     * reset first, and optional passes given a register must consume input.
+     */
+    private iteration(
+        emitter: Emitter,
+        node: RegexQuantifier,
+        flags: RegexFlags,
+        captures: [number, number] | undefined,
+        register: number | undefined,
+    ): void {
+        if (register !== undefined) {
+            this.emit(emitter, { op: 'mark', register });
+        }
+        if (captures) {
+            this.emit(emitter, { op: 'clear', from: captures[0], to: captures[1] });
+        }
+        this.node(emitter, node.body, flags);
+        if (register !== undefined) {
+            this.emit(emitter, { op: 'progress', register });
+        }
+    }
+
+    private patchSplit(emitter: Emitter, split: number, greedy: boolean, exit: number): void {
+        emitter.instructions[split] = greedy
+            ? { op: 'split', next: split + 1, alt: exit }
+            : { op: 'split', next: exit, alt: split + 1 };
+    }
+
+    /**
+     * Slot range of the capturing groups inside a node, if any.
+     */
+    private captureRange(node: RegexNode): [number, number] | undefined {
+        let min = Infinity;
+        let max = -Infinity;
+        walkRegex(node, (current) => {
+            if (current.type === 'Group' && current.index !== undefined) {
+                min = Math.min(min, current.index);
+                max = Math.max(max, current.index);
+            }
+        });
+        return min === Infinity ? undefined : [min * 2, max * 2 + 2];
+    }
+}
@@ -0,0 +1,473 @@
+import {
+    AnalyzeOptions,
+    RegexAlternative,
+    RegexCharacter,
+    RegexFlags,
+    RegexGroup,
+    RegexNode,
+    RegexPattern,
+    RegexQuantifier,
+    RegexSuggestion,
+    RegexTerm,
+} from './types';
+import { parsePattern, walkRegex } from './parser';
+import { analyzePattern } from './analyze';
+import { nodeCharSet } from './charset';
+
+/** Edits applied to a pattern before giving up on reaching a fixed point */
+const MAX_EDITS = 32;
+
+/** Characters escaped inside a `v`-mode class: syntax characters and reserved punctuators */
+const CLASS_SET_ESCAPED = '^$\\.*+?()[]{}|/-&!#%,:;<=>@`~';
+
+/** Characters escaped inside other classes */
+const CLASS_ESCAPED = '\\]^-[';
+
+/** Terms that can be moved around as plain text */
+const MOVABLE_TERMS = new Set<RegexNode['type']>(['Character', 'Dot', 'CharacterClassEscape', 'CharacterClass', 'Assertion']);
+
+/**
+ * Replacement of pattern source between `start` and `end`
+ */
+interface Edit {
+    start: number;
+    end: number;
+    text: string;
+    description: string;
+}
+
+/**
+ * A rewrite rule: finds the first place it applies in the pattern.
+ */
+type Rule = (ast: RegexPattern) => Edit | undefined;
+
+/**
+ * Propose safe rewrites of a pattern the analysis rejects.
+ *
+ * Rewrites that keep the matched strings exactly the same are tried first:
+ * collapsing nested quantifiers (`(a+)+` → `a+`), merging adjacent
+ * quantifiers (`a*a*` → `a*`), merging single-character alternatives into
+ * a class (`\w|\d` → `[\w\d]`) and factoring out common prefixes
+ * (`a|ab` → `ab?`). When those are not enough, unbounded wildcards are
+ * made to stop at the character that follows them (`.*a` → `[^a\n\r\u2028\u2029]*a`),
+ * which changes the language and is reported with `preservesLanguage: false`.
+ *
+ * Only rewrites the analysis accepts are returned. Capture groups may be
+ * dropped or capture different text, so group indices can change.
+ *
+ * @example
+ * ```typescript
+ * suggestRewrites('^(a|ab)+$');
+ * // [{ pattern: '^(ab?)+$', preservesLanguage: true, description: '...', complexity: { type: 'linear' } }]
+ * ```
+ */
+export function suggestRewrites(pattern: string, flags?: string, options: AnalyzeOptions = {}): RegexSuggestion[] {
+    try {
+        parsePattern(pattern, flags);
+    } catch {
+        return [];
+    }
+    const exact = applyRules(pattern, flags, EXACT_RULES);
+    const loose = applyRules(exact.pattern, flags, [...EXACT_RULES, ...LOOSE_RULES]);
+    const candidates = [
+        { pattern: exact.pattern, changes: exact.changes, preservesLanguage: true },
+        { pattern: loose.pattern, changes: [...exact.changes, ...loose.changes], preservesLanguage: false },
+    ];
+
+    for (const candidate of candidates) {
+        if (candidate.pattern === pattern || (!candidate.preservesLanguage && loose.changes.length === 0)) {
+            continue;
+        }
+        const analysis = analyzePattern(candidate.pattern, flags, options);
+        if (analysis.safe) {
+            return [{
+                pattern: candidate.pattern,
+                preservesLanguage: candidate.preservesLanguage,
+                description: candidate.changes.join('; '),
+                complexity: analysis.complexity!,
+            }];
+        }
+    }
+    return [];
+}
+
+/**
+ * Apply the first matching rule until none applies or the pattern stops
+ * parsing.
+ */
+function applyRules(pattern: string, flags: string | undefined, rules: Rule[]): { pattern: string; changes: string[] } {
+    let current = pattern;
+    const changes: string[] = [];
+    for (let i = 0; i < MAX_EDITS; i++) {
+        const ast = parsePattern(current, flags);
+        let edit: Edit | undefined;
+        for (const rule of rules) {
+            edit = rule(ast);
+            if (edit) {
+                break;
+            }
+        }
+        if (!edit) {
+            break;
+        }
+        const next = current.slice(0, edit.start) + edit.text + current.slice(edit.end);
+        try {
+            parsePattern(next, flags);
+        } catch {
+            break;
+        }
+        current = next;
+        changes.push(edit.description);
+    }
+    return { pattern: current, changes };
+}
+
+function findEdit(ast: RegexPattern, match: (node: RegexNode) => Edit | undefined): Edit | undefined {
+    let edit: Edit | undefined;
+    walkRegex(ast, (node) => {
+        edit ??= match(node);
+        return !edit;
+    });
+    return edit;
+}
+
+function sourceOf(ast: RegexPattern, node: RegexNode): string {
+    return ast.source.slice(node.start, node.end);
+}
+
+function replace(ast: RegexPattern, start: number, end: number, text: string, action: string): Edit {
+    return { start, end, text, description: `${action}: ${ast.source.slice(start, end)} → ${text}` };
+}
+
+function quantifierText(min: number, max: number, greedy: boolean): string {
+    let text: string;
+    if (min === 0 && max === Infinity) {
+        text = '*';
+    } else if (min === 1 && max === Infinity) {
+        text = '+';
+    } else if (min === 0 && max === 1) {
+        text = '?';
+    } else if (min === max) {
+        text = `{${min}}`;
+    } else {
+        text = max === Infinity ? `{${min},}` : `{${min},${max}}`;
+    }
+    return greedy ? text : `${text}?`;
+}
+
+function hasNode(root: RegexNode, predicate: (node: RegexNode) => boolean): boolean {
+    let found = false;
+    walkRegex(root, (node) => {
+        found ||= predicate(node);
+        return !found;
+    });
+    return found;
+}
+
+function hasCapture(root: RegexNode): boolean {
+    return hasNode(root, (node) => node.type === 'Group' && node.capturing);
+}
+
+/**
+ * `(X+)+` → `X+`, and generally `(X{n,}){m,M}` → `X{mn,}`.
+ * Capturing groups are kept when the pattern has backreferences, so
+ * group numbers stay valid. A group a backreference refers to is left
+ * alone: it captures the last pass, and collapsing makes it capture all
+ * of them, so `^(a+)+\1$` stops matching `aaa`.
+ */
+function collapseNestedQuantifiers(ast: RegexPattern): Edit | undefined {
+    return collapseNested(ast, false);
+}
+
+/**
+ * collapseNestedQuantifiers, including groups a backreference refers
+ * to, which changes what they capture and so the language.
+ */
+function collapseReferencedNestedQuantifiers(ast: RegexPattern): Edit | undefined {
+    return collapseNested(ast, true);
+}
+
+function collapseNested(ast: RegexPattern, collapseReferenced: boolean): Edit | undefined {
+    const referenced = new Set<number>();
+    walkRegex(ast, (node) => {
+        if (node.type === 'Backreference') {
+            referenced.add(node.index);
+        }
+    });
+    const keepCaptures = referenced.size > 0;
+    return findEdit(ast, (node) => {
+        if (node.type !== 'Quantifier' || node.max <= 1 || node.body.type !== 'Group' || node.body.modifiers) {
+            return undefined;
+        }
+        const group = node.body;
+        if (!collapseReferenced && group.capturing && referenced.has(group.index!)) {
+            return undefined;
+        }
+        if (group.body.alternatives.length > 1) {
+            return node.max === Infinity ? collapseRepeatedAlternatives(ast, node, keepCaptures) : undefined;
+        }
+        const terms = group.body.alternatives[0].terms;
+        const inner = terms.length === 1 ? terms[0] : undefined;
+        if (inner?.type !== 'Quantifier' || inner.max !== Infinity || inner.body.type === 'Lookaround') {
+            return undefined;
+        }
+
+        const greedy = node.greedy || inner.greedy;
+        const body = sourceOf(ast, inner.body);
+        // Zero outer passes add the empty string to X{n,} with n > 1
+        const optional = node.min === 0 && inner.min > 1;
+        const repeated = body + quantifierText(optional ? inner.min : node.min * inner.min, Infinity, greedy);
+        let text: string;
+        if (group.capturing && keepCaptures) {
+            text = `${ast.source.slice(group.start, group.body.start)}${repeated})${optional ? quantifierText(0, 1, greedy) : ''}`;
+        } else {
+            text = optional ? `(?:${repeated})${quantifierText(0, 1, greedy)}` : repeated;
+        }
+        return replace(ast, node.start, node.end, text, 'Collapse nested quantifiers');
+    });
+}
+
+/**
+ * `(X+|Y*)+` → `[XY]*` for single-character X and Y: any run of them can
+ * be split into passes of one character each.
+ */
+function collapseRepeatedAlternatives(ast: RegexPattern, node: RegexQuantifier, keepCaptures: boolean): Edit | undefined {
+    const group = node.body as RegexGroup;
+    if (group.capturing && keepCaptures) {
+        return undefined;
+    }
+    const inner = group.body.alternatives.map((alternative) => alternative.terms.length === 1 ? alternative.terms[0] : undefined);
+    const members: string[] = [];
+    for (const term of inner) {
+        const member = term?.type === 'Quantifier' && term.max === Infinity && term.min <= 1
+            ? classMembers(ast, term.body)
+            : undefined;
+        if (member === undefined) {
+            return undefined;
+        }
+        members.push(member);
+    }
+
+    const min = inner.some((term) => (term as RegexQuantifier).min === 0) ? 0 : node.min;
+    const text = `[${[...new Set(members)].join('')}]${quantifierText(min, Infinity, node.greedy)}`;
+    return replace(ast, node.start, node.end, text, 'Collapse nested quantifiers');
+}
+
+interface Repetition {
+    body: RegexNode;
+    min: number;
+    max: number;
+    lazy: boolean;
+}
+
+function repetitionOf(term: RegexTerm): Repetition | undefined {
+    if (term.type === 'Quantifier') {
+        return term.body.type === 'Lookaround' ? undefined : { body: term.body, min: term.min, max: term.max, lazy: !term.greedy };
+    }
+    if (term.type === 'Assertion' || term.type === 'Lookaround') {
+        return undefined;
+    }
+    return { body: term, min: 1, max: 1, lazy: true };
+}
+
+/**
+ * `X*X*` → `X*`, `XX*` → `X+`: adjacent repetitions of the same atom
+ * where at least one is unbounded.
+ */
+function mergeAdjacentQuantifiers(ast: RegexPattern): Edit | undefined {
+    return findEdit(ast, (node) => {
+        if (node.type !== 'Alternative') {
+            return undefined;
+        }
+        for (let i = 0; i + 1 < node.terms.length; i++) {
+            const first = repetitionOf(node.terms[i]);
+            const second = repetitionOf(node.terms[i + 1]);
+            if (!first || !second || (first.max !== Infinity && second.max !== Infinity)) {
+                continue;
+            }
+            const body = sourceOf(ast, first.body);
+            if (body !== sourceOf(ast, second.body) || hasCapture(first.body)) {
+                continue;
+            }
+            const text = body + quantifierText(first.min + second.min, Infinity, !(first.lazy && second.lazy));
+            return replace(ast, node.terms[i].start, node.terms[i + 1].end, text, 'Merge adjacent quantifiers');
+        }
+        return undefined;
+    });
+}
+
+/**
+ * Source of a character as a class member, escaped where needed.
+ */
+function classCharacter(ast: RegexPattern, node: RegexCharacter): string {
+    const text = sourceOf(ast, node);
+    const escaped = ast.flags.unicodeSets ? CLASS_SET_ESCAPED : CLASS_ESCAPED;
+    return text.length === 1 && escaped.includes(text) ? `\\${text}` : text;
+}
+
+/**
+ * Source of a term as the members of a character class, or undefined
+ * when it does not match exactly one character from a set.
+ */
+function classMembers(ast: RegexPattern, node: RegexNode): string | undefined {
+    switch (node.type) {
+        case 'Character':
+            return classCharacter(ast, node);
+        case 'CharacterRange':
+            return `${classCharacter(ast, node.min)}-${classCharacter(ast, node.max)}`;
+        case 'CharacterClassEscape':
+            return sourceOf(ast, node);
+        case 'CharacterClass': {
+            if (node.negate || node.kind !== 'union') {
+                return undefined;
+            }
+            const members = node.elements.map((element) => classMembers(ast, element));
+            return members.every((member) => member !== undefined) ? members.join('') : undefined;
+        }
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * `\w|\d|x` → `[\w\dx]`: alternatives matching a single character
+ * become one class.
+ */
+function mergeCharacterAlternatives(ast: RegexPattern): Edit | undefined {
+    return findEdit(ast, (node) => {
+        if (node.type !== 'Disjunction') {
+            return undefined;
+        }
+        const members = node.alternatives.map((alternative) => alternative.terms.length === 1
+            ? classMembers(ast, alternative.terms[0])
+            : undefined);
+        const merged = [...new Set(members.filter((member) => member !== undefined))];
+        if (merged.length < 2) {
+            return undefined;
+        }
+
+        const alternatives: string[] = [];
+        let placed = false;
+        node.alternatives.forEach((alternative, i) => {
+            if (members[i] === undefined) {
+                alternatives.push(sourceOf(ast, alternative));
+            } else if (!placed) {
+                alternatives.push(`[${merged.join('')}]`);
+                placed = true;
+            }
+        });
+        return replace(ast, node.start, node.end, alternatives.join('|'), 'Merge single-character alternatives');
+    });
+}
+
+function commonPrefixLength(ast: RegexPattern, alternatives: RegexAlternative[]): number {
+    const [first, ...rest] = alternatives;
+    let length = 0;
+    while (length < first.terms.length) {
+        const term = first.terms[length];
+        const text = sourceOf(ast, term);
+        const shared = MOVABLE_TERMS.has(term.type)
+            && rest.every((alternative) => length < alternative.terms.length
+                && sourceOf(ast, alternative.terms[length]) === text);
+        if (!shared) {
+            break;
+        }
+        length++;
+    }
+    return length;
+}
+
+/**
+ * `a|ab` → `ab?`, `abc|abd` → `ab(?:c|d)`: a prefix shared by every
+ * alternative is matched once.
+ */
+function factorCommonPrefix(ast: RegexPattern): Edit | undefined {
+    return findEdit(ast, (node) => {
+        if (node.type !== 'Disjunction' || node.alternatives.length < 2) {
+            return undefined;
+        }
+        const length = commonPrefixLength(ast, node.alternatives);
+        if (length === 0) {
+            return undefined;
+        }
+
+        const prefix = ast.source.slice(node.start, node.alternatives[0].terms[length - 1].end);
+        const rests = node.alternatives.filter((alternative) => alternative.terms.length > length);
+        const texts = [...new Set(rests.map((alternative) => ast.source.slice(alternative.terms[length].start, alternative.end)))];
+        const optional = rests.length < node.alternatives.length ? '?' : '';
+        let rest: string;
+        if (texts.length === 0) {
+            rest = '';
+        } else if (texts.length === 1 && isSingleAtom(rests[0], length)) {
+            rest = texts[0] + optional;
+        } else if (texts.length === 1 && !optional) {
+            rest = texts[0];
+        } else {
+            rest = `(?:${texts.join('|')})${optional}`;
+        }
+        return replace(ast, node.start, node.end, prefix + rest, 'Factor out common prefix');
+    });
+}
+
+function isSingleAtom(alternative: RegexAlternative, from: number): boolean {
+    const term = alternative.terms[from];
+    return alternative.terms.length === from + 1
+        && term.type !== 'Quantifier' && term.type !== 'Assertion' && term.type !== 'Lookaround';
+}
+
+/**
+ * `.*a` → `[^a\n\r\u2028\u2029]*a`: an unbounded wildcard stops before
+ * the character that follows it, so it cannot compete with it. The
+ * wildcard no longer matches that character, which changes the language.
+ */
+function excludeFollower(ast: RegexPattern): Edit | undefined {
+    return findEdit(ast, (node) => {
+        if (node.type !== 'Alternative') {
+            return undefined;
+        }
+        for (let i = 0; i + 1 < node.terms.length; i++) {
+            const term = node.terms[i];
+            const follower = classMembers(ast, node.terms[i + 1]);
+            if (term.type !== 'Quantifier' || term.max !== Infinity || follower === undefined) {
+                continue;
+            }
+            const excluded = excludedMembers(ast, term.body);
+            const wildcard = nodeCharSet(term.body, ast.flags);
+            const next = nodeCharSet(node.terms[i + 1], ast.flags);
+            if (excluded === undefined || !wildcard || !next || !wildcard.intersects(next)) {
+                continue;
+            }
+            const text = `[^${follower}${excluded}]${quantifierText(term.min, term.max, term.greedy)}`;
+            return replace(ast, term.start, node.terms[i + 1].end, text + sourceOf(ast, node.terms[i + 1]), 'Stop wildcard at the next character');
+        }
+        return undefined;
+    });
+}
+
+/**
+ * Members excluded by a wildcard: `.` or a negated class.
+ */
+function excludedMembers(ast: RegexPattern, node: RegexNode): string | undefined {
+    if (node.type === 'Dot') {
+        return dotExcludes(ast.flags);
+    }
+    if (node.type === 'CharacterClass' && node.negate) {
+        return classMembers(ast, { ...node, negate: false });
+    }
+    return undefined;
+}
+
+function dotExcludes(flags: RegexFlags): string {
+    return flags.dotAll ? '' : '\\n\\r\\u2028\\u2029';
+}
+
+/** Rewrites that keep the language */
+const EXACT_RULES: Rule[] = [
+    collapseNestedQuantifiers,
+    mergeAdjacentQuantifiers,
+    factorCommonPrefix,
+    mergeCharacterAlternatives,
+];
+
+/** Rewrites that change the language */
+const LOOSE_RULES: Rule[] = [collapseReferencedNestedQuantifiers, excludeFollower];
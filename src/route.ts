@@ -0,0 +1,352 @@
+import { AnalyzeRouteOptions, RouteAnalysis, RouteFinding, RouteParam, RouteSyntax } from './types';
+import { analyzePattern } from './analyze';
+
+/**
+ * How each syntax compiles a route
+ */
+const DIALECTS: Record<RouteSyntax, {
+    /** Characters taken as the prefix of a parameter that follows them */
+    prefixes: string;
+
+    /** Pattern of a `:name` parameter without its own */
+    segment: string;
+
+    /** Regex source appended after the route */
+    end: string;
+
+    flags: string;
+}> = {
+    'path-to-regexp': { prefixes: './', segment: '[^\\/#\\?]+?', end: '[\\/#\\?]?$', flags: 'i' },
+    urlpattern: { prefixes: '/', segment: '[^\\/]+?', end: '$', flags: 'u' },
+};
+
+const WILDCARD = '.*';
+
+interface LexToken {
+    type: 'open' | 'close' | 'pattern' | 'name' | 'char' | 'escaped' | 'modifier' | 'end';
+    value: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * Literal text, or a parameter or `{...}` group. Groups without a name
+ * or pattern are optional text rather than parameters.
+ */
+type RoutePart =
+    | { kind: 'text'; text: string; start: number; end: number }
+    | { kind: 'param'; name: string; prefix: string; suffix: string; pattern: string; modifier: RouteParam['modifier']; start: number; end: number };
+
+class RouteSyntaxError extends SyntaxError {
+    constructor(message: string, readonly start: number, readonly end: number) {
+        super(message);
+    }
+}
+
+/**
+ * Analyze an Express/path-to-regexp route or a URLPattern pathname for
+ * ReDoS, by compiling it into the regex the router matches with and
+ * running analyzePattern on that.
+ *
+ * Routes use the syntax shared by path-to-regexp and URLPattern:
+ * `:name` parameters, custom patterns as in `:name(\\d+)` or an unnamed
+ * `(\\d+)`, the `?`, `*` and `+` modifiers, `{...}` groups and `*`
+ * wildcards. A parameter right after a `/` (or `.` for path-to-regexp)
+ * takes it as its prefix, so `/:id?` makes the slash optional too.
+ *
+ * Each finding lists the parameters whose segments it covers, which is
+ * how two adjacent parameters competing for the same text show up: in
+ * `/:name-:ext` both `[^\\/#\\?]+?` segments can match `-`.
+ *
+ * @example
+ * ```typescript
+ * const { findings } = analyzeRoute('/files/:name-:ext');
+ * // findings[0]: { ruleId: 'polynomial-backtracking', severity: 'warning',
+ * //                params: ['name', 'ext'], routeStart: 6, routeEnd: 17, ... }
+ * ```
+ */
+export function analyzeRoute(route: string, options: AnalyzeRouteOptions = {}): RouteAnalysis {
+    const syntax = options.syntax ?? 'path-to-regexp';
+    const dialect = DIALECTS[syntax];
+
+    let parts: RoutePart[];
+    try {
+        parts = parseRoute(route, dialect.prefixes, dialect.segment);
+    } catch (error) {
+        if (!(error instanceof RouteSyntaxError)) {
+            throw error;
+        }
+        const message = `Invalid route syntax: ${error.message}`;
+        return {
+            route,
+            syntax,
+            flags: dialect.flags,
+            params: [],
+            safe: false,
+            reason: 'invalid_syntax',
+            message,
+            findings: [{
+                ruleId: 'invalid-syntax',
+                reason: 'invalid_syntax',
+                severity: 'error',
+                message,
+                start: error.start,
+                end: error.end,
+                expression: route.slice(error.start, error.end),
+                params: [],
+                routeStart: error.start,
+                routeEnd: error.end,
+            }],
+        };
+    }
+
+    // Offsets of each part in the compiled pattern
+    const spans: Array<{ part: RoutePart; start: number; end: number }> = [];
+    let pattern = '^';
+    for (const part of parts) {
+        const start = pattern.length;
+        pattern += compilePart(part);
+        spans.push({ part, start, end: pattern.length });
+    }
+    pattern += dialect.end;
+
+    const analysis = analyzePattern(pattern, dialect.flags, {
+        maxPolynomialDegree: options.maxPolynomialDegree,
+        features: options.features,
+    });
+    const findings = analysis.findings.map((finding): RouteFinding => {
+        const covered = spans.filter(({ start, end }) => start < Math.max(finding.end, finding.start + 1) && finding.start < end);
+        return {
+            ...finding,
+            params: covered.flatMap(({ part }) => (part.kind === 'param' ? [part.name] : [])),
+            routeStart: covered.length > 0 ? covered[0].part.start : route.length,
+            routeEnd: covered.length > 0 ? covered[covered.length - 1].part.end : route.length,
+        };
+    });
+
+    return {
+        ...analysis,
+        route,
+        syntax,
+        pattern,
+        flags: dialect.flags,
+        params: parts.flatMap((part) => (part.kind === 'param' ? [{
+            name: part.name,
+            pattern: part.pattern,
+            modifier: part.modifier,
+            start: part.start,
+            end: part.end,
+        }] : [])),
+        findings,
+    };
+}
+
+/**
+ * Regex source of one part, as path-to-regexp compiles it.
+ */
+function compilePart(part: RoutePart): string {
+    if (part.kind === 'text') {
+        return escapeText(part.text);
+    }
+    const prefix = escapeText(part.prefix);
+    const suffix = escapeText(part.suffix);
+    const repeated = part.modifier === '+' || part.modifier === '*';
+    if (part.name === '') {
+        return `(?:${prefix}${suffix})${part.modifier}`;
+    }
+    if (prefix === '' && suffix === '') {
+        return repeated ? `((?:${part.pattern})${part.modifier})` : `(${part.pattern})${part.modifier}`;
+    }
+    if (repeated) {
+        const repeat = `(?:${suffix}${prefix}(?:${part.pattern}))*`;
+        return `(?:${prefix}((?:${part.pattern})${repeat})${suffix})${part.modifier === '*' ? '?' : ''}`;
+    }
+    return `(?:${prefix}(${part.pattern})${suffix})${part.modifier}`;
+}
+
+function escapeText(text: string): string {
+    return text.replace(/[.+*?^${}()[\]|/\\]/g, '\\$&');
+}
+
+/**
+ * Split a route into literal text and parameters, following the parser
+ * path-to-regexp and URLPattern share.
+ */
+function parseRoute(route: string, prefixes: string, segment: string): RoutePart[] {
+    const tokens = lexRoute(route);
+    const parts: RoutePart[] = [];
+    let index = 0;
+    let nextKey = 0;
+    let text = '';
+    let textStart = 0;
+
+    const tryConsume = (type: LexToken['type'], value?: string): LexToken | undefined => {
+        const token = tokens[index];
+        if (token.type === type && (value === undefined || token.value === value)) {
+            index++;
+            return token;
+        }
+        return undefined;
+    };
+    const mustConsume = (type: 'close' | 'end'): void => {
+        if (!tryConsume(type)) {
+            const { type: found, value, start, end } = tokens[index];
+            const expected = type === 'end' ? 'end of route' : "'}'";
+            throw new RouteSyntaxError(`Unexpected ${found === 'end' ? 'end of route' : `'${value}'`} at ${start}, expected ${expected}`, start, end);
+        }
+    };
+    const consumeText = (): string => {
+        let result = '';
+        let token: LexToken | undefined;
+        while ((token = tryConsume('char') ?? tryConsume('escaped'))) {
+            result += token.value;
+        }
+        return result;
+    };
+    const modifier = (): RouteParam['modifier'] => (tryConsume('modifier')?.value ?? '') as RouteParam['modifier'];
+    const flushText = (): void => {
+        if (text !== '') {
+            parts.push({ kind: 'text', text, start: textStart, end: tokens[index].start });
+            text = '';
+        }
+    };
+
+    while (index < tokens.length) {
+        const char = tryConsume('char');
+        const name = tryConsume('name');
+        const pattern = name ? tryConsume('pattern') : tryConsume('pattern') ?? tryConsume('modifier', '*');
+        if (name || pattern) {
+            let prefix = char?.value ?? '';
+            if (char && !prefixes.includes(prefix)) {
+                if (text === '') {
+                    textStart = char.start;
+                }
+                text += prefix;
+                prefix = '';
+            }
+            const start = prefix === '' ? (name ?? pattern)!.start : char!.start;
+            if (text !== '') {
+                parts.push({ kind: 'text', text, start: textStart, end: start });
+                text = '';
+            }
+            const custom = pattern?.type === 'pattern' ? pattern.value : pattern ? WILDCARD : segment;
+            parts.push({
+                kind: 'param',
+                name: name?.value ?? String(nextKey++),
+                prefix,
+                suffix: '',
+                pattern: custom,
+                modifier: modifier(),
+                start,
+                end: tokens[index - 1].end,
+            });
+            continue;
+        }
+
+        const value = char ?? tryConsume('escaped');
+        if (value) {
+            if (text === '') {
+                textStart = value.start;
+            }
+            text += value.value;
+            continue;
+        }
+        flushText();
+
+        const open = tryConsume('open');
+        if (open) {
+            const prefix = consumeText();
+            const groupName = tryConsume('name');
+            const groupPattern = tryConsume('pattern');
+            const suffix = consumeText();
+            mustConsume('close');
+            parts.push({
+                kind: 'param',
+                name: groupName?.value ?? (groupPattern ? String(nextKey++) : ''),
+                prefix,
+                suffix,
+                pattern: groupPattern?.value ?? (groupName ? segment : ''),
+                modifier: modifier(),
+                start: open.start,
+                end: tokens[index - 1].end,
+            });
+            continue;
+        }
+
+        mustConsume('end');
+    }
+    return parts;
+}
+
+/**
+ * Tokens of a route, ending with an `end` token.
+ */
+function lexRoute(route: string): LexToken[] {
+    const tokens: LexToken[] = [];
+    let i = 0;
+    while (i < route.length) {
+        const char = route[i];
+        if (char === '*' || char === '+' || char === '?') {
+            tokens.push({ type: 'modifier', value: char, start: i, end: i + 1 });
+            i++;
+        } else if (char === '\\') {
+            if (i + 1 >= route.length) {
+                throw new RouteSyntaxError(`Trailing escape at ${i}`, i, i + 1);
+            }
+            tokens.push({ type: 'escaped', value: route[i + 1], start: i, end: i + 2 });
+            i += 2;
+        } else if (char === '{' || char === '}') {
+            tokens.push({ type: char === '{' ? 'open' : 'close', value: char, start: i, end: i + 1 });
+            i++;
+        } else if (char === ':') {
+            const name = /^\w+/.exec(route.slice(i + 1))?.[0];
+            if (!name) {
+                throw new RouteSyntaxError(`Missing parameter name at ${i}`, i, i + 1);
+            }
+            tokens.push({ type: 'name', value: name, start: i, end: i + 1 + name.length });
+            i += 1 + name.length;
+        } else if (char === '(') {
+            const end = patternEnd(route, i);
+            tokens.push({ type: 'pattern', value: route.slice(i + 1, end - 1), start: i, end });
+            i = end;
+        } else {
+            tokens.push({ type: 'char', value: char, start: i, end: i + 1 });
+            i++;
+        }
+    }
+    tokens.push({ type: 'end', value: '', start: route.length, end: route.length });
+    return tokens;
+}
+
+/**
+ * Offset just past the `)` closing the custom pattern opened at `open`.
+ * Capturing groups are not allowed inside, as they would shift the
+ * parameters' groups.
+ */
+function patternEnd(route: string, open: number): number {
+    if (route[open + 1] === '?') {
+        throw new RouteSyntaxError(`Pattern cannot start with '?' at ${open + 1}`, open + 1, open + 2);
+    }
+    let depth = 1;
+    let i = open + 1;
+    while (i < route.length) {
+        if (route[i] === '\\') {
+            i += 2;
+            continue;
+        }
+        if (route[i] === ')' && --depth === 0) {
+            if (i === open + 1) {
+                throw new RouteSyntaxError(`Missing pattern at ${open}`, open, i + 1);
+            }
+            return i + 1;
+        }
+        if (route[i] === '(') {
+            depth++;
+            if (route[i + 1] !== '?') {
+                throw new RouteSyntaxError(`Capturing groups are not allowed at ${i}`, i, i + 1);
+            }
+        }
+        i++;
+    }
+    throw new RouteSyntaxError(`Unbalanced pattern at ${open}`, open, route.length);
+}
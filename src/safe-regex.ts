@@ -1,9 +1,35 @@
 import {
     SafeRegexConfig,
     SafeRegexResult,
+    RegexExecutionResult,
+    BoundedExecResult,
+    TimedExecResult,
+    TimedMatchResult,
+    TimedMatchAllResult,
+    TimedReplaceResult,
+    TimedSplitResult,
+    RegexReplacement,
+    RegexEngine,
+    GlobOptions,
+    FeaturePolicy,
+    RegexOperation,
+    SafeRegexEvents,
+    SafeRegexReason,
     DEFAULT_CONFIG,
+    SECURITY_PROFILES,
 } from './types';
-import { analyzePattern, quickSafetyCheck } from './analyze';
+import { analyzePattern, describeComplexity } from './analyze';
+import { parsePattern, walkRegex } from './parser';
+import { probePattern } from './probe';
+import { generateAttackInput } from './attack';
+import { suggestRewrites } from './rewrite';
+import { sharedWorkerPool } from './worker-pool';
+import { CachedCompilation, sharedRegexCache } from './cache';
+import { execBounded } from './backtrack';
+import { LinearRegExp } from './linear';
+import { globToPattern } from './glob';
+import { execTimed, matchTimed, matchAllTimed, replaceTimed, splitTimed, TimedOptions } from './timed';
+import { ExecutionTimeoutError, InputTooLongError, SafeRegexError, executionError, resultError } from './errors';
 
 /**
  * SafeRegex provides protected regex creation and execution.
@@ -20,8 +46,48 @@ import { analyzePattern, quickSafetyCheck } from './analyze';
 export class SafeRegex {
     private config: SafeRegexConfig;
 
+    /** Backtracking degree of each regex matched, Infinity for exponential */
+    private readonly degrees = new WeakMap<RegExp, number>();
+
+    private readonly listeners: { [E in keyof SafeRegexEvents]?: Array<(event: SafeRegexEvents[E]) => void> } = {};
+
     constructor(config: Partial<SafeRegexConfig> = {}) {
-        this.config = { ...DEFAULT_CONFIG, ...config };
+        this.config = withProfile(DEFAULT_CONFIG, config);
+    }
+
+    /**
+     * Listen for an event. Listeners are called synchronously, in the
+     * order they were added, with a payload describing what happened:
+     * 
+     * - `created` and `blocked` after create(), createWithProbe() and
+     *   globToRegex(), with the reason, findings and time taken
+     * - `cacheHit` before those when the result came from the cache
+     * - `executed` after every execution method, and `timeout` after
+     *   those stopped by `timeoutMs` or `maxBacktrackDepth`
+     * 
+     * @example
+     * ```typescript
+     * safe.on('blocked', ({ pattern, reason, findings }) => {
+     *   logger.warn({ pattern, reason, rules: findings.map((finding) => finding.ruleId) });
+     * });
+     * ```
+     */
+    on<E extends keyof SafeRegexEvents>(event: E, listener: (payload: SafeRegexEvents[E]) => void): this {
+        const listeners = (this.listeners[event] ??= []) as Array<(payload: SafeRegexEvents[E]) => void>;
+        listeners.push(listener);
+        return this;
+    }
+
+    /**
+     * Remove a listener added with on().
+     */
+    off<E extends keyof SafeRegexEvents>(event: E, listener: (payload: SafeRegexEvents[E]) => void): this {
+        const listeners = this.listeners[event] as Array<(payload: SafeRegexEvents[E]) => void> | undefined;
+        const index = listeners?.indexOf(listener) ?? -1;
+        if (index !== -1) {
+            listeners!.splice(index, 1);
+        }
+        return this;
     }
 
     /**
@@ -29,41 +95,82 @@ export class SafeRegex {
      * Returns a result object indicating whether the pattern is safe.
      */
     create(pattern: string, flags?: string): SafeRegexResult {
-        // Check pattern length
-        if (pattern.length > this.config.maxLength) {
-            this.notify('block', `Pattern exceeds maximum length of ${this.config.maxLength}`, pattern);
-            return {
-                safe: false,
-                error: `Pattern exceeds maximum length of ${this.config.maxLength}`,
-                reason: 'pattern_too_long',
-            };
+        const started = performance.now();
+        const { result, cached } = this.check(pattern, flags);
+        this.reportResult(pattern, flags, result, cached, started);
+        return result;
+    }
+
+    /**
+     * Create a regex like create(), throwing the SafeRegexError subclass
+     * for the reason when the pattern is rejected.
+     * 
+     * @example
+     * ```typescript
+     * try {
+     *   const regex = safe.createOrThrow(userPattern);
+     * } catch (error) {
+     *   if (error instanceof UnsafePatternError) {
+     *     // Backtracks with error.complexity
+     *   }
+     * }
+     * ```
+     */
+    createOrThrow(pattern: string, flags?: string): RegExp {
+        const result = this.create(pattern, flags);
+        if (!result.safe) {
+            throw resultError(pattern, result);
         }
+        return result.regex!;
+    }
 
-        // Quick safety check for obviously safe patterns
-        if (!quickSafetyCheck(pattern)) {
-            // Full pattern analysis
-            const analysis = analyzePattern(pattern);
-            if (!analysis.safe) {
-                this.notify('block', analysis.message || 'Pattern blocked', pattern);
-                return {
-                    safe: false,
-                    error: analysis.message,
-                    reason: analysis.reason,
-                };
-            }
+    /**
+     * Create a regex like create(), then measure patterns the analysis
+     * accepts with reservations using probePattern(): polynomial ones
+     * within `maxPolynomialDegree`, and ones with backreferences or
+     * lookarounds, which the analysis approximates. A pattern measured to
+     * grow exponentially, or with a degree over `maxPolynomialDegree`,
+     * is blocked with `reason: 'measured_backtracking'`. The measurements
+     * are returned in `probe`.
+     *
+     * @example
+     * ```typescript
+     * const result = await safe.createWithProbe('^(\\w+)\\s\\1$');
+     * result.probe?.complexity; // { type: 'linear' }
+     * ```
+     */
+    async createWithProbe(pattern: string, flags?: string): Promise<SafeRegexResult> {
+        const started = performance.now();
+        const { result, cached } = this.check(pattern, flags);
+        if (!result.safe || result.engine !== 'native' || !isBorderline(pattern, flags, result)) {
+            this.reportResult(pattern, flags, result, cached, started);
+            return result;
         }
 
-        // Try to create the regex
-        try {
-            const regex = new RegExp(pattern, flags);
-            return { safe: true, regex, reason: 'ok' };
-        } catch (error) {
-            return {
-                safe: false,
-                error: `Invalid regex syntax: ${error instanceof Error ? error.message : 'Unknown error'}`,
-                reason: 'invalid_syntax',
-            };
+        const probe = await probePattern(pattern, flags, {
+            ...this.config.probe,
+            workerPool: this.config.workerPool,
+        });
+        const { complexity } = probe;
+        if (!complexity || complexity.type === 'linear'
+            || (complexity.type === 'polynomial' && complexity.degree <= this.config.maxPolynomialDegree)) {
+            const accepted = { ...result, probe };
+            this.reportResult(pattern, flags, accepted, cached, started);
+            return accepted;
         }
+
+        const message = `Pattern showed ${describeComplexity(complexity)} growth when probed`;
+        this.notify('block', message, pattern);
+        const blocked: SafeRegexResult = {
+            safe: false,
+            error: message,
+            reason: 'measured_backtracking',
+            complexity,
+            ...(result.findings ? { findings: result.findings } : {}),
+            probe,
+        };
+        this.reportResult(pattern, flags, blocked, cached, started);
+        return blocked;
     }
 
     /**
@@ -73,17 +180,34 @@ export class SafeRegex {
      * interrupted. This uses a promise-based timeout that will reject if
      * the operation takes too long, but the regex will continue executing
      * in the background until completion.
+     * 
+     * Rejects with an InputTooLongError without matching when the input is
+     * over the limit from `maxInputLength` and `inputComplexityBudget`,
+     * and with an ExecutionTimeoutError on timeout.
      */
     async testWithTimeout(regex: RegExp, input: string): Promise<boolean> {
+        const started = performance.now();
+        const tooLong = this.inputError(regex, input);
+        if (tooLong !== undefined) {
+            this.reportExecution('testWithTimeout', regex, input, 'input_too_long', false, started);
+            throw new InputTooLongError(tooLong, regex.source, input.length, this.maxInputLengthFor(regex));
+        }
         return new Promise((resolve, reject) => {
             const timeout = setTimeout(() => {
                 this.notify('warning', `Regex execution exceeded ${this.config.timeoutMs}ms timeout`, regex.source);
-                reject(new Error(`Regex execution timed out after ${this.config.timeoutMs}ms`));
+                reject(new ExecutionTimeoutError(
+                    `Regex execution timed out after ${this.config.timeoutMs}ms`,
+                    'execution_timeout',
+                    regex.source,
+                    'testWithTimeout',
+                    this.config.timeoutMs,
+                ));
             }, this.config.timeoutMs);
 
             try {
                 const result = regex.test(input);
                 clearTimeout(timeout);
+                this.reportExecution('testWithTimeout', regex, input, 'ok', result, started);
                 resolve(result);
             } catch (error) {
                 clearTimeout(timeout);
@@ -93,29 +217,255 @@ export class SafeRegex {
     }
 
     /**
-     * Convert a glob pattern to a safe regex.
+     * Execute regex.test() on a worker thread that is terminated when
+     * it exceeds the timeout, so a catastrophic match cannot block the
+     * main thread. Resolves with `reason: 'execution_timeout'` in that case.
      * 
-     * Supports: * (any), ? (single char), ** (recursive)
+     * @example
+     * ```typescript
+     * const result = await safe.testInWorker(regex, input);
+     * if (result.reason === 'execution_timeout') {
+     *   // The match was stopped
+     * }
+     * ```
+     */
+    async testInWorker(regex: RegExp, input: string): Promise<RegexExecutionResult> {
+        const started = performance.now();
+        const tooLong = this.inputError(regex, input);
+        if (tooLong !== undefined) {
+            this.reportExecution('testInWorker', regex, input, 'input_too_long', false, started);
+            return { matched: false, reason: 'input_too_long', error: tooLong };
+        }
+        const pool = this.config.workerPool ?? sharedWorkerPool();
+        const result = await pool.test(regex, input, this.config.timeoutMs);
+        this.reportExecution('testInWorker', regex, input, result.reason, result.matched, started);
+        if (result.reason === 'execution_timeout') {
+            this.notify('warning', `Regex execution exceeded ${this.config.timeoutMs}ms timeout`, regex.source);
+        }
+        return result;
+    }
+
+    /**
+     * Execute regex.test() synchronously on a step-counting matcher that
+     * gives up after `maxBacktrackDepth` steps with `reason: 'backtrack_limit'`.
+     * The outcome is the same on every machine.
      * 
      * @example
      * ```typescript
-     * const result = safe.globToRegex('*.md');
-     * // result.regex matches 'readme.md', 'file.md', etc.
+     * const result = safe.testBounded(regex, input);
+     * if (result.reason === 'backtrack_limit') {
+     *   // Too much backtracking
+     * }
      * ```
      */
-    globToRegex(glob: string): SafeRegexResult {
-        // Escape special regex characters except glob wildcards
-        let pattern = glob
-            .replace(/[.+^${}()|[\]\\]/g, '\\$&')  // Escape special chars
-            .replace(/\*\*/g, '{{GLOBSTAR}}')       // Placeholder for **
-            .replace(/\*/g, '[^/]*')                // * = anything except /
-            .replace(/\?/g, '[^/]')                 // ? = single char except /
-            .replace(/\{\{GLOBSTAR\}\}/g, '.*');    // ** = anything including /
+    testBounded(regex: RegExp, input: string): RegexExecutionResult {
+        const { matched, reason, error } = this.bounded('testBounded', regex, input);
+        return {
+            matched,
+            reason,
+            ...(error !== undefined && { error }),
+        };
+    }
+
+    /**
+     * Execute regex.exec() synchronously on a step-counting matcher that
+     * gives up after `maxBacktrackDepth` steps with `reason: 'backtrack_limit'`.
+     */
+    execBounded(regex: RegExp, input: string): BoundedExecResult {
+        return this.bounded('execBounded', regex, input);
+    }
+
+    /**
+     * Execute regex.exec() with a timeout that stops the match.
+     * 
+     * Matching runs on the backtracking interpreter, which reads the clock
+     * as it goes and gives up after `timeoutMs` with
+     * `reason: 'execution_timeout'`. LinearRegExp instances match with their
+     * own engine. `lastIndex` is honored and updated as with the native exec.
+     */
+    async execWithTimeout(regex: RegExp, input: string): Promise<TimedExecResult> {
+        return this.timed('execWithTimeout', regex, input, { match: null }, (text, options) => execTimed(regex, text, options));
+    }
 
-        // Add anchors for full match
-        pattern = `^${pattern}$`;
+    /**
+     * Compute `input.match(regex)` with a timeout that stops matching: the
+     * first match, or every matched string for a global regex.
+     * 
+     * A global regex collects at most `maxMatches` matches, with
+     * `truncated: true` when more were left out.
+     * 
+     * @example
+     * ```typescript
+     * const result = await safe.matchWithTimeout(/\d+/g, text);
+     * // { matched: true, match: ['12', '345'], truncated: false, reason: 'ok' }
+     * ```
+     */
+    async matchWithTimeout(regex: RegExp, input: string): Promise<TimedMatchResult> {
+        return this.timed('matchWithTimeout', regex, input, { match: null, truncated: false }, (text, options) => matchTimed(regex, text, options));
+    }
+
+    /**
+     * Collect the matches of `input.matchAll(regex)` with a timeout that
+     * stops matching. The regex must have the `g` flag.
+     * 
+     * At most `maxMatches` matches are returned; `truncated` tells whether
+     * more were left out. The timeout covers the whole operation.
+     * 
+     * @example
+     * ```typescript
+     * const result = await safe.matchAllWithTimeout(/(\w+)=(\w+)/g, query);
+     * if (result.reason === 'ok') {
+     *   for (const [, key, value] of result.matches) { ... }
+     * }
+     * ```
+     */
+    async matchAllWithTimeout(regex: RegExp, input: string): Promise<TimedMatchAllResult> {
+        return this.timed('matchAllWithTimeout', regex, input, { matches: [], truncated: false }, (text, options) => matchAllTimed(regex, text, options));
+    }
+
+    /**
+     * Compute `input.replace(regex, replacement)` with a timeout that stops
+     * matching. Replacement templates (`$&`, `$1`, `$<name>`, ...) and
+     * replacer functions work as with String.prototype.replace.
+     * 
+     * Global regexes replace at most `maxMatches` matches and leave the rest
+     * of the string as it is, with `truncated: true`. `output` is absent
+     * when the operation did not finish.
+     * 
+     * @example
+     * ```typescript
+     * const result = await safe.replaceWithTimeout(/(?<year>\d{4})-(?<month>\d\d)/g, text, '$<month>/$<year>');
+     * ```
+     */
+    async replaceWithTimeout(regex: RegExp, input: string, replacement: RegexReplacement): Promise<TimedReplaceResult> {
+        return this.timed('replaceWithTimeout', regex, input, { replacements: 0, truncated: false }, (text, options) => replaceTimed(regex, text, replacement, options));
+    }
+
+    /**
+     * Compute `input.split(regex, limit)` with a timeout that stops matching.
+     * 
+     * Splitting stops after `maxMatches` separators, leaving the rest of the
+     * string as the last part, with `truncated: true`.
+     */
+    async splitWithTimeout(regex: RegExp, input: string, limit?: number): Promise<TimedSplitResult> {
+        return this.timed('splitWithTimeout', regex, input, { parts: [], truncated: false }, (text, options) => splitTimed(regex, text, limit, options));
+    }
+
+    /**
+     * Execute regex.test() on a worker thread like testInWorker(),
+     * rejecting with an ExecutionTimeoutError or InputTooLongError
+     * instead of resolving with that reason.
+     */
+    async testInWorkerOrThrow(regex: RegExp, input: string): Promise<boolean> {
+        const result = await this.testInWorker(regex, input);
+        this.throwIfStopped('testInWorker', regex, input, result);
+        return result.matched;
+    }
+
+    /**
+     * Execute regex.test() like testBounded(), throwing an
+     * ExecutionTimeoutError with `reason: 'backtrack_limit'` or an
+     * InputTooLongError instead of returning that reason.
+     */
+    testBoundedOrThrow(regex: RegExp, input: string): boolean {
+        const result = this.bounded('testBounded', regex, input);
+        this.throwIfStopped('testBounded', regex, input, result);
+        return result.matched;
+    }
+
+    /**
+     * The match of execWithTimeout(), rejecting with an
+     * ExecutionTimeoutError or InputTooLongError when there is none.
+     */
+    async execWithTimeoutOrThrow(regex: RegExp, input: string): Promise<RegExpExecArray | null> {
+        const result = await this.execWithTimeout(regex, input);
+        this.throwIfStopped('execWithTimeout', regex, input, result);
+        return result.match;
+    }
+
+    /**
+     * The value of matchWithTimeout(), rejecting with an
+     * ExecutionTimeoutError or InputTooLongError when there is none.
+     */
+    async matchWithTimeoutOrThrow(regex: RegExp, input: string): Promise<RegExpMatchArray | null> {
+        const result = await this.matchWithTimeout(regex, input);
+        this.throwIfStopped('matchWithTimeout', regex, input, result);
+        return result.match;
+    }
+
+    /**
+     * The matches of matchAllWithTimeout(), rejecting with an
+     * ExecutionTimeoutError or InputTooLongError when they are not
+     * available. Matches past `maxMatches` are left out, as there.
+     */
+    async matchAllWithTimeoutOrThrow(regex: RegExp, input: string): Promise<RegExpExecArray[]> {
+        const result = await this.matchAllWithTimeout(regex, input);
+        this.throwIfStopped('matchAllWithTimeout', regex, input, result);
+        return result.matches;
+    }
+
+    /**
+     * The output of replaceWithTimeout(), rejecting with an
+     * ExecutionTimeoutError or InputTooLongError when there is none.
+     */
+    async replaceWithTimeoutOrThrow(regex: RegExp, input: string, replacement: RegexReplacement): Promise<string> {
+        const result = await this.replaceWithTimeout(regex, input, replacement);
+        this.throwIfStopped('replaceWithTimeout', regex, input, result);
+        if (result.output === undefined) {
+            throw new SafeRegexError('Regex replacement finished without an output', result.reason, regex.source);
+        }
+        return result.output;
+    }
+
+    /**
+     * The parts of splitWithTimeout(), rejecting with an
+     * ExecutionTimeoutError or InputTooLongError when there are none.
+     */
+    async splitWithTimeoutOrThrow(regex: RegExp, input: string, limit?: number): Promise<string[]> {
+        const result = await this.splitWithTimeout(regex, input, limit);
+        this.throwIfStopped('splitWithTimeout', regex, input, result);
+        return result.parts;
+    }
+
+    /**
+     * Convert a glob pattern to a safe regex.
+     * 
+     * Supports: * (any), ? (single char), ** (recursive, as a whole segment),
+     * [abc] and [!abc] classes, {a,b} and {1..5} braces, extglobs such as
+     * @(a|b) and !(a|b), and leading ! negation. Wildcards skip dotfiles.
+     * 
+     * The glob's regex matches with the linear engine when the analysis
+     * finds it risky, so every glob that compiles runs in linear time.
+     * Matching ignores case unless `caseSensitive` is set. The `features`
+     * policy does not apply, since it restricts regex syntax, not globs.
+     * 
+     * @example
+     * ```typescript
+     * const result = safe.globToRegex('*.{ts,tsx}');
+     * // result.regex matches 'file.ts', 'file.tsx', etc.
+     * 
+     * safe.globToRegex('src/**\/*.ts', { separator: '\\', caseSensitive: true });
+     * // matches 'src\\lib\\a.ts' but not 'src\\lib\\A.TS'
+     * ```
+     */
+    globToRegex(glob: string, options: GlobOptions = {}): SafeRegexResult {
+        const started = performance.now();
+        const flags = options.caseSensitive ? '' : 'i';
+        const { result, cached } = this.checkGlob(glob, flags, options);
+        this.reportResult(glob, flags, result, cached, started);
+        return result;
+    }
 
-        return this.create(pattern, 'i');
+    /**
+     * Convert a glob pattern like globToRegex(), throwing the
+     * SafeRegexError subclass for the reason when it is rejected.
+     */
+    globToRegexOrThrow(glob: string, options?: GlobOptions): RegExp {
+        const result = this.globToRegex(glob, options);
+        if (!result.safe) {
+            throw resultError(glob, result);
+        }
+        return result.regex!;
     }
 
     /**
@@ -134,10 +484,11 @@ export class SafeRegex {
     }
 
     /**
-     * Update configuration.
+     * Update configuration. A `profile` applies its settings over the
+     * current ones, then the other options given.
      */
     configure(config: Partial<SafeRegexConfig>): void {
-        this.config = { ...this.config, ...config };
+        this.config = withProfile(this.config, config);
     }
 
     /**
@@ -147,6 +498,379 @@ export class SafeRegex {
         return { ...this.config };
     }
 
+    /**
+     * The result of create(), without emitting events.
+     */
+    private check(pattern: string, flags: string | undefined): { result: SafeRegexResult; cached: boolean } {
+        // Check pattern length
+        if (pattern.length > this.config.maxLength) {
+            this.notify('block', `Pattern exceeds maximum length of ${this.config.maxLength}`, pattern);
+            return {
+                result: {
+                    safe: false,
+                    error: `Pattern exceeds maximum length of ${this.config.maxLength}`,
+                    reason: 'pattern_too_long',
+                },
+                cached: false,
+            };
+        }
+
+        return this.compile(pattern, flags, this.config.engine, this.config.features);
+    }
+
+    /**
+     * The result of globToRegex(), without emitting events.
+     */
+    private checkGlob(glob: string, flags: string, options: GlobOptions): { result: SafeRegexResult; cached: boolean } {
+        if (glob.length > this.config.maxLength) {
+            this.notify('block', `Pattern exceeds maximum length of ${this.config.maxLength}`, glob);
+            return {
+                result: {
+                    safe: false,
+                    error: `Pattern exceeds maximum length of ${this.config.maxLength}`,
+                    reason: 'pattern_too_long',
+                },
+                cached: false,
+            };
+        }
+
+        let pattern: string;
+        try {
+            pattern = globToPattern(glob, options);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            this.notify('block', message, glob);
+            // Brace expansions past the limit throw RangeError; anything else is a malformed glob
+            const reason = error instanceof RangeError ? 'pattern_too_long' : 'invalid_syntax';
+            return { result: { safe: false, error: message, reason }, cached: false };
+        }
+
+        return this.compile(pattern, flags, this.config.engine === 'native' ? 'auto' : this.config.engine);
+    }
+
+    /**
+     * Analyze a pattern and compile it with the given engine selection,
+     * rejecting syntax the feature policy forbids. Goes through the cache
+     * when one is configured; `cached` tells whether the result came from it.
+     */
+    private compile(
+        pattern: string,
+        flags: string | undefined,
+        engine: RegexEngine,
+        features?: Partial<FeaturePolicy>,
+    ): { result: SafeRegexResult; cached: boolean } {
+        const { cache, maxLength, maxPolynomialDegree, includeAttackInput } = this.config;
+        const key = cache && JSON.stringify([
+            pattern,
+            flags ?? '',
+            engine,
+            features ? Object.entries(features).sort() : null,
+            maxLength,
+            maxPolynomialDegree,
+            includeAttackInput,
+        ]);
+        let compiled = key === undefined ? undefined : cache!.get(key);
+        const cached = compiled !== undefined;
+        if (!compiled) {
+            compiled = this.analyzeAndCompile(pattern, flags, engine, features);
+            if (key !== undefined) {
+                cache!.set(key, compiled);
+            }
+        }
+        if (compiled.notice) {
+            this.notify(compiled.notice.kind, compiled.notice.message, pattern);
+        }
+        return { result: key === undefined ? compiled.result : copyResult(compiled.result), cached };
+    }
+
+    private analyzeAndCompile(
+        pattern: string,
+        flags: string | undefined,
+        engine: RegexEngine,
+        features?: Partial<FeaturePolicy>,
+    ): CachedCompilation {
+        const analysis = analyzePattern(pattern, flags, {
+            maxPolynomialDegree: this.config.maxPolynomialDegree,
+            features,
+        });
+        const findings = analysis.findings.length > 0 ? { findings: analysis.findings } : {};
+        if (analysis.reason === 'invalid_syntax') {
+            return {
+                result: {
+                    safe: false,
+                    error: analysis.message,
+                    reason: 'invalid_syntax',
+                    ...findings,
+                },
+            };
+        }
+        if (analysis.reason === 'feature_not_allowed' || analysis.reason === 'flag_not_allowed') {
+            return {
+                result: { safe: false, error: analysis.message, reason: analysis.reason, ...findings },
+                notice: { kind: 'block', message: analysis.message! },
+            };
+        }
+        if (engine === 'linear' || (engine === 'auto' && !analysis.safe)) {
+            const regex = this.compileLinear(pattern, flags);
+            if (regex) {
+                return {
+                    result: { safe: true, regex, reason: 'ok', complexity: analysis.complexity, engine: 'linear', ...findings },
+                    ...(!analysis.safe && {
+                        notice: { kind: 'warning', message: `${analysis.message}; matching with the linear engine` },
+                    }),
+                };
+            }
+        }
+
+        if (!analysis.safe) {
+            const result: SafeRegexResult = {
+                safe: false,
+                error: analysis.message,
+                reason: analysis.reason,
+                complexity: analysis.complexity,
+                ...findings,
+            };
+            if (analysis.complexity) {
+                result.suggestions = suggestRewrites(pattern, flags, {
+                    maxPolynomialDegree: this.config.maxPolynomialDegree,
+                }).filter((suggestion) => suggestion.pattern.length <= this.config.maxLength);
+            }
+            if (this.config.includeAttackInput) {
+                result.attackInput = generateAttackInput(pattern, { flags });
+            }
+            return { result, notice: { kind: 'block', message: analysis.message || 'Pattern blocked' } };
+        }
+
+        // Try to create the regex
+        try {
+            const regex = new RegExp(pattern, flags);
+            return { result: { safe: true, regex, reason: 'ok', complexity: analysis.complexity, engine: 'native', ...findings } };
+        } catch (error) {
+            return {
+                result: {
+                    safe: false,
+                    error: `Invalid regex syntax: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                    reason: 'invalid_syntax',
+                },
+            };
+        }
+    }
+
+    /**
+     * Run execBounded() for testBounded() and execBounded(), notifying when
+     * it hits `maxBacktrackDepth`.
+     */
+    private bounded(operation: RegexOperation, regex: RegExp, input: string): BoundedExecResult {
+        const started = performance.now();
+        const tooLong = this.inputError(regex, input);
+        if (tooLong !== undefined) {
+            this.reportExecution(operation, regex, input, 'input_too_long', false, started);
+            return { matched: false, reason: 'input_too_long', error: tooLong, match: null, steps: 0 };
+        }
+        const result = execBounded(regex, input, { maxSteps: this.config.maxBacktrackDepth });
+        if (result.reason === 'backtrack_limit') {
+            this.notify('warning', `Regex execution exceeded ${this.config.maxBacktrackDepth} backtracking steps`, regex.source);
+        }
+        this.reportExecution(operation, regex, input, result.reason, result.matched, started);
+        return result;
+    }
+
+    /**
+     * Run a timed operation with the configured limits, notifying when it
+     * times out or hits `maxMatches`. `empty` fills in the result when the
+     * input is rejected.
+     */
+    private timed<T extends TimedExecResult | TimedMatchResult | TimedMatchAllResult | TimedReplaceResult | TimedSplitResult>(
+        operation: RegexOperation,
+        regex: RegExp,
+        input: string,
+        empty: Omit<T, keyof RegexExecutionResult>,
+        run: (input: string, options: TimedOptions) => T,
+    ): T {
+        const started = performance.now();
+        const tooLong = this.inputError(regex, input);
+        if (tooLong !== undefined) {
+            this.reportExecution(operation, regex, input, 'input_too_long', false, started);
+            return { matched: false, reason: 'input_too_long', error: tooLong, ...empty } as T;
+        }
+        const result = run(input, { deadline: Date.now() + this.config.timeoutMs, maxMatches: this.config.maxMatches });
+        if (result.reason === 'execution_timeout') {
+            this.notify('warning', `Regex execution exceeded ${this.config.timeoutMs}ms timeout`, regex.source);
+            result.error = `Regex execution timed out after ${this.config.timeoutMs}ms`;
+        }
+        if ('truncated' in result && result.truncated) {
+            this.notify('warning', `Regex matched more than ${this.config.maxMatches} times`, regex.source);
+        }
+        this.reportExecution(operation, regex, input, result.reason, result.matched, started);
+        return result;
+    }
+
+    /**
+     * Longest input the execution methods match `regex` against:
+     * `maxInputLength`, lowered for super-linear regexes to what
+     * `inputComplexityBudget` allows. Infinity when neither is set.
+     * 
+     * @example
+     * ```typescript
+     * const safe = new SafeRegex({ inputComplexityBudget: 1_000_000 });
+     * safe.maxInputLengthFor(/^\w+\s*\w+$/); // 1000, since the regex is O(n^2)
+     * ```
+     */
+    maxInputLengthFor(regex: RegExp): number {
+        const { maxInputLength = Infinity, inputComplexityBudget } = this.config;
+        if (inputComplexityBudget === undefined) {
+            return maxInputLength;
+        }
+        const degree = this.degreeOf(regex);
+        if (degree === 1) {
+            return maxInputLength;
+        }
+        const allowed = degree === Infinity
+            ? Math.log2(inputComplexityBudget)
+            : inputComplexityBudget ** (1 / degree);
+        // The epsilon keeps exact roots such as 1e6 ** (1 / 3) from rounding down
+        return Math.min(maxInputLength, Math.max(1, Math.floor(allowed + 1e-9)));
+    }
+
+    /**
+     * Backtracking degree of a regex: 1 for linear, Infinity for
+     * exponential and for regexes the analysis cannot handle.
+     */
+    private degreeOf(regex: RegExp): number {
+        if (regex instanceof LinearRegExp) {
+            return 1;
+        }
+        let degree = this.degrees.get(regex);
+        if (degree === undefined) {
+            const { complexity } = analyzePattern(regex.source, regex.flags);
+            degree = complexity?.type === 'linear' ? 1
+                : complexity?.type === 'polynomial' ? complexity.degree
+                    : Infinity;
+            this.degrees.set(regex, degree);
+        }
+        return degree;
+    }
+
+    /**
+     * The error when the input is over the limit for `regex`. Oversized
+     * input is always rejected, whatever `oversizedInput` says: matching
+     * only the start of it would give wrong results, such as `/^\d+$/`
+     * matching `'12345; DROP TABLE'` or a greedy match cut at the limit.
+     */
+    private inputError(regex: RegExp, input: string): string | undefined {
+        const limit = this.maxInputLengthFor(regex);
+        if (input.length <= limit) {
+            return undefined;
+        }
+        const error = `Input of ${input.length} characters exceeds the limit of ${limit} for this pattern`;
+        this.notify('warning', error, regex.source);
+        return error;
+    }
+
+    /**
+     * Compile for the linear engine, or undefined when the pattern
+     * needs backreferences or lookarounds.
+     */
+    private compileLinear(pattern: string, flags?: string): LinearRegExp | undefined {
+        try {
+            return new LinearRegExp(pattern, flags);
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Throw the error for an execution that did not finish, with the
+     * limit that stopped it, or that only matched the start of the input.
+     */
+    private throwIfStopped(operation: RegexOperation, regex: RegExp, input: string, result: RegexExecutionResult): void {
+        if (result.inputTruncated) {
+            const limit = this.maxInputLengthFor(regex);
+            throw new InputTooLongError(
+                `Input of ${input.length} characters was truncated to the limit of ${limit} for this pattern`,
+                regex.source,
+                input.length,
+                limit,
+            );
+        }
+        if (result.reason === 'ok') {
+            return;
+        }
+        const limit = result.reason === 'input_too_long' ? this.maxInputLengthFor(regex)
+            : result.reason === 'backtrack_limit' ? this.config.maxBacktrackDepth
+                : this.config.timeoutMs;
+        throw executionError(operation, regex, input, result, limit);
+    }
+
+    /**
+     * Emit `cacheHit` when the result came from the cache, then `created`
+     * or `blocked`.
+     */
+    private reportResult(
+        pattern: string,
+        flags: string | undefined,
+        result: SafeRegexResult,
+        cached: boolean,
+        started: number,
+    ): void {
+        const durationMs = performance.now() - started;
+        const reason = result.reason ?? (result.safe ? 'ok' : 'invalid_syntax');
+        if (cached) {
+            this.emit('cacheHit', { pattern, flags: flags ?? '', safe: result.safe, reason });
+        }
+        const complexity = result.complexity ? { complexity: result.complexity } : {};
+        const findings = result.findings ?? [];
+        if (result.safe) {
+            this.emit('created', { pattern, flags: flags ?? '', engine: result.engine!, ...complexity, findings, cached, durationMs });
+        } else {
+            this.emit('blocked', {
+                pattern,
+                flags: flags ?? '',
+                reason,
+                message: result.error ?? 'Pattern blocked',
+                ...complexity,
+                findings,
+                cached,
+                durationMs,
+            });
+        }
+    }
+
+    /**
+     * Emit `executed`, and `timeout` when a limit stopped the match.
+     */
+    private reportExecution(
+        operation: RegexOperation,
+        regex: RegExp,
+        input: string,
+        reason: SafeRegexReason,
+        matched: boolean,
+        started: number,
+    ): void {
+        const durationMs = performance.now() - started;
+        const execution = { operation, pattern: regex.source, flags: regex.flags, inputLength: input.length };
+        this.emit('executed', { ...execution, reason, matched, durationMs });
+        if (reason === 'execution_timeout' || reason === 'backtrack_limit') {
+            const limit = reason === 'execution_timeout' ? this.config.timeoutMs : this.config.maxBacktrackDepth;
+            this.emit('timeout', { ...execution, reason, limit, durationMs });
+        }
+    }
+
+    /**
+     * Call the listeners of an event. As with the callbacks, errors thrown
+     * by a listener reach the caller.
+     */
+    private emit<E extends keyof SafeRegexEvents>(event: E, payload: SafeRegexEvents[E]): void {
+        const listeners = this.listeners[event] as Array<(payload: SafeRegexEvents[E]) => void> | undefined;
+        if (!listeners) {
+            return;
+        }
+        // A listener may remove itself while the event is emitted
+        for (const listener of [...listeners]) {
+            listener(payload);
+        }
+    }
+
     /**
      * Notify via callbacks if configured.
      */
@@ -160,22 +884,63 @@ export class SafeRegex {
     }
 }
 
+/**
+ * Whether an accepted native result deserves a probe: its backtracking
+ * is polynomial, or it uses syntax the analysis only approximates.
+ */
+function isBorderline(pattern: string, flags: string | undefined, result: SafeRegexResult): boolean {
+    if (result.complexity?.type === 'polynomial') {
+        return true;
+    }
+    let approximated = false;
+    walkRegex(parsePattern(pattern, flags), (node) => {
+        approximated ||= node.type === 'Backreference' || node.type === 'Lookaround';
+    });
+    return approximated;
+}
+
+/**
+ * A deep copy of a cached result that callers may change, with its own
+ * regex, so callers sharing a cache never share `lastIndex` or anything
+ * they set on the regex.
+ */
+function copyResult(result: SafeRegexResult): SafeRegexResult {
+    const { regex, ...rest } = result;
+    const copy: SafeRegexResult = structuredClone(rest);
+    if (regex) {
+        copy.regex = regex instanceof LinearRegExp ? new LinearRegExp(regex) : new RegExp(regex);
+    }
+    return copy;
+}
+
+/**
+ * `config` over `base`, with the settings of `config.profile` in between.
+ * Features given in `config` are merged into the policy underneath.
+ */
+function withProfile(base: SafeRegexConfig, config: Partial<SafeRegexConfig>): SafeRegexConfig {
+    const profile = config.profile ? SECURITY_PROFILES[config.profile] : {};
+    const features = config.features && { ...(profile.features ?? base.features), ...config.features };
+    return { ...base, ...profile, ...config, ...(features && { features }) };
+}
+
 /**
  * Create a safe regex with default configuration.
- * Convenience function for simple use cases.
+ * Convenience function for simple use cases. Results are cached in
+ * the shared cache from sharedRegexCache().
  */
 export function createSafeRegex(pattern: string, flags?: string): SafeRegexResult {
-    const safe = new SafeRegex();
+    const safe = new SafeRegex({ cache: sharedRegexCache() });
     return safe.create(pattern, flags);
 }
 
 /**
  * Convert a glob pattern to a safe regex.
- * Convenience function for simple use cases.
+ * Convenience function for simple use cases. Results are cached in
+ * the shared cache from sharedRegexCache().
  */
-export function globToSafeRegex(glob: string): SafeRegexResult {
-    const safe = new SafeRegex();
-    return safe.globToRegex(glob);
+export function globToSafeRegex(glob: string, options?: GlobOptions): SafeRegexResult {
+    const safe = new SafeRegex({ cache: sharedRegexCache() });
+    return safe.globToRegex(glob, options);
 }
 
 /**
@@ -0,0 +1,382 @@
+import { ScanSourceOptions, SourceFinding, SourcePosition, SourceRegex, SourceRegexKind, SourceScanResult } from './types';
+import { analyzePattern } from './analyze';
+
+/**
+ * A regex found in source code, before analysis
+ */
+export interface ExtractedRegex {
+    kind: SourceRegexKind;
+    pattern: string;
+    flags: string;
+
+    /** Position of the literal, or of the pattern string passed to RegExp */
+    line: number;
+    column: number;
+
+    /** Source position of an offset into the pattern, which may be its length */
+    position: (offset: number) => SourcePosition;
+}
+
+interface Token {
+    type: 'name' | 'punct' | 'number' | 'string' | 'template' | 'regex';
+    value: string;
+    start: number;
+    end: number;
+
+    /** Cooked value of a string or a template without substitutions */
+    text?: string;
+
+    /** Source offset of each code unit of `text`, and of the closing quote */
+    offsets?: number[];
+
+    /** Whether a template part ends with `${` */
+    opensSubstitution?: boolean;
+}
+
+/** Keywords after which a `/` starts a regex rather than a division */
+const EXPRESSION_KEYWORDS = new Set([
+    'return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void', 'throw',
+    'case', 'do', 'else', 'yield', 'await', 'extends', 'satisfies', 'as',
+]);
+
+const LINE_TERMINATOR = /\r\n?|[\n\u2028\u2029]/g;
+
+/**
+ * Scan JavaScript or TypeScript source for regex literals and `RegExp`
+ * calls with a constant pattern, and analyze each one with analyzePattern.
+ *
+ * The source is tokenized rather than fully parsed: comments, strings and
+ * templates are skipped, and a `/` starts a regex wherever an expression
+ * may begin. `new RegExp(pattern, flags)` and `RegExp(pattern, flags)`
+ * are picked up when the pattern is a string literal, a template without
+ * substitutions or a `String.raw` template; flags that are not constant
+ * are left out.
+ *
+ * Findings carry 1-based lines and columns in the source, counted in
+ * UTF-16 code units, with `endColumn` just past the offending expression.
+ *
+ * @example
+ * ```typescript
+ * const { findings } = scanSource('const re = /^(a+)+$/;', { fileName: 'src/re.ts' });
+ * // [{ ruleId: 'nested-quantifiers', file: 'src/re.ts', line: 1, column: 14,
+ * //    endLine: 1, endColumn: 19, expression: '(a+)+', ... }]
+ * ```
+ */
+export function scanSource(source: string, options: ScanSourceOptions = {}): SourceScanResult {
+    const regexes: SourceRegex[] = [];
+    const findings: SourceFinding[] = [];
+    for (const found of extractRegexes(source)) {
+        const analysis = analyzePattern(found.pattern, found.flags, {
+            maxPolynomialDegree: options.maxPolynomialDegree,
+        });
+        const { kind, pattern, flags, line, column } = found;
+        regexes.push({ kind, pattern, flags, line, column, analysis });
+
+        for (const finding of analysis.findings) {
+            const start = found.position(finding.start);
+            const end = found.position(finding.end);
+            findings.push({
+                ...finding,
+                ...(options.fileName === undefined ? {} : { file: options.fileName }),
+                pattern,
+                flags,
+                line: start.line,
+                column: start.column,
+                endLine: end.line,
+                endColumn: end.column,
+            });
+        }
+    }
+    return { regexes, findings };
+}
+
+/**
+ * Find the regex literals and constant `RegExp` calls in a source file,
+ * in source order.
+ */
+export function extractRegexes(source: string): ExtractedRegex[] {
+    const tokens = tokenize(source);
+    const lineStarts = [0];
+    for (const terminator of source.matchAll(LINE_TERMINATOR)) {
+        lineStarts.push(terminator.index + terminator[0].length);
+    }
+    const at = (offset: number): SourcePosition => {
+        let low = 0;
+        let high = lineStarts.length - 1;
+        while (low < high) {
+            const middle = (low + high + 1) >> 1;
+            if (lineStarts[middle] <= offset) {
+                low = middle;
+            } else {
+                high = middle - 1;
+            }
+        }
+        return { line: low + 1, column: offset - lineStarts[low] + 1 };
+    };
+    const found = (kind: SourceRegexKind, pattern: string, flags: string, start: number, offsets: number[]): ExtractedRegex => ({
+        kind,
+        pattern,
+        flags,
+        ...at(start),
+        position: (offset) => at(offsets[Math.max(0, Math.min(offset, offsets.length - 1))]),
+    });
+
+    const regexes: ExtractedRegex[] = [];
+    tokens.forEach((token, index) => {
+        if (token.type === 'regex') {
+            const close = token.value.lastIndexOf('/');
+            const offsets = Array.from({ length: close }, (_, i) => token.start + 1 + i);
+            regexes.push(found('literal', token.value.slice(1, close), token.value.slice(close + 1), token.start, offsets));
+            return;
+        }
+
+        const previous = tokens[index - 1];
+        if (token.type !== 'name' || token.value !== 'RegExp' || previous?.value === '.' || tokens[index + 1]?.value !== '(') {
+            return;
+        }
+        const pattern = constantString(tokens, index + 2);
+        if (!pattern || !endsArgument(tokens[pattern.next])) {
+            return;
+        }
+        let flags = '';
+        if (tokens[pattern.next].value === ',') {
+            const constantFlags = constantString(tokens, pattern.next + 1);
+            if (constantFlags && endsArgument(tokens[constantFlags.next])) {
+                flags = constantFlags.text;
+            }
+        }
+        regexes.push(found('constructor', pattern.text, flags, pattern.start, pattern.offsets));
+    });
+    return regexes;
+}
+
+function endsArgument(token: Token | undefined): boolean {
+    return token?.value === ')' || token?.value === ',';
+}
+
+/**
+ * A string literal, a template without substitutions, or a `String.raw`
+ * template starting at `index`, with the index of the token after it.
+ */
+function constantString(
+    tokens: Token[],
+    index: number,
+): { text: string; offsets: number[]; start: number; next: number } | undefined {
+    const token = tokens[index];
+    if (token?.type === 'string') {
+        return { text: token.text!, offsets: token.offsets!, start: token.start, next: index + 1 };
+    }
+    const raw = tokens[index + 3];
+    if (token?.value === 'String' && tokens[index + 1]?.value === '.' && tokens[index + 2]?.value === 'raw'
+        && raw?.type === 'string' && raw.value.startsWith('`')) {
+        const text = raw.value.slice(1, -1);
+        const offsets = Array.from({ length: text.length + 1 }, (_, i) => raw.start + 1 + i);
+        return { text, offsets, start: token.start, next: index + 4 };
+    }
+    return undefined;
+}
+
+/**
+ * Split source into the tokens needed to find regexes. Whitespace and
+ * comments are dropped, and punctuators are single characters except
+ * `++` and `--`.
+ */
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    // Brace depth at which each open template substitution ends
+    const substitutions: number[] = [];
+    let braces = 0;
+    let i = source.startsWith('#!') ? lineEnd(source, 0) : 0;
+
+    while (i < source.length) {
+        const char = source[i];
+        const next = source[i + 1];
+        if (/\s/.test(char)) {
+            i++;
+        } else if (char === '/' && next === '/') {
+            i = lineEnd(source, i);
+        } else if (char === '/' && next === '*') {
+            const close = source.indexOf('*/', i + 2);
+            i = close < 0 ? source.length : close + 2;
+        } else if (char === '"' || char === "'") {
+            const token = readString(source, i);
+            tokens.push(token);
+            i = token.end;
+        } else if (char === '`' || (char === '}' && substitutions.at(-1) === braces)) {
+            if (char === '}') {
+                substitutions.pop();
+            }
+            const token = readTemplate(source, i);
+            if (token.opensSubstitution) {
+                substitutions.push(braces);
+            }
+            tokens.push(token);
+            i = token.end;
+        } else {
+            const token = (char === '/' && regexAllowed(tokens.at(-1), next) && readRegex(source, i)) || readWord(source, i);
+            if (token.value === '{') {
+                braces++;
+            } else if (token.value === '}') {
+                braces--;
+            }
+            tokens.push(token);
+            i = token.end;
+        }
+    }
+    return tokens;
+}
+
+/**
+ * Whether a `/` after this token, followed by `next`, starts a regex
+ * rather than a division. Not in the JSX `</tag>`, nor in `/>` after the
+ * `}` of an attribute, as in `<Icon {...props} />`.
+ */
+function regexAllowed(previous: Token | undefined, next: string | undefined): boolean {
+    if (!previous) {
+        return true;
+    }
+    switch (previous.type) {
+        case 'name':
+            return EXPRESSION_KEYWORDS.has(previous.value);
+        case 'punct':
+            return ![')', ']', '++', '--', '<'].includes(previous.value) && !(previous.value === '}' && next === '>');
+        case 'template':
+            return previous.opensSubstitution === true;
+        default:
+            return false;
+    }
+}
+
+function lineEnd(source: string, from: number): number {
+    let i = from;
+    while (i < source.length && !'\r\n\u2028\u2029'.includes(source[i])) {
+        i++;
+    }
+    return i;
+}
+
+/**
+ * A name, number or punctuator.
+ */
+function readWord(source: string, start: number): Token {
+    const name = /[\p{ID_Start}$_\\](?:[\p{ID_Continue}$\\]|\u200c|\u200d)*/uy;
+    name.lastIndex = start;
+    if (name.test(source)) {
+        return { type: 'name', value: source.slice(start, name.lastIndex), start, end: name.lastIndex };
+    }
+    const number = /(?:\d|\.\d)[\w.]*(?:(?<=[eE])[+-][\w.]*)?/y;
+    number.lastIndex = start;
+    if (number.test(source)) {
+        return { type: 'number', value: source.slice(start, number.lastIndex), start, end: number.lastIndex };
+    }
+    const pair = source.slice(start, start + 2);
+    const value = pair === '++' || pair === '--' ? pair : String.fromCodePoint(source.codePointAt(start)!);
+    return { type: 'punct', value, start, end: start + value.length };
+}
+
+/**
+ * A regex literal, or undefined when the `/` is not followed by one on
+ * the same line. Text after the closing `/` that is not made of flags,
+ * as in `<Card {...props} /></Layout>` in JSX, means it is not a regex.
+ */
+function readRegex(source: string, start: number): Token | undefined {
+    let inClass = false;
+    let i = start + 1;
+    for (; i < source.length; i++) {
+        const char = source[i];
+        if ('\r\n\u2028\u2029'.includes(char)) {
+            return undefined;
+        }
+        if (char === '\\') {
+            i++;
+        } else if (char === '[') {
+            inClass = true;
+        } else if (char === ']') {
+            inClass = false;
+        } else if (char === '/' && !inClass) {
+            break;
+        }
+    }
+    if (i >= source.length) {
+        return undefined;
+    }
+    const flags = /[\p{ID_Continue}$]*/uy;
+    flags.lastIndex = i + 1;
+    flags.test(source);
+    if (!/^[dgimsuvy]*$/.test(source.slice(i + 1, flags.lastIndex))) {
+        return undefined;
+    }
+    return { type: 'regex', value: source.slice(start, flags.lastIndex), start, end: flags.lastIndex };
+}
+
+function readString(source: string, start: number): Token {
+    const quote = source[start];
+    let text = '';
+    const offsets: number[] = [];
+    let i = start + 1;
+    while (i < source.length && source[i] !== quote && source[i] !== '\n' && source[i] !== '\r') {
+        const [chars, length] = source[i] === '\\' ? readEscape(source, i) : [source[i], 1];
+        for (let unit = 0; unit < chars.length; unit++) {
+            offsets.push(i);
+        }
+        text += chars;
+        i += length;
+    }
+    offsets.push(i);
+    const end = Math.min(i + 1, source.length);
+    return { type: 'string', value: source.slice(start, end), start, end, text, offsets };
+}
+
+/**
+ * A template part starting at its opening backquote or at the `}` that
+ * ends a substitution. Templates without substitutions become strings.
+ */
+function readTemplate(source: string, start: number): Token {
+    let text = '';
+    const offsets: number[] = [];
+    let i = start + 1;
+    while (i < source.length && source[i] !== '`' && !source.startsWith('${', i)) {
+        const [chars, length] = source[i] === '\\' ? readEscape(source, i) : [source[i], 1];
+        for (let unit = 0; unit < chars.length; unit++) {
+            offsets.push(i);
+        }
+        text += chars;
+        i += length;
+    }
+    offsets.push(i);
+    const opensSubstitution = source.startsWith('${', i);
+    const end = Math.min(i + (opensSubstitution ? 2 : 1), source.length);
+    const value = source.slice(start, end);
+    if (source[start] === '`' && !opensSubstitution) {
+        return { type: 'string', value, start, end, text, offsets };
+    }
+    return { type: 'template', value, start, end, opensSubstitution };
+}
+
+/**
+ * The characters an escape sequence at `start` stands for, and its length.
+ */
+function readEscape(source: string, start: number): [string, number] {
+    const char = source[start + 1] ?? '';
+    const simple: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', v: '\v' };
+    if (char in simple) {
+        return [simple[char], 2];
+    }
+    if (source.startsWith('\r\n', start + 1)) {
+        return ['', 3];
+    }
+    if ('\r\n\u2028\u2029'.includes(char)) {
+        return ['', 2];
+    }
+
+    const hex = /x([\da-fA-F]{2})|u([\da-fA-F]{4})|u\{([\da-fA-F]+)\}|([0-3][0-7]{0,2}|[4-7][0-7]?)/y;
+    hex.lastIndex = start + 1;
+    const match = hex.exec(source);
+    if (match) {
+        const code = match[4] !== undefined ? parseInt(match[4], 8) : parseInt(match[1] ?? match[2] ?? match[3], 16);
+        if (code <= 0x10ffff) {
+            return [String.fromCodePoint(code), match[0].length + 1];
+        }
+    }
+    return [char, 1 + char.length];
+}
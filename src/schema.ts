@@ -0,0 +1,218 @@
+import {
+    AuditedSchemaPattern,
+    SchemaAuditOptions,
+    SchemaAuditResult,
+    SchemaFinding,
+    SchemaPattern,
+    UnresolvedSchemaRef,
+} from './types';
+import { SafeRegex } from './safe-regex';
+
+/**
+ * Patterns found in a schema document, before they are checked
+ */
+export interface ExtractedSchemaPatterns {
+    patterns: SchemaPattern[];
+    unresolvedRefs: UnresolvedSchemaRef[];
+}
+
+type Mode = 'schema' | 'document';
+
+/** Keywords whose value is a subschema, or an array of them for `items` */
+const SUBSCHEMA_KEYWORDS = new Set([
+    'additionalItems', 'additionalProperties', 'contains', 'contentSchema', 'else', 'if', 'items',
+    'not', 'propertyNames', 'then', 'unevaluatedItems', 'unevaluatedProperties',
+]);
+
+/** Keywords whose value is an array of subschemas */
+const SCHEMA_ARRAY_KEYWORDS = new Set(['allOf', 'anyOf', 'oneOf', 'prefixItems']);
+
+/** Keywords whose value maps names to subschemas */
+const SCHEMA_MAP_KEYWORDS = new Set([
+    '$defs', 'definitions', 'dependentSchemas', 'dependencies', 'properties', 'patternProperties',
+]);
+
+/** OpenAPI keys that hold sample data or extensions rather than schemas */
+const OPENAPI_SKIPPED = new Set(['example', 'examples']);
+
+/**
+ * Audit the patterns in a JSON Schema or OpenAPI 3.x document: every
+ * `pattern` keyword and `patternProperties` key is checked with
+ * SafeRegex.create under the given instance's configuration.
+ *
+ * Local `$ref`s (`#/...` pointers and `#name` anchors) are followed, so
+ * a shared definition is checked once, at its own location. Findings
+ * are located by the JSON pointer of the pattern within the document.
+ *
+ * @example
+ * ```typescript
+ * const { safe, findings } = auditSchema({
+ *     type: 'object',
+ *     properties: { email: { type: 'string', pattern: '^([a-z]+)+@' } },
+ * });
+ * // safe: false
+ * // findings: [{ pointer: '/properties/email/pattern', ruleId: 'nested-quantifiers', ... }]
+ * ```
+ */
+export function auditSchema(document: unknown, options: SchemaAuditOptions = {}): SchemaAuditResult {
+    const safe = options.safeRegex ?? new SafeRegex();
+    const flags = options.flags ?? 'u';
+    const { patterns: extracted, unresolvedRefs } = extractSchemaPatterns(document);
+
+    const patterns: AuditedSchemaPattern[] = [];
+    const findings: SchemaFinding[] = [];
+    for (const found of extracted) {
+        const result = safe.create(found.pattern, flags);
+        patterns.push({ ...found, result });
+
+        if (result.reason === 'pattern_too_long') {
+            findings.push({
+                ...found,
+                ruleId: 'pattern-too-long',
+                reason: 'pattern_too_long',
+                severity: 'error',
+                message: result.error!,
+                start: 0,
+                end: found.pattern.length,
+                expression: found.pattern,
+            });
+        }
+        for (const finding of result.findings ?? []) {
+            findings.push({ ...finding, ...found });
+        }
+    }
+
+    return { safe: patterns.every(({ result }) => result.safe), patterns, findings, unresolvedRefs };
+}
+
+/**
+ * Find the patterns in a JSON Schema or OpenAPI document, in document
+ * order, followed by those only reached through a `$ref`.
+ *
+ * A document with an `openapi` member is walked as OpenAPI: schemas are
+ * the values of `schema` members and of `components.schemas`, and
+ * examples and `x-` extensions are skipped. Anything else is walked as
+ * a JSON Schema through its subschema keywords, so `enum`, `const`,
+ * `default` and examples are never mistaken for schemas.
+ */
+export function extractSchemaPatterns(document: unknown): ExtractedSchemaPatterns {
+    const patterns: SchemaPattern[] = [];
+    const unresolvedRefs: UnresolvedSchemaRef[] = [];
+    const visited = new Set<object>();
+    const refs: Array<{ pointer: string; ref: string; mode: Mode }> = [];
+    const anchors = new Map<string, { value: object; path: string[] }>();
+
+    const walkSchema = (schema: unknown, path: string[]): void => {
+        if (!isObject(schema) || visited.has(schema)) {
+            return;
+        }
+        visited.add(schema);
+
+        for (const [key, value] of Object.entries(schema)) {
+            if (key === 'pattern' && typeof value === 'string') {
+                patterns.push({ pointer: toPointer([...path, key]), keyword: 'pattern', pattern: value });
+            } else if (key === '$ref' && typeof value === 'string') {
+                refs.push({ pointer: toPointer(path), ref: value, mode: 'schema' });
+            } else if (key === '$anchor' && typeof value === 'string') {
+                anchors.set(value, { value: schema, path });
+            } else if (SUBSCHEMA_KEYWORDS.has(key)) {
+                if (Array.isArray(value)) {
+                    value.forEach((item, index) => walkSchema(item, [...path, key, String(index)]));
+                } else {
+                    walkSchema(value, [...path, key]);
+                }
+            } else if (SCHEMA_ARRAY_KEYWORDS.has(key) && Array.isArray(value)) {
+                value.forEach((item, index) => walkSchema(item, [...path, key, String(index)]));
+            } else if (SCHEMA_MAP_KEYWORDS.has(key) && isObject(value)) {
+                for (const [name, subschema] of Object.entries(value)) {
+                    if (key === 'patternProperties') {
+                        patterns.push({ pointer: toPointer([...path, key, name]), keyword: 'patternProperties', pattern: name });
+                    }
+                    walkSchema(subschema, [...path, key, name]);
+                }
+            }
+        }
+    };
+
+    const walkDocument = (node: unknown, path: string[]): void => {
+        if (!isObject(node) || visited.has(node)) {
+            return;
+        }
+        visited.add(node);
+
+        const entries = Array.isArray(node) ? node.map((item, index) => [String(index), item]) : Object.entries(node);
+        for (const [key, value] of entries) {
+            const inSchemas = path.length === 2 && path[0] === 'components' && path[1] === 'schemas';
+            if (key === '$ref' && typeof value === 'string') {
+                refs.push({ pointer: toPointer(path), ref: value, mode: 'document' });
+            } else if (key === 'schema' || inSchemas) {
+                walkSchema(value, [...path, key]);
+            } else if (!OPENAPI_SKIPPED.has(key) && !key.startsWith('x-')) {
+                walkDocument(value, [...path, key]);
+            }
+        }
+    };
+
+    const openApi = isObject(document) && !Array.isArray(document) && 'openapi' in document;
+    if (openApi) {
+        walkDocument(document, []);
+    } else {
+        walkSchema(document, []);
+    }
+
+    // Walking a target may find more references, which are queued behind
+    for (let index = 0; index < refs.length; index++) {
+        const { pointer, ref, mode } = refs[index];
+        const target = resolveRef(document, ref, anchors);
+        if (target === undefined) {
+            unresolvedRefs.push({ pointer, ref });
+        } else if (mode === 'schema') {
+            walkSchema(target.value, target.path);
+        } else {
+            walkDocument(target.value, target.path);
+        }
+    }
+
+    return { patterns, unresolvedRefs };
+}
+
+/**
+ * The value a local reference points at with its path, or undefined for
+ * references to other documents and to nothing.
+ */
+function resolveRef(
+    document: unknown,
+    ref: string,
+    anchors: Map<string, { value: object; path: string[] }>,
+): { value: unknown; path: string[] } | undefined {
+    if (!ref.startsWith('#')) {
+        return undefined;
+    }
+    let fragment: string;
+    try {
+        fragment = decodeURIComponent(ref.slice(1));
+    } catch {
+        return undefined;
+    }
+    if (fragment !== '' && !fragment.startsWith('/')) {
+        return anchors.get(fragment);
+    }
+
+    const path = fragment === '' ? [] : fragment.slice(1).split('/').map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+    let value = document;
+    for (const token of path) {
+        if (!isObject(value) || !Object.hasOwn(value, token)) {
+            return undefined;
+        }
+        value = (value as Record<string, unknown>)[token];
+    }
+    return { value, path };
+}
+
+function toPointer(path: string[]): string {
+    return path.map((token) => `/${token.replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+}
+
+function isObject(value: unknown): value is object {
+    return typeof value === 'object' && value !== null;
+}
@@ -0,0 +1,170 @@
+import type { Scope, SourceCode } from 'eslint';
+import type * as ESTree from 'estree';
+
+/**
+ * Sources of untrusted data: 'params' for function parameters, or the
+ * dotted path of a value or function, e.g. 'process.env', 'JSON.parse'
+ * or 'req.query'. Members of a source and results of calling it are
+ * untrusted too.
+ */
+export const DEFAULT_TAINT_SOURCES = ['params', 'process.env', 'JSON.parse'];
+
+/** Calls that return their argument's data, so taint passes through them */
+const PASS_THROUGH_CALLS = new Set(['String', 'decodeURI', 'decodeURIComponent', 'unescape']);
+
+/** Calls whose result is safe to put in a regex whatever their argument */
+const SANITIZERS = new Set(['escapeForRegex']);
+
+/**
+ * Traces simple data flow within a file to tell whether an expression
+ * holds untrusted data.
+ *
+ * An expression is untrusted when it reads a source, or derives from one
+ * through variables, string concatenation, templates, conditionals,
+ * method calls on untrusted values and calls like `String()` or
+ * `decodeURIComponent()`. A variable is untrusted when anything written
+ * to it is. `escapeForRegex()` makes its result trusted, as do calls to
+ * other functions.
+ */
+export class TaintTracker {
+    private readonly params: boolean;
+    private readonly paths: Set<string>;
+    private readonly variables = new Map<Scope.Variable, string | undefined>();
+
+    constructor(private readonly sourceCode: SourceCode, sources: string[] = DEFAULT_TAINT_SOURCES) {
+        this.params = sources.includes('params');
+        this.paths = new Set(sources.filter((source) => source !== 'params'));
+    }
+
+    /**
+     * A description of where the untrusted data in an expression comes
+     * from, e.g. "parameter `query`", or undefined when it is trusted.
+     */
+    sourceOf(node: ESTree.Node): string | undefined {
+        switch (node.type) {
+            case 'Identifier':
+                return this.paths.has(node.name) ? `\`${node.name}\`` : this.variableSource(node);
+            case 'MemberExpression':
+                return this.matchingPath(node) ?? this.sourceOf(node.object);
+            case 'CallExpression':
+                return this.callSource(node);
+            case 'TemplateLiteral':
+                return firstSource(node.expressions, (expression) => this.sourceOf(expression));
+            case 'BinaryExpression':
+                return node.operator === '+'
+                    ? firstSource([node.left, node.right], (operand) => this.sourceOf(operand))
+                    : undefined;
+            case 'LogicalExpression':
+                return firstSource([node.left, node.right], (operand) => this.sourceOf(operand));
+            case 'ConditionalExpression':
+                return firstSource([node.consequent, node.alternate], (branch) => this.sourceOf(branch));
+            case 'AssignmentExpression':
+                return this.sourceOf(node.right);
+            case 'SequenceExpression':
+                return this.sourceOf(node.expressions.at(-1)!);
+            case 'AwaitExpression':
+            case 'ChainExpression':
+                return this.sourceOf(node.type === 'AwaitExpression' ? node.argument : node.expression);
+            default:
+                // TypeScript wrappers such as `x as string` and `x!`
+                return isTypeWrapper(node) ? this.sourceOf((node as unknown as { expression: ESTree.Node }).expression) : undefined;
+        }
+    }
+
+    private variableSource(node: ESTree.Identifier): string | undefined {
+        const variable = findVariable(this.sourceCode.getScope(node), node.name);
+        if (!variable) {
+            return undefined;
+        }
+        if (this.variables.has(variable)) {
+            return this.variables.get(variable);
+        }
+        // Mark the variable trusted while tracing it, which stops cycles
+        this.variables.set(variable, undefined);
+
+        let source: string | undefined;
+        if (this.params && variable.defs.some((def) => def.type === 'Parameter')) {
+            source = `parameter \`${variable.name}\``;
+        }
+        for (const reference of variable.references) {
+            if (source === undefined && reference.writeExpr) {
+                source = this.sourceOf(reference.writeExpr);
+            }
+        }
+        this.variables.set(variable, source);
+        return source;
+    }
+
+    private callSource(node: ESTree.CallExpression): string | undefined {
+        const { callee } = node;
+        const name = callee.type === 'Identifier' ? callee.name
+            : callee.type === 'MemberExpression' && callee.property.type === 'Identifier' ? callee.property.name
+                : undefined;
+        if (name !== undefined && SANITIZERS.has(name)) {
+            return undefined;
+        }
+        const path = pathOf(callee);
+        if (path !== undefined && this.paths.has(path)) {
+            return `\`${path}()\``;
+        }
+        if (callee.type === 'Identifier' && PASS_THROUGH_CALLS.has(callee.name)) {
+            return firstSource(node.arguments, (argument) => this.sourceOf(argument));
+        }
+        if (callee.type === 'MemberExpression') {
+            return this.sourceOf(callee.object);
+        }
+        return undefined;
+    }
+
+    /**
+     * The source path this member expression or one of its objects reads.
+     */
+    private matchingPath(node: ESTree.MemberExpression): string | undefined {
+        for (let current: ESTree.Node = node; current.type === 'MemberExpression'; current = current.object) {
+            const path = pathOf(current);
+            if (path !== undefined && this.paths.has(path)) {
+                return `\`${path}\``;
+            }
+        }
+        return undefined;
+    }
+}
+
+function firstSource<T extends ESTree.Node>(nodes: Array<T | ESTree.SpreadElement>, sourceOf: (node: ESTree.Node) => string | undefined): string | undefined {
+    for (const node of nodes) {
+        const source = sourceOf(node.type === 'SpreadElement' ? node.argument : node);
+        if (source !== undefined) {
+            return source;
+        }
+    }
+    return undefined;
+}
+
+function isTypeWrapper(node: ESTree.Node): boolean {
+    return ['TSAsExpression', 'TSNonNullExpression', 'TSTypeAssertion', 'TSSatisfiesExpression']
+        .includes(node.type as string);
+}
+
+/**
+ * `a.b.c` for a chain of identifiers and non-computed members.
+ */
+export function pathOf(node: ESTree.Node): string | undefined {
+    if (node.type === 'Identifier') {
+        return node.name;
+    }
+    if (node.type === 'MemberExpression' && !node.computed && node.property.type === 'Identifier') {
+        const object = pathOf(node.object);
+        return object === undefined ? undefined : `${object}.${node.property.name}`;
+    }
+    return undefined;
+}
+
+export function findVariable(scope: Scope.Scope | null, name: string): Scope.Variable | undefined {
+    for (let current = scope; current; current = current.upper) {
+        const variable = current.set.get(name);
+        if (variable) {
+            return variable;
+        }
+    }
+    return undefined;
+}
@@ -0,0 +1,340 @@
+import {
+    RegexReplacement,
+    SafeRegexReason,
+    TimedExecResult,
+    TimedMatchAllResult,
+    TimedMatchResult,
+    TimedReplaceResult,
+    TimedSplitResult,
+} from './types';
+import { execBounded } from './backtrack';
+import { LinearRegExp } from './linear';
+
+/**
+ * Limits shared by every match of one operation
+ */
+export interface TimedOptions {
+    /** `Date.now()` time after which the operation stops */
+    deadline: number;
+
+    /** Matches processed before the operation stops */
+    maxMatches: number;
+}
+
+/**
+ * Thrown inside an operation to stop it with a failure result.
+ */
+class ExecutionStopped {
+    constructor(readonly reason: SafeRegexReason, readonly error: string) {}
+}
+
+/**
+ * `regex.exec(input)` under a deadline. The backtracking interpreter reads
+ * the clock while it runs; a LinearRegExp cannot blow up and runs as is.
+ */
+function execUntil(regex: RegExp, input: string, deadline: number): RegExpExecArray | null {
+    if (Date.now() > deadline) {
+        throw new ExecutionStopped('execution_timeout', 'Regex execution passed its deadline');
+    }
+    if (regex instanceof LinearRegExp) {
+        return regex.exec(input);
+    }
+    const result = execBounded(regex, input, { maxSteps: Infinity, deadline });
+    if (result.reason !== 'ok') {
+        throw new ExecutionStopped(result.reason, result.error!);
+    }
+    return result.match;
+}
+
+/**
+ * Run an operation, turning a stop into its failure result.
+ */
+function guarded<T extends { reason: SafeRegexReason }>(
+    run: () => T,
+    failed: (stop: ExecutionStopped) => T,
+): T {
+    try {
+        return run();
+    } catch (error) {
+        if (error instanceof ExecutionStopped) {
+            return failed(error);
+        }
+        throw error;
+    }
+}
+
+/**
+ * Copy of a regex with other flags, on the same engine.
+ */
+function withFlags(regex: RegExp, flags: string): RegExp {
+    return regex instanceof LinearRegExp ? new LinearRegExp(regex.source, flags) : new RegExp(regex.source, flags);
+}
+
+/**
+ * Index after the character at `index`, stepping over surrogate pairs in unicode mode.
+ */
+function advance(input: string, index: number, unicode: boolean): number {
+    if (unicode && index + 1 < input.length) {
+        const high = input.charCodeAt(index);
+        const low = input.charCodeAt(index + 1);
+        if (high >= 0xd800 && high <= 0xdbff && low >= 0xdc00 && low <= 0xdfff) {
+            return index + 2;
+        }
+    }
+    return index + 1;
+}
+
+function isUnicode(regex: RegExp): boolean {
+    return regex.unicode || regex.flags.includes('v');
+}
+
+/**
+ * Like `regex.exec(input)`, honoring and updating `lastIndex` for global
+ * and sticky regexes.
+ */
+export function execTimed(regex: RegExp, input: string, options: TimedOptions): TimedExecResult {
+    return guarded<TimedExecResult>(
+        () => {
+            const match = execUntil(regex, input, options.deadline);
+            return { matched: match !== null, match, reason: 'ok' };
+        },
+        (stop) => ({ matched: false, match: null, reason: stop.reason, error: stop.error }),
+    );
+}
+
+/**
+ * Like `input.match(regex)`: a global regex collects every matched string
+ * starting from index 0 and resets `lastIndex`, any other regex returns
+ * its first match as exec() does.
+ */
+export function matchTimed(regex: RegExp, input: string, options: TimedOptions): TimedMatchResult {
+    if (!regex.global) {
+        const { matched, match, reason, error } = execTimed(regex, input, options);
+        return { matched, match, truncated: false, reason, ...(error !== undefined && { error }) };
+    }
+
+    return guarded<TimedMatchResult>(
+        () => {
+            const matches: string[] = [];
+            let truncated = false;
+            regex.lastIndex = 0;
+            for (let match = execUntil(regex, input, options.deadline); match; match = execUntil(regex, input, options.deadline)) {
+                if (matches.length === options.maxMatches) {
+                    truncated = true;
+                    break;
+                }
+                matches.push(match[0]);
+                if (match[0] === '') {
+                    regex.lastIndex = advance(input, regex.lastIndex, isUnicode(regex));
+                }
+            }
+            regex.lastIndex = 0;
+            return {
+                matched: matches.length > 0,
+                match: matches.length > 0 ? matches as RegExpMatchArray : null,
+                truncated,
+                reason: 'ok',
+            };
+        },
+        (stop) => {
+            regex.lastIndex = 0;
+            return { matched: false, match: null, truncated: false, reason: stop.reason, error: stop.error };
+        },
+    );
+}
+
+/**
+ * Like `input.matchAll(regex)`, which requires the `g` flag. Matching runs
+ * on a copy that starts at the regex's `lastIndex`, which is left unchanged.
+ */
+export function matchAllTimed(regex: RegExp, input: string, options: TimedOptions): TimedMatchAllResult {
+    if (!regex.global) {
+        throw new TypeError('matchAllWithTimeout must be called with a global RegExp');
+    }
+    const matcher = withFlags(regex, regex.flags);
+    matcher.lastIndex = regex.lastIndex;
+
+    return guarded<TimedMatchAllResult>(
+        () => {
+            const matches: RegExpExecArray[] = [];
+            let truncated = false;
+            for (let match = execUntil(matcher, input, options.deadline); match; match = execUntil(matcher, input, options.deadline)) {
+                if (matches.length === options.maxMatches) {
+                    truncated = true;
+                    break;
+                }
+                matches.push(match);
+                if (match[0] === '') {
+                    matcher.lastIndex = advance(input, matcher.lastIndex, isUnicode(matcher));
+                }
+            }
+            return { matched: matches.length > 0, matches, truncated, reason: 'ok' };
+        },
+        (stop) => ({ matched: false, matches: [], truncated: false, reason: stop.reason, error: stop.error }),
+    );
+}
+
+/**
+ * Like `input.replace(regex, replacement)`: a global regex replaces every
+ * match starting from index 0, any other regex its first match.
+ */
+export function replaceTimed(
+    regex: RegExp,
+    input: string,
+    replacement: RegexReplacement,
+    options: TimedOptions,
+): TimedReplaceResult {
+    return guarded<TimedReplaceResult>(
+        () => {
+            const matches: RegExpExecArray[] = [];
+            let truncated = false;
+            if (regex.global) {
+                regex.lastIndex = 0;
+            }
+            for (let match = execUntil(regex, input, options.deadline); match; match = execUntil(regex, input, options.deadline)) {
+                if (matches.length === options.maxMatches) {
+                    truncated = true;
+                    break;
+                }
+                matches.push(match);
+                if (!regex.global) {
+                    break;
+                }
+                if (match[0] === '') {
+                    regex.lastIndex = advance(input, regex.lastIndex, isUnicode(regex));
+                }
+            }
+
+            let output = '';
+            let next = 0;
+            for (const match of matches) {
+                if (Date.now() > options.deadline) {
+                    throw new ExecutionStopped('execution_timeout', 'Regex execution passed its deadline');
+                }
+                const position = Math.max(0, Math.min(match.index, input.length));
+                const replaced = typeof replacement === 'function'
+                    ? String(replacement(...replacerArguments(match, input)))
+                    : expandTemplate(replacement, match, input);
+                if (position >= next) {
+                    output += input.slice(next, position) + replaced;
+                    next = position + match[0].length;
+                }
+            }
+            output += input.slice(next);
+            return { matched: matches.length > 0, output, replacements: matches.length, truncated, reason: 'ok' };
+        },
+        (stop) => ({ matched: false, replacements: 0, truncated: false, reason: stop.reason, error: stop.error }),
+    );
+}
+
+/**
+ * Like `input.split(regex, limit)`. Separators past `maxMatches` are not
+ * split on, so the rest of the string becomes the last part.
+ */
+export function splitTimed(
+    regex: RegExp,
+    input: string,
+    limit: number | undefined,
+    options: TimedOptions,
+): TimedSplitResult {
+    const max = limit === undefined ? 0xffffffff : limit >>> 0;
+    // Search forward from each position instead of trying every position stickily
+    const splitter = withFlags(regex, `${regex.flags.replace(/[gy]/g, '')}g`);
+    const unicode = isUnicode(splitter);
+
+    return guarded<TimedSplitResult>(
+        () => {
+            const parts: string[] = [];
+            if (max === 0) {
+                return { matched: false, parts, truncated: false, reason: 'ok' };
+            }
+            if (input.length === 0) {
+                const match = execUntil(splitter, input, options.deadline);
+                return { matched: match !== null, parts: match ? [] : [input], truncated: false, reason: 'ok' };
+            }
+
+            let separators = 0;
+            let truncated = false;
+            let start = 0;
+            let from = 0;
+            while (from < input.length) {
+                splitter.lastIndex = from;
+                const match = execUntil(splitter, input, options.deadline);
+                if (!match || match.index >= input.length) {
+                    break;
+                }
+                const end = Math.min(splitter.lastIndex, input.length);
+                if (end === start) {
+                    from = advance(input, match.index, unicode);
+                    continue;
+                }
+                if (separators === options.maxMatches) {
+                    truncated = true;
+                    break;
+                }
+                separators++;
+                parts.push(input.slice(start, match.index));
+                if (parts.length === max) {
+                    return { matched: true, parts, truncated, reason: 'ok' };
+                }
+                for (let i = 1; i < match.length; i++) {
+                    parts.push(match[i]);
+                    if (parts.length === max) {
+                        return { matched: true, parts, truncated, reason: 'ok' };
+                    }
+                }
+                start = end;
+                from = start;
+            }
+            parts.push(input.slice(start));
+            return { matched: separators > 0, parts, truncated, reason: 'ok' };
+        },
+        (stop) => ({ matched: false, parts: [], truncated: false, reason: stop.reason, error: stop.error }),
+    );
+}
+
+/**
+ * Arguments for a replacer function: the match, the captures, the
+ * position, the input and, when the regex has named groups, the groups.
+ */
+function replacerArguments(match: RegExpExecArray, input: string): [string, ...unknown[]] {
+    const args: [string, ...unknown[]] = [match[0], ...match.slice(1), match.index, input];
+    if (match.groups !== undefined) {
+        args.push(match.groups);
+    }
+    return args;
+}
+
+/**
+ * Expand `$$`, `$&`, `` $` ``, `$'`, `$n`, `$nn` and `$<name>` in a
+ * replacement template, following the spec's GetSubstitution.
+ */
+function expandTemplate(template: string, match: RegExpExecArray, input: string): string {
+    const captures = match.length - 1;
+    // `$<` is only special when the regex has named groups
+    const tokens = match.groups === undefined ? /\$([$&`']|\d{1,2})/g : /\$([$&`']|\d{1,2}|<[^>]*>)/g;
+    return template.replace(tokens, (token: string, body: string) => {
+        switch (body) {
+            case '$':
+                return '$';
+            case '&':
+                return match[0];
+            case '`':
+                return input.slice(0, match.index);
+            case "'":
+                return input.slice(match.index + match[0].length);
+        }
+        if (body.startsWith('<')) {
+            return match.groups![body.slice(1, -1)] ?? '';
+        }
+        const two = Number(body);
+        if (body.length === 2 && two >= 1 && two <= captures) {
+            return match[two] ?? '';
+        }
+        const one = Number(body[0]);
+        if (one >= 1 && one <= captures) {
+            return (match[one] ?? '') + body.slice(1);
+        }
+        return token;
+    });
+}
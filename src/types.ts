@@ -1,3 +1,7 @@
+import type { RegexWorkerPool } from './worker-pool';
+import type { RegexCache } from './cache';
+import type { SafeRegex } from './safe-regex';
+
 /**
  * Configuration for SafeRegex behavior
  */
@@ -8,9 +12,67 @@ export interface SafeRegexConfig {
     /** Timeout in milliseconds for regex execution (default: 1000) */
     timeoutMs: number;
   
-    /** Maximum backtrack depth estimate (default: 100000) */
+    /** Steps the bounded matcher may take before giving up (default: 100000) */
     maxBacktrackDepth: number;
+
+    /** Matches processed by matchAll/replace/splitWithTimeout before stopping (default: 10000) */
+    maxMatches: number;
+
+    /** Highest polynomial backtracking degree accepted, e.g. 2 allows O(n²) (default: 2) */
+    maxPolynomialDegree: number;
+
+    /** Longest input the execution methods match against (default: no limit) */
+    maxInputLength?: number;
+
+    /**
+     * Worst-case backtracking steps to allow for one match (default: none).
+     * When set, the longest input for a regex follows from its complexity:
+     * n^k steps for O(n^k) and 2^n for O(2^n), so an O(n²) regex gets
+     * inputs up to the square root of the budget. Linear regexes are only
+     * subject to maxInputLength.
+     */
+    inputComplexityBudget?: number;
+
+    /**
+     * What the execution methods do with inputs over the limit (default:
+     * 'reject'): they do not match and report `input_too_long`.
+     * @deprecated 'truncate' rejects too: every execution method returns
+     * a match result, and one for the start of the input is wrong for the
+     * whole of it.
+     */
+    oversizedInput: 'reject' | 'truncate';
+
+    /** Attach an input demonstrating the blowup to rejected results (default: false) */
+    includeAttackInput: boolean;
+
+    /**
+     * Matching engine for created regexes (default: 'native').
+     * 'linear' matches in linear time whenever the pattern allows it;
+     * 'auto' does so only for patterns the analysis rejects.
+     */
+    engine: RegexEngine;
   
+    /**
+     * Syntax patterns may use; every feature and flag when absent.
+     * Merged into the features of the profile or current configuration.
+     */
+    features?: Partial<FeaturePolicy>;
+
+    /**
+     * Named set of limits applied under the other options (default:
+     * none). Options given alongside the profile override its settings.
+     */
+    profile?: SecurityProfile;
+
+    /** Pool used by testInWorker and createWithProbe (default: a shared pool) */
+    workerPool?: RegexWorkerPool;
+
+    /** Limits of the probes createWithProbe runs (default: those of probePattern) */
+    probe?: Omit<ProbeOptions, 'workerPool'>;
+
+    /** Cache of create() and globToRegex() results (default: none) */
+    cache?: RegexCache;
+
     /** Optional callback when a pattern is blocked */
     onBlock?: (message: string, pattern: string) => void;
   
@@ -25,6 +87,84 @@ export const DEFAULT_CONFIG: SafeRegexConfig = {
     maxLength: 500,
     timeoutMs: 1000,
     maxBacktrackDepth: 100000,
+    maxMatches: 10000,
+    maxPolynomialDegree: 2,
+    oversizedInput: 'reject',
+    includeAttackInput: false,
+    engine: 'native',
+};
+
+/**
+ * Regex syntax that a FeaturePolicy can forbid. Patterns using a
+ * forbidden feature are rejected with `reason: 'feature_not_allowed'`.
+ */
+export interface FeaturePolicy {
+    /** `\1` and `\k<name>` (default: true) */
+    backreferences: boolean;
+
+    /** `(?=...)` and `(?!...)` (default: true) */
+    lookahead: boolean;
+
+    /** `(?<=...)` and `(?<!...)` (default: true) */
+    lookbehind: boolean;
+
+    /** `\p{...}` and `\P{...}` (default: true) */
+    unicodePropertyEscapes: boolean;
+
+    /** `*`, `+` and `{n,}` (default: true) */
+    unboundedQuantifiers: boolean;
+
+    /**
+     * Flags patterns may use (default: 'dgimsuvy'). Others are rejected
+     * with `reason: 'flag_not_allowed'`.
+     */
+    allowedFlags: string;
+}
+
+/**
+ * Named profiles, from most to least restrictive
+ */
+export type SecurityProfile = 'strict' | 'balanced' | 'permissive';
+
+/**
+ * Settings of each security profile.
+ *
+ * - `strict` accepts only linear patterns without backreferences or
+ *   lookarounds, for handing a restricted dialect to untrusted users.
+ * - `balanced` is the default configuration.
+ * - `permissive` allows longer patterns, cubic backtracking and longer
+ *   matches, for patterns written by trusted developers.
+ */
+export const SECURITY_PROFILES: Record<SecurityProfile, Partial<SafeRegexConfig>> = {
+    strict: {
+        maxLength: 200,
+        timeoutMs: 100,
+        maxBacktrackDepth: 10000,
+        maxMatches: 1000,
+        maxPolynomialDegree: 1,
+        features: {
+            backreferences: false,
+            lookahead: false,
+            lookbehind: false,
+            allowedFlags: 'gimsuy',
+        },
+    },
+    balanced: {
+        maxLength: 500,
+        timeoutMs: 1000,
+        maxBacktrackDepth: 100000,
+        maxMatches: 10000,
+        maxPolynomialDegree: 2,
+        features: {},
+    },
+    permissive: {
+        maxLength: 5000,
+        timeoutMs: 5000,
+        maxBacktrackDepth: 1000000,
+        maxMatches: 100000,
+        maxPolynomialDegree: 3,
+        features: {},
+    },
 };
 
 /**
@@ -42,6 +182,367 @@ export interface SafeRegexResult {
   
     /** Specific reason code for the result */
     reason?: SafeRegexReason;
+
+    /** How backtracking time grows with input length, when analyzed */
+    complexity?: PatternComplexity;
+
+    /** Input demonstrating the blowup, when rejected with includeAttackInput set */
+    attackInput?: AttackInput;
+
+    /** Engine the compiled regex matches with */
+    engine?: 'native' | 'linear';
+
+    /** Safe rewrites of a pattern rejected for its backtracking */
+    suggestions?: RegexSuggestion[];
+
+    /** Located problems from the analysis, when there are any */
+    findings?: PatternFinding[];
+
+    /** Measurements from createWithProbe(), when the pattern was probed */
+    probe?: ProbeResult;
+}
+
+/**
+ * A safe rewrite of an unsafe pattern
+ */
+export interface RegexSuggestion {
+    /** The rewritten pattern, used with the same flags */
+    pattern: string;
+
+    /** Whether the rewrite matches exactly the same strings as the original */
+    preservesLanguage: boolean;
+
+    /** What was changed */
+    description: string;
+
+    /** Worst-case backtracking growth of the rewritten pattern */
+    complexity: PatternComplexity;
+}
+
+/**
+ * Engine selection for SafeRegex
+ */
+export type RegexEngine = 'native' | 'linear' | 'auto';
+
+/**
+ * Result of running a regex with an enforced timeout
+ */
+export interface RegexExecutionResult {
+    /** Whether the regex matched; false when execution did not finish */
+    matched: boolean;
+
+    /** 'ok' when execution finished, otherwise why it did not */
+    reason: SafeRegexReason;
+
+    /** Error message when execution did not finish */
+    error?: string;
+
+    /**
+     * Whether only the start of the input was matched.
+     * @deprecated Oversized inputs are rejected instead, so this is not set.
+     */
+    inputTruncated?: boolean;
+}
+
+/**
+ * Result of RegexWorkerPool.measure()
+ */
+export interface MeasuredExecResult extends RegexExecutionResult {
+    /** Mean time of one match on the worker in milliseconds, when it finished */
+    elapsedMs?: number;
+}
+
+/**
+ * Options for probePattern
+ */
+export interface ProbeOptions {
+    /** Longest input tried (default: 5000) */
+    maxLength?: number;
+
+    /** Time one match may take before it is stopped (default: 250) */
+    timeoutMs?: number;
+
+    /** Time the whole probe may spend measuring (default: 3000) */
+    budgetMs?: number;
+
+    /** Pool the matches run on (default: the shared pool) */
+    workerPool?: RegexWorkerPool;
+}
+
+/**
+ * One timed match of a probe
+ */
+export interface ProbeMeasurement {
+    /** Input length */
+    length: number;
+
+    /** Mean time of one match in milliseconds, or the timeout when the match was stopped */
+    elapsedMs: number;
+
+    timedOut: boolean;
+}
+
+/**
+ * Result of probePattern: the growth of the slowest family of inputs tried
+ */
+export interface ProbeResult {
+    /** Measured growth, absent when the pattern could not be run */
+    complexity?: PatternComplexity;
+
+    /** Exponent k of the n^k fitted to the longest inputs, a lower bound when a match was stopped */
+    exponent?: number;
+
+    /** Shape of the slowest inputs: `prefix + pump.repeat(n) + suffix` */
+    input?: { prefix: string; pump: string; suffix: string };
+
+    /** Timings of the slowest inputs, shortest first */
+    measurements: ProbeMeasurement[];
+
+    /** Time the probe took in milliseconds */
+    durationMs: number;
+
+    /** Why the pattern could not be run */
+    error?: string;
+}
+
+/**
+ * Options for execBounded
+ */
+export interface BoundedExecOptions {
+    /** Steps the matcher may take before giving up (default: 100000) */
+    maxSteps?: number;
+
+    /** `Date.now()` time after which the matcher gives up (default: none) */
+    deadline?: number;
+}
+
+/**
+ * Result of execBounded
+ */
+export interface BoundedExecResult extends RegexExecutionResult {
+    /** The match, as returned by RegExp.prototype.exec */
+    match: RegExpExecArray | null;
+
+    /** Steps taken, identical on every machine for the same pattern and input */
+    steps: number;
+}
+
+/**
+ * Result of SafeRegex.execWithTimeout
+ */
+export interface TimedExecResult extends RegexExecutionResult {
+    /** The match, as returned by RegExp.prototype.exec */
+    match: RegExpExecArray | null;
+}
+
+/**
+ * Result of SafeRegex.matchWithTimeout
+ */
+export interface TimedMatchResult extends RegexExecutionResult {
+    /**
+     * As returned by String.prototype.match: the first match, or every
+     * matched string for a global regex, at most `maxMatches` of them
+     */
+    match: RegExpMatchArray | null;
+
+    /** Whether more matches of a global regex were left out because of `maxMatches` */
+    truncated: boolean;
+}
+
+/**
+ * Result of SafeRegex.matchAllWithTimeout
+ */
+export interface TimedMatchAllResult extends RegexExecutionResult {
+    /** Matches in order, at most `maxMatches` */
+    matches: RegExpExecArray[];
+
+    /** Whether more matches were left out because of `maxMatches` */
+    truncated: boolean;
+}
+
+/**
+ * Result of SafeRegex.replaceWithTimeout
+ */
+export interface TimedReplaceResult extends RegexExecutionResult {
+    /** The replaced string; absent when execution did not finish */
+    output?: string;
+
+    /** Number of replacements made */
+    replacements: number;
+
+    /** Whether matches past `maxMatches` were left unreplaced */
+    truncated: boolean;
+}
+
+/**
+ * Result of SafeRegex.splitWithTimeout
+ */
+export interface TimedSplitResult extends RegexExecutionResult {
+    /** The parts, as returned by String.prototype.split; empty when execution did not finish */
+    parts: string[];
+
+    /** Whether the rest of the string was left unsplit because of `maxMatches` */
+    truncated: boolean;
+}
+
+/**
+ * Replacement for replaceWithTimeout: a template with `$&`, `$1`, `$<name>`
+ * and the other String.prototype.replace patterns, or a function called
+ * with the same arguments as a String.prototype.replace replacer
+ */
+export type RegexReplacement = string | ((substring: string, ...args: unknown[]) => string);
+
+/**
+ * Options for RegexCache
+ */
+export interface RegexCacheOptions {
+    /** Entries kept before the least recently used is evicted (default: 1000) */
+    maxSize?: number;
+
+    /** Milliseconds an entry stays valid after it is stored (default: no expiry) */
+    ttlMs?: number;
+}
+
+/**
+ * Counters from RegexCache.stats()
+ */
+export interface RegexCacheStats {
+    hits: number;
+    /** Lookups of missing or expired entries */
+    misses: number;
+    /** Entries dropped to stay within maxSize */
+    evictions: number;
+    size: number;
+}
+
+/**
+ * SafeRegex method an execution event comes from
+ */
+export type RegexOperation =
+    | 'testWithTimeout'
+    | 'testInWorker'
+    | 'testBounded'
+    | 'execBounded'
+    | 'execWithTimeout'
+    | 'matchWithTimeout'
+    | 'matchAllWithTimeout'
+    | 'replaceWithTimeout'
+    | 'splitWithTimeout';
+
+/**
+ * Payload of the `created` event: a pattern or glob compiled
+ */
+export interface RegexCreatedEvent {
+    /** The pattern, or the glob for globToRegex() */
+    pattern: string;
+    flags: string;
+    engine: 'native' | 'linear';
+    complexity?: PatternComplexity;
+
+    /** Warnings from the analysis */
+    findings: PatternFinding[];
+
+    /** Whether the result came from the cache */
+    cached: boolean;
+
+    /** Time taken to check and compile, in milliseconds */
+    durationMs: number;
+}
+
+/**
+ * Payload of the `blocked` event: a pattern or glob was rejected
+ */
+export interface RegexBlockedEvent {
+    /** The pattern, or the glob for globToRegex() */
+    pattern: string;
+    flags: string;
+    reason: SafeRegexReason;
+    message: string;
+    complexity?: PatternComplexity;
+    findings: PatternFinding[];
+    cached: boolean;
+    durationMs: number;
+}
+
+/**
+ * Payload of the `executed` event: an execution method finished,
+ * whether or not the match did
+ */
+export interface RegexExecutedEvent {
+    operation: RegexOperation;
+
+    /** Source of the regex */
+    pattern: string;
+    flags: string;
+    inputLength: number;
+
+    /** 'ok' when matching finished, otherwise why it stopped or did not start */
+    reason: SafeRegexReason;
+    matched: boolean;
+    durationMs: number;
+}
+
+/**
+ * Payload of the `timeout` event: matching was stopped by `timeoutMs`,
+ * or by `maxBacktrackDepth` for testBounded() and execBounded()
+ */
+export interface RegexTimeoutEvent {
+    operation: RegexOperation;
+    pattern: string;
+    flags: string;
+    inputLength: number;
+    reason: 'execution_timeout' | 'backtrack_limit';
+
+    /** The limit reached: milliseconds, or steps for backtrack_limit */
+    limit: number;
+    durationMs: number;
+}
+
+/**
+ * Payload of the `cacheHit` event: create() or globToRegex() found its
+ * result in the cache
+ */
+export interface RegexCacheHitEvent {
+    pattern: string;
+    flags: string;
+    safe: boolean;
+    reason: SafeRegexReason;
+}
+
+/**
+ * Events SafeRegex emits, with their payloads
+ */
+export interface SafeRegexEvents {
+    created: RegexCreatedEvent;
+    blocked: RegexBlockedEvent;
+    executed: RegexExecutedEvent;
+    timeout: RegexTimeoutEvent;
+    cacheHit: RegexCacheHitEvent;
+}
+
+/**
+ * Options for RegexMetrics
+ */
+export interface RegexMetricsOptions {
+    /** Upper bounds of the execution-time histogram buckets, in seconds */
+    buckets?: number[];
+
+    /** Prefix of the metric names (default: 'pressurelid') */
+    prefix?: string;
+}
+
+/**
+ * Options for RegexWorkerPool
+ */
+export interface WorkerPoolOptions {
+    /** Maximum number of worker threads (default: CPU count - 1, between 1 and 4) */
+    size?: number;
+
+    /** Start all workers up front instead of on demand (default: false) */
+    warm?: boolean;
+
+    /** Default timeout per execution in milliseconds (default: 1000) */
+    timeoutMs?: number;
 }
 
 /**
@@ -54,7 +555,180 @@ export type SafeRegexReason =
     | 'overlapping_alternation'
     | 'catastrophic_backtracking'
     | 'invalid_syntax'
-    | 'execution_timeout';
+    | 'execution_timeout'
+    | 'backtrack_limit'
+    | 'feature_not_allowed'
+    | 'flag_not_allowed'
+    | 'input_too_long'
+    | 'measured_backtracking';
+
+/**
+ * Worst-case growth of backtracking time with input length.
+ * A polynomial of degree k means time grows like n^k.
+ */
+export type PatternComplexity =
+    | { type: 'linear' }
+    | { type: 'polynomial'; degree: number }
+    | { type: 'exponential' };
+
+/**
+ * Options for analyzePattern
+ */
+export interface AnalyzeOptions {
+    /** Highest polynomial degree considered safe (default: 2) */
+    maxPolynomialDegree?: number;
+
+    /** Syntax the pattern may use; every feature and flag when absent */
+    features?: Partial<FeaturePolicy>;
+}
+
+/**
+ * Options for glob conversion. Globs always separate segments with `/`
+ * and escape with `\`; the options describe the paths being matched.
+ */
+export interface GlobOptions {
+    /** Match letter case exactly (default: false) */
+    caseSensitive?: boolean;
+
+    /** Separator used in the matched paths: `/` for POSIX, `\` for Windows (default: '/') */
+    separator?: '/' | '\\';
+
+    /** Match a glob without `/` against the last path segment, so `*.js` matches `lib/a.js` (default: false) */
+    matchBase?: boolean;
+
+    /** Let wildcards and `**` match segments starting with `.` (default: false) */
+    dot?: boolean;
+
+    /**
+     * Match directory paths that could contain matches instead of the
+     * matches themselves, for pruning a directory walk: `src/**\/*.ts`
+     * matches `src` and `src/lib` but not `test` (default: false)
+     */
+    partial?: boolean;
+}
+
+/**
+ * Syntax of an ignore file: `.gitignore` or `.dockerignore` rules
+ */
+export type IgnoreFormat = 'gitignore' | 'dockerignore';
+
+/**
+ * Options for IgnoreMatcher
+ */
+export interface IgnoreMatcherOptions {
+    /** Rule syntax (default: 'gitignore') */
+    format?: IgnoreFormat;
+
+    /** Match letter case exactly (default: true) */
+    caseSensitive?: boolean;
+
+    /** Instance whose configuration and callbacks check every rule (default: new SafeRegex()) */
+    safeRegex?: SafeRegex;
+}
+
+/**
+ * One rule of an ignore file
+ */
+export interface IgnoreRule {
+    /** The rule as written, without surrounding whitespace */
+    pattern: string;
+
+    /** Directory of the ignore file, relative to the root ('' for the root) */
+    base: string;
+
+    /** 1-based line number in the ignore file */
+    line: number;
+
+    /** Whether the rule re-includes paths (`!pattern`) */
+    negate: boolean;
+
+    /** Whether the rule only matches directories (trailing `/`) */
+    directoryOnly: boolean;
+
+    /** Regex matching paths relative to `base`; absent when the rule was rejected */
+    regex?: RegExp;
+
+    /** Why the rule was rejected */
+    error?: string;
+
+    /** Reason code when the rule was rejected */
+    reason?: SafeRegexReason;
+}
+
+/**
+ * Options for PatternSet
+ */
+export interface PatternSetOptions {
+    /** Instance whose configuration and callbacks check every pattern (default: new SafeRegex()) */
+    safeRegex?: SafeRegex;
+
+    /** Time budget for matching the whole set against one input (default: the instance's timeoutMs) */
+    timeoutMs?: number;
+}
+
+/**
+ * A pattern PatternSet did not accept
+ */
+export interface PatternSetRejection {
+    id: string;
+    pattern: string;
+    flags?: string;
+
+    /** Reason code from SafeRegex.create */
+    reason: SafeRegexReason;
+
+    /** Why the pattern was rejected */
+    error?: string;
+}
+
+/**
+ * Result of PatternSet.match
+ */
+export interface PatternSetResult {
+    /** IDs of the patterns that matched, in the order they were added */
+    ids: string[];
+
+    /** 'ok' when every pattern was checked, otherwise why matching stopped */
+    reason: SafeRegexReason;
+
+    /** Error message when matching stopped */
+    error?: string;
+}
+
+/**
+ * Options for generateAttackInput
+ */
+export interface AttackInputOptions {
+    /** Approximate total input length; the pump is repeated to fill it */
+    length?: number;
+
+    /** Regex flags the pattern is used with */
+    flags?: string;
+}
+
+/**
+ * An input that triggers worst-case backtracking:
+ * `input === prefix + pump.repeat(repetitions) + suffix`
+ */
+export interface AttackInput {
+    /** Leads the matcher to the ambiguous part of the pattern */
+    prefix: string;
+
+    /** Repeated text the ambiguous part can match in more than one way */
+    pump: string;
+
+    /** Makes the overall match fail, forcing every path to be tried */
+    suffix: string;
+
+    /** The complete input */
+    input: string;
+
+    /** How many times the pump is repeated */
+    repetitions: number;
+
+    /** Complexity class the input demonstrates */
+    complexity: PatternComplexity;
+}
 
 /**
  * Result of pattern analysis (internal)
@@ -63,5 +737,426 @@ export interface PatternAnalysis {
     safe: boolean;
     reason?: SafeRegexReason;
     message?: string;
+    /** Complexity class, absent when the pattern could not be analyzed */
+    complexity?: PatternComplexity;
+    /** Every problem found, in pattern order; `reason` and `message` come from the first error, or the first feature or flag the policy forbids */
+    findings: PatternFinding[];
+}
+
+/**
+ * How serious a finding is: errors make a pattern unsafe, warnings do not
+ */
+export type FindingSeverity = 'error' | 'warning';
+
+/**
+ * A problem found in a pattern, located by offsets into the pattern source
+ */
+export interface PatternFinding {
+    /** Identifier of the check that fired, e.g. 'nested-quantifiers' */
+    ruleId: string;
+    reason: SafeRegexReason;
+    severity: FindingSeverity;
+    message: string;
+
+    /** Offset of the first character of the offending sub-expression */
+    start: number;
+
+    /** Offset just past the offending sub-expression */
+    end: number;
+
+    /** The offending sub-expression, `pattern.slice(start, end)` */
+    expression: string;
+}
+
+/**
+ * How a regex appears in source code: a `/literal/` or a `RegExp` call
+ */
+export type SourceRegexKind = 'literal' | 'constructor';
+
+/**
+ * 1-based line and column in a source file, counted in UTF-16 code units
+ */
+export interface SourcePosition {
+    line: number;
+    column: number;
+}
+
+/**
+ * Options for scanSource
+ */
+export interface ScanSourceOptions {
+    /** Reported as `file` on findings */
+    fileName?: string;
+
+    /** Highest polynomial backtracking degree accepted (default: 2) */
+    maxPolynomialDegree?: number;
+}
+
+/**
+ * A regex found in source code, with its analysis
+ */
+export interface SourceRegex extends SourcePosition {
+    kind: SourceRegexKind;
+    pattern: string;
+    flags: string;
+    analysis: PatternAnalysis;
+}
+
+/**
+ * A finding located in a source file. `line` and `column` point at the
+ * offending expression; `endLine` and `endColumn` just past it.
+ */
+export interface SourceFinding extends PatternFinding, SourcePosition {
+    file?: string;
+    pattern: string;
+    flags: string;
+    endLine: number;
+    endColumn: number;
+}
+
+/**
+ * Result of scanSource
+ */
+export interface SourceScanResult {
+    /** Every regex found, in source order */
+    regexes: SourceRegex[];
+
+    /** Findings of all regexes, in source order */
+    findings: SourceFinding[];
+}
+
+/**
+ * Route syntax understood by analyzeRoute: Express and path-to-regexp
+ * routes, or the pathname of a URLPattern
+ */
+export type RouteSyntax = 'path-to-regexp' | 'urlpattern';
+
+/**
+ * Options for analyzeRoute
+ */
+export interface AnalyzeRouteOptions extends AnalyzeOptions {
+    /** Syntax of the route (default: 'path-to-regexp') */
+    syntax?: RouteSyntax;
 }
 
+/**
+ * A parameter of a route: `:name`, `:name(regex)`, an unnamed `(regex)`
+ * or a `*` wildcard, the last two named by their index
+ */
+export interface RouteParam {
+    name: string;
+
+    /** Regex source the parameter matches, e.g. '[^\\/#\\?]+?' for `:name` */
+    pattern: string;
+
+    modifier: '' | '?' | '*' | '+';
+
+    /** Offset of the parameter in the route, with its prefix or enclosing braces */
+    start: number;
+
+    /** Offset just past the parameter and its modifier */
+    end: number;
+}
+
+/**
+ * A finding in the regex a route compiles to
+ */
+export interface RouteFinding extends PatternFinding {
+    /** Parameters whose segments the finding covers, in route order */
+    params: string[];
+
+    /** Offset in the route of the first part the finding covers */
+    routeStart: number;
+
+    /** Offset in the route just past the last part the finding covers */
+    routeEnd: number;
+}
+
+/**
+ * Result of analyzeRoute
+ */
+export interface RouteAnalysis extends Omit<PatternAnalysis, 'findings'> {
+    route: string;
+    syntax: RouteSyntax;
+
+    /** Regex source the route compiles to, absent when the route is invalid */
+    pattern?: string;
+
+    /** Flags the route is matched with: 'i' for path-to-regexp, 'u' for URLPattern */
+    flags: string;
+
+    params: RouteParam[];
+
+    /**
+     * Findings located in `pattern` by `start` and `end`, and in the route
+     * by `routeStart` and `routeEnd`; for invalid routes both point into
+     * the route
+     */
+    findings: RouteFinding[];
+}
+
+/**
+ * Keyword a schema pattern comes from
+ */
+export type SchemaPatternKeyword = 'pattern' | 'patternProperties';
+
+/**
+ * A pattern found in a JSON Schema or OpenAPI document
+ */
+export interface SchemaPattern {
+    /**
+     * JSON pointer to the `pattern` value, or to the subschema whose key
+     * is the pattern under `patternProperties`
+     */
+    pointer: string;
+    keyword: SchemaPatternKeyword;
+    pattern: string;
+}
+
+/**
+ * A `$ref` that could not be followed: not local to the document, or
+ * pointing at nothing
+ */
+export interface UnresolvedSchemaRef {
+    /** JSON pointer to the object holding the `$ref` */
+    pointer: string;
+    ref: string;
+}
+
+/**
+ * Options for auditSchema
+ */
+export interface SchemaAuditOptions {
+    /** Instance whose configuration checks the patterns (default: a new SafeRegex) */
+    safeRegex?: SafeRegex;
+
+    /** Flags to compile patterns with, as validators do (default: 'u') */
+    flags?: string;
+}
+
+/**
+ * A schema pattern with the result of SafeRegex.create
+ */
+export interface AuditedSchemaPattern extends SchemaPattern {
+    result: SafeRegexResult;
+}
+
+/**
+ * A finding located in a schema document
+ */
+export interface SchemaFinding extends PatternFinding, SchemaPattern {}
+
+/**
+ * Result of auditSchema
+ */
+export interface SchemaAuditResult {
+    /** Whether every pattern was accepted */
+    safe: boolean;
+
+    /** Every pattern found, in document order */
+    patterns: AuditedSchemaPattern[];
+
+    /** Findings of every pattern, including warnings on accepted ones */
+    findings: SchemaFinding[];
+
+    unresolvedRefs: UnresolvedSchemaRef[];
+}
+
+
+/**
+ * Parsed regex flags
+ */
+export interface RegexFlags {
+    hasIndices: boolean;
+    global: boolean;
+    ignoreCase: boolean;
+    multiline: boolean;
+    dotAll: boolean;
+    unicode: boolean;
+    unicodeSets: boolean;
+    sticky: boolean;
+}
+
+/**
+ * Fields shared by every regex AST node.
+ * Offsets are UTF-16 indices into the pattern source.
+ */
+export interface RegexNodeBase {
+    start: number;
+    end: number;
+}
+
+/**
+ * Root of a parsed pattern
+ */
+export interface RegexPattern extends RegexNodeBase {
+    type: 'Pattern';
+    source: string;
+    flags: RegexFlags;
+    body: RegexDisjunction;
+    /** Number of capturing groups */
+    groupCount: number;
+    /** Capture group names mapped to their group index */
+    groupNames: Record<string, number>;
+}
+
+/**
+ * One or more alternatives separated by `|`
+ */
+export interface RegexDisjunction extends RegexNodeBase {
+    type: 'Disjunction';
+    alternatives: RegexAlternative[];
+}
+
+/**
+ * A sequence of terms matched one after another
+ */
+export interface RegexAlternative extends RegexNodeBase {
+    type: 'Alternative';
+    terms: RegexTerm[];
+}
+
+/**
+ * A single code point (or UTF-16 code unit outside unicode mode)
+ */
+export interface RegexCharacter extends RegexNodeBase {
+    type: 'Character';
+    value: number;
+}
+
+/**
+ * The `.` wildcard
+ */
+export interface RegexDot extends RegexNodeBase {
+    type: 'Dot';
+}
+
+/**
+ * `\d`, `\s`, `\w`, `\p{...}` and their negated forms
+ */
+export interface RegexCharacterClassEscape extends RegexNodeBase {
+    type: 'CharacterClassEscape';
+    kind: 'digit' | 'space' | 'word' | 'property';
+    negate: boolean;
+    /** Property expression for `\p{...}`, e.g. `L` or `Script=Greek` */
+    property?: string;
+}
+
+/**
+ * A range such as `a-z` inside a character class
+ */
+export interface RegexCharacterRange extends RegexNodeBase {
+    type: 'CharacterRange';
+    min: RegexCharacter;
+    max: RegexCharacter;
+}
+
+/**
+ * `\q{abc|def}` inside a `v`-mode character class
+ */
+export interface RegexClassStringDisjunction extends RegexNodeBase {
+    type: 'ClassStringDisjunction';
+    alternatives: RegexCharacter[][];
+}
+
+/**
+ * Members of a character class
+ */
+export type RegexClassElement =
+    | RegexCharacter
+    | RegexCharacterRange
+    | RegexCharacterClassEscape
+    | RegexCharacterClass
+    | RegexClassStringDisjunction;
+
+/**
+ * A bracketed character class. Nested classes and the intersection and
+ * subtraction kinds only occur with the `v` flag.
+ */
+export interface RegexCharacterClass extends RegexNodeBase {
+    type: 'CharacterClass';
+    negate: boolean;
+    kind: 'union' | 'intersection' | 'subtraction';
+    elements: RegexClassElement[];
+}
+
+/**
+ * A capturing, named or non-capturing group
+ */
+export interface RegexGroup extends RegexNodeBase {
+    type: 'Group';
+    capturing: boolean;
+    /** 1-based capture index for capturing groups */
+    index?: number;
+    name?: string;
+    /** Inline modifiers from `(?ims-ims:...)` */
+    modifiers?: { add: string; remove: string };
+    body: RegexDisjunction;
+}
+
+/**
+ * `(?=...)`, `(?!...)`, `(?<=...)` and `(?<!...)`
+ */
+export interface RegexLookaround extends RegexNodeBase {
+    type: 'Lookaround';
+    kind: 'lookahead' | 'lookbehind';
+    negate: boolean;
+    body: RegexDisjunction;
+}
+
+/**
+ * `^`, `$`, `\b` and `\B`
+ */
+export interface RegexAssertion extends RegexNodeBase {
+    type: 'Assertion';
+    kind: 'start' | 'end' | 'wordBoundary' | 'nonWordBoundary';
+}
+
+/**
+ * `\1` or `\k<name>`
+ */
+export interface RegexBackreference extends RegexNodeBase {
+    type: 'Backreference';
+    ref: number | string;
+    /** Resolved 1-based capture index */
+    index: number;
+}
+
+/**
+ * Atoms that can carry a quantifier
+ */
+export type RegexAtom =
+    | RegexCharacter
+    | RegexDot
+    | RegexCharacterClassEscape
+    | RegexCharacterClass
+    | RegexGroup
+    | RegexBackreference;
+
+/**
+ * `*`, `+`, `?` and `{n,m}`, greedy or lazy
+ */
+export interface RegexQuantifier extends RegexNodeBase {
+    type: 'Quantifier';
+    min: number;
+    /** Upper bound, Infinity when unbounded */
+    max: number;
+    greedy: boolean;
+    body: RegexAtom | RegexLookaround;
+}
+
+/**
+ * Anything that can appear in an alternative
+ */
+export type RegexTerm = RegexAtom | RegexAssertion | RegexLookaround | RegexQuantifier;
+
+/**
+ * Any regex AST node
+ */
+export type RegexNode =
+    | RegexPattern
+    | RegexDisjunction
+    | RegexAlternative
+    | RegexTerm
+    | RegexCharacterRange
+    | RegexClassStringDisjunction;
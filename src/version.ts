@@ -0,0 +1 @@
+export const VERSION = '__VERSION__';
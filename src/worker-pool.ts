@@ -0,0 +1,269 @@
+import { availableParallelism } from 'node:os';
+import { Worker } from 'node:worker_threads';
+import { MeasuredExecResult, RegexExecutionResult, WorkerPoolOptions } from './types';
+
+/**
+ * Worker script, evaluated as CommonJS. Only the pattern source, flags
+ * and input cross the thread boundary; the worker compiles the regex.
+ * The match is repeated until `minMs` has passed, and timed with the
+ * worker's own clock so messaging does not count.
+ */
+const WORKER_SOURCE = `
+const { parentPort } = require('node:worker_threads');
+const { performance } = require('node:perf_hooks');
+parentPort.on('message', ({ id, source, flags, input, minMs }) => {
+    try {
+        const regex = new RegExp(source, flags);
+        const start = performance.now();
+        let runs = 0;
+        let matched;
+        do {
+            regex.lastIndex = 0;
+            matched = regex.test(input);
+            runs++;
+        } while (performance.now() - start < minMs);
+        parentPort.postMessage({ id, matched, elapsedMs: (performance.now() - start) / runs });
+    } catch (error) {
+        parentPort.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+    }
+});
+`;
+
+interface WorkerReply {
+    id: number;
+    matched?: boolean;
+    elapsedMs?: number;
+    error?: string;
+}
+
+interface Task {
+    id: number;
+    source: string;
+    flags: string;
+    input: string;
+    timeoutMs: number;
+
+    /** Time to keep repeating the match for, when it is being measured */
+    minDurationMs?: number;
+    resolve: (result: MeasuredExecResult) => void;
+    reject: (error: Error) => void;
+}
+
+interface Running {
+    task: Task;
+
+    /** Started once the worker is online, so spawning does not count */
+    timer?: ReturnType<typeof setTimeout>;
+}
+
+function defaultPoolSize(): number {
+    return Math.max(1, Math.min(4, availableParallelism() - 1));
+}
+
+/**
+ * Runs regex matching on worker threads so a catastrophic match can be
+ * stopped: when a task exceeds its timeout its worker is terminated and
+ * replaced, and the task resolves with `reason: 'execution_timeout'`.
+ * The timeout starts once the worker is online, so the time to spawn a
+ * worker does not count toward it. A task whose worker exits for any
+ * other reason is rejected, and a warm pool spawns a replacement.
+ *
+ * @example
+ * ```typescript
+ * const pool = new RegexWorkerPool({ size: 2 });
+ * const result = await pool.test(/^(a+)+$/, 'a'.repeat(40) + 'b', 100);
+ * // { matched: false, reason: 'execution_timeout', error: '...' }
+ * await pool.close();
+ * ```
+ */
+export class RegexWorkerPool {
+    private readonly size: number;
+    private readonly timeoutMs: number;
+    private readonly warm: boolean;
+    private readonly idle: Worker[] = [];
+    private readonly running = new Map<Worker, Running>();
+    private readonly online = new WeakSet<Worker>();
+    private readonly queue: Task[] = [];
+    private nextId = 0;
+    private closed = false;
+
+    constructor(options: WorkerPoolOptions = {}) {
+        this.size = Math.max(1, options.size ?? defaultPoolSize());
+        this.timeoutMs = options.timeoutMs ?? 1000;
+        this.warm = options.warm ?? false;
+        if (this.warm) {
+            for (let i = 0; i < this.size; i++) {
+                this.idle.push(this.spawn());
+            }
+        }
+    }
+
+    /** Number of live worker threads */
+    get threads(): number {
+        return this.idle.length + this.running.size;
+    }
+
+    /**
+     * Run `regex.test(input)` on a worker.
+     * The regex is sent as its source and flags, so `lastIndex` is ignored.
+     */
+    test(regex: RegExp, input: string, timeoutMs = this.timeoutMs): Promise<RegexExecutionResult> {
+        return this.enqueue(regex, input, timeoutMs);
+    }
+
+    /**
+     * Time `regex.test(input)` on a worker. The match is repeated until
+     * `minDurationMs` has passed and `elapsedMs` is the mean time of one
+     * match; a match that exceeds the timeout is stopped as with test().
+     *
+     * @example
+     * ```typescript
+     * const { elapsedMs } = await pool.measure(/^\d+$/, '1'.repeat(10000), 100);
+     * ```
+     */
+    measure(regex: RegExp, input: string, timeoutMs = this.timeoutMs, minDurationMs = 1): Promise<MeasuredExecResult> {
+        return this.enqueue(regex, input, timeoutMs, minDurationMs);
+    }
+
+    /**
+     * Terminate every worker. Queued and running tasks are rejected.
+     */
+    async close(): Promise<void> {
+        this.closed = true;
+        const error = new Error('RegexWorkerPool is closed');
+        for (const task of this.queue.splice(0)) {
+            task.reject(error);
+        }
+        const workers = [...this.idle.splice(0), ...this.running.keys()];
+        for (const { task, timer } of this.running.values()) {
+            clearTimeout(timer);
+            task.reject(error);
+        }
+        this.running.clear();
+        await Promise.all(workers.map((worker) => worker.terminate()));
+    }
+
+    private enqueue(regex: RegExp, input: string, timeoutMs: number, minDurationMs?: number): Promise<MeasuredExecResult> {
+        if (this.closed) {
+            return Promise.reject(new Error('RegexWorkerPool is closed'));
+        }
+        return new Promise((resolve, reject) => {
+            this.queue.push({
+                id: this.nextId++,
+                source: regex.source,
+                flags: regex.flags,
+                input,
+                timeoutMs,
+                minDurationMs,
+                resolve,
+                reject,
+            });
+            this.dispatch();
+        });
+    }
+
+    private spawn(): Worker {
+        const worker = new Worker(WORKER_SOURCE, { eval: true });
+        worker.on('message', (reply: WorkerReply) => this.finish(worker, reply));
+        worker.on('error', (error: Error) => this.fail(worker, error));
+        // Workers the pool terminates are forgotten first, so only unexpected exits fail a task
+        worker.on('exit', (code: number) => this.fail(worker, new Error(`Regex worker exited with code ${code}`)));
+        worker.once('online', () => {
+            this.online.add(worker);
+            const running = this.running.get(worker);
+            if (running) {
+                running.timer = this.startTimer(worker, running.task);
+            }
+        });
+        // Idle workers must not keep the process alive
+        worker.unref();
+        return worker;
+    }
+
+    private dispatch(): void {
+        while (this.queue.length > 0 && (this.idle.length > 0 || this.threads < this.size)) {
+            const worker = this.idle.pop() ?? this.spawn();
+            const task = this.queue.shift()!;
+            const timer = this.online.has(worker) ? this.startTimer(worker, task) : undefined;
+            this.running.set(worker, { task, timer });
+            worker.ref();
+            worker.postMessage({ id: task.id, source: task.source, flags: task.flags, input: task.input, minMs: task.minDurationMs ?? 0 });
+        }
+    }
+
+    private startTimer(worker: Worker, task: Task): ReturnType<typeof setTimeout> {
+        return setTimeout(() => this.timeout(worker), task.timeoutMs);
+    }
+
+    private finish(worker: Worker, reply: WorkerReply): void {
+        const running = this.running.get(worker);
+        if (!running || running.task.id !== reply.id) {
+            return;
+        }
+        clearTimeout(running.timer);
+        this.running.delete(worker);
+        worker.unref();
+        this.idle.push(worker);
+
+        if (reply.error !== undefined) {
+            running.task.resolve({ matched: false, reason: 'invalid_syntax', error: reply.error });
+        } else if (running.task.minDurationMs === undefined) {
+            running.task.resolve({ matched: reply.matched!, reason: 'ok' });
+        } else {
+            running.task.resolve({ matched: reply.matched!, reason: 'ok', elapsedMs: reply.elapsedMs });
+        }
+        this.dispatch();
+    }
+
+    private timeout(worker: Worker): void {
+        const running = this.running.get(worker);
+        if (!running) {
+            return;
+        }
+        this.running.delete(worker);
+        void worker.terminate();
+        this.replace();
+        running.task.resolve({
+            matched: false,
+            reason: 'execution_timeout',
+            error: `Regex execution timed out after ${running.task.timeoutMs}ms`,
+        });
+        this.dispatch();
+    }
+
+    private fail(worker: Worker, error: Error): void {
+        const running = this.running.get(worker);
+        const index = this.idle.indexOf(worker);
+        if (!running && index === -1) {
+            return;
+        }
+        this.running.delete(worker);
+        if (index !== -1) {
+            this.idle.splice(index, 1);
+        }
+        if (running) {
+            clearTimeout(running.timer);
+            running.task.reject(error);
+        }
+        this.replace();
+        this.dispatch();
+    }
+
+    /** Keep a warm pool at full size after losing a worker */
+    private replace(): void {
+        if (this.warm && !this.closed && this.threads < this.size) {
+            this.idle.push(this.spawn());
+        }
+    }
+}
+
+let sharedPool: RegexWorkerPool | undefined;
+
+/**
+ * The pool used by SafeRegex when no `workerPool` is configured.
+ * Created on first use with default options.
+ */
+export function sharedWorkerPool(): RegexWorkerPool {
+    sharedPool ??= new RegexWorkerPool();
+    return sharedPool;
+}
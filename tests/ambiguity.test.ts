@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+    classifyComplexity,
+    exponentialWitness,
+    findExponentialAmbiguity,
+    infiniteAmbiguityWitness,
+    nfaComponents,
+    stronglyConnectedComponents,
+} from '../src/ambiguity';
+import { buildNfa } from '../src/nfa';
+import { parsePattern } from '../src/parser';
+
+function classify(pattern: string, flags?: string) {
+    return classifyComplexity(buildNfa(parsePattern(pattern, flags))!);
+}
+
+describe('buildNfa', () => {
+    it('creates one state per character position plus the initial state', () => {
+        const nfa = buildNfa(parsePattern('ab|c'))!;
+        expect(nfa.labels).toHaveLength(4);
+        expect(nfa.transitions[0]).toEqual([1, 3]);
+        expect(nfa.accepting).toEqual([false, false, true, true]);
+    });
+
+    it('keeps parallel transitions from nested loops', () => {
+        const nfa = buildNfa(parsePattern('(a+)+'))!;
+        expect(nfa.transitions[1]).toEqual([1, 1]);
+    });
+
+    it('expands counted repetition', () => {
+        expect(buildNfa(parsePattern('a{3}'))!.labels).toHaveLength(4);
+        expect(buildNfa(parsePattern('a{1,3}'))!.labels).toHaveLength(4);
+    });
+
+    it('copies the referenced group for backreferences', () => {
+        expect(buildNfa(parsePattern('(ab)\\1'))!.labels).toHaveLength(5);
+    });
+
+    it('gives up on patterns that expand too far', () => {
+        expect(buildNfa(parsePattern('((a{100}){100}){100}'))).toBeUndefined();
+    });
+});
+
+describe('classifyComplexity', () => {
+    it('finds exponential ambiguity', () => {
+        for (const pattern of ['(a+)+', '(a|a)*', '(a*b*)*', '(x+x+)+y', '^(\\w+\\s?)*$']) {
+            expect(classify(pattern), pattern).toEqual({ type: 'exponential' });
+        }
+    });
+
+    it('finds polynomial ambiguity and its degree', () => {
+        expect(classify('.*a.*b')).toEqual({ type: 'polynomial', degree: 2 });
+        expect(classify('.*a.*b.*c')).toEqual({ type: 'polynomial', degree: 3 });
+        expect(classify('^(.*a){5}$')).toEqual({ type: 'polynomial', degree: 5 });
+    });
+
+    it('reports linear patterns', () => {
+        for (const pattern of ['abc', '^[a-z]+$', '(a|b)+', '[a-z]+\\d+', '(a?)+', '\\d{1,1000}']) {
+            expect(classify(pattern), pattern).toEqual({ type: 'linear' });
+        }
+    });
+
+    it('uses exact unicode property sets', () => {
+        expect(classify('\\p{L}+\\p{N}+', 'u')).toEqual({ type: 'linear' });
+        expect(classify('\\p{L}+\\w+', 'u')).toEqual({ type: 'polynomial', degree: 2 });
+    });
+});
+
+describe('ambiguity witnesses', () => {
+    it('pumps a looping state for exponential ambiguity', () => {
+        const nfa = buildNfa(parsePattern('(ab|ab)+'))!;
+        const components = nfaComponents(nfa);
+        const c = findExponentialAmbiguity(nfa, components)!;
+        const witness = exponentialWitness(nfa, components, c)!;
+        expect(components.component[witness.state]).toBe(c);
+        expect(String.fromCodePoint(...witness.pump)).toMatch(/^(ab)+$|^(ba)+$/);
+    });
+
+    it('pumps between two components for infinite ambiguity', () => {
+        const nfa = buildNfa(parsePattern('x*y*x*'))!;
+        const components = nfaComponents(nfa);
+        const [from, to] = [components.component[1], components.component[3]];
+        expect(infiniteAmbiguityWitness(nfa, components, from, to)).toEqual({ state: 1, pump: [0x78] });
+        expect(infiniteAmbiguityWitness(nfa, components, from, components.component[2])).toBeUndefined();
+    });
+});
+
+describe('stronglyConnectedComponents', () => {
+    it('numbers components in reverse topological order', () => {
+        const edges = [[1], [2], [1, 3], []];
+        const { component, componentCount } = stronglyConnectedComponents(4, (node) => edges[node]);
+        expect(componentCount).toBe(3);
+        expect(component[1]).toBe(component[2]);
+        expect(component[3]).toBeLessThan(component[1]);
+        expect(component[1]).toBeLessThan(component[0]);
+    });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { analyzePattern, quickSafetyCheck } from '../src/analyze';
+import { analyzePattern, describeComplexity, quickSafetyCheck } from '../src/analyze';
 
 describe('analyzePattern', () => {
     describe('should block dangerous patterns', () => {
@@ -9,15 +9,69 @@ describe('analyzePattern', () => {
             expect(result.reason).toBe('nested_quantifiers');
         });
 
-        it('blocks overlapping alternations (a|ab)+', () => {
-            const result = analyzePattern('(a|ab)+');
+        it('blocks overlapping alternations (a|aa)+', () => {
+            const result = analyzePattern('(a|aa)+');
             expect(result.safe).toBe(false);
+            expect(result.reason).toBe('overlapping_alternation');
+            expect(result.complexity).toEqual({ type: 'exponential' });
+        });
+
+        it('blocks alternations whose branches share characters', () => {
+            const result = analyzePattern('(\\w|\\d)+$');
+            expect(result.safe).toBe(false);
+            expect(result.complexity).toEqual({ type: 'exponential' });
+        });
+
+        it('blocks high-degree polynomial patterns', () => {
+            const result = analyzePattern('^a*a*a*b');
+            expect(result.safe).toBe(false);
+            expect(result.reason).toBe('catastrophic_backtracking');
+            expect(result.complexity).toEqual({ type: 'polynomial', degree: 3 });
         });
 
         it('blocks repeated groups with quantifiers', () => {
             const result = analyzePattern('(a+){10}');
             expect(result.safe).toBe(false);
             expect(result.reason).toBe('catastrophic_backtracking');
+            expect(result.complexity).toEqual({ type: 'polynomial', degree: 10 });
+        });
+
+        it('sees through escaped backslashes before a group', () => {
+            const result = analyzePattern('\\\\(a+)+');
+            expect(result.safe).toBe(false);
+            expect(result.reason).toBe('nested_quantifiers');
+        });
+
+        it('blocks nested quantifiers written with braces', () => {
+            const result = analyzePattern('(a{1,}){2,}');
+            expect(result.safe).toBe(false);
+            expect(result.reason).toBe('nested_quantifiers');
+        });
+
+        it('counts the search for a start position in unanchored patterns', () => {
+            expect(analyzePattern('\\s+$').complexity).toEqual({ type: 'polynomial', degree: 2 });
+            expect(analyzePattern('a+$').complexity).toEqual({ type: 'polynomial', degree: 2 });
+            expect(analyzePattern('a*a*$').complexity).toEqual({ type: 'polynomial', degree: 3 });
+            expect(analyzePattern('a+$', '', { maxPolynomialDegree: 1 }).safe).toBe(false);
+            expect(analyzePattern('a+$', 'y').complexity).toEqual({ type: 'linear' });
+            expect(analyzePattern('^\\s+$').complexity).toEqual({ type: 'linear' });
+            expect(analyzePattern('^a*a*$').complexity).toEqual({ type: 'polynomial', degree: 2 });
+            // A match cannot fail once \w+ is reached, so retrying costs nothing
+            expect(analyzePattern('\\w+').complexity).toEqual({ type: 'linear' });
+        });
+
+        it('blocks nested counted quantifiers with many copies', () => {
+            const result = analyzePattern('(?:a{1,50}){1,50}b');
+            expect(result.safe).toBe(false);
+            expect(result.reason).toBe('nested_quantifiers');
+            expect(result.complexity).toEqual({ type: 'exponential' });
+            expect(analyzePattern('(?:\\d{1,3}\\.){3}\\d{1,3}').complexity).toEqual({ type: 'linear' });
+        });
+
+        it('reports invalid syntax', () => {
+            const result = analyzePattern('(a+');
+            expect(result.safe).toBe(false);
+            expect(result.reason).toBe('invalid_syntax');
         });
 
         it('blocks deeply nested quantifiers', () => {
@@ -47,6 +101,37 @@ describe('analyzePattern', () => {
             expect(result.safe).toBe(true);
         });
 
+        it('ignores escaped and bracketed parentheses', () => {
+            expect(analyzePattern('\\(a+\\)+').safe).toBe(true);
+            expect(analyzePattern('[(]+a').safe).toBe(true);
+        });
+
+        it('allows deeply grouped patterns without nested quantifiers', () => {
+            expect(analyzePattern('(((a+)))').safe).toBe(true);
+        });
+
+        it('allows unambiguous alternations under a quantifier', () => {
+            expect(analyzePattern('(a|b)+')).toMatchObject({ safe: true, complexity: { type: 'linear' } });
+            expect(analyzePattern('(a|ab)+')).toMatchObject({ safe: true, complexity: { type: 'linear' } });
+        });
+
+        it('allows adjacent quantifiers over disjoint classes', () => {
+            expect(analyzePattern('^[a-z]+[0-9]+')).toMatchObject({ safe: true, complexity: { type: 'linear' } });
+        });
+
+        it('allows quadratic patterns up to the configured degree', () => {
+            expect(analyzePattern('\\w+\\s*\\w+')).toMatchObject({
+                safe: true,
+                complexity: { type: 'polynomial', degree: 2 },
+            });
+            expect(analyzePattern('\\w+\\s*\\w+', '', { maxPolynomialDegree: 1 }).safe).toBe(false);
+        });
+
+        it('takes the ignoreCase flag into account', () => {
+            expect(analyzePattern('(a|A)+').safe).toBe(true);
+            expect(analyzePattern('(a|A)+', 'i').safe).toBe(false);
+        });
+
         it('allows UUID patterns', () => {
             const result = analyzePattern('^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$');
             expect(result.safe).toBe(true);
@@ -54,6 +139,71 @@ describe('analyzePattern', () => {
     });
 });
 
+describe('analyzePattern findings', () => {
+    function located(pattern: string) {
+        return analyzePattern(pattern).findings.map(({ ruleId, severity, start, end, expression }) => ({
+            ruleId, severity, start, end, expression,
+        }));
+    }
+
+    it('locates the ambiguous loop', () => {
+        expect(located('^(a+)+$')).toEqual([
+            { ruleId: 'nested-quantifiers', severity: 'error', start: 1, end: 6, expression: '(a+)+' },
+        ]);
+        expect(located('x(\\w|\\d)+$y')).toEqual([
+            { ruleId: 'overlapping-alternation', severity: 'error', start: 1, end: 9, expression: '(\\w|\\d)+' },
+        ]);
+    });
+
+    it('reports every ambiguous loop in pattern order', () => {
+        const result = analyzePattern('^(a+)+b(c|cc)*$');
+        expect(result.findings.map((finding) => finding.expression)).toEqual(['(a+)+', '(c|cc)*']);
+        expect(result.reason).toBe('nested_quantifiers');
+        expect(result.message).toBe(result.findings[0].message);
+    });
+
+    it('covers the loops of a polynomial chain', () => {
+        expect(located('a*a*a*b')[0]).toMatchObject({ ruleId: 'polynomial-backtracking', expression: 'a*a*a*' });
+        expect(located('(a+){10}')[0]).toMatchObject({ expression: '(a+){10}' });
+    });
+
+    it('reports accepted polynomial backtracking as a warning', () => {
+        const result = analyzePattern('^.*a.*b');
+        expect(result.safe).toBe(true);
+        expect(result.findings).toEqual([{
+            ruleId: 'polynomial-backtracking',
+            reason: 'catastrophic_backtracking',
+            severity: 'warning',
+            message: 'Pattern can cause polynomial backtracking of degree 2',
+            start: 1,
+            end: 6,
+            expression: '.*a.*',
+        }]);
+    });
+
+    it('locates syntax errors', () => {
+        expect(located('abc)')).toEqual([
+            { ruleId: 'invalid-syntax', severity: 'error', start: 3, end: 4, expression: ')' },
+        ]);
+        expect(located('a')).toEqual([]);
+    });
+
+    it('reports patterns too large to analyze', () => {
+        const pattern = '(?:a{100}b{100}){100}'.repeat(3);
+        expect(located(pattern)).toEqual([
+            { ruleId: 'analysis-limit', severity: 'error', start: 0, end: pattern.length, expression: pattern },
+        ]);
+    });
+});
+
+describe('describeComplexity', () => {
+    it('formats complexity classes', () => {
+        expect(describeComplexity({ type: 'linear' })).toBe('O(n)');
+        expect(describeComplexity({ type: 'polynomial', degree: 3 })).toBe('O(n^3)');
+        expect(describeComplexity({ type: 'exponential' })).toBe('O(2^n)');
+    });
+});
+
 describe('quickSafetyCheck', () => {
     it('returns true for patterns without quantifiers', () => {
         expect(quickSafetyCheck('hello')).toBe(true);
@@ -69,6 +219,10 @@ describe('quickSafetyCheck', () => {
         expect(quickSafetyCheck('(a+)+')).toBe(false);
     });
 
+    it('treats brace quantifiers as quantifiers', () => {
+        expect(quickSafetyCheck('(a{1,}){1,}')).toBe(false);
+    });
+
     it('returns true for simple anchored patterns', () => {
         expect(quickSafetyCheck('^hello$')).toBe(true);
     });
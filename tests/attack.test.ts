@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { generateAttackInput } from '../src/attack';
+import { SafeRegex } from '../src/safe-regex';
+import { REDOS_VECTORS } from './fixtures/redos-vectors';
+
+describe('generateAttackInput', () => {
+    it('builds prefix, pump and failing suffix for nested quantifiers', () => {
+        const attack = generateAttackInput('^(a+)+$', { length: 30 })!;
+        expect(attack.prefix).toBe('a');
+        expect(attack.pump).toBe('a');
+        expect(attack.suffix).toBe('b');
+        expect(attack.input).toBe('a'.repeat(29) + 'b');
+        expect(attack.repetitions).toBe(28);
+        expect(attack.complexity).toEqual({ type: 'exponential' });
+    });
+
+    it('assembles the input from its parts', () => {
+        const attack = generateAttackInput('^(\\w+\\s?)+$', { length: 50 })!;
+        expect(attack.input).toBe(attack.prefix + attack.pump.repeat(attack.repetitions) + attack.suffix);
+        expect(attack.input.length).toBeLessThanOrEqual(50);
+    });
+
+    it('uses 30 pumps for exponential patterns by default', () => {
+        const attack = generateAttackInput('^(a|aa)+$')!;
+        expect(attack.repetitions).toBe(30);
+    });
+
+    it('demonstrates polynomial patterns with a long input by default', () => {
+        const attack = generateAttackInput('^a.*b.*c')!;
+        expect(attack.complexity).toEqual({ type: 'polynomial', degree: 2 });
+        expect(attack.input.length).toBeGreaterThan(9000);
+        expect(attack.suffix).toBe('\n');
+    });
+
+    it('pumps the search for a start position in unanchored patterns', () => {
+        const attack = generateAttackInput('\\s+$', { length: 20 })!;
+        expect(attack).toMatchObject({ prefix: '', pump: ' ', complexity: { type: 'polynomial', degree: 2 } });
+        expect(attack.input).toMatch(/^ {19}\S$/);
+        expect(/\s+$/.test(attack.input)).toBe(false);
+    });
+
+    it('repeats the pump at least once', () => {
+        expect(generateAttackInput('^(a+)+$', { length: 0 })!.repetitions).toBe(1);
+    });
+
+    it('respects flags', () => {
+        const attack = generateAttackInput('^(A+)+$', { flags: 'i' })!;
+        expect(attack.pump).toBe('a');
+        expect(generateAttackInput('^(.+)+$', { flags: 's' })!.suffix).toBe('');
+    });
+
+    it('returns undefined for linear or invalid patterns', () => {
+        expect(generateAttackInput('^\\d+$')).toBeUndefined();
+        expect(generateAttackInput('(a|b)+')).toBeUndefined();
+        expect(generateAttackInput('[')).toBeUndefined();
+    });
+
+    it('produces non-matching inputs for the known ReDoS vectors', () => {
+        for (const { name, pattern } of REDOS_VECTORS) {
+            const attack = generateAttackInput(pattern, { length: 16 });
+            expect(attack, name).toBeDefined();
+            expect(new RegExp(pattern).test(attack!.input), name).toBe(false);
+        }
+    });
+});
+
+describe('SafeRegex attack inputs', () => {
+    it('attaches an attack input to rejected results when enabled', () => {
+        const safe = new SafeRegex({ includeAttackInput: true });
+        const result = safe.create('^(a+)+$');
+        expect(result.safe).toBe(false);
+        expect(result.attackInput?.pump).toBe('a');
+    });
+
+    it('omits the attack input by default and for safe patterns', () => {
+        expect(new SafeRegex().create('^(a+)+$').attackInput).toBeUndefined();
+        const safe = new SafeRegex({ includeAttackInput: true });
+        expect(safe.create('^abc$').attackInput).toBeUndefined();
+    });
+});
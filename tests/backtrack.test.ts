@@ -0,0 +1,147 @@
+import { describe, it, expect, vi } from 'vitest';
+import { execBounded } from '../src/backtrack';
+import { SafeRegex } from '../src/safe-regex';
+
+function summary(match: RegExpExecArray | null) {
+    return match && {
+        values: [...match],
+        index: match.index,
+        groups: match.groups && { ...match.groups },
+        indices: (match as { indices?: unknown }).indices,
+    };
+}
+
+/** Patterns with inputs, compared against the native engine */
+const CORPUS: Array<[string, string, string[]]> = [
+    ['a|ab', '', ['ab', 'xab']],
+    ['(a|ab)(c|bcd)(d*)', '', ['abcd']],
+    ['(a*)*b', '', ['aab', 'b']],
+    ['(z)((a+)?(b+)?(c))*', '', ['zaacbbbcac']],
+    ['(?:(a)|b)+', '', ['ab', 'ba']],
+    ['(\\w+)\\s+\\1', '', ['hello hello', 'ab abc']],
+    ['(a)\\1', 'i', ['aA']],
+    ['\\bfoo\\b', '', ['a foo b', 'foobar']],
+    ['\\B\\w', '', ['ab']],
+    ['^abc$', 'm', ['x\nabc\ny']],
+    ['a.c', 's', ['a\nc']],
+    ['a.c', '', ['a\nc', 'abc']],
+    ['(?=(a+))a*b\\1', '', ['baaabac']],
+    ['(?!a)\\w', '', ['ab']],
+    ['(.*?)a(?!(a+)b\\2c)\\2(.*)', '', ['baaabaac']],
+    ['(?<=\\$)\\d+(\\.\\d*)?', '', ['cost $10.53']],
+    ['(?<=(\\d+)(\\d+))$', '', ['1053']],
+    ['(?<!\\$)\\b\\d+', '', ['$10 20']],
+    ['(?<=\\1(a))b', '', ['aab']],
+    ['a{2,3}?', '', ['aaaa']],
+    ['a+?b', '', ['aaab']],
+    ['(a?)??b', '', ['ab']],
+    ['(?:a|())*?b', '', ['ab']],
+    ['(?:()|a)+', '', ['aa']],
+    ['(?<y>\\d{4})-(?<m>\\d\\d)', '', ['on 2024-05-01']],
+    ['(?<x>a)|(?<y>b)', 'd', ['b']],
+    ['\\u{1F600}+', 'u', ['x\u{1F600}\u{1F600}']],
+    ['^.$', 'u', ['\u{1F600}']],
+    ['.', '', ['\u{1F600}']],
+    ['\\p{L}+', 'u', ['123 héllo']],
+    ['[\\p{L}--[a-z]]+', 'v', ['abcDEF']],
+    ['[\\q{abc|d}x]+', 'v', ['abcdxabc']],
+    ['ÄB', 'i', ['äb']],
+];
+
+describe('execBounded', () => {
+    it('matches like the native engine', () => {
+        for (const [pattern, flags, inputs] of CORPUS) {
+            for (const input of inputs) {
+                const expected = summary(new RegExp(pattern, flags).exec(input));
+                const result = execBounded(new RegExp(pattern, flags), input);
+                expect(summary(result.match), `/${pattern}/${flags} on ${JSON.stringify(input)}`).toEqual(expected);
+                expect(result.matched).toBe(expected !== null);
+                expect(result.reason).toBe('ok');
+            }
+        }
+    });
+
+    it('gives up deterministically once the step budget is exceeded', () => {
+        const input = 'a'.repeat(30) + 'b';
+        const first = execBounded(/^(a+)+$/, input, { maxSteps: 10000 });
+        expect(first).toEqual({
+            matched: false,
+            match: null,
+            reason: 'backtrack_limit',
+            steps: 10001,
+            error: 'Regex execution exceeded 10000 backtracking steps',
+        });
+        expect(execBounded(/^(a+)+$/, input, { maxSteps: 10000 })).toEqual(first);
+    });
+
+    it('reports the same step count on every run', () => {
+        const steps = execBounded(/(\w+)@(\w+)\.com/, 'mail me at someone@example.com').steps;
+        expect(steps).toBeGreaterThan(0);
+        expect(execBounded(/(\w+)@(\w+)\.com/, 'mail me at someone@example.com').steps).toBe(steps);
+    });
+
+    it('handles long inputs for linear patterns within the default budget', () => {
+        const result = execBounded(/^\w+$/, 'a'.repeat(20000));
+        expect(result.matched).toBe(true);
+    });
+
+    it('honors and updates lastIndex for global and sticky regexes', () => {
+        const regex = /a(b)?/g;
+        const native = /a(b)?/g;
+        for (let i = 0; i < 4; i++) {
+            expect(summary(execBounded(regex, 'xab a ab').match)).toEqual(summary(native.exec('xab a ab')));
+            expect(regex.lastIndex).toBe(native.lastIndex);
+        }
+
+        const sticky = /a/y;
+        sticky.lastIndex = 1;
+        expect(execBounded(sticky, 'ba').matched).toBe(true);
+        expect(sticky.lastIndex).toBe(2);
+        expect(execBounded(sticky, 'ba').matched).toBe(false);
+        expect(sticky.lastIndex).toBe(0);
+    });
+
+    it('applies inline modifiers', () => {
+        // Built as plain objects: older engines reject modifier groups
+        const regex = { source: 'a(?i:b)c', flags: '' } as RegExp;
+        expect(execBounded(regex, 'aBc').matched).toBe(true);
+        expect(execBounded(regex, 'ABc').matched).toBe(false);
+        expect(execBounded({ source: '(?-s:.)', flags: 's' } as RegExp, '\n').matched).toBe(false);
+    });
+
+    it('reports patterns it cannot compile', () => {
+        const result = execBounded(new RegExp('a{1000}'.repeat(200)), 'a');
+        expect(result.reason).toBe('pattern_too_long');
+        expect(result.error).toContain('instructions');
+
+        const modifiers = { source: '(?x:a)', flags: '' } as RegExp;
+        expect(execBounded(modifiers, 'a').reason).toBe('invalid_syntax');
+    });
+
+    it('stops at a deadline', () => {
+        const start = Date.now();
+        const result = execBounded(/^(a+)+$/, 'a'.repeat(40) + 'b', { maxSteps: Infinity, deadline: start + 50 });
+        expect(result.reason).toBe('execution_timeout');
+        expect(Date.now() - start).toBeLessThan(1000);
+        expect(execBounded(/a/, 'a', { deadline: start - 1 }).matched).toBe(true);
+    });
+});
+
+describe('SafeRegex bounded execution', () => {
+    it('uses maxBacktrackDepth as the step budget', () => {
+        const onWarning = vi.fn();
+        const safe = new SafeRegex({ maxBacktrackDepth: 5000, onWarning });
+
+        expect(safe.testBounded(/^hello$/, 'hello')).toEqual({ matched: true, reason: 'ok' });
+        const result = safe.testBounded(/^(a+)+$/, 'a'.repeat(30) + 'b');
+        expect(result.reason).toBe('backtrack_limit');
+        expect(result.error).toContain('5000');
+        expect(onWarning).toHaveBeenCalledTimes(1);
+    });
+
+    it('returns match details from execBounded', () => {
+        const result = new SafeRegex().execBounded(/(\d+)-(\d+)/, 'range 10-20');
+        expect(result.match?.slice(1)).toEqual(['10', '20']);
+        expect(result.match?.index).toBe(6);
+    });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RegexCache, sharedRegexCache } from '../src/cache';
+import { SafeRegex, createSafeRegex, globToSafeRegex } from '../src/safe-regex';
+import { LinearRegExp } from '../src/linear';
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('RegexCache', () => {
+    const entry = (pattern: string) => ({ result: { safe: true, regex: new RegExp(pattern) } });
+
+    it('evicts the least recently used entry', () => {
+        const cache = new RegexCache({ maxSize: 2 });
+        cache.set('a', entry('a'));
+        cache.set('b', entry('b'));
+        expect(cache.get('a')).toBeDefined();
+        cache.set('c', entry('c'));
+        expect(cache.get('b')).toBeUndefined();
+        expect(cache.get('a')).toBeDefined();
+        expect(cache.get('c')).toBeDefined();
+        expect(cache.stats()).toEqual({ hits: 3, misses: 1, evictions: 1, size: 2 });
+    });
+
+    it('expires entries after ttlMs', () => {
+        vi.useFakeTimers();
+        const cache = new RegexCache({ ttlMs: 1000 });
+        cache.set('a', entry('a'));
+        vi.advanceTimersByTime(999);
+        expect(cache.get('a')).toBeDefined();
+        vi.advanceTimersByTime(1);
+        expect(cache.get('a')).toBeUndefined();
+        expect(cache.size).toBe(0);
+        expect(cache.stats()).toMatchObject({ hits: 1, misses: 1 });
+    });
+
+    it('clears entries but keeps statistics', () => {
+        const cache = new RegexCache();
+        cache.set('a', entry('a'));
+        cache.get('a');
+        cache.clear();
+        expect(cache.stats()).toEqual({ hits: 1, misses: 0, evictions: 0, size: 0 });
+    });
+
+    it('rejects invalid limits', () => {
+        expect(() => new RegexCache({ maxSize: 0 })).toThrow(RangeError);
+        expect(() => new RegexCache({ ttlMs: -1 })).toThrow(RangeError);
+    });
+});
+
+describe('SafeRegex with a cache', () => {
+    it('analyzes each pattern once', () => {
+        const cache = new RegexCache();
+        const safe = new SafeRegex({ cache });
+        const first = safe.create('^\\d+$');
+        const second = safe.create('^\\d+$');
+        expect(second).toEqual(first);
+        expect(second).not.toBe(first);
+        expect(second.regex).not.toBe(first.regex);
+        expect(cache.stats()).toMatchObject({ hits: 1, misses: 1, size: 1 });
+    });
+
+    it('is shared between instances with the same settings', () => {
+        const cache = new RegexCache();
+        new SafeRegex({ cache }).create('a+', 'i');
+        new SafeRegex({ cache, timeoutMs: 5 }).create('a+', 'i');
+        new SafeRegex({ cache }).create('a+');
+        expect(cache.stats()).toMatchObject({ hits: 1, misses: 2 });
+    });
+
+    it('misses after configure() changes a setting that affects results', () => {
+        const cache = new RegexCache();
+        const safe = new SafeRegex({ cache });
+        expect(safe.create('^a*a*$').safe).toBe(true);
+        safe.configure({ maxPolynomialDegree: 1 });
+        expect(safe.create('^a*a*$').safe).toBe(false);
+        safe.configure({ maxPolynomialDegree: 2, features: { unboundedQuantifiers: false } });
+        expect(safe.create('^a*a*$').reason).toBe('feature_not_allowed');
+        safe.configure({ engine: 'linear' });
+        expect(safe.create('x').engine).toBe('linear');
+        expect(cache.stats()).toMatchObject({ hits: 0, misses: 4 });
+    });
+
+    it('repeats notifications on hits', () => {
+        const onBlock = vi.fn();
+        const onWarning = vi.fn();
+        const safe = new SafeRegex({ cache: new RegexCache(), onBlock, onWarning });
+        safe.create('(a+)+$');
+        safe.create('(a+)+$');
+        expect(onBlock).toHaveBeenCalledTimes(2);
+        safe.configure({ engine: 'auto' });
+        safe.create('(a+)+$');
+        safe.create('(a+)+$');
+        expect(onWarning).toHaveBeenCalledTimes(2);
+    });
+
+    it('gives each caller its own regex', () => {
+        const safe = new SafeRegex({ cache: new RegexCache() });
+        const first = safe.create('a', 'g').regex!;
+        first.exec('aa');
+        const second = safe.create('a', 'g').regex!;
+        expect(second).not.toBe(first);
+        expect(second.lastIndex).toBe(0);
+
+        safe.configure({ engine: 'linear' });
+        const linear = safe.create('b', 'y').regex!;
+        expect(safe.create('b', 'y').regex).toBeInstanceOf(LinearRegExp);
+        expect(safe.create('b', 'y').regex).not.toBe(linear);
+
+        const shared = createSafeRegex('^own-regex$').regex!;
+        expect(createSafeRegex('^own-regex$').regex).not.toBe(shared);
+        expect(globToSafeRegex('own/*.ts').regex).not.toBe(globToSafeRegex('own/*.ts').regex);
+    });
+
+    it('gives each caller its own findings and suggestions', () => {
+        const safe = new SafeRegex({ cache: new RegexCache() });
+        const first = safe.create('(a+)+$');
+        first.findings![0].message = 'changed';
+        first.findings!.length = 0;
+        first.suggestions![0].pattern = 'changed';
+        first.suggestions!.push(first.suggestions![0]);
+
+        const second = safe.create('(a+)+$');
+        expect(second.findings).toHaveLength(1);
+        expect(second.findings![0].message).not.toBe('changed');
+        expect(second.suggestions![0].pattern).not.toBe('changed');
+        expect(second).toEqual(new SafeRegex().create('(a+)+$'));
+    });
+
+    it('caches glob results', () => {
+        const cache = new RegexCache();
+        const safe = new SafeRegex({ cache });
+        safe.globToRegex('*.ts');
+        expect(safe.globToRegex('*.ts').safe).toBe(true);
+        safe.globToRegex('*.ts', { caseSensitive: true });
+        expect(cache.stats()).toMatchObject({ hits: 1, misses: 2 });
+    });
+
+    it('backs createSafeRegex with the shared cache', () => {
+        const { hits } = sharedRegexCache().stats();
+        createSafeRegex('^shared-cache-test$');
+        createSafeRegex('^shared-cache-test$');
+        expect(sharedRegexCache().stats().hits).toBe(hits + 1);
+    });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { CharSet, MAX_CODE_UNIT, nodeCharSet } from '../src/charset';
+import { parseFlags, parsePattern } from '../src/parser';
+
+function setOf(pattern: string, flags = '') {
+    const ast = parsePattern(pattern, flags);
+    return nodeCharSet(ast.body.alternatives[0].terms[0], parseFlags(flags))!;
+}
+
+describe('CharSet', () => {
+    it('merges overlapping and adjacent ranges', () => {
+        expect(CharSet.fromRanges([[5, 9], [1, 3], [4, 4]]).ranges).toEqual([[1, 9]]);
+    });
+
+    it('supports set operations', () => {
+        const a = CharSet.range(0, 10);
+        const b = CharSet.range(5, 15);
+        expect(a.intersect(b).ranges).toEqual([[5, 10]]);
+        expect(a.union(b).ranges).toEqual([[0, 15]]);
+        expect(a.subtract(b).ranges).toEqual([[0, 4]]);
+        expect(a.complement(20).ranges).toEqual([[11, 20]]);
+        expect(a.intersects(b)).toBe(true);
+        expect(a.intersects(CharSet.of(11))).toBe(false);
+        expect(CharSet.empty().isEmpty()).toBe(true);
+        expect(b.first()).toBe(5);
+        expect(b.has(15)).toBe(true);
+    });
+});
+
+describe('nodeCharSet', () => {
+    it('computes class members', () => {
+        expect(setOf('[a-c\\d]').ranges).toEqual([[0x30, 0x39], [0x61, 0x63]]);
+        expect(setOf('[^a]').ranges).toEqual([[0, 0x60], [0x62, MAX_CODE_UNIT]]);
+    });
+
+    it('applies case folding', () => {
+        expect(setOf('a', 'i').ranges).toEqual([[0x41, 0x41], [0x61, 0x61]]);
+        expect(setOf('[^a]', 'i').has(0x41)).toBe(false);
+    });
+
+    it('respects dotAll', () => {
+        expect(setOf('.').has(0x0a)).toBe(false);
+        expect(setOf('.', 's').has(0x0a)).toBe(true);
+    });
+
+    it('evaluates v-mode set operations', () => {
+        expect(setOf('[\\w--\\d]', 'v').has(0x31)).toBe(false);
+        expect(setOf('[[a-z]&&[aeiou]]', 'v').ranges).toHaveLength(5);
+    });
+
+    it('returns undefined for nodes that are not single characters', () => {
+        const ast = parsePattern('(a)');
+        expect(nodeCharSet(ast.body.alternatives[0].terms[0], ast.flags)).toBeUndefined();
+    });
+});
@@ -0,0 +1,300 @@
+import { describe, it, expect } from 'vitest';
+import { CliIo, EXIT_OK, EXIT_UNSAFE, EXIT_USAGE, runCli } from '../src/cli';
+import { COMPONENT_TSX } from './fixtures/jsx-component';
+
+function fakeIo(files: Record<string, string> = {}, stdin = '') {
+    const output = { stdout: '', stderr: '' };
+    const io: CliIo = {
+        stdout: (text) => {
+            output.stdout += text;
+        },
+        stderr: (text) => {
+            output.stderr += text;
+        },
+        readFile: async (path) => {
+            if (!(path in files)) {
+                throw new Error(`ENOENT: no such file '${path}'`);
+            }
+            return files[path];
+        },
+        listFiles: async (path) => {
+            const below = Object.keys(files).filter((name) => path === '.' || name.startsWith(`${path}/`));
+            if (below.length > 0) {
+                return below;
+            }
+            if (!(path in files)) {
+                throw new Error(`ENOENT: no such file or directory '${path}'`);
+            }
+            return [path];
+        },
+        readStdin: async () => stdin,
+    };
+    return { io, output };
+}
+
+describe('runCli', () => {
+    describe('exit codes', () => {
+        it('exits 0 when every pattern is safe', async () => {
+            const { io, output } = fakeIo();
+            expect(await runCli(['^\\d+$', '[a-z]+@example\\.com'], io)).toBe(EXIT_OK);
+            expect(output.stdout).toContain('2 patterns checked, all safe');
+        });
+
+        it('exits 1 when any pattern is unsafe', async () => {
+            const { io, output } = fakeIo();
+            expect(await runCli(['^\\d+$', '(a+)+$'], io)).toBe(EXIT_UNSAFE);
+            expect(output.stdout).toContain('FAIL  argument 2  (a+)+$  O(2^n)');
+            expect(output.stdout).toContain('error nested-quantifiers at 0-5 `(a+)+`');
+            expect(output.stdout).toContain('2 patterns checked, 1 unsafe');
+        });
+
+        it.each([
+            [['--format', 'xml', 'a']],
+            [['--unknown', 'a']],
+            [['--max-length', '0', 'a']],
+            [['--max-degree', 'two', 'a']],
+            [['--profile', 'lenient', 'a']],
+            [['-f', 'missing.txt']],
+            [[]],
+        ])('exits 2 on usage errors: %j', async (args) => {
+            const { io, output } = fakeIo();
+            expect(await runCli(args, io)).toBe(EXIT_USAGE);
+            expect(output.stderr).toMatch(/^pressurelid: /);
+            expect(output.stdout).toBe('');
+        });
+    });
+
+    describe('inputs', () => {
+        it('reads one pattern per line from stdin when no pattern is given', async () => {
+            const { io, output } = fakeIo({}, 'abc\n\n(x|x)*$\r\n');
+            expect(await runCli([], io)).toBe(EXIT_UNSAFE);
+            expect(output.stdout).toContain('ok    <stdin>:1  abc');
+            expect(output.stdout).toContain('FAIL  <stdin>:3  (x|x)*$');
+        });
+
+        it('reads newline and JSON files', async () => {
+            const { io, output } = fakeIo({
+                'patterns.txt': 'foo\nbar+\n',
+                'patterns.json': '[\n  "^a$",\n  { "pattern": "ABC", "flags": "i" }\n]',
+            });
+            expect(await runCli(['-f', 'patterns.txt', '--file', 'patterns.json', '--format', 'json'], io)).toBe(EXIT_OK);
+
+            const { results } = JSON.parse(output.stdout);
+            expect(results.map((result: { source: string }) => result.source)).toEqual([
+                'patterns.txt:1', 'patterns.txt:2', 'patterns.json:2', 'patterns.json:3',
+            ]);
+            expect(results[3]).toMatchObject({ pattern: 'ABC', flags: 'i', safe: true });
+        });
+
+        it('applies --flags to patterns without their own', async () => {
+            const { io, output } = fakeIo({ 'p.json': '["a", {"pattern": "b", "flags": "m"}]' });
+            await runCli(['--flags', 'u', '-f', 'p.json', '--format', 'json'], io);
+            const { results } = JSON.parse(output.stdout);
+            expect(results.map((result: { flags: string }) => result.flags)).toEqual(['u', 'm']);
+        });
+
+        it('rejects malformed JSON files', async () => {
+            const { io, output } = fakeIo({ 'a.json': '{"pattern": "a"}', 'b.json': '[1]', 'c.json': '[' });
+            expect(await runCli(['-f', 'a.json'], io)).toBe(EXIT_USAGE);
+            expect(await runCli(['-f', 'b.json'], io)).toBe(EXIT_USAGE);
+            expect(await runCli(['-f', 'c.json'], io)).toBe(EXIT_USAGE);
+            expect(output.stderr).toContain('a.json must contain an array of patterns');
+            expect(output.stderr).toContain('b.json: entry 1');
+            expect(output.stderr).toContain('Cannot parse c.json');
+        });
+
+        it('reads stdin for the file -', async () => {
+            const { io, output } = fakeIo({}, '^x+x+$');
+            expect(await runCli(['-f', '-', '--format', 'json'], io)).toBe(EXIT_OK);
+            expect(JSON.parse(output.stdout).results[0].source).toBe('<stdin>:1');
+        });
+    });
+
+    describe('--scan', () => {
+        const files = {
+            'src/routes.ts': [
+                'const id = /^\\d+$/;',
+                "const slug = new RegExp('^([a-z]+-?)*$', 'i');",
+                'const ratio = total / count / 2;',
+            ].join('\n'),
+            'src/types.d.ts': 'declare const re: /(a+)+$/;',
+            'src/notes.md': '/(a+)+$/',
+            'lib/util.js': 'export const ok = /^\\w+$/u;',
+        };
+
+        it('checks the regexes in source files below each path', async () => {
+            const { io, output } = fakeIo(files);
+            expect(await runCli(['--scan', 'src'], io)).toBe(EXIT_UNSAFE);
+            expect(output.stdout).toContain('ok    src/routes.ts:1:12  ^\\d+$');
+            expect(output.stdout).toContain('FAIL  src/routes.ts:2:25  ^([a-z]+-?)*$');
+            expect(output.stdout).toContain('2 patterns checked, 1 unsafe');
+        });
+
+        it('scans the current directory by default', async () => {
+            const { io, output } = fakeIo(files);
+            await runCli(['--scan', '--format', 'json'], io);
+            expect(JSON.parse(output.stdout).results.map((result: { source: string }) => result.source))
+                .toEqual(['src/routes.ts:1:12', 'src/routes.ts:2:25', 'lib/util.js:1:19']);
+        });
+
+        it('exits 0 when no regex is found', async () => {
+            const { io, output } = fakeIo({ 'a.ts': 'const a = b / c;' });
+            expect(await runCli(['--scan', 'a.ts'], io)).toBe(EXIT_OK);
+            expect(output.stdout).toContain('0 patterns checked, all safe');
+        });
+
+        it('reads JSX closing tags in .tsx files as markup', async () => {
+            const { io, output } = fakeIo({ 'src/Card.tsx': COMPONENT_TSX });
+            expect(await runCli(['--scan', 'src'], io)).toBe(EXIT_OK);
+            expect(output.stdout).toContain('1 pattern checked, all safe');
+        });
+
+        it('locates SARIF results in the source', async () => {
+            const { io, output } = fakeIo(files);
+            await runCli(['--scan', '--format', 'sarif', 'src/routes.ts'], io);
+            const [result] = JSON.parse(output.stdout).runs[0].results;
+            expect(result.ruleId).toBe('nested-quantifiers');
+            expect(result.locations[0].physicalLocation).toEqual({
+                artifactLocation: { uri: 'src/routes.ts' },
+                region: { startLine: 2, startColumn: 27, endLine: 2, endColumn: 38 },
+            });
+        });
+
+        it('exits 2 for missing paths', async () => {
+            const { io, output } = fakeIo(files);
+            expect(await runCli(['--scan', 'missing'], io)).toBe(EXIT_USAGE);
+            expect(output.stderr).toContain('Cannot read missing');
+        });
+    });
+
+    describe('--schema', () => {
+        const files = {
+            'openapi.json': JSON.stringify({
+                openapi: '3.1.0',
+                paths: {
+                    '/users/{id}': {
+                        parameters: [{ name: 'id', in: 'path', schema: { type: 'string', pattern: '^\\d+$' } }],
+                    },
+                },
+                components: {
+                    schemas: {
+                        User: { properties: { email: { $ref: 'common.json#/Email' }, name: { pattern: '^(\\w+\\s?)*$' } } },
+                    },
+                },
+            }, null, 2),
+        };
+
+        it('checks the patterns of each document by JSON pointer', async () => {
+            const { io, output } = fakeIo(files);
+            expect(await runCli(['--schema', 'openapi.json'], io)).toBe(EXIT_UNSAFE);
+            expect(output.stdout).toContain('ok    openapi.json#/paths/~1users~1{id}/parameters/0/schema/pattern  ^\\d+$');
+            expect(output.stdout).toContain('FAIL  openapi.json#/components/schemas/User/properties/name/pattern');
+            expect(output.stderr).toContain("openapi.json#/components/schemas/User/properties/email: cannot follow $ref 'common.json#/Email'");
+        });
+
+        it('uses the u flag and locates SARIF results by line', async () => {
+            const { io, output } = fakeIo(files);
+            await runCli(['--schema', '--format', 'sarif', 'openapi.json'], io);
+            const [result] = JSON.parse(output.stdout).runs[0].results;
+            expect(result.message.text).toContain('/^(\\w+\\s?)*$/u');
+            expect(result.locations[0].physicalLocation.region).toEqual({ startLine: 25 });
+        });
+
+        it.each([
+            [['--schema']],
+            [['--schema', '--scan', 'openapi.json']],
+            [['--schema', 'missing.json']],
+        ])('exits 2 on usage errors: %j', async (args) => {
+            expect(await runCli(args, fakeIo(files).io)).toBe(EXIT_USAGE);
+        });
+
+        it('exits 2 for documents that are not JSON', async () => {
+            const { io, output } = fakeIo({ 'schema.yaml': 'type: string' });
+            expect(await runCli(['--schema', 'schema.yaml'], io)).toBe(EXIT_USAGE);
+            expect(output.stderr).toContain('Cannot parse schema.yaml');
+        });
+    });
+
+    describe('limits', () => {
+        it('mirrors maxLength with --max-length', async () => {
+            const { io, output } = fakeIo();
+            expect(await runCli(['--max-length', '3', '--format', 'json', 'abcd'], io)).toBe(EXIT_UNSAFE);
+            const [result] = JSON.parse(output.stdout).results;
+            expect(result).toMatchObject({ safe: false, reason: 'pattern_too_long' });
+            expect(result.complexity).toBeUndefined();
+            expect(result.findings).toEqual([expect.objectContaining({ ruleId: 'pattern-too-long', start: 0, end: 4 })]);
+        });
+
+        it('accepts polynomial patterns within --max-degree and rejects them with --strict', async () => {
+            expect(await runCli(['^a*a*$'], fakeIo().io)).toBe(EXIT_OK);
+            expect(await runCli(['--max-degree', '1', '^a*a*$'], fakeIo().io)).toBe(EXIT_UNSAFE);
+            expect(await runCli(['--strict', '^a*a*$'], fakeIo().io)).toBe(EXIT_UNSAFE);
+        });
+
+        it('applies --profile with explicit limits on top', async () => {
+            const { io, output } = fakeIo();
+            expect(await runCli(['--profile', 'strict', '(\\w)\\1'], io)).toBe(EXIT_UNSAFE);
+            expect(output.stdout).toContain('error feature-not-allowed at 4-6 `\\1`: Backreferences are not allowed');
+            expect(await runCli(['--profile', 'permissive', '^a*a*a*$'], fakeIo().io)).toBe(EXIT_OK);
+            expect(await runCli(['--profile', 'permissive', '--max-degree', '2', '^a*a*a*$'], fakeIo().io)).toBe(EXIT_UNSAFE);
+        });
+    });
+
+    describe('output formats', () => {
+        it('reports polynomial warnings in text output', async () => {
+            const { io, output } = fakeIo();
+            await runCli(['^a*a*$'], io);
+            expect(output.stdout).toContain('warning polynomial-backtracking at 1-5 `a*a*`');
+        });
+
+        it('writes a JSON report with a summary', async () => {
+            const { io, output } = fakeIo();
+            await runCli(['--format', 'json', '(a|aa)+$', '--', '-i'], io);
+            const report = JSON.parse(output.stdout);
+            expect(report.summary).toEqual({ checked: 2, unsafe: 1 });
+            expect(report.results[0]).toMatchObject({
+                pattern: '(a|aa)+$',
+                safe: false,
+                reason: 'overlapping_alternation',
+                findings: [{ ruleId: 'overlapping-alternation', start: 0, end: 7 }],
+            });
+        });
+
+        it('writes a SARIF log with located results', async () => {
+            const { io, output } = fakeIo({ 'src/patterns.txt': 'ok\nprefix(a+)+$' });
+            expect(await runCli(['--format', 'sarif', '-f', 'src/patterns.txt', '([)'], io)).toBe(EXIT_UNSAFE);
+
+            const log = JSON.parse(output.stdout);
+            expect(log.version).toBe('2.1.0');
+            const [run] = log.runs;
+            expect(run.tool.driver.name).toBe('pressurelid');
+            expect(run.tool.driver.rules.map((rule: { id: string }) => rule.id)).toEqual(['invalid-syntax', 'nested-quantifiers']);
+
+            const [syntax, nested] = run.results;
+            expect(syntax).toMatchObject({ ruleId: 'invalid-syntax', ruleIndex: 0, level: 'error' });
+            expect(syntax.locations[0].physicalLocation).toBeUndefined();
+            expect(syntax.locations[0].logicalLocations[0].name).toBe('argument 1');
+            expect(nested).toMatchObject({ ruleId: 'nested-quantifiers', ruleIndex: 1, level: 'error' });
+            expect(nested.locations[0].physicalLocation).toEqual({
+                artifactLocation: { uri: 'src/patterns.txt' },
+                region: { startLine: 2, startColumn: 7, endLine: 2, endColumn: 12 },
+            });
+        });
+
+        it('writes an empty SARIF run when every pattern is safe', async () => {
+            const { io, output } = fakeIo();
+            await runCli(['--format', 'sarif', 'abc'], io);
+            expect(JSON.parse(output.stdout).runs[0].results).toEqual([]);
+        });
+
+        it('prints help and version', async () => {
+            const help = fakeIo();
+            expect(await runCli(['--help'], help.io)).toBe(EXIT_OK);
+            expect(help.output.stdout).toContain('Usage: pressurelid');
+
+            const version = fakeIo();
+            expect(await runCli(['-v'], version.io)).toBe(EXIT_OK);
+            expect(version.output.stdout.trim()).not.toBe('');
+        });
+    });
+});
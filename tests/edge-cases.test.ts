@@ -69,9 +69,10 @@ describe('Edge Cases', () => {
 
         it('should handle glob with special characters', () => {
             const safe = new SafeRegex();
-            const result = safe.globToRegex('file[1].txt');
+            const result = safe.globToRegex('file\\[1\\] (2).txt');
             expect(result.safe).toBe(true);
-            expect(result.regex?.test('file[1].txt')).toBe(true);
+            expect(result.regex?.test('file[1] (2).txt')).toBe(true);
+            expect(result.regex?.test('file1 (2).txt')).toBe(false);
         });
     });
 
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+    ExecutionTimeoutError,
+    FeatureNotAllowedError,
+    InputTooLongError,
+    InvalidSyntaxError,
+    PatternTooLongError,
+    SafeRegexError,
+    UnsafePatternError,
+} from '../src/errors';
+import { SafeRegex } from '../src/safe-regex';
+
+describe('createOrThrow()', () => {
+    it('returns the regex of accepted patterns', () => {
+        expect(new SafeRegex().createOrThrow('^\\d+$', 'u')).toEqual(/^\d+$/u);
+        expect(new SafeRegex({ engine: 'auto' }).createOrThrow('(a+)+$').test('aaa')).toBe(true);
+    });
+
+    it('throws the error class for the reason', () => {
+        const safe = new SafeRegex({ maxLength: 20, features: { backreferences: false } });
+        const thrown = (pattern: string, flags?: string): SafeRegexError => {
+            try {
+                safe.createOrThrow(pattern, flags);
+            } catch (error) {
+                return error as SafeRegexError;
+            }
+            throw new Error(`${pattern} was accepted`);
+        };
+
+        // codeql[js/redos]: Intentional ReDoS test vector - pattern is blocked before execution
+        const unsafe = thrown('^(a+)+$');
+        expect(unsafe).toBeInstanceOf(UnsafePatternError);
+        expect(unsafe).toBeInstanceOf(SafeRegexError);
+        expect(unsafe).toBeInstanceOf(Error);
+        expect(unsafe).toMatchObject({
+            name: 'UnsafePatternError',
+            reason: 'nested_quantifiers',
+            pattern: '^(a+)+$',
+            complexity: { type: 'exponential' },
+            findings: [expect.objectContaining({ ruleId: 'nested-quantifiers' })],
+        });
+        expect(unsafe.message).toBe(safe.create('^(a+)+$').error);
+
+        expect(thrown('a'.repeat(21))).toBeInstanceOf(PatternTooLongError);
+        expect(thrown('(a')).toMatchObject({ name: 'InvalidSyntaxError', reason: 'invalid_syntax' });
+        expect(thrown('(a)\\1')).toMatchObject({ name: 'FeatureNotAllowedError', reason: 'feature_not_allowed' });
+        expect(thrown('a', 'x')).toBeInstanceOf(InvalidSyntaxError);
+        expect(() => new SafeRegex({ features: { allowedFlags: 'i' } }).createOrThrow('a', 'g')).toThrow(FeatureNotAllowedError);
+    });
+});
+
+describe('globToRegexOrThrow()', () => {
+    it('returns the regex or throws for the glob', () => {
+        const safe = new SafeRegex({ maxLength: 10 });
+        expect(safe.globToRegexOrThrow('*.ts').test('a.ts')).toBe(true);
+        expect(() => safe.globToRegexOrThrow('src/**/*.{ts,tsx}')).toThrow(PatternTooLongError);
+        try {
+            safe.globToRegexOrThrow('src/**/*.{ts,tsx}');
+        } catch (error) {
+            expect(error).toMatchObject({ reason: 'pattern_too_long', pattern: 'src/**/*.{ts,tsx}' });
+        }
+    });
+});
+
+describe('throwing execution helpers', () => {
+    const exponential = /^(a+)+$/;
+    const attack = `${'a'.repeat(30)}b`;
+
+    it('return the value of the result when matching finished', async () => {
+        const safe = new SafeRegex();
+        expect(safe.testBoundedOrThrow(/b$/, attack)).toBe(true);
+        expect((await safe.execWithTimeoutOrThrow(/(\d+)/, 'a12'))?.[1]).toBe('12');
+        expect(await safe.execWithTimeoutOrThrow(/\d/, 'a')).toBeNull();
+        expect((await safe.matchAllWithTimeoutOrThrow(/\d/g, '1a2')).map(([match]) => match)).toEqual(['1', '2']);
+        expect(await safe.replaceWithTimeoutOrThrow(/\d/g, '1a2', '#')).toBe('#a#');
+        expect(await safe.splitWithTimeoutOrThrow(/,/, 'a,b')).toEqual(['a', 'b']);
+        expect(await safe.testInWorkerOrThrow(/b$/, attack)).toBe(true);
+    });
+
+    it('throw an ExecutionTimeoutError with the limit that stopped matching', async () => {
+        const safe = new SafeRegex({ maxBacktrackDepth: 1000, timeoutMs: 20 });
+        expect(() => safe.testBoundedOrThrow(exponential, attack)).toThrow(ExecutionTimeoutError);
+        try {
+            safe.testBoundedOrThrow(exponential, attack);
+        } catch (error) {
+            expect(error).toMatchObject({
+                name: 'ExecutionTimeoutError',
+                reason: 'backtrack_limit',
+                pattern: '^(a+)+$',
+                operation: 'testBounded',
+                limit: 1000,
+                message: 'Regex execution exceeded 1000 backtracking steps',
+            });
+        }
+
+        const timedOut = safe.execWithTimeoutOrThrow(exponential, attack);
+        await expect(timedOut).rejects.toThrow(ExecutionTimeoutError);
+        await expect(timedOut).rejects.toMatchObject({
+            reason: 'execution_timeout',
+            operation: 'execWithTimeout',
+            limit: 20,
+            message: 'Regex execution timed out after 20ms',
+        });
+        await expect(safe.replaceWithTimeoutOrThrow(exponential, attack, '')).rejects.toThrow(ExecutionTimeoutError);
+    });
+
+    it('throw an InputTooLongError for oversized inputs, testWithTimeout included', async () => {
+        const safe = new SafeRegex({ maxInputLength: 10 });
+        const input = 'a'.repeat(11);
+        const expected = {
+            name: 'InputTooLongError',
+            reason: 'input_too_long',
+            pattern: 'a',
+            inputLength: 11,
+            limit: 10,
+            message: 'Input of 11 characters exceeds the limit of 10 for this pattern',
+        };
+        await expect(safe.testWithTimeout(/a/, input)).rejects.toMatchObject(expected);
+        await expect(safe.testWithTimeout(/a/, input)).rejects.toThrow(InputTooLongError);
+        await expect(safe.testInWorkerOrThrow(/a/, input)).rejects.toMatchObject(expected);
+        await expect(safe.matchAllWithTimeoutOrThrow(/a/g, input)).rejects.toMatchObject(expected);
+        await expect(safe.splitWithTimeoutOrThrow(/a/, input)).rejects.toMatchObject(expected);
+        expect(() => safe.testBoundedOrThrow(/a/, input)).toThrow(InputTooLongError);
+    });
+
+    it('throw an InputTooLongError for results that only cover the start of the input', async () => {
+        const safe = new SafeRegex({ maxInputLength: 10 });
+        const input = '1234567890x; DROP';
+        const truncated = { matched: true, reason: 'ok' as const, inputTruncated: true, truncated: false };
+        vi.spyOn(safe, 'execWithTimeout').mockResolvedValue({ ...truncated, match: /^\d+$/.exec('1234567890') });
+        vi.spyOn(safe, 'matchWithTimeout').mockResolvedValue({ ...truncated, match: null });
+        vi.spyOn(safe, 'matchAllWithTimeout').mockResolvedValue({ ...truncated, matches: [] });
+        vi.spyOn(safe, 'replaceWithTimeout').mockResolvedValue({ ...truncated, output: '#', replacements: 1 });
+        vi.spyOn(safe, 'splitWithTimeout').mockResolvedValue({ ...truncated, parts: [] });
+        const expected = {
+            name: 'InputTooLongError',
+            reason: 'input_too_long',
+            inputLength: 17,
+            limit: 10,
+            message: 'Input of 17 characters was truncated to the limit of 10 for this pattern',
+        };
+        await expect(safe.execWithTimeoutOrThrow(/^\d+$/, input)).rejects.toMatchObject(expected);
+        await expect(safe.matchWithTimeoutOrThrow(/\d+/, input)).rejects.toMatchObject(expected);
+        await expect(safe.matchAllWithTimeoutOrThrow(/\d/g, input)).rejects.toMatchObject(expected);
+        await expect(safe.replaceWithTimeoutOrThrow(/\d+/, input, '#')).rejects.toMatchObject(expected);
+        await expect(safe.splitWithTimeoutOrThrow(/;/, input)).rejects.toMatchObject(expected);
+    });
+
+    it('throw when a replacement finished without an output', async () => {
+        const safe = new SafeRegex();
+        vi.spyOn(safe, 'replaceWithTimeout').mockResolvedValue({ matched: false, reason: 'ok', replacements: 0, truncated: false });
+        await expect(safe.replaceWithTimeoutOrThrow(/a/, 'a', 'b')).rejects.toThrow(SafeRegexError);
+    });
+});
@@ -0,0 +1,316 @@
+import { describe, it, expect } from 'vitest';
+import { Linter, RuleTester } from 'eslint';
+import tsParser from '@typescript-eslint/parser';
+import plugin from '../src/eslint-plugin';
+
+RuleTester.describe = describe;
+RuleTester.it = it;
+RuleTester.itOnly = it.only;
+
+const ruleTester = new RuleTester({
+    languageOptions: { ecmaVersion: 'latest', sourceType: 'module' },
+});
+const noUnsafeRegex = plugin.rules!['no-unsafe-regex'];
+const requireSafeRegex = plugin.rules!['require-safe-regex-for-dynamic-patterns'];
+const noUntrustedRegex = plugin.rules!['no-untrusted-regex'];
+const IMPORT_ESCAPE = "import { escapeForRegex } from '@utilarium/pressurelid';\n";
+const IMPORT_CREATE = "import { createSafeRegex } from '@utilarium/pressurelid';\n";
+
+describe('eslint plugin', () => {
+    ruleTester.run('no-unsafe-regex', noUnsafeRegex, {
+        valid: [
+            'const id = /^\\d+$/;',
+            'const pair = /^\\s*-?\\s*$/;',
+            "const word = new RegExp('^\\\\w+$', 'u');",
+            'const dynamic = new RegExp(pattern);',
+            "function f(RegExp) { return new RegExp('(a+)+$'); }",
+            { code: 'const pair = /^a*a*$/;', options: [{ maxPolynomialDegree: 2 }] },
+        ],
+        invalid: [
+            {
+                code: 'const email = /^([a-z\\d]+\\.?)+@example\\.com$/;',
+                errors: [{
+                    line: 1,
+                    column: 17,
+                    endColumn: 31,
+                    message: 'Pattern contains nested quantifiers which can cause exponential backtracking: `([a-z\\d]+\\.?)+`',
+                }],
+            },
+            {
+                code: 'const a = /(a|aa)+$/, b = /(b+)+$/;',
+                errors: [
+                    { messageId: 'unsafe', column: 12, endColumn: 19 },
+                    { messageId: 'unsafe', column: 28, endColumn: 33 },
+                ],
+            },
+            {
+                code: "const re = new RegExp('^(\\\\w|\\\\d)+$', 'u');",
+                errors: [{ messageId: 'unsafe', column: 23, endColumn: 37 }],
+            },
+            {
+                code: 'const re = RegExp(`(x|x)*$`);',
+                errors: [{ messageId: 'unsafe' }],
+            },
+            {
+                code: 'const re = new RegExp(String.raw`(\\d+)*$`);',
+                errors: [{ messageId: 'unsafe' }],
+            },
+            {
+                code: "const re = new RegExp('([a-z]');",
+                errors: [{ messageId: 'unsafe' }],
+            },
+            {
+                code: 'const pair = /^\\s*-?\\s*$/;',
+                options: [{ maxPolynomialDegree: 1 }],
+                errors: [{ messageId: 'unsafe', column: 16, endColumn: 24 }],
+            },
+        ],
+    });
+
+    ruleTester.run('require-safe-regex-for-dynamic-patterns', requireSafeRegex, {
+        valid: [
+            "const re = new RegExp('^\\\\w+$', flags);",
+            'const re = new RegExp(`^a$`);',
+            'const re = new RegExp(/a/g, "i");',
+            'const re = new RegExp();',
+            'const safe = new SafeRegex();\nconst result = safe.create(new RegExp(pattern).source);',
+            'const result = new pl.SafeRegex().create(new RegExp(pattern).source);',
+            'const result = createSafeRegex(new RegExp(pattern).source);',
+            'function f(RegExp) { return new RegExp(pattern); }',
+            "import { createSafeRegex } from '@utilarium/pressurelid';\nconst result = createSafeRegex(pattern);",
+        ],
+        invalid: [
+            {
+                code: 'const re = new RegExp(pattern, "g");',
+                errors: [{ messageId: 'dynamic' }],
+                output: "import { createSafeRegex } from '@utilarium/pressurelid';\nconst re = createSafeRegex(pattern, \"g\").regex ?? /(?!)/g;",
+            },
+            {
+                code: "import { SafeRegex } from '@utilarium/pressurelid';\nconst re = RegExp(`^${name}$`);",
+                errors: [{ messageId: 'dynamic' }],
+                output: "import { SafeRegex, createSafeRegex } from '@utilarium/pressurelid';\nconst re = createSafeRegex(`^${name}$`).regex ?? /(?!)/g;",
+            },
+            {
+                code: "import { createSafeRegex as safeRegex } from '@utilarium/pressurelid';\nnew RegExp(a + b).test(s);",
+                errors: [{ messageId: 'dynamic' }],
+                output: "import { createSafeRegex as safeRegex } from '@utilarium/pressurelid';\n(safeRegex(a + b).regex ?? /(?!)/g).test(s);",
+            },
+            {
+                code: "import * as pressurelid from '@utilarium/pressurelid';\nconst re = new RegExp(input);",
+                errors: [{ messageId: 'dynamic' }],
+                output: "import * as pressurelid from '@utilarium/pressurelid';\nconst re = pressurelid.createSafeRegex(input).regex ?? /(?!)/g;",
+            },
+            {
+                code: "import fs from 'node:fs';\nconst re = new RegExp(input);",
+                errors: [{ messageId: 'dynamic' }],
+                output: "import fs from 'node:fs';\nimport { createSafeRegex } from '@utilarium/pressurelid';\nconst re = createSafeRegex(input).regex ?? /(?!)/g;",
+            },
+            {
+                // Both fixes add the import, so the second waits for the next pass
+                code: 'const a = new RegExp(x);\nconst b = new RegExp(y);',
+                errors: [{ messageId: 'dynamic' }, { messageId: 'dynamic' }],
+                output: "import { createSafeRegex } from '@utilarium/pressurelid';\nconst a = createSafeRegex(x).regex ?? /(?!)/g;\nconst b = new RegExp(y);",
+            },
+            {
+                code: 'const found = new RegExp(pattern).exec(text) || fallback.test(text) && RegExp(pattern);',
+                errors: [{ messageId: 'dynamic' }, { messageId: 'dynamic' }],
+                output: "import { createSafeRegex } from '@utilarium/pressurelid';\nconst found = (createSafeRegex(pattern).regex ?? /(?!)/g).exec(text) || fallback.test(text) && RegExp(pattern);",
+            },
+            {
+                // Only the pattern given to a SafeRegex is checked
+                code: 'db.create(() => new RegExp(input));\nsafe.create(new RegExp(input).source);',
+                errors: [{ messageId: 'dynamic', line: 1 }, { messageId: 'dynamic', line: 2 }],
+                output: "import { createSafeRegex } from '@utilarium/pressurelid';\ndb.create(() => (createSafeRegex(input).regex ?? /(?!)/g));\nsafe.create(new RegExp(input).source);",
+            },
+            {
+                code: 'const re = new RegExp(...args);',
+                errors: [{ messageId: 'dynamic' }],
+                output: null,
+            },
+            {
+                code: 'const createSafeRegex = 1;\nconst re = new RegExp(input);',
+                errors: [{ messageId: 'dynamic' }],
+                output: null,
+            },
+            {
+                code: 'const re = new RegExp(input);',
+                languageOptions: { sourceType: 'script' },
+                errors: [{ messageId: 'dynamic' }],
+                output: null,
+            },
+            {
+                code: 'const re: RegExp = new RegExp(input as string);',
+                languageOptions: { parser: tsParser },
+                errors: [{ messageId: 'dynamic' }],
+                output: "import { createSafeRegex } from '@utilarium/pressurelid';\nconst re: RegExp = createSafeRegex(input as string).regex ?? /(?!)/g;",
+            },
+        ],
+    });
+
+    ruleTester.run('no-untrusted-regex', noUntrustedRegex, {
+        valid: [
+            'const re = new RegExp(pattern);',
+            "function f(q) { return new RegExp(escapeForRegex(q)); }",
+            "function f(q) { const re = new RegExp('^' + ns.escapeForRegex(q)); }",
+            "function f(q) { return createSafeRegex(q).regex; }",
+            "const safe = new SafeRegex();\nfunction f(q) { return safe.create(new RegExp(q).source); }",
+            "function f(q) { return s.replace(q, '').split(q); }",
+            "function f(q) { return q.match(/^a/); }",
+            "function f(q) { let p = 'a'; p = lookup(q); return new RegExp(p); }",
+            "function f(q) { return new RegExp(q.length > 3 ? 'a' : 'b'); }",
+            { code: 'function f(q) { return new RegExp(q); }', options: [{ sources: ['req.query'] }] },
+        ],
+        invalid: [
+            {
+                code: 'function find(q) { return new RegExp(String(q)); }',
+                errors: [{ message: 'Untrusted data from parameter `q` is used as a regex pattern; escape it with escapeForRegex() or check it with createSafeRegex()' }],
+                output: `${IMPORT_CREATE}function find(q) { return createSafeRegex(String(q)).regex ?? /(?!)/g; }`,
+            },
+            {
+                code: 'function find(q) { return new RegExp(q); }',
+                errors: [{
+                    messageId: 'untrusted',
+                    suggestions: [{ messageId: 'check', output: `${IMPORT_CREATE}function find(q) { return createSafeRegex(q).regex ?? /(?!)/g; }` }],
+                }],
+                output: null,
+            },
+            {
+                code: 'function f(s, re) { return s.match(re); }',
+                errors: [{
+                    messageId: 'untrusted',
+                    suggestions: [{ messageId: 'check', output: `${IMPORT_CREATE}function f(s, re) { return s.match(createSafeRegex(re).regex ?? /(?!)/g); }` }],
+                }],
+                output: null,
+            },
+            {
+                code: 'const re = new RegExp(process.env.PATTERN, "i");',
+                errors: [{
+                    messageId: 'untrusted',
+                    data: { source: '`process.env`' },
+                    suggestions: [{ messageId: 'check', output: `${IMPORT_CREATE}const re = createSafeRegex(process.env.PATTERN, "i").regex ?? /(?!)/g;` }],
+                }],
+                output: null,
+            },
+            {
+                code: 'const { pattern } = JSON.parse(text);\nconst re = RegExp(`${pattern}`);',
+                errors: [{ messageId: 'untrusted', data: { source: '`JSON.parse()`' } }],
+                output: `${IMPORT_CREATE}const { pattern } = JSON.parse(text);\nconst re = createSafeRegex(\`\${pattern}\`).regex ?? /(?!)/g;`,
+            },
+            {
+                code: 'app.get((req) => { const name = req.query.name.trim(); return new RegExp(`^${name}$`, "i"); });',
+                options: [{ sources: ['req.query'] }],
+                errors: [{ messageId: 'untrusted', data: { source: '`req.query`' } }],
+                output: `${IMPORT_ESCAPE}app.get((req) => { const name = req.query.name.trim(); return new RegExp(\`^\${escapeForRegex(name)}$\`, "i"); });`,
+            },
+            {
+                code: "function f(word, prefix) { return new RegExp('\\b' + prefix + decodeURIComponent(word) + '\\b'); }",
+                errors: [{
+                    messageId: 'untrusted',
+                    data: { source: 'parameter `prefix`' },
+                    suggestions: [{
+                        messageId: 'escape',
+                        output: `${IMPORT_ESCAPE}function f(word, prefix) { return new RegExp('\\b' + escapeForRegex(prefix) + escapeForRegex(decodeURIComponent(word)) + '\\b'); }`,
+                    }],
+                }],
+                output: null,
+            },
+            {
+                code: "function f(word) { return new RegExp('\\b' + `${word}`.toLowerCase() + '\\b'); }",
+                errors: [{ messageId: 'untrusted' }],
+                output: `${IMPORT_ESCAPE}function f(word) { return new RegExp('\\b' + escapeForRegex(\`\${word}\`.toLowerCase()) + '\\b'); }`,
+            },
+            {
+                code: `${IMPORT_ESCAPE}function strip(text, input) { const word = String(input); return text.replace(new RegExp(word, 'g'), '').split(RegExp(word)); }`,
+                errors: [{ messageId: 'untrusted' }, { messageId: 'untrusted' }],
+                output: `${IMPORT_ESCAPE}function strip(text, input) { const word = String(input); return text.replace(new RegExp(escapeForRegex(word), 'g'), '').split(RegExp(escapeForRegex(word))); }`,
+            },
+            {
+                code: `${IMPORT_ESCAPE}function strip(text, word) { return text.replace(new RegExp(word, 'g'), ''); }`,
+                errors: [{
+                    messageId: 'untrusted',
+                    suggestions: [{
+                        messageId: 'escape',
+                        output: `${IMPORT_ESCAPE}function strip(text, word) { return text.replace(new RegExp(escapeForRegex(word), 'g'), ''); }`,
+                    }],
+                }],
+                output: null,
+            },
+            {
+                code: "import { SafeRegex } from '@utilarium/pressurelid';\nfunction f(s, q) { return s.match(q + '') ?? s.search(`(${q})`); }",
+                errors: [{ messageId: 'untrusted', column: 35 }, {
+                    messageId: 'untrusted',
+                    column: 55,
+                    suggestions: [{
+                        messageId: 'escape',
+                        output: "import { SafeRegex, escapeForRegex } from '@utilarium/pressurelid';\nfunction f(s, q) { return s.match(q + '') ?? s.search(`(${escapeForRegex(q)})`); }",
+                    }],
+                }],
+                output: "import { SafeRegex, createSafeRegex } from '@utilarium/pressurelid';\nfunction f(s, q) { return s.match(createSafeRegex(q + '').regex ?? /(?!)/g) ?? s.search(`(${q})`); }",
+            },
+            {
+                code: "import * as pl from '@utilarium/pressurelid';\nfunction f(s, q) { return [...s.matchAll(q)]; }",
+                errors: [{
+                    messageId: 'untrusted',
+                    suggestions: [{
+                        messageId: 'check',
+                        output: "import * as pl from '@utilarium/pressurelid';\nfunction f(s, q) { return [...s.matchAll(pl.createSafeRegex(q, 'g').regex ?? /(?!)/g)]; }",
+                    }],
+                }],
+                output: null,
+            },
+            {
+                code: 'function f(s, q) { return new RegExp(`${q}`).test(s); }',
+                errors: [{ messageId: 'untrusted' }],
+                output: `${IMPORT_CREATE}function f(s, q) { return (createSafeRegex(\`\${q}\`).regex ?? /(?!)/g).test(s); }`,
+            },
+            {
+                code: 'function f(q) { let p = "x"; if (q) { p = q + "?"; } return new RegExp(p); }',
+                errors: [{
+                    messageId: 'untrusted',
+                    data: { source: 'parameter `q`' },
+                    suggestions: [{ messageId: 'check', output: `${IMPORT_CREATE}function f(q) { let p = "x"; if (q) { p = q + "?"; } return createSafeRegex(p).regex ?? /(?!)/g; }` }],
+                }],
+                output: null,
+            },
+            {
+                code: 'async function f(a) { let b = a; a = b; return new RegExp(await (b as string)); }',
+                languageOptions: { parser: tsParser },
+                errors: [{
+                    messageId: 'untrusted',
+                    suggestions: [{ messageId: 'check', output: `${IMPORT_CREATE}async function f(a) { let b = a; a = b; return createSafeRegex(await (b as string)).regex ?? /(?!)/g; }` }],
+                }],
+                output: null,
+            },
+            {
+                code: 'function f(q) { return new RegExp(q as string); }',
+                languageOptions: { parser: tsParser },
+                errors: [{ messageId: 'untrusted' }],
+                output: `${IMPORT_CREATE}function f(q) { return createSafeRegex(q as string).regex ?? /(?!)/g; }`,
+            },
+            {
+                code: 'function f(db, q) { return db.create(() => new RegExp(`${q}`)); }',
+                errors: [{ messageId: 'untrusted', data: { source: 'parameter `q`' } }],
+                output: `${IMPORT_CREATE}function f(db, q) { return db.create(() => (createSafeRegex(\`\${q}\`).regex ?? /(?!)/g)); }`,
+            },
+            {
+                code: 'function f(q) { return new RegExp(q); }',
+                languageOptions: { sourceType: 'script' },
+                errors: [{ messageId: 'untrusted' }],
+                output: null,
+            },
+        ],
+    });
+
+    it('provides a recommended config', () => {
+        const linter = new Linter();
+        const messages = linter.verify('const a = /(a+)+$/;\nconst b = new RegExp(input);', [
+            { languageOptions: { ecmaVersion: 'latest', sourceType: 'module' } },
+            plugin.configs.recommended,
+        ]);
+        expect(messages.map((message) => [message.ruleId, message.severity])).toEqual([
+            ['pressurelid/no-unsafe-regex', 2],
+            ['pressurelid/require-safe-regex-for-dynamic-patterns', 1],
+        ]);
+        expect(plugin.meta?.name).toBe('@utilarium/pressurelid');
+    });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from 'vitest';
+import { analyzePattern } from '../src/analyze';
+import { SafeRegex } from '../src/safe-regex';
+import { DEFAULT_CONFIG, SECURITY_PROFILES } from '../src/types';
+
+describe('feature policy', () => {
+    it('allows every feature by default', () => {
+        const analysis = analyzePattern('(?<=\\$)(\\d+)(?=\\.)\\1\\p{L}*', 'u', { features: {} });
+        expect(analysis.safe).toBe(true);
+    });
+
+    it('locates each forbidden feature', () => {
+        const analysis = analyzePattern('(?<=\\$)(\\d+)(?=\\.)\\1[\\p{L}]', 'u', {
+            features: { backreferences: false, lookahead: false, lookbehind: false, unicodePropertyEscapes: false },
+        });
+        expect(analysis.safe).toBe(false);
+        expect(analysis.reason).toBe('feature_not_allowed');
+        expect(analysis.message).toBe('Lookbehind assertions are not allowed');
+        const violations = analysis.findings.filter((finding) => finding.reason === 'feature_not_allowed');
+        expect(violations.map((finding) => [finding.ruleId, finding.expression])).toEqual([
+            ['feature-not-allowed', '(?<=\\$)'],
+            ['feature-not-allowed', '(?=\\.)'],
+            ['feature-not-allowed', '\\1'],
+            ['feature-not-allowed', '\\p{L}'],
+        ]);
+    });
+
+    it('forbids unbounded quantifiers but not counted ones', () => {
+        const features = { unboundedQuantifiers: false };
+        expect(analyzePattern('^\\d{1,10}$', '', { features }).safe).toBe(true);
+        const analysis = analyzePattern('^\\d{2,}-\\w+$', '', { features });
+        expect(analysis.findings.map((finding) => finding.expression)).toEqual(['\\d{2,}', '\\w+']);
+    });
+
+    it('forbids flags outside allowedFlags', () => {
+        const analysis = analyzePattern('a', 'giy', { features: { allowedFlags: 'gi' } });
+        expect(analysis).toMatchObject({ safe: false, reason: 'flag_not_allowed', message: "Flag 'y' is not allowed" });
+        expect(analysis.findings[0]).toMatchObject({ ruleId: 'flag-not-allowed', start: 0, end: 1 });
+    });
+
+    it('takes precedence over backtracking', () => {
+        const analysis = analyzePattern('(a+)+(?=b)', '', { features: { lookahead: false } });
+        expect(analysis.reason).toBe('feature_not_allowed');
+        expect(analysis.findings.map((finding) => finding.ruleId)).toEqual(['nested-quantifiers', 'feature-not-allowed']);
+    });
+});
+
+describe('SafeRegex with a feature policy', () => {
+    it('blocks forbidden syntax even with the linear engine', () => {
+        const onBlock = vi.fn();
+        const safe = new SafeRegex({ engine: 'linear', features: { unboundedQuantifiers: false }, onBlock });
+        const result = safe.create('a+');
+        expect(result).toMatchObject({ safe: false, reason: 'feature_not_allowed', error: 'Unbounded quantifiers are not allowed' });
+        expect(result.regex).toBeUndefined();
+        expect(onBlock).toHaveBeenCalledWith('Unbounded quantifiers are not allowed', 'a+');
+    });
+
+    it('does not apply to globs', () => {
+        const safe = new SafeRegex({ features: { lookahead: false, unboundedQuantifiers: false, allowedFlags: '' } });
+        expect(safe.globToRegex('!(*.ts)').safe).toBe(true);
+    });
+});
+
+describe('security profiles', () => {
+    it('makes balanced the default configuration', () => {
+        const { features, ...limits } = SECURITY_PROFILES.balanced;
+        expect(features).toEqual({});
+        expect(limits).toEqual({
+            maxLength: DEFAULT_CONFIG.maxLength,
+            timeoutMs: DEFAULT_CONFIG.timeoutMs,
+            maxBacktrackDepth: DEFAULT_CONFIG.maxBacktrackDepth,
+            maxMatches: DEFAULT_CONFIG.maxMatches,
+            maxPolynomialDegree: DEFAULT_CONFIG.maxPolynomialDegree,
+        });
+    });
+
+    it('restricts the dialect under strict', () => {
+        const safe = new SafeRegex({ profile: 'strict' });
+        expect(safe.create('^[\\w.-]+@[\\w-]+\\.\\w+$', 'i').safe).toBe(true);
+        expect(safe.create('(\\w)\\1').reason).toBe('feature_not_allowed');
+        expect(safe.create('^(?!admin)\\w+$').reason).toBe('feature_not_allowed');
+        expect(safe.create('a', 'd').reason).toBe('flag_not_allowed');
+        expect(safe.create('\\w+\\s*\\w+').reason).toBe('catastrophic_backtracking');
+        expect(safe.create('a'.repeat(201)).reason).toBe('pattern_too_long');
+    });
+
+    it('relaxes limits under permissive', () => {
+        const safe = new SafeRegex({ profile: 'permissive' });
+        expect(safe.create('^a*a*a*$').safe).toBe(true);
+        expect(safe.create('a'.repeat(1000)).safe).toBe(true);
+        expect(safe.getConfig().timeoutMs).toBe(5000);
+    });
+
+    it('lets explicit options override the profile', () => {
+        const safe = new SafeRegex({ profile: 'strict', maxLength: 1000, features: { lookahead: true } });
+        const config = safe.getConfig();
+        expect(config).toMatchObject({ profile: 'strict', maxLength: 1000, timeoutMs: 100 });
+        expect(config.features).toMatchObject({ lookahead: true, lookbehind: false });
+        expect(safe.create('a(?=b)').safe).toBe(true);
+        expect(safe.create('(?<=a)b').reason).toBe('feature_not_allowed');
+    });
+
+    it('switches profiles with configure()', () => {
+        const safe = new SafeRegex({ profile: 'strict' });
+        safe.configure({ profile: 'balanced' });
+        expect(safe.create('(\\w)\\1').safe).toBe(true);
+        expect(safe.getConfig().maxLength).toBe(500);
+        safe.configure({ features: { backreferences: false } });
+        safe.configure({ features: { lookahead: false } });
+        expect(safe.getConfig().features).toEqual({ backreferences: false, lookahead: false });
+    });
+});
@@ -0,0 +1,24 @@
+/**
+ * A React component in TSX, for checking that closing tags and
+ * self-closing elements are not read as regex literals.
+ */
+export const COMPONENT_TSX = [
+    "import { useState } from 'react';",
+    '',
+    'const SLUG = /^[a-z0-9-]+$/;',
+    '',
+    'export function Card({ title, items, total, ...props }: CardProps) {',
+    '    const [open, setOpen] = useState(false);',
+    '    return (',
+    '        <section className="card" onClick={() => setOpen(!open)}>',
+    '            <h2>{title}</h2>',
+    '            <p>{items.length}/{total} items</p>',
+    '            <ul>',
+    '                {items.map((item) => <li key={item}>{item}</li>)}',
+    '            </ul>',
+    '            <Icon {...props} /><br/>',
+    '            <a href={`/cards/${title}`}>{SLUG.test(title) ? <b>ok</b> : <i>bad</i>}</a>',
+    '        </section>',
+    '    );',
+    '}',
+].join('\n');
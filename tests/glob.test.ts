@@ -0,0 +1,183 @@
+import { describe, it, expect, vi } from 'vitest';
+import { globToPattern, MAX_BRACE_EXPANSIONS } from '../src/glob';
+import { analyzePattern } from '../src/analyze';
+import { LinearRegExp } from '../src/linear';
+import { SafeRegex, globToSafeRegex } from '../src/safe-regex';
+import { GlobOptions } from '../src/types';
+
+/** Globs with paths they must and must not match */
+const CASES: Array<[string, string[], string[]]> = [
+    ['*.{ts,tsx}', ['file.ts', 'file.tsx'], ['file.js', '.ts', 'a/file.ts']],
+    ['**/*.ts', ['a.ts', 'src/a.ts', 'src/x/a.ts'], ['.a.ts', 'src/.x/a.ts', 'a.js']],
+    ['src/**', ['src', 'src/a', 'src/a/b'], ['srcx', 'src/.git']],
+    ['**', ['a', 'a/b'], ['.a', 'a/.b']],
+    ['a/**/b', ['a/b', 'a/x/b', 'a/x/y/b'], ['a/xb', 'ab']],
+    ['a/**/**/b', ['a/b', 'a/x/y/b'], ['ab']],
+    ['**.md', ['readme.md'], ['docs/readme.md']],
+    ['file[0-9].txt', ['file1.txt'], ['filea.txt', 'file[1].txt']],
+    ['[!abc].ts', ['d.ts'], ['a.ts', '..ts', '/.ts']],
+    ['[^a]', ['b'], ['a']],
+    ['[]a]', [']', 'a'], ['b']],
+    ['[\\]]', [']'], ['\\', 'a']],
+    ['[[:digit:]x]', ['1', 'x'], ['a']],
+    ['[a-', ['[a-'], ['a']],
+    ['{a,{b,c}}', ['a', 'b', 'c'], ['d']],
+    ['{src,lib}/**/*.js', ['src/a.js', 'lib/x/a.js'], ['test/a.js']],
+    ['v{1..3}', ['v1', 'v3'], ['v4', 'v0']],
+    ['v{3..1}', ['v2'], ['v4']],
+    ['v{01..10..3}', ['v01', 'v04', 'v10'], ['v1', 'v02']],
+    ['v{-1..1}', ['v-1', 'v0', 'v1'], ['v2']],
+    ['{a..c}', ['a', 'c'], ['d']],
+    ['{a}', ['{a}'], ['a']],
+    ['{a,b', ['{a,b'], ['a']],
+    ['@(foo|bar).js', ['foo.js', 'bar.js'], ['baz.js']],
+    ['+(ab|c).js', ['abab.js', 'c.js', 'abc.js'], ['.js', 'a.js']],
+    ['x*(ab|c).js', ['x.js', 'xabc.js'], ['xa.js']],
+    ['?(x)y', ['y', 'xy'], ['xxy']],
+    ['!(foo).js', ['bar.js', 'fo.js'], ['foo.js']],
+    ['*(a|b)', ['', 'a', 'abba'], ['c', '.a']],
+    ['@(*|x)y', ['y', 'zy', 'xy'], ['.y', '.xy']],
+    ['@(.a|b)', ['b'], ['.a']],
+    ['@(a', ['@(a'], ['a']],
+    ['!*.ts', ['a.js', 'dir/a.ts'], ['a.ts']],
+    ['!!*.ts', ['a.ts'], ['a.js']],
+    ['.*', ['.env', '.git'], ['env']],
+    ['*', ['a'], ['', '.a', 'a/b']],
+    ['a/*/b', ['a/x/b'], ['a//b', 'a/.x/b']],
+    ['?*', ['ab'], ['.a']],
+    ['*a*b', ['xaybzb', 'ab'], ['.ab', 'ba']],
+    ['file (1).txt', ['file (1).txt'], ['file 1.txt']],
+    ['\\*.txt', ['*.txt'], ['a.txt']],
+    ['', [''], ['a']],
+];
+
+describe('globToPattern', () => {
+    it.each(CASES)('converts %s', (glob, matching, other) => {
+        const regex = new RegExp(globToPattern(glob));
+        for (const path of matching) {
+            expect(regex.test(path), path).toBe(true);
+        }
+        for (const path of other) {
+            expect(regex.test(path), path).toBe(false);
+        }
+    });
+
+    it('produces patterns the analysis accepts', () => {
+        for (const [glob] of CASES) {
+            expect(analyzePattern(globToPattern(glob)).safe, glob).toBe(true);
+        }
+    });
+
+    it('anchors the pattern', () => {
+        expect(globToPattern('*.md')).toBe('^[^/.][^/]*\\.md$');
+        expect(globToPattern('**/*.ts')).toBe('^(?:[^/.][^/]*/)*[^/.][^/]*\\.ts$');
+    });
+
+    it('limits brace expansion', () => {
+        expect(() => globToPattern(`{1..${MAX_BRACE_EXPANSIONS + 1}}`)).toThrow(RangeError);
+        expect(() => globToPattern('{a,b}'.repeat(10))).toThrow('more than 1000 patterns');
+    });
+});
+
+describe('glob options', () => {
+    function matcher(glob: string, options: GlobOptions) {
+        return new RegExp(globToPattern(glob, options));
+    }
+
+    it('matches paths with Windows separators', () => {
+        const regex = matcher('src/**/*.ts', { separator: '\\' });
+        expect(regex.test('src\\a.ts')).toBe(true);
+        expect(regex.test('src\\lib\\a.ts')).toBe(true);
+        expect(regex.test('src/lib/a.ts')).toBe(false);
+        expect(matcher('[!a]?', { separator: '\\' }).test('b\\')).toBe(false);
+        expect(matcher('*', { separator: '\\' }).test('a/b')).toBe(true);
+    });
+
+    it('matches basenames with matchBase', () => {
+        const regex = matcher('*.js', { matchBase: true });
+        expect(regex.test('a.js')).toBe(true);
+        expect(regex.test('lib/.cache/a.js')).toBe(true);
+        expect(regex.test('lib/a.ts')).toBe(false);
+        expect(matcher('lib/*.js', { matchBase: true }).test('x/lib/a.js')).toBe(false);
+        expect(matcher('!*.js', { matchBase: true }).test('lib/a.js')).toBe(false);
+    });
+
+    it('matches dotfiles with dot', () => {
+        expect(matcher('*', { dot: true }).test('.env')).toBe(true);
+        expect(matcher('**/*.ts', { dot: true }).test('.config/.a.ts')).toBe(true);
+        expect(matcher('?rc', { dot: true }).test('.rc')).toBe(true);
+        expect(matcher('*', { dot: true }).test('')).toBe(false);
+    });
+
+    it('matches directories that may contain matches with partial', () => {
+        const regex = matcher('src/*/lib/**/*.ts', { partial: true });
+        for (const path of ['', 'src', 'src/app', 'src/app/lib', 'src/app/lib/x/y', 'src/app/lib/a.ts']) {
+            expect(regex.test(path), path).toBe(true);
+        }
+        for (const path of ['test', 'src/.git', 'src/app/docs']) {
+            expect(regex.test(path), path).toBe(false);
+        }
+        expect(matcher('{src,test}/a', { partial: true }).test('test')).toBe(true);
+        expect(matcher('!src/**', { partial: true }).test('anything')).toBe(true);
+        expect(matcher('*.ts', { partial: true, matchBase: true }).test('deep/dir')).toBe(true);
+    });
+});
+
+describe('SafeRegex.globToRegex', () => {
+    it('ignores case unless caseSensitive is set', () => {
+        const safe = new SafeRegex();
+        expect(safe.globToRegex('README.md').regex!.test('readme.md')).toBe(true);
+        expect(safe.globToRegex('README.md', { caseSensitive: true }).regex!.test('readme.md')).toBe(false);
+        expect(globToSafeRegex('*.MD', { caseSensitive: true }).regex!.test('a.md')).toBe(false);
+    });
+
+    it('matches with the linear engine when the glob regex is risky', () => {
+        const onWarning = vi.fn();
+        const result = new SafeRegex({ onWarning }).globToRegex('*a*b*c*');
+        expect(result.safe).toBe(true);
+        expect(result.engine).toBe('linear');
+        expect(result.regex).toBeInstanceOf(LinearRegExp);
+        expect(result.regex!.test('xaybzc')).toBe(true);
+        expect(result.regex!.test('a'.repeat(20000) + 'c')).toBe(false);
+        expect(onWarning).toHaveBeenCalled();
+    });
+
+    it('compiles extglobs at the start of a segment without a lookahead', () => {
+        const safe = new SafeRegex();
+        const repeated = safe.globToRegex('+(*)');
+        expect(repeated).toMatchObject({ safe: true, engine: 'linear' });
+        expect(repeated.regex!.test('a.b')).toBe(true);
+        expect(repeated.regex!.test('.a')).toBe(false);
+        const either = new SafeRegex({ engine: 'linear' }).globToRegex('src/*(a|b).ts');
+        expect(either).toMatchObject({ safe: true, engine: 'linear' });
+        expect(either.regex!.test('src/abba.ts')).toBe(true);
+        expect(either.regex!.test('src/.ts')).toBe(false);
+        expect(globToPattern('*(a|b)')).not.toContain('(?!');
+    });
+
+    it('keeps the native engine for ordinary globs', () => {
+        expect(new SafeRegex().globToRegex('src/**/*.ts').engine).toBe('native');
+    });
+
+    it('rejects globs that expand too far or are too long', () => {
+        const onBlock = vi.fn();
+        const safe = new SafeRegex({ onBlock, maxLength: 40 });
+        expect(safe.globToRegex('{1..5000}')).toMatchObject({ safe: false, reason: 'pattern_too_long' });
+        expect(safe.globToRegex('a'.repeat(41))).toMatchObject({ safe: false, reason: 'pattern_too_long' });
+        expect(onBlock).toHaveBeenCalledTimes(2);
+    });
+
+    it('rejects malformed globs as invalid syntax', () => {
+        expect(globToSafeRegex('file[z-a].txt')).toMatchObject({
+            safe: false,
+            reason: 'invalid_syntax',
+            error: 'Range out of order in class [z-a]',
+        });
+    });
+
+    it('checks the length of the glob, not of the generated regex', () => {
+        const result = new SafeRegex({ maxLength: 20 }).globToRegex('**/*.{ts,tsx,js,jsx}');
+        expect(result.safe).toBe(true);
+        expect(result.regex!.test('src/app.jsx')).toBe(true);
+    });
+});
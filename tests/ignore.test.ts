@@ -0,0 +1,166 @@
+import { describe, it, expect, vi } from 'vitest';
+import { IgnoreMatcher } from '../src/ignore';
+import { SafeRegex } from '../src/safe-regex';
+
+const GITIGNORE = [
+    '# dependencies',
+    'node_modules/',
+    '',
+    '*.log',
+    '!keep.log',
+    '/build',
+    'docs/**/*.md',
+    '\\#notes',
+    '\\!important',
+    'trailing   ',
+    'escaped\\ ',
+    'cache/**',
+    '!cache/keep',
+].join('\n');
+
+describe('IgnoreMatcher', () => {
+    describe('gitignore rules', () => {
+        const matcher = new IgnoreMatcher();
+        matcher.add(GITIGNORE);
+
+        it.each([
+            ['node_modules/a/index.js', true],
+            ['packages/x/node_modules/a.js', true],
+            ['error.log', true],
+            ['logs/deep/error.log', true],
+            ['logs/keep.log', false],
+            ['build', true],
+            ['build/out.js', true],
+            ['src/build', false],
+            ['docs/a.md', true],
+            ['docs/x/y/a.md', true],
+            ['src/docs/a.md', false],
+            ['#notes', true],
+            ['!important', true],
+            ['trailing', true],
+            ['escaped ', true],
+            ['escaped', false],
+            ['cache/a', true],
+            ['cache/keep', false],
+            ['README.md', false],
+        ])('%s → %s', (path, ignored) => {
+            expect(matcher.ignores(path)).toBe(ignored);
+        });
+
+        it('skips blank lines and comments', () => {
+            expect(matcher.rules().map((rule) => rule.pattern)).not.toContain('# dependencies');
+            expect(matcher.rules()).toHaveLength(11);
+        });
+
+        it('matches directory-only rules against directories', () => {
+            expect(matcher.ignores('node_modules')).toBe(false);
+            expect(matcher.ignores('node_modules', true)).toBe(true);
+            expect(matcher.ignores('node_modules/')).toBe(true);
+        });
+
+        it('does not re-include paths inside an ignored directory', () => {
+            const nested = new IgnoreMatcher();
+            nested.add('dist/\n!dist/keep.js');
+            expect(nested.ignores('dist/keep.js')).toBe(true);
+        });
+
+        it('matches dotfiles with wildcards', () => {
+            const dots = new IgnoreMatcher();
+            dots.add('*');
+            expect(dots.ignores('.env')).toBe(true);
+        });
+
+        it('treats braces and parentheses literally', () => {
+            const literal = new IgnoreMatcher();
+            literal.add('a{b,c}\n*(x)');
+            expect(literal.ignores('a{b,c}')).toBe(true);
+            expect(literal.ignores('ab')).toBe(false);
+            expect(literal.ignores('y(x)')).toBe(true);
+        });
+
+        it('normalizes paths', () => {
+            expect(matcher.ignores('./build')).toBe(true);
+            expect(matcher.ignores('node_modules\\a.js')).toBe(true);
+            expect(matcher.ignores('')).toBe(false);
+        });
+
+        it('is case-sensitive unless configured', () => {
+            expect(matcher.ignores('BUILD')).toBe(false);
+            const insensitive = new IgnoreMatcher({ caseSensitive: false });
+            insensitive.add('/build');
+            expect(insensitive.ignores('BUILD')).toBe(true);
+        });
+    });
+
+    describe('layered ignore files', () => {
+        const matcher = new IgnoreMatcher();
+        matcher.add('*.tmp\n!local/', 'packages/app');
+        matcher.add('*.log\nlocal/');
+
+        it('applies rules relative to their directory', () => {
+            expect(matcher.ignores('packages/app/a.tmp')).toBe(true);
+            expect(matcher.ignores('packages/app/src/a.tmp')).toBe(true);
+            expect(matcher.ignores('a.tmp')).toBe(false);
+            expect(matcher.ignores('packages/other/a.tmp')).toBe(false);
+        });
+
+        it('lets deeper files override shallower ones', () => {
+            expect(matcher.ignores('local', true)).toBe(true);
+            expect(matcher.ignores('packages/app/local', true)).toBe(false);
+            expect(matcher.rules()[0].base).toBe('');
+        });
+
+        it('anchors slashed patterns to their directory', () => {
+            const anchored = new IgnoreMatcher();
+            anchored.add('/out\nsrc/gen', 'web/');
+            expect(anchored.ignores('web/out')).toBe(true);
+            expect(anchored.ignores('web/src/gen')).toBe(true);
+            expect(anchored.ignores('web/lib/out')).toBe(false);
+            expect(anchored.ignores('out')).toBe(false);
+        });
+    });
+
+    describe('dockerignore rules', () => {
+        const matcher = new IgnoreMatcher({ format: 'dockerignore' });
+        matcher.add('*.md\n!README.md\n  node_modules  \n!node_modules/keep\n./dist/\n**/*.test.ts');
+
+        it.each([
+            ['a.md', true],
+            ['docs/a.md', false],
+            ['README.md', false],
+            ['node_modules/a/b.js', true],
+            ['node_modules/keep', false],
+            ['dist', true],
+            ['dist/app.js', true],
+            ['src/a.test.ts', true],
+        ])('%s → %s', (path, ignored) => {
+            expect(matcher.ignores(path)).toBe(ignored);
+        });
+    });
+
+    describe('safety checks', () => {
+        it('keeps rejected rules with their error', () => {
+            const onBlock = vi.fn();
+            const matcher = new IgnoreMatcher({ safeRegex: new SafeRegex({ maxLength: 10, onBlock }) });
+            const rules = matcher.add('short\nthis-rule-is-too-long');
+
+            expect(rules[0].regex).toBeInstanceOf(RegExp);
+            expect(rules[1]).toMatchObject({ line: 2, reason: 'pattern_too_long' });
+            expect(rules[1].regex).toBeUndefined();
+            expect(onBlock).toHaveBeenCalled();
+            expect(matcher.ignores('this-rule-is-too-long')).toBe(false);
+        });
+
+        it('rejects rules that match nothing', () => {
+            const matcher = new IgnoreMatcher();
+            expect(matcher.add('/')[0]).toMatchObject({ directoryOnly: true, reason: 'invalid_syntax' });
+        });
+
+        it('matches risky rules in linear time', () => {
+            const matcher = new IgnoreMatcher();
+            const [rule] = matcher.add('*a*a*a*a*a*b');
+            expect(rule.regex).toBeDefined();
+            expect(matcher.ignores('a'.repeat(5000))).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from 'vitest';
+import { LinearRegExp, supportsLinearMatching } from '../src/linear';
+import { SafeRegex } from '../src/safe-regex';
+
+function summary(match: RegExpExecArray | null) {
+    return match && {
+        values: [...match],
+        index: match.index,
+        groups: match.groups && { ...match.groups },
+        indices: (match as { indices?: unknown }).indices,
+    };
+}
+
+/** Patterns with inputs, compared against the native engine */
+const CORPUS: Array<[string, string, string[]]> = [
+    ['a|ab', '', ['ab', 'xab']],
+    ['(a|ab)(c|bcd)(d*)', '', ['abcd']],
+    ['^(a+)+$', '', ['aaa', 'aab']],
+    ['(a*)*b', '', ['aab', 'b']],
+    ['(z)((a+)?(b+)?(c))*', '', ['zaacbbbcac']],
+    ['(?:(a)|b)+', '', ['ab', 'ba']],
+    ['\\bfoo\\b', '', ['a foo b', 'foobar']],
+    ['^abc$', 'm', ['x\nabc\ny']],
+    ['$', '', ['ab']],
+    ['a.c', 's', ['a\nc']],
+    ['a{2,3}?', '', ['aaaa']],
+    ['a+?b', '', ['aaab']],
+    ['(a*?)*', '', ['aa']],
+    ['(|a)+', '', ['aa']],
+    ['(?:a|())*?b', '', ['ab']],
+    ['(?:(a)|(b)|())*c', '', ['abc']],
+    ['([ab]*?)(b)?(c)$', '', ['abac', 'abbc']],
+    ['(?<y>\\d{4})-(?<m>\\d\\d)', 'd', ['on 2024-05-01']],
+    ['\\u{1F600}+', 'u', ['x\u{1F600}\u{1F600}']],
+    ['^.$', 'u', ['\u{1F600}']],
+    ['[\\q{abc|d}x]+', 'v', ['abcdxabc']],
+    ['\\w+@\\w+\\.com', 'i', ['Mail: X@Y.COM']],
+];
+
+describe('LinearRegExp', () => {
+    it('matches like the native engine', () => {
+        for (const [pattern, flags, inputs] of CORPUS) {
+            for (const input of inputs) {
+                const expected = summary(new RegExp(pattern, flags).exec(input));
+                expect(summary(new LinearRegExp(pattern, flags).exec(input)), `/${pattern}/${flags} on ${JSON.stringify(input)}`)
+                    .toEqual(expected);
+            }
+        }
+    });
+
+    it('runs catastrophic patterns in linear time', () => {
+        const start = Date.now();
+        expect(new LinearRegExp('^(a+)+$').test('a'.repeat(20000) + 'b')).toBe(false);
+        expect(new LinearRegExp('^(\\w+\\s?)*$').test('word '.repeat(2000) + '!')).toBe(false);
+        expect(Date.now() - start).toBeLessThan(5000);
+    });
+
+    it('is a RegExp that the string methods use', () => {
+        const regex = new LinearRegExp('a(b)?', 'g');
+        expect(regex).toBeInstanceOf(RegExp);
+        expect('xab a ab'.replace(regex, '[$&]')).toBe('x[ab] [a] [ab]');
+        expect([...'xab a ab'.matchAll(regex)].map((match) => match.index)).toEqual([1, 4, 6]);
+        expect('xab a ab'.match(regex)).toEqual(['ab', 'a', 'ab']);
+        expect('aXbxc'.split(new LinearRegExp('x', 'i'))).toEqual(['a', 'b', 'c']);
+        expect('xab'.search(new LinearRegExp('b'))).toBe(2);
+    });
+
+    it('honors lastIndex for sticky regexes', () => {
+        const regex = new LinearRegExp('a', 'y');
+        regex.lastIndex = 1;
+        expect(regex.test('ba')).toBe(true);
+        expect(regex.lastIndex).toBe(2);
+        expect(regex.test('ba')).toBe(false);
+        expect(regex.lastIndex).toBe(0);
+        regex.lastIndex = 5;
+        expect(regex.exec('ba')).toBeNull();
+    });
+
+    it('rejects backreferences and lookarounds', () => {
+        expect(() => new LinearRegExp('(a)\\1')).toThrow(SyntaxError);
+        expect(() => new LinearRegExp('a(?=b)')).toThrow('linear engine');
+        expect(supportsLinearMatching('(?<!x)a')).toBe(false);
+        expect(supportsLinearMatching('[')).toBe(false);
+        expect(supportsLinearMatching('^(a+)+$')).toBe(true);
+    });
+});
+
+describe('SafeRegex engine option', () => {
+    it('uses the native engine by default', () => {
+        const result = new SafeRegex().create('^a+$');
+        expect(result.engine).toBe('native');
+        expect(result.regex).not.toBeInstanceOf(LinearRegExp);
+        expect(new SafeRegex().create('^(a+)+$').safe).toBe(false);
+    });
+
+    it('falls back to the linear engine for risky patterns in auto mode', () => {
+        const onWarning = vi.fn();
+        const onBlock = vi.fn();
+        const safe = new SafeRegex({ engine: 'auto', onWarning, onBlock });
+
+        const risky = safe.create('^(a+)+$');
+        expect(risky.safe).toBe(true);
+        expect(risky.engine).toBe('linear');
+        expect(risky.complexity).toEqual({ type: 'exponential' });
+        expect(risky.regex).toBeInstanceOf(LinearRegExp);
+        expect(risky.regex!.test('a'.repeat(1000) + 'b')).toBe(false);
+        expect(onWarning).toHaveBeenCalledWith(expect.stringContaining('linear engine'), '^(a+)+$');
+        expect(onBlock).not.toHaveBeenCalled();
+
+        expect(safe.create('^a+$').engine).toBe('native');
+    });
+
+    it('still blocks risky patterns the linear engine cannot run', () => {
+        const result = new SafeRegex({ engine: 'auto' }).create('^(a+)+\\1$');
+        expect(result.safe).toBe(false);
+    });
+
+    it('uses the linear engine for every supported pattern in linear mode', () => {
+        const safe = new SafeRegex({ engine: 'linear' });
+        expect(safe.create('^a+$').engine).toBe('linear');
+        expect(safe.create('(a)\\1').engine).toBe('native');
+    });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { RegexMetrics } from '../src/metrics';
+import { RegexCache } from '../src/cache';
+import { SafeRegex } from '../src/safe-regex';
+
+describe('RegexMetrics', () => {
+    it('counts patterns by reason and executions by operation', async () => {
+        const metrics = new RegexMetrics({ buckets: [0.5, 0.1] });
+        const safe = new SafeRegex({ cache: new RegexCache(), maxBacktrackDepth: 1000 });
+        metrics.observe(safe);
+        safe.create('^\\d+$');
+        safe.create('^\\d+$');
+        // codeql[js/redos]: Intentional ReDoS test vector - pattern is blocked before execution
+        safe.create('^(a+)+$');
+        safe.testBounded(/^(a+)+$/, `${'a'.repeat(30)}b`);
+        safe.testBounded(/a/, 'a');
+        await safe.execWithTimeout(/a/, 'a');
+
+        const text = metrics.toPrometheus();
+        expect(text).toContain([
+            '# HELP pressurelid_patterns_total Patterns and globs checked, by reason (ok when created).',
+            '# TYPE pressurelid_patterns_total counter',
+            'pressurelid_patterns_total{reason="nested_quantifiers"} 1',
+            'pressurelid_patterns_total{reason="ok"} 2',
+        ].join('\n'));
+        expect(text).toContain('pressurelid_cache_hits_total 1\n');
+        expect(text).toContain([
+            'pressurelid_executions_total{operation="execWithTimeout",reason="ok"} 1',
+            'pressurelid_executions_total{operation="testBounded",reason="backtrack_limit"} 1',
+            'pressurelid_executions_total{operation="testBounded",reason="ok"} 1',
+        ].join('\n'));
+        expect(text).toContain('# TYPE pressurelid_execution_duration_seconds histogram\n');
+        expect(text).toMatch(/pressurelid_execution_duration_seconds_bucket\{operation="testBounded",le="0\.1"\} 2\n/);
+        expect(text).toMatch(/pressurelid_execution_duration_seconds_bucket\{operation="testBounded",le="0\.5"\} 2\n/);
+        expect(text).toMatch(/pressurelid_execution_duration_seconds_bucket\{operation="testBounded",le="\+Inf"\} 2\n/);
+        expect(text).toMatch(/pressurelid_execution_duration_seconds_sum\{operation="testBounded"\} [\d.e-]+\n/);
+        expect(text).toContain('pressurelid_execution_duration_seconds_count{operation="testBounded"} 2\n');
+    });
+
+    it('stops collecting when detached and resets to zero', () => {
+        const metrics = new RegexMetrics({ prefix: 'app_regex' });
+        const safe = new SafeRegex();
+        const detach = metrics.observe(safe);
+        safe.create('a');
+        detach();
+        safe.create('b');
+        expect(metrics.toPrometheus()).toContain('app_regex_patterns_total{reason="ok"} 1\n');
+
+        metrics.reset();
+        expect(metrics.toPrometheus()).toBe([
+            '# HELP app_regex_patterns_total Patterns and globs checked, by reason (ok when created).',
+            '# TYPE app_regex_patterns_total counter',
+            '# HELP app_regex_cache_hits_total Checks answered from the cache.',
+            '# TYPE app_regex_cache_hits_total counter',
+            'app_regex_cache_hits_total 0',
+            '# HELP app_regex_executions_total Calls to the execution methods, by operation and reason.',
+            '# TYPE app_regex_executions_total counter',
+            '# HELP app_regex_execution_duration_seconds Time taken by the execution methods, in seconds.',
+            '# TYPE app_regex_execution_duration_seconds histogram',
+            '',
+        ].join('\n'));
+    });
+
+    it('rejects invalid options', () => {
+        expect(() => new RegexMetrics({ prefix: 'my-app' })).toThrow(RangeError);
+        expect(() => new RegexMetrics({ buckets: [0.1, Infinity] })).toThrow(RangeError);
+    });
+});
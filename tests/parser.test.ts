@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest';
+import { parseFlags, parsePattern, walkRegex } from '../src/parser';
+import { RegexNode } from '../src/types';
+
+function terms(pattern: string, flags?: string) {
+    return parsePattern(pattern, flags).body.alternatives[0].terms;
+}
+
+describe('parsePattern', () => {
+    describe('structure', () => {
+        it('parses alternations and sequences', () => {
+            const ast = parsePattern('ab|c');
+            expect(ast.type).toBe('Pattern');
+            expect(ast.body.alternatives).toHaveLength(2);
+            expect(ast.body.alternatives[0].terms).toHaveLength(2);
+        });
+
+        it('parses quantifiers with bounds and laziness', () => {
+            const [star, plus, optional, range, open, lazy] = terms('a*b+c?d{2,5}e{3,}f*?');
+            expect(star).toMatchObject({ type: 'Quantifier', min: 0, max: Infinity, greedy: true });
+            expect(plus).toMatchObject({ min: 1, max: Infinity });
+            expect(optional).toMatchObject({ min: 0, max: 1 });
+            expect(range).toMatchObject({ min: 2, max: 5 });
+            expect(open).toMatchObject({ min: 3, max: Infinity });
+            expect(lazy).toMatchObject({ greedy: false });
+        });
+
+        it('records source offsets on nodes', () => {
+            const [, group] = terms('x(a+)+');
+            expect(group).toMatchObject({ type: 'Quantifier', start: 1, end: 6 });
+        });
+
+        it('parses capturing, named and non-capturing groups', () => {
+            const ast = parsePattern('(a)(?<year>\\d{4})(?:b)');
+            const [first, named, plain] = ast.body.alternatives[0].terms;
+            expect(first).toMatchObject({ type: 'Group', capturing: true, index: 1 });
+            expect(named).toMatchObject({ type: 'Group', capturing: true, index: 2, name: 'year' });
+            expect(plain).toMatchObject({ type: 'Group', capturing: false });
+            expect(ast.groupCount).toBe(2);
+            expect(ast.groupNames).toEqual({ year: 2 });
+        });
+
+        it('parses lookarounds and assertions', () => {
+            const parsed = terms('^(?=a)(?!b)(?<=c)(?<!d)\\b\\B$');
+            expect(parsed.map((term) => term.type === 'Lookaround'
+                ? `${term.kind}:${term.negate}`
+                : term.type === 'Assertion' ? term.kind : term.type)).toEqual([
+                'start',
+                'lookahead:false',
+                'lookahead:true',
+                'lookbehind:false',
+                'lookbehind:true',
+                'wordBoundary',
+                'nonWordBoundary',
+                'end',
+            ]);
+        });
+
+        it('resolves numbered and named backreferences', () => {
+            const ast = parsePattern('(?<q>[\'"])x\\k<q>(y)\\2');
+            const refs: RegexNode[] = [];
+            walkRegex(ast, (node) => {
+                if (node.type === 'Backreference') {
+                    refs.push(node);
+                }
+            });
+            expect(refs).toMatchObject([
+                { ref: 'q', index: 1 },
+                { ref: 2, index: 2 },
+            ]);
+        });
+
+        it('parses character classes, ranges and escapes', () => {
+            const [cls] = terms('[^a-z\\d_]');
+            expect(cls).toMatchObject({ type: 'CharacterClass', negate: true, kind: 'union' });
+            if (cls.type !== 'CharacterClass') {
+                throw new Error('expected class');
+            }
+            expect(cls.elements.map((element) => element.type)).toEqual([
+                'CharacterRange',
+                'CharacterClassEscape',
+                'Character',
+            ]);
+        });
+
+        it('does not treat escaped or bracketed parens as groups', () => {
+            expect(terms('\\(a\\)').map((term) => term.type)).toEqual(['Character', 'Character', 'Character']);
+            expect(terms('[(]+')).toMatchObject([{ type: 'Quantifier', body: { type: 'CharacterClass' } }]);
+            expect(terms('\\\\(a)')).toMatchObject([{ type: 'Character', value: 0x5c }, { type: 'Group' }]);
+        });
+    });
+
+    describe('escapes', () => {
+        it('decodes character escapes', () => {
+            const values = terms('\\n\\t\\x41\\u0042\\cJ\\0').map((term) => term.type === 'Character' && term.value);
+            expect(values).toEqual([10, 9, 0x41, 0x42, 10, 0]);
+        });
+
+        it('combines surrogate pairs in unicode mode', () => {
+            expect(terms('\\uD83D\\uDE00', 'u')).toMatchObject([{ type: 'Character', value: 0x1f600 }]);
+            expect(terms('\\u{1F600}', 'u')).toMatchObject([{ type: 'Character', value: 0x1f600 }]);
+            expect(terms('😀', 'u')).toHaveLength(1);
+            expect(terms('😀')).toHaveLength(2);
+        });
+
+        it('applies Annex B rules outside unicode mode', () => {
+            expect(terms('\\2(a)')).toMatchObject([{ type: 'Character', value: 2 }, { type: 'Group' }]);
+            expect(terms('\\8')).toMatchObject([{ type: 'Character', value: 0x38 }]);
+            expect(terms('\\k')).toMatchObject([{ type: 'Character', value: 0x6b }]);
+            expect(terms('a{,5}')).toHaveLength(5);
+            expect(terms('\\p{L}')).toHaveLength(4);
+        });
+
+        it('parses unicode property escapes', () => {
+            expect(terms('\\p{Script=Greek}', 'u')).toMatchObject([
+                { type: 'CharacterClassEscape', kind: 'property', property: 'Script=Greek', negate: false },
+            ]);
+        });
+    });
+
+    describe('v flag', () => {
+        it('parses nested classes and set operations', () => {
+            expect(terms('[\\w--\\d]', 'v')).toMatchObject([{ kind: 'subtraction' }]);
+            expect(terms('[[a-z]&&[aeiou]]', 'v')).toMatchObject([{ kind: 'intersection' }]);
+        });
+
+        it('parses class string disjunctions', () => {
+            const [cls] = terms('[\\q{abc|d}]', 'v');
+            expect(cls).toMatchObject({
+                elements: [{ type: 'ClassStringDisjunction', alternatives: [[{}, {}, {}], [{}]] }],
+            });
+        });
+    });
+
+    describe('syntax errors', () => {
+        const cases: Array<[string, string]> = [
+            ['(a', ''], ['a)', ''], ['[a', ''], ['\\', ''], ['*', ''], ['a|+', ''],
+            ['a{2,1}', ''], ['a**', ''], ['[z-a]', ''], ['(?<1a>a)', ''],
+            ['(?<n>a)(?<n>b)', ''], ['\\k<b>(?<a>x)', ''], ['(?<=a)*', ''],
+            ['\\2(a)', 'u'], ['\\a', 'u'], ['a{1', 'u'], ['}', 'u'], [']', 'u'],
+            ['[\\d-z]', 'u'], ['\\p{Foo}', 'u'], ['(?=a)*', 'u'], ['\\08', 'u'],
+            ['[(]', 'v'], ['[a--b&&c]', 'v'], ['[^\\q{abc}]', 'v'], ['[a-z&&b]', 'v'],
+        ];
+
+        for (const [pattern, flags] of cases) {
+            it(`rejects /${pattern}/${flags} like the engine does`, () => {
+                expect(() => new RegExp(pattern, flags)).toThrow(SyntaxError);
+                expect(() => parsePattern(pattern, flags)).toThrow(SyntaxError);
+            });
+        }
+
+        it('explains possessive quantifiers', () => {
+            expect(() => parsePattern('a++')).toThrow(/possessive/);
+        });
+
+        it('accepts everything the engine accepts in a sample corpus', () => {
+            const corpus: Array<[string, string]> = [
+                ['a{', ''], ['}', ''], [']', ''], ['\\c', ''], ['[\\c1]', ''], ['\\x4', ''],
+                ['[\\d-z]', ''], ['[\\B]', ''], ['[\\-]', 'u'], ['\\/', 'u'], ['(?=a)*', ''],
+                ['((a)|b)\\2', ''], ['[]', ''], ['[^]', ''], ['x{1,}?', ''], ['[😀-😂]', 'u'],
+                ['(?<𝒜>a)', 'u'], ['\\P{L}', 'u'], ['\\p{RGI_Emoji}', 'v'],
+            ];
+            for (const [pattern, flags] of corpus) {
+                expect(() => new RegExp(pattern, flags)).not.toThrow();
+                expect(() => parsePattern(pattern, flags), `/${pattern}/${flags}`).not.toThrow();
+            }
+        });
+    });
+});
+
+describe('parseFlags', () => {
+    it('parses known flags', () => {
+        expect(parseFlags('gimsuy')).toMatchObject({
+            global: true,
+            ignoreCase: true,
+            multiline: true,
+            dotAll: true,
+            unicode: true,
+            sticky: true,
+            unicodeSets: false,
+            hasIndices: false,
+        });
+    });
+
+    it('rejects unknown, repeated and conflicting flags', () => {
+        expect(() => parseFlags('x')).toThrow(SyntaxError);
+        expect(() => parseFlags('gg')).toThrow(SyntaxError);
+        expect(() => parseFlags('uv')).toThrow(SyntaxError);
+    });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PatternSet } from '../src/pattern-set';
+import { SafeRegex } from '../src/safe-regex';
+
+/** Patterns with flags, checked together against native RegExp.test */
+const PATTERNS: Array<[string, string]> = [
+    ['a+b', ''],
+    ['^abc$', 'm'],
+    ['\\bcat\\b', 'i'],
+    ['x*', ''],
+    ['(\\w)\\1', ''],
+    ['(?<=a)b', ''],
+    ['😀', 'u'],
+    ['^.$', 'u'],
+    ['q', 'y'],
+    ['[^]z', ''],
+    ['a{2,3}c', ''],
+    ['(?:a|)*c', ''],
+    ['^$', ''],
+    ['\\Bb\\B', ''],
+];
+
+const INPUTS = ['aab', 'xabc\nabc', 'Cat!', '', 'hello', 'ab', '😀', 'q', 'zq', 'az', 'aaac', 'c', 'abc', '\n'];
+
+describe('PatternSet', () => {
+    const set = new PatternSet();
+    PATTERNS.forEach(([pattern, flags], index) => set.add(`p${index}`, pattern, flags));
+
+    it.each(INPUTS)('reports the patterns matching %j', (input) => {
+        const expected = PATTERNS
+            .map(([pattern, flags], index) => (new RegExp(pattern, flags).test(input) ? `p${index}` : undefined))
+            .filter(Boolean);
+        expect(set.match(input)).toEqual({ ids: expected, reason: 'ok' });
+    });
+
+    it('reports rejected patterns and why', () => {
+        const rules = new PatternSet();
+        expect(rules.add('ok', 'error \\d+').safe).toBe(true);
+        expect(rules.add('slow', '(a+)+$').reason).toBe('nested_quantifiers');
+        rules.add('broken', '(');
+
+        expect(rules.size).toBe(1);
+        expect(rules.rejected()).toEqual([
+            expect.objectContaining({ id: 'slow', pattern: '(a+)+$', reason: 'nested_quantifiers' }),
+            expect.objectContaining({ id: 'broken', reason: 'invalid_syntax' }),
+        ]);
+        expect(rules.match('a'.repeat(30) + 'b error 42').ids).toEqual(['ok']);
+    });
+
+    it('replaces and removes patterns by ID', () => {
+        const rules = new PatternSet();
+        rules.add('rule', '(a+)+$');
+        rules.add('rule', 'b');
+        expect(rules.rejected()).toEqual([]);
+        expect(rules.match('abc').ids).toEqual(['rule']);
+
+        expect(rules.remove('rule')).toBe(true);
+        expect(rules.remove('rule')).toBe(false);
+        expect(rules.match('abc').ids).toEqual([]);
+    });
+
+    it('uses the SafeRegex configuration', () => {
+        const onBlock = vi.fn();
+        const rules = new PatternSet({ safeRegex: new SafeRegex({ engine: 'auto', maxLength: 10, onBlock }) });
+        expect(rules.add('risky', '^(a|a)*$').safe).toBe(true);
+        expect(rules.add('long', 'x'.repeat(20)).reason).toBe('pattern_too_long');
+        expect(onBlock).toHaveBeenCalledTimes(1);
+        expect(rules.match('a'.repeat(10000)).ids).toEqual(['risky']);
+    });
+
+    it('rejects patterns too large to compile', () => {
+        const rules = new PatternSet();
+        const result = rules.add('huge', 'x{100001}');
+        expect(result.reason).toBe('pattern_too_long');
+        expect(rules.rejected()[0].error).toContain('instructions');
+    });
+
+    it('matches many patterns in one pass', () => {
+        const rules = new PatternSet();
+        for (let i = 0; i < 300; i++) {
+            rules.add(`user${i}`, `\\buser${i}\\b`);
+        }
+        const input = 'login from user1 and user42, '.repeat(2000);
+        expect(rules.match(input).ids).toEqual(['user1', 'user42']);
+    });
+
+    it('stops when the time budget runs out', () => {
+        const rules = new PatternSet({ timeoutMs: 20 });
+        rules.add('found', '^a');
+        rules.add('slow', '^(\\w+)\\s\\1$');
+        const result = rules.match('a'.repeat(20000));
+        expect(result.reason).toBe('execution_timeout');
+        expect(result.ids).toEqual(['found']);
+        expect(result.error).toContain('20ms');
+    });
+});
@@ -4,6 +4,7 @@ import {
     DEFAULT_CONFIG,
     analyzePattern,
     quickSafetyCheck,
+    parsePattern,
     SafeRegex,
     createSafeRegex,
     globToSafeRegex,
@@ -31,6 +32,11 @@ describe('pressurelid exports', () => {
         expect(quickSafetyCheck('hello')).toBe(true);
     });
 
+    it('should export parsePattern', () => {
+        expect(typeof parsePattern).toBe('function');
+        expect(parsePattern('a+').type).toBe('Pattern');
+    });
+
     it('should export SafeRegex class', () => {
         expect(SafeRegex).toBeDefined();
         const instance = new SafeRegex();
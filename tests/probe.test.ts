@@ -0,0 +1,124 @@
+import { afterAll, describe, it, expect, vi } from 'vitest';
+import { probePattern } from '../src/probe';
+import { RegexWorkerPool } from '../src/worker-pool';
+import { SafeRegex } from '../src/safe-regex';
+import { MeasuredExecResult } from '../src/types';
+
+/**
+ * A pool whose matches take `cost(length)` milliseconds, stopping those
+ * over the timeout as a real pool would.
+ */
+function fakePool(cost: (length: number) => number) {
+    const measure = vi.fn(async (_regex: RegExp, input: string, timeoutMs: number): Promise<MeasuredExecResult> => {
+        const elapsedMs = cost(input.length);
+        return elapsedMs > timeoutMs
+            ? { matched: false, reason: 'execution_timeout', error: `Regex execution timed out after ${timeoutMs}ms` }
+            : { matched: false, reason: 'ok', elapsedMs };
+    });
+    return { pool: { measure } as unknown as RegexWorkerPool, measure };
+}
+
+describe('probePattern', () => {
+    const pool = new RegexWorkerPool({ size: 1 });
+
+    afterAll(async () => {
+        await pool.close();
+    });
+
+    it('measures exponential growth on a worker', async () => {
+        const probe = await probePattern('^(a+)+$', '', { workerPool: pool, timeoutMs: 100 });
+        expect(probe.complexity).toEqual({ type: 'exponential' });
+        expect(probe.input).toEqual({ prefix: 'a', pump: 'a', suffix: 'b' });
+        expect(probe.measurements[probe.measurements.length - 1].timedOut).toBe(true);
+    });
+
+    it('measures linear growth on a worker', async () => {
+        const probe = await probePattern('^\\d+$', '', { workerPool: pool, maxLength: 2000 });
+        expect(probe.complexity).toEqual({ type: 'linear' });
+        expect(probe.measurements.every((measurement) => !measurement.timedOut)).toBe(true);
+        expect(probe.measurements[probe.measurements.length - 1].length).toBeLessThanOrEqual(2000);
+    });
+
+    it('fits the degree of polynomial growth', async () => {
+        const { pool: quadratic } = fakePool((length) => length ** 2 / 1e6);
+        const probe = await probePattern('^a*a*$', '', { workerPool: quadratic });
+        expect(probe.complexity).toEqual({ type: 'polynomial', degree: 2 });
+        expect(probe.exponent).toBeCloseTo(2, 5);
+
+        const { pool: cubic } = fakePool((length) => length ** 3 / 1e9);
+        expect((await probePattern('^a*a*a*$', '', { workerPool: cubic })).complexity)
+            .toEqual({ type: 'polynomial', degree: 3 });
+    });
+
+    it('bounds the exponent from a stopped match', async () => {
+        const { pool: slow } = fakePool((length) => (length > 40 ? Infinity : length / 1000));
+        const probe = await probePattern('^a+$', '', { workerPool: slow, timeoutMs: 50 });
+        expect(probe.complexity).toEqual({ type: 'exponential' });
+        expect(probe.measurements.map((measurement) => measurement.timedOut)).toEqual([false, false, false, false, true]);
+    });
+
+    it('pumps the characters of the pattern after its leading text', async () => {
+        const { pool: flat, measure } = fakePool(() => 0.001);
+        const probe = await probePattern('^id-[0-9]+[a-f]$', '', { workerPool: flat, maxLength: 10 });
+        const inputs = new Set(measure.mock.calls.map(([, input]) => input));
+        expect(inputs).toEqual(new Set(['id-iiii!', 'id-dddd!', 'id-----!', 'id-0000!', 'id-aaaa!', 'id-id-0a!']));
+        expect(probe.complexity).toEqual({ type: 'linear' });
+    });
+
+    it('stops at the time budget', async () => {
+        vi.useFakeTimers();
+        try {
+            const { pool: clock } = fakePool((length) => {
+                vi.advanceTimersByTime(10);
+                return length / 1000;
+            });
+            const probe = await probePattern('^a+$', '', { workerPool: clock, budgetMs: 30 });
+            expect(probe.measurements).toHaveLength(3);
+            expect(probe.durationMs).toBe(30);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it('reports patterns that cannot be run', async () => {
+        const probe = await probePattern('(', '', { workerPool: pool });
+        expect(probe).toMatchObject({ measurements: [], error: expect.stringContaining('Invalid regex syntax') });
+        expect(probe.complexity).toBeUndefined();
+    });
+});
+
+describe('SafeRegex.createWithProbe()', () => {
+    it('accepts borderline patterns whose measured growth is within the limit', async () => {
+        const { pool, measure } = fakePool((length) => length ** 2 / 1e6);
+        const result = await new SafeRegex({ workerPool: pool }).createWithProbe('^a*a*$');
+        expect(result.safe).toBe(true);
+        expect(result.probe?.complexity).toEqual({ type: 'polynomial', degree: 2 });
+        expect(measure).toHaveBeenCalled();
+    });
+
+    it('blocks patterns measured to grow faster than the analysis found', async () => {
+        const onBlock = vi.fn();
+        const { pool } = fakePool((length) => length ** 3 / 1e9);
+        const safe = new SafeRegex({ workerPool: pool, onBlock, probe: { maxLength: 1000 } });
+        const result = await safe.createWithProbe('^(\\w+)-\\1$');
+        expect(result).toMatchObject({
+            safe: false,
+            reason: 'measured_backtracking',
+            error: 'Pattern showed O(n^3) growth when probed',
+            complexity: { type: 'polynomial', degree: 3 },
+        });
+        expect(result.regex).toBeUndefined();
+        expect(result.probe?.measurements[result.probe.measurements.length - 1].length).toBeLessThanOrEqual(1000);
+        expect(onBlock).toHaveBeenCalledWith('Pattern showed O(n^3) growth when probed', '^(\\w+)-\\1$');
+    });
+
+    it('does not probe linear, rejected or linear-engine patterns', async () => {
+        const { pool, measure } = fakePool(() => 0.001);
+        const safe = new SafeRegex({ workerPool: pool });
+        expect((await safe.createWithProbe('^\\d+$')).probe).toBeUndefined();
+        expect((await safe.createWithProbe('(a+)+$')).reason).toBe('nested_quantifiers');
+        safe.configure({ engine: 'linear' });
+        expect((await safe.createWithProbe('^a*a*$')).engine).toBe('linear');
+        expect(measure).not.toHaveBeenCalled();
+    });
+});
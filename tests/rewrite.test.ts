@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { suggestRewrites } from '../src/rewrite';
+import { SafeRegex } from '../src/safe-regex';
+
+/** Every string over the alphabet up to the given length */
+function strings(alphabet: string, maxLength: number): string[] {
+    const result = [''];
+    for (let i = 0; i < result.length && result[i].length < maxLength; i++) {
+        for (const char of alphabet) {
+            result.push(result[i] + char);
+        }
+    }
+    return result;
+}
+
+function rewrite(pattern: string, flags?: string) {
+    const suggestions = suggestRewrites(pattern, flags);
+    expect(suggestions).toHaveLength(1);
+    return suggestions[0];
+}
+
+describe('suggestRewrites', () => {
+    it.each([
+        ['^(a+)+$', '^a+$'],
+        ['^((a+)+)+$', '^a+$'],
+        ['^(a{2,})*$', '^(?:a{2,})?$'],
+        ['^(x+x+)+y$', '^x{2,}y$'],
+        ['^(\\d+|\\w+)+$', '^[\\d\\w]+$'],
+        ['^a*a*a*b', '^a*b'],
+        ['^(\\w|\\d)+$', '^([\\w\\d])+$'],
+        ['^(?:a|a)+$', '^(?:a)+$'],
+    ])('rewrites %s to %s', (pattern, expected) => {
+        const suggestion = rewrite(pattern);
+        expect(suggestion.pattern).toBe(expected);
+        expect(suggestion.preservesLanguage).toBe(true);
+        expect(suggestion.complexity).toEqual({ type: 'linear' });
+    });
+
+    it('keeps the language of exact rewrites', () => {
+        const inputs = strings('ab1_', 6);
+        for (const pattern of ['^(a+)+$', '^(a{2,})*$', '^(a+|b*)+$', '^(a*a*)+b$', '^(\\w|\\d|a)+$', '^(a|ab|abb)+1$']) {
+            const suggestions = suggestRewrites(pattern, undefined, { maxPolynomialDegree: 1 });
+            const original = new RegExp(pattern);
+            const rewritten = new RegExp(suggestions[0].pattern);
+            expect(suggestions[0].preservesLanguage).toBe(true);
+            for (const input of inputs) {
+                expect(rewritten.test(input), `${pattern} on ${input}`).toBe(original.test(input));
+            }
+        }
+    });
+
+    it('factors out common prefixes', () => {
+        expect(rewrite('^(a|ab)+$').pattern).toBe('^(ab?)+$');
+        expect(rewrite('^(?:xa|xb+|xab)$').pattern).toBe('^(?:x(?:a|b+|ab))$');
+        expect(rewrite('^(?:ab|abc|abd)+$').pattern).toBe('^(?:ab(?:[cd])?)+$');
+    });
+
+    it('describes each change', () => {
+        expect(rewrite('^((a+)+)+$').description)
+            .toBe('Collapse nested quantifiers: ((a+)+)+ → (a+)+; Collapse nested quantifiers: (a+)+ → a+');
+    });
+
+    it('stops wildcards at the following character when exact rewrites are not enough', () => {
+        const suggestion = rewrite('(.*a){20}');
+        expect(suggestion.pattern).toBe('([^a\\n\\r\\u2028\\u2029]*a){20}');
+        expect(suggestion.preservesLanguage).toBe(false);
+        expect(rewrite('(.*,){12}X', 's').pattern).toBe('([^,]*,){12}X');
+    });
+
+    it('keeps capturing groups when the pattern has backreferences', () => {
+        expect(rewrite('^(a{2,})*(b)\\2$')).toMatchObject({ pattern: '^(a{2,})?(b)\\2$', preservesLanguage: true });
+    });
+
+    it('changes the language when collapsing a group a backreference refers to', () => {
+        for (const [pattern, expected] of [['^(a+)+\\1$', '^(a+)\\1$'], ['^(?<n>a+)+\\k<n>$', '^(?<n>a+)\\k<n>$']]) {
+            const suggestion = rewrite(pattern);
+            expect(suggestion).toMatchObject({ pattern: expected, preservesLanguage: false });
+            expect(new RegExp(pattern).test('aaa')).toBe(true);
+            expect(new RegExp(suggestion.pattern).test('aaa')).toBe(false);
+        }
+    });
+
+    it('escapes characters merged into a class', () => {
+        expect(rewrite('^(\\w|-|\\])+$').pattern).toBe('^([\\w\\-\\]])+$');
+        expect(rewrite('^(\\w|&|[.x])+$', 'v').pattern).toBe('^([\\w\\&\\.x])+$');
+    });
+
+    it('returns nothing for safe, invalid or unfixable patterns', () => {
+        expect(suggestRewrites('^abc$')).toEqual([]);
+        expect(suggestRewrites('(')).toEqual([]);
+        expect(suggestRewrites('^(\\s*,\\s*)*$')).toEqual([]);
+    });
+});
+
+describe('SafeRegex suggestions', () => {
+    it('attaches suggestions to patterns rejected for backtracking', () => {
+        const result = new SafeRegex().create('^(a+)+$');
+        expect(result.safe).toBe(false);
+        expect(result.suggestions).toEqual([{
+            pattern: '^a+$',
+            preservesLanguage: true,
+            description: 'Collapse nested quantifiers: (a+)+ → a+',
+            complexity: { type: 'linear' },
+        }]);
+    });
+
+    it('leaves suggestions off other results', () => {
+        const safe = new SafeRegex({ maxLength: 10 });
+        expect(safe.create('^a+$').suggestions).toBeUndefined();
+        expect(safe.create('(').suggestions).toBeUndefined();
+        expect(safe.create('a'.repeat(11)).suggestions).toBeUndefined();
+    });
+
+    it('only suggests patterns within maxLength', () => {
+        expect(new SafeRegex({ maxLength: 12 }).create('(.*a){20}').suggestions).toEqual([]);
+    });
+});
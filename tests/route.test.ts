@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeRoute } from '../src/route';
+
+describe('analyzeRoute', () => {
+    it('compiles routes as path-to-regexp does', () => {
+        expect(analyzeRoute('/users/:id').pattern).toBe('^\\/users(?:\\/([^\\/#\\?]+?))[\\/#\\?]?$');
+        expect(analyzeRoute('/users/:id(\\d+)?').pattern).toBe('^\\/users(?:\\/(\\d+))?[\\/#\\?]?$');
+        expect(analyzeRoute('/:path+').pattern).toBe('^(?:\\/((?:[^\\/#\\?]+?)(?:\\/(?:[^\\/#\\?]+?))*))[\\/#\\?]?$');
+        expect(analyzeRoute('/files/*').pattern).toBe('^\\/files(?:\\/(.*))[\\/#\\?]?$');
+        expect(analyzeRoute('/a\\:b{.:ext}?').pattern).toBe('^\\/a:b(?:\\.([^\\/#\\?]+?))?[\\/#\\?]?$');
+        expect(analyzeRoute('/users/:id').flags).toBe('i');
+    });
+
+    it('compiles URLPattern pathnames', () => {
+        const analysis = analyzeRoute('/api/{v:version}?/*', { syntax: 'urlpattern' });
+        expect(analysis.pattern).toBe('^\\/api\\/(?:v([^\\/]+?))?(?:\\/(.*))$');
+        expect(analysis.flags).toBe('u');
+        expect(analysis.params).toEqual([
+            { name: 'version', pattern: '[^\\/]+?', modifier: '?', start: 5, end: 17 },
+            { name: '0', pattern: '.*', modifier: '', start: 17, end: 19 },
+        ]);
+    });
+
+    it('names the adjacent parameters that backtrack against each other', () => {
+        const analysis = analyzeRoute('/files/:name-:ext');
+        expect(analysis.safe).toBe(true);
+        expect(analysis.complexity).toEqual({ type: 'polynomial', degree: 2 });
+        expect(analysis.findings).toEqual([
+            expect.objectContaining({
+                ruleId: 'polynomial-backtracking',
+                severity: 'warning',
+                params: ['name', 'ext'],
+                routeStart: 6,
+                routeEnd: 17,
+            }),
+        ]);
+
+        const strict = analyzeRoute('/:a.:b', { syntax: 'urlpattern', maxPolynomialDegree: 1 });
+        expect(strict).toMatchObject({ safe: false, reason: 'catastrophic_backtracking' });
+        expect(strict.findings[0].params).toEqual(['a', 'b']);
+    });
+
+    it('rejects three parameters in one segment', () => {
+        const analysis = analyzeRoute('/:a-:b-:c');
+        expect(analysis.complexity).toEqual({ type: 'polynomial', degree: 3 });
+        expect(analysis.findings[0]).toMatchObject({ severity: 'error', params: ['a', 'b', 'c'], routeStart: 0, routeEnd: 9 });
+    });
+
+    it('reports custom patterns that backtrack on their own', () => {
+        const analysis = analyzeRoute('/tags/:tags((?:\\w+,?)+)/edit');
+        expect(analysis).toMatchObject({ safe: false, reason: 'nested_quantifiers' });
+        expect(analysis.findings[0]).toMatchObject({ params: ['tags'], routeStart: 5, routeEnd: 23 });
+        expect(analyzeRoute('/files/:path(.*)-:ext(\\w+)').safe).toBe(true);
+    });
+
+    it('applies the feature policy to the compiled regex', () => {
+        const analysis = analyzeRoute('/:id(\\d+)', { features: { unboundedQuantifiers: false } });
+        expect(analysis.reason).toBe('feature_not_allowed');
+        expect(analysis.findings[0]).toMatchObject({ expression: '\\d+', params: ['id'] });
+    });
+
+    it.each([
+        ['/:', 'Missing parameter name at 1', 1, 2],
+        ['/(a', 'Unbalanced pattern at 1', 1, 3],
+        ['/:a(b(c))', 'Capturing groups are not allowed at 5', 5, 6],
+        ['/:a(?:b)', "Pattern cannot start with '?' at 4", 4, 5],
+        ['/:a()', 'Missing pattern at 3', 3, 5],
+        ['/{abc', "Unexpected end of route at 5, expected '}'", 5, 5],
+        ['/a?', "Unexpected '?' at 2, expected end of route", 2, 3],
+        ['/a\\', 'Trailing escape at 2', 2, 3],
+    ])('reports invalid route %s', (route, message, start, end) => {
+        const analysis = analyzeRoute(route);
+        expect(analysis).toMatchObject({ safe: false, reason: 'invalid_syntax', message: `Invalid route syntax: ${message}` });
+        expect(analysis.pattern).toBeUndefined();
+        expect(analysis.findings[0]).toMatchObject({ ruleId: 'invalid-syntax', start, end, routeStart: start, routeEnd: end });
+    });
+});
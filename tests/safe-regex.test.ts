@@ -1,5 +1,7 @@
 import { describe, it, expect, vi } from 'vitest';
 import { SafeRegex, createSafeRegex, globToSafeRegex, escapeForRegex } from '../src/safe-regex';
+import { RegexCache } from '../src/cache';
+import { InputTooLongError } from '../src/errors';
 import { REDOS_VECTORS, SAFE_PATTERNS } from './fixtures/redos-vectors';
 
 describe('SafeRegex', () => {
@@ -45,6 +47,16 @@ describe('SafeRegex', () => {
             expect(result.regex?.flags).toContain('g');
             expect(result.regex?.flags).toContain('i');
         });
+
+        it('should expose analysis findings', () => {
+            const safe = new SafeRegex();
+            const blocked = safe.create('^\\d+-(a|aa)*$');
+            expect(blocked.findings).toEqual([
+                expect.objectContaining({ ruleId: 'overlapping-alternation', start: 5, end: 12, expression: '(a|aa)*' }),
+            ]);
+            expect(safe.create('\\w+\\d+').findings?.[0].severity).toBe('warning');
+            expect(safe.create('abc').findings).toBeUndefined();
+        });
     });
 
     describe('testWithTimeout()', () => {
@@ -86,10 +98,11 @@ describe('SafeRegex', () => {
 
         it('should convert ** globstar', () => {
             const safe = new SafeRegex();
-            const result = safe.globToRegex('**.md');
+            const result = safe.globToRegex('**/*.md');
             expect(result.safe).toBe(true);
             expect(result.regex?.test('readme.md')).toBe(true);
             expect(result.regex?.test('docs/readme.md')).toBe(true);
+            expect(result.regex?.test('docs/guide/readme.md')).toBe(true);
         });
 
         it('should convert ? wildcard', () => {
@@ -150,6 +163,142 @@ describe('SafeRegex', () => {
         });
     });
 
+    describe('events', () => {
+        it('emits created and blocked with the reason and findings', () => {
+            const created = vi.fn();
+            const blocked = vi.fn();
+            const safe = new SafeRegex({ maxLength: 20 }).on('created', created).on('blocked', blocked);
+            safe.create('^\\w+\\s*\\w+$', 'i');
+            // codeql[js/redos]: Intentional ReDoS test vector - pattern is blocked before execution
+            safe.create('^(a+)+$');
+            safe.create('a'.repeat(21));
+            safe.globToRegex('*.ts');
+
+            expect(created.mock.calls.map(([event]) => event)).toEqual([
+                expect.objectContaining({
+                    pattern: '^\\w+\\s*\\w+$',
+                    flags: 'i',
+                    engine: 'native',
+                    complexity: { type: 'polynomial', degree: 2 },
+                    findings: [expect.objectContaining({ ruleId: 'polynomial-backtracking' })],
+                    cached: false,
+                    durationMs: expect.any(Number),
+                }),
+                expect.objectContaining({ pattern: '*.ts', flags: 'i', findings: [] }),
+            ]);
+            expect(blocked.mock.calls.map(([event]) => [event.reason, event.findings.length])).toEqual([
+                ['nested_quantifiers', 1],
+                ['pattern_too_long', 0],
+            ]);
+            expect(blocked.mock.calls[0][0]).toMatchObject({ pattern: '^(a+)+$', flags: '', complexity: { type: 'exponential' } });
+        });
+
+        it('emits cacheHit before the result of a cached check', () => {
+            const events: string[] = [];
+            const safe = new SafeRegex({ cache: new RegexCache() })
+                .on('cacheHit', ({ safe: ok, reason }) => events.push(`cacheHit ${ok} ${reason}`))
+                .on('created', ({ cached }) => events.push(`created ${cached}`));
+            safe.create('^a$');
+            safe.create('^a$');
+            expect(events).toEqual(['created false', 'cacheHit true ok', 'created true']);
+        });
+
+        it('emits executed for every execution method and timeout when a limit stops it', async () => {
+            const executed = vi.fn();
+            const timeout = vi.fn();
+            const safe = new SafeRegex({ maxBacktrackDepth: 1000, maxInputLength: 100 })
+                .on('executed', executed)
+                .on('timeout', timeout);
+            await safe.testWithTimeout(/a/, 'a');
+            safe.testBounded(/^(a+)+$/, `${'a'.repeat(30)}b`);
+            safe.execBounded(/a/, 'b');
+            await safe.execWithTimeout(/a/, 'a');
+            await safe.matchAllWithTimeout(/a/g, 'aa');
+            await safe.replaceWithTimeout(/a/g, 'aa', 'b');
+            await safe.splitWithTimeout(/,/, 'a,b');
+            await expect(safe.testWithTimeout(/a/, 'a'.repeat(101))).rejects.toThrow();
+
+            expect(executed.mock.calls.map(([event]) => [event.operation, event.reason, event.matched])).toEqual([
+                ['testWithTimeout', 'ok', true],
+                ['testBounded', 'backtrack_limit', false],
+                ['execBounded', 'ok', false],
+                ['execWithTimeout', 'ok', true],
+                ['matchAllWithTimeout', 'ok', true],
+                ['replaceWithTimeout', 'ok', true],
+                ['splitWithTimeout', 'ok', true],
+                ['testWithTimeout', 'input_too_long', false],
+            ]);
+            expect(executed.mock.calls[1][0]).toMatchObject({ pattern: '^(a+)+$', flags: '', inputLength: 31 });
+            expect(timeout).toHaveBeenCalledTimes(1);
+            expect(timeout.mock.calls[0][0]).toMatchObject({ operation: 'testBounded', reason: 'backtrack_limit', limit: 1000 });
+        });
+
+        it('stops calling listeners removed with off()', () => {
+            const listener = vi.fn();
+            const safe = new SafeRegex().on('created', listener);
+            safe.create('a');
+            safe.off('created', listener).off('blocked', listener);
+            safe.create('b');
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('input limits', () => {
+        const quadratic = /^\w+\s*\w+$/;
+
+        it('derives the input limit from the complexity budget', () => {
+            const safe = new SafeRegex({ inputComplexityBudget: 1_000_000 });
+            expect(safe.maxInputLengthFor(/^\d+$/)).toBe(Infinity);
+            expect(safe.maxInputLengthFor(quadratic)).toBe(1000);
+            expect(safe.maxInputLengthFor(/(a*)*a*a*$/)).toBe(19);
+            expect(safe.maxInputLengthFor(new SafeRegex({ engine: 'linear' }).create('(a+)+$').regex!)).toBe(Infinity);
+            expect(new SafeRegex({ inputComplexityBudget: 1_000_000, maxInputLength: 500 }).maxInputLengthFor(quadratic)).toBe(500);
+            expect(new SafeRegex().maxInputLengthFor(quadratic)).toBe(Infinity);
+        });
+
+        it('rejects oversized inputs before matching', async () => {
+            const onWarning = vi.fn();
+            const safe = new SafeRegex({ maxInputLength: 10, onWarning });
+            const input = 'a'.repeat(11);
+            const error = 'Input of 11 characters exceeds the limit of 10 for this pattern';
+            await expect(safe.testWithTimeout(/a/, input)).rejects.toThrow(error);
+            expect(await safe.testInWorker(/a/, input)).toEqual({ matched: false, reason: 'input_too_long', error });
+            expect(safe.testBounded(/a/, input)).toEqual({ matched: false, reason: 'input_too_long', error });
+            expect(await safe.execWithTimeout(/a/, input)).toMatchObject({ reason: 'input_too_long', match: null });
+            expect(await safe.matchAllWithTimeout(/a/g, input)).toMatchObject({ reason: 'input_too_long', matches: [] });
+            expect(await safe.replaceWithTimeout(/a/g, input, 'b')).toEqual({
+                matched: false, reason: 'input_too_long', error, replacements: 0, truncated: false,
+            });
+            expect(await safe.splitWithTimeout(/a/, input)).toMatchObject({ reason: 'input_too_long', parts: [] });
+            expect(onWarning).toHaveBeenCalledWith(error, 'a');
+            expect(await safe.testWithTimeout(/a/, 'a'.repeat(10))).toBe(true);
+        });
+
+        it('rejects oversized inputs to every method with oversizedInput: truncate', async () => {
+            const safe = new SafeRegex({ maxInputLength: 10, oversizedInput: 'truncate' });
+            const input = '1234567890x; DROP';
+            await expect(safe.execWithTimeout(/^\d+$/, input)).resolves.toMatchObject({ matched: false, reason: 'input_too_long', match: null });
+            await expect(safe.matchWithTimeout(/\d+/, input)).resolves.toMatchObject({ reason: 'input_too_long', match: null });
+            await expect(safe.matchAllWithTimeout(/\d/g, input)).resolves.toMatchObject({ reason: 'input_too_long', matches: [] });
+            const replaced = await safe.replaceWithTimeout(/\d/g, input, '#');
+            expect(replaced).toMatchObject({ reason: 'input_too_long', replacements: 0 });
+            expect(replaced.output).toBeUndefined();
+            await expect(safe.splitWithTimeout(/;/, input)).resolves.toMatchObject({ reason: 'input_too_long', parts: [] });
+            expect(safe.execBounded(/^\d+$/, input)).toMatchObject({ matched: false, reason: 'input_too_long', match: null });
+            expect(await safe.execWithTimeout(/^\d+$/, '1234567890')).toMatchObject({ matched: true, reason: 'ok' });
+        });
+
+        it('rejects oversized inputs to the test methods with oversizedInput: truncate', async () => {
+            const safe = new SafeRegex({ maxInputLength: 5, oversizedInput: 'truncate' });
+            const input = '12345; DROP TABLE';
+            const error = 'Input of 17 characters exceeds the limit of 5 for this pattern';
+            await expect(safe.testWithTimeout(/^\d+$/, input)).rejects.toThrow(InputTooLongError);
+            expect(await safe.testInWorker(/^\d+$/, input)).toEqual({ matched: false, reason: 'input_too_long', error });
+            expect(safe.testBounded(/^\d+$/, input)).toEqual({ matched: false, reason: 'input_too_long', error });
+            expect(await safe.testWithTimeout(/^\d+$/, '12345')).toBe(true);
+        });
+    });
+
     describe('configure()', () => {
         it('should update configuration', () => {
             const safe = new SafeRegex();
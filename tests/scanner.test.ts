@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { extractRegexes, scanSource } from '../src/scanner';
+import { COMPONENT_TSX } from './fixtures/jsx-component';
+
+function patterns(source: string): string[] {
+    return extractRegexes(source).map((regex) => `${regex.kind}:${regex.pattern}/${regex.flags}`);
+}
+
+describe('extractRegexes', () => {
+    it('finds regex literals with their flags', () => {
+        expect(patterns('const a = /ab+c/gi; const b = /x/;')).toEqual(['literal:ab+c/gi', 'literal:x/']);
+    });
+
+    it('tells regexes from divisions', () => {
+        expect(patterns('const a = x / 2 / y;')).toEqual([]);
+        expect(patterns('const a = (x) / 2 / (y);')).toEqual([]);
+        expect(patterns('const a = arr[0] / 2 / arr[1];')).toEqual([]);
+        expect(patterns('i++ / 2 / j;')).toEqual([]);
+        expect(patterns('const a = 1e+5 / 2 / 3;')).toEqual([]);
+        expect(patterns('return /a/.test(s);')).toEqual(['literal:a/']);
+        expect(patterns('x = y ? /a/ : /b/;')).toEqual(['literal:a/', 'literal:b/']);
+        expect(patterns('f(/a/, [/b/], { c: /c/ });')).toEqual(['literal:a/', 'literal:b/', 'literal:c/']);
+        expect(patterns('if (ok) { run(); }\n/re/.test(s);')).toEqual(['literal:re/']);
+        expect(patterns('const f = (s) => /x/.test(s);')).toEqual(['literal:x/']);
+    });
+
+    it('does not read JSX closing tags as regexes', () => {
+        expect(patterns(COMPONENT_TSX)).toEqual(['literal:^[a-z0-9-]+$/']);
+        expect(scanSource(COMPONENT_TSX, { fileName: 'src/Card.tsx' }).findings).toEqual([]);
+    });
+
+    it('reads slashes inside classes and escapes as part of the regex', () => {
+        expect(patterns('const a = /[/]+\\/x/;')).toEqual(['literal:[/]+\\/x/']);
+    });
+
+    it('skips comments, strings and template text', () => {
+        const source = [
+            '#!/usr/bin/env node',
+            '// a /comment/',
+            '/* block /comment/ */',
+            'const s = "/not/" + \'/regex/\';',
+            'const t = `/not/ ${ /yes/ } /${ {a: /nested/}.a }/`;',
+        ].join('\n');
+        expect(patterns(source)).toEqual(['literal:yes/', 'literal:nested/']);
+    });
+
+    it('finds RegExp calls with constant patterns', () => {
+        expect(patterns([
+            "new RegExp('a+', 'g');",
+            'RegExp("b+");',
+            'new RegExp(`c+`, `u`,);',
+            'new RegExp(String.raw`\\d+`);',
+            "new RegExp('e+', flags);",
+        ].join('\n'))).toEqual([
+            'constructor:a+/g',
+            'constructor:b+/',
+            'constructor:c+/u',
+            'constructor:\\d+/',
+            'constructor:e+/',
+        ]);
+    });
+
+    it('skips RegExp calls with dynamic patterns', () => {
+        expect(patterns([
+            'new RegExp(pattern);',
+            "new RegExp('a' + b);",
+            'new RegExp(`a${b}`);',
+            "lib.RegExp('a');",
+            'const r: RegExp = x;',
+        ].join('\n'))).toEqual([]);
+    });
+
+    it('decodes escapes in string patterns', () => {
+        const [regex] = extractRegexes("new RegExp('\\\\d\\x2B\\u{41}\\n\\\r\n')");
+        expect(regex.pattern).toBe('\\d+A\n');
+    });
+
+    it('reports 1-based lines and columns', () => {
+        const [literal, call] = extractRegexes('\n  const a = /x/;\r\nconst b = RegExp("y");');
+        expect(literal).toMatchObject({ line: 2, column: 13 });
+        expect(call).toMatchObject({ line: 3, column: 18 });
+    });
+});
+
+describe('scanSource', () => {
+    const source = [
+        'const id = /^\\d+$/;',
+        "const email = new RegExp('^([a-z\\\\d]+\\\\.?)+@example\\\\.com$');",
+        'const pair = /^\\s*-?\\s*$/;',
+        'const broken = new RegExp("([a-z]");',
+    ].join('\n');
+    const result = scanSource(source, { fileName: 'src/validate.ts' });
+
+    it('analyzes every regex found', () => {
+        expect(result.regexes.map((regex) => regex.analysis.safe)).toEqual([true, false, true, false]);
+        expect(result.regexes[0]).toMatchObject({ kind: 'literal', pattern: '^\\d+$', line: 1, column: 12 });
+    });
+
+    it('locates findings in literals', () => {
+        const finding = result.findings.find((candidate) => candidate.ruleId === 'polynomial-backtracking')!;
+        expect(finding).toMatchObject({
+            file: 'src/validate.ts',
+            severity: 'warning',
+            expression: '\\s*-?\\s*',
+            line: 3,
+            column: 16,
+            endLine: 3,
+            endColumn: 24,
+        });
+    });
+
+    it('locates findings in strings through escapes', () => {
+        const finding = result.findings.find((candidate) => candidate.ruleId === 'nested-quantifiers')!;
+        expect(finding).toMatchObject({
+            pattern: '^([a-z\\d]+\\.?)+@example\\.com$',
+            expression: '([a-z\\d]+\\.?)+',
+            line: 2,
+            column: 28,
+            endColumn: 44,
+        });
+        expect(source.split('\n')[1].slice(finding.column - 1, finding.endColumn - 1)).toBe("([a-z\\\\d]+\\\\.?)+");
+    });
+
+    it('reports invalid patterns', () => {
+        expect(result.findings.at(-1)).toMatchObject({ ruleId: 'invalid-syntax', line: 4 });
+    });
+
+    it('honors maxPolynomialDegree', () => {
+        const strict = scanSource('const pair = /^\\s*-?\\s*$/;', { maxPolynomialDegree: 1 });
+        expect(strict.regexes[0].analysis.safe).toBe(false);
+        expect(strict.findings[0]).toMatchObject({ severity: 'error' });
+        expect(strict.findings[0].file).toBeUndefined();
+    });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { auditSchema, extractSchemaPatterns } from '../src/schema';
+import { SafeRegex } from '../src/safe-regex';
+
+describe('extractSchemaPatterns', () => {
+    it('finds patterns through subschema keywords only', () => {
+        const { patterns } = extractSchemaPatterns({
+            type: 'object',
+            properties: {
+                pattern: { type: 'string', pattern: '^a$' },
+                tags: { type: 'array', items: { pattern: '^b$' } },
+            },
+            patternProperties: { '^x-': { type: 'string' } },
+            allOf: [{ not: { pattern: '^c$' } }],
+            if: { properties: { 'a/b~c': { pattern: '^d$' } } },
+            examples: [{ pattern: '^ignored$' }],
+            default: { pattern: '^ignored$' },
+            enum: [{ pattern: '^ignored$' }],
+        });
+        expect(patterns).toEqual([
+            { pointer: '/properties/pattern/pattern', keyword: 'pattern', pattern: '^a$' },
+            { pointer: '/properties/tags/items/pattern', keyword: 'pattern', pattern: '^b$' },
+            { pointer: '/patternProperties/^x-', keyword: 'patternProperties', pattern: '^x-' },
+            { pointer: '/allOf/0/not/pattern', keyword: 'pattern', pattern: '^c$' },
+            { pointer: '/if/properties/a~1b~0c/pattern', keyword: 'pattern', pattern: '^d$' },
+        ]);
+    });
+
+    it('follows local references once and locates targets where they are defined', () => {
+        const { patterns, unresolvedRefs } = extractSchemaPatterns({
+            properties: {
+                a: { $ref: '#/$defs/code' },
+                b: { $ref: '#/$defs/code' },
+                c: { $ref: '#/x-shared/slug' },
+                d: { $ref: '#zip' },
+                e: { $ref: 'other.json#/code' },
+                f: { $ref: '#/$defs/missing' },
+            },
+            $defs: {
+                code: { pattern: '^[A-Z]{3}$' },
+                zip: { $anchor: 'zip', pattern: '^\\d{5}$' },
+            },
+            'x-shared': { slug: { pattern: '^[a-z-]+$' } },
+        });
+        expect(patterns.map((found) => found.pointer)).toEqual([
+            '/$defs/code/pattern',
+            '/$defs/zip/pattern',
+            '/x-shared/slug/pattern',
+        ]);
+        expect(unresolvedRefs).toEqual([
+            { pointer: '/properties/e', ref: 'other.json#/code' },
+            { pointer: '/properties/f', ref: '#/$defs/missing' },
+        ]);
+    });
+
+    it('survives recursive schemas', () => {
+        const node: Record<string, unknown> = { pattern: '^n$' };
+        node.items = node;
+        const { patterns } = extractSchemaPatterns({ properties: { tree: { $ref: '#' } }, items: node });
+        expect(patterns).toHaveLength(1);
+    });
+
+    it('walks OpenAPI documents through their schemas', () => {
+        const { patterns } = extractSchemaPatterns({
+            openapi: '3.0.3',
+            paths: {
+                '/items': {
+                    get: {
+                        parameters: [{ $ref: '#/components/parameters/Id' }],
+                        responses: {
+                            default: {
+                                content: {
+                                    'application/json': {
+                                        schema: { $ref: '#/components/schemas/Item' },
+                                        example: { pattern: '^ignored$' },
+                                    },
+                                },
+                            },
+                        },
+                        'x-internal': { schema: { pattern: '^ignored$' } },
+                    },
+                },
+            },
+            components: {
+                schemas: { Item: { properties: { sku: { pattern: '^SKU-\\d+$' } } } },
+                parameters: { Id: { name: 'id', in: 'query', schema: { pattern: '^\\d+$' } } },
+            },
+        });
+        expect(patterns.map((found) => found.pointer)).toEqual([
+            '/components/schemas/Item/properties/sku/pattern',
+            '/components/parameters/Id/schema/pattern',
+        ]);
+    });
+});
+
+describe('auditSchema', () => {
+    const schema = {
+        $defs: { name: { type: 'string', pattern: '^([a-z]+)+$' } },
+        properties: {
+            id: { type: 'string', pattern: '^\\p{Lu}\\d+$' },
+            name: { $ref: '#/$defs/name' },
+        },
+    };
+
+    it('checks every pattern with the u flag', () => {
+        const result = auditSchema(schema);
+        expect(result.safe).toBe(false);
+        expect(result.patterns.map((found) => [found.pointer, found.result.safe])).toEqual([
+            ['/$defs/name/pattern', false],
+            ['/properties/id/pattern', true],
+        ]);
+        expect(result.findings).toEqual([
+            expect.objectContaining({
+                pointer: '/$defs/name/pattern',
+                keyword: 'pattern',
+                pattern: '^([a-z]+)+$',
+                ruleId: 'nested-quantifiers',
+                expression: '([a-z]+)+',
+            }),
+        ]);
+        expect(result.unresolvedRefs).toEqual([]);
+    });
+
+    it('uses the configuration of the given instance', () => {
+        const safeRegex = new SafeRegex({ profile: 'strict', maxLength: 10 });
+        const { findings } = auditSchema(schema, { safeRegex });
+        expect(findings.map((finding) => [finding.pointer, finding.ruleId])).toEqual([
+            ['/$defs/name/pattern', 'pattern-too-long'],
+            ['/properties/id/pattern', 'pattern-too-long'],
+        ]);
+        expect(auditSchema(schema, { safeRegex: new SafeRegex({ features: { unicodePropertyEscapes: false } }) })
+            .patterns[1].result.reason).toBe('feature_not_allowed');
+    });
+
+    it('compiles with the given flags', () => {
+        const { patterns } = auditSchema({ pattern: '^[a-z]+$' }, { flags: 'i' });
+        expect(patterns[0].result.regex?.flags).toBe('i');
+    });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi } from 'vitest';
+import { execTimed, matchTimed, matchAllTimed, replaceTimed, splitTimed } from '../src/timed';
+import { LinearRegExp } from '../src/linear';
+import { SafeRegex } from '../src/safe-regex';
+
+function limits(maxMatches = 1000) {
+    return { deadline: Date.now() + 1000, maxMatches };
+}
+
+function summary(match: RegExpExecArray | null) {
+    return match && { values: [...match], index: match.index, groups: match.groups && { ...match.groups } };
+}
+
+/** Patterns with an input, compared against the native String methods */
+const CORPUS: Array<[string, string, string]> = [
+    ['a', 'g', 'banana'],
+    ['', 'g', 'abc'],
+    ['(?:)', 'gu', '😀a'],
+    ['(a)|(b)', 'g', 'abcab'],
+    ['(?<x>\\d)(\\d)?', 'g', '1 23 456'],
+    ['x*', 'g', 'axxb'],
+    ['\\s*', '', 'a b  c'],
+    [',', '', 'a,b,,c,'],
+    ['(,)', '', 'a,b'],
+    ['a', 'y', 'aab'],
+    ['$', 'gm', 'a\nb'],
+];
+
+const TEMPLATES = ['[$&]', '$1-$2', '$<x>', '$<y>', '$$', "$`|$'", '$01$10$0', '$3'];
+
+describe('timed string methods', () => {
+    describe.each(CORPUS)('/%s/%s on %j', (source, flags, input) => {
+        it('matchAll matches native', () => {
+            if (!flags.includes('g')) {
+                expect(() => matchAllTimed(new RegExp(source, flags), input, limits())).toThrow(TypeError);
+                return;
+            }
+            const regex = new RegExp(source, flags);
+            const result = matchAllTimed(regex, input, limits());
+            expect(result.matches.map(summary)).toEqual([...input.matchAll(new RegExp(source, flags))].map(summary));
+            expect(regex.lastIndex).toBe(0);
+        });
+
+        it.each(TEMPLATES)('replace with %j matches native', (template) => {
+            const timed = new RegExp(source, flags);
+            const native = new RegExp(source, flags);
+            expect(replaceTimed(timed, input, template, limits()).output).toBe(input.replace(native, template));
+            expect(timed.lastIndex).toBe(native.lastIndex);
+        });
+
+        it('replace with a function matches native', () => {
+            const replacer = (...args: unknown[]) => JSON.stringify(args);
+            expect(replaceTimed(new RegExp(source, flags), input, replacer, limits()).output)
+                .toBe(input.replace(new RegExp(source, flags), replacer));
+        });
+
+        it.each([undefined, 0, 1, 2, 3])('split with limit %s matches native', (limit) => {
+            expect(splitTimed(new RegExp(source, flags), input, limit, limits()).parts)
+                .toEqual(input.split(new RegExp(source, flags), limit));
+            expect(splitTimed(new RegExp(source, flags), '', limit, limits()).parts)
+                .toEqual(''.split(new RegExp(source, flags), limit));
+        });
+
+        it('match matches native', () => {
+            const timed = new RegExp(source, flags);
+            const native = new RegExp(source, flags);
+            timed.lastIndex = native.lastIndex = 2;
+            const match = timed.global ? (value: RegExpMatchArray | null) => value && [...value] : summary;
+            expect(match(matchTimed(timed, input, limits()).match as RegExpExecArray | null))
+                .toEqual(match(input.match(native) as RegExpExecArray | null));
+            expect(timed.lastIndex).toBe(native.lastIndex);
+        });
+
+        it('exec matches native', () => {
+            const timed = new RegExp(source, flags);
+            const native = new RegExp(source, flags);
+            timed.lastIndex = native.lastIndex = 2;
+            expect(summary(execTimed(timed, input, limits()).match)).toEqual(summary(native.exec(input)));
+            expect(timed.lastIndex).toBe(native.lastIndex);
+        });
+    });
+
+    it('caps the number of matches', () => {
+        expect(matchTimed(/a/g, 'aaaa', limits(2))).toMatchObject({ match: ['a', 'a'], truncated: true });
+        expect(matchAllTimed(/a/g, 'aaaa', limits(2))).toMatchObject({ truncated: true });
+        expect(matchAllTimed(/a/g, 'aa', limits(2))).toMatchObject({ truncated: false });
+        expect(replaceTimed(/a/g, 'aaaa', 'b', limits(2))).toMatchObject({ output: 'bbaa', replacements: 2, truncated: true });
+        expect(splitTimed(/,/, 'a,b,c,d', undefined, limits(2))).toMatchObject({ parts: ['a', 'b', 'c,d'], truncated: true });
+    });
+
+    it('stops at the deadline', () => {
+        const attack = 'a'.repeat(40) + 'b';
+        const options = { deadline: Date.now() + 50, maxMatches: 10 };
+        expect(execTimed(/^(a+)+$/, attack, options)).toMatchObject({ matched: false, reason: 'execution_timeout' });
+        expect(matchTimed(/(a+)+$/g, attack, options)).toMatchObject({ match: null, reason: 'execution_timeout' });
+        expect(matchAllTimed(/(a+)+$/g, attack, options)).toMatchObject({ matches: [], reason: 'execution_timeout' });
+        expect(replaceTimed(/(a+)+$/, attack, '', options).output).toBeUndefined();
+        expect(splitTimed(/(a+)+$/, attack, undefined, options).parts).toEqual([]);
+    });
+
+    it('runs linear regexes on their own engine', () => {
+        const regex = new LinearRegExp('(a+)+$', 'g');
+        const result = replaceTimed(regex, 'a'.repeat(5000) + 'b', 'x', limits());
+        expect(result.reason).toBe('ok');
+        expect(result.replacements).toBe(0);
+        expect(splitTimed(new LinearRegExp('-'), 'a-b', undefined, limits()).parts).toEqual(['a', 'b']);
+    });
+});
+
+describe('SafeRegex timed methods', () => {
+    it('uses timeoutMs and warns on timeout', async () => {
+        const onWarning = vi.fn();
+        const safe = new SafeRegex({ timeoutMs: 50, onWarning });
+        const result = await safe.execWithTimeout(/^(a+)+$/, 'a'.repeat(40) + 'b');
+
+        expect(result.reason).toBe('execution_timeout');
+        expect(result.error).toBe('Regex execution timed out after 50ms');
+        expect(onWarning).toHaveBeenCalledWith('Regex execution exceeded 50ms timeout', '^(a+)+$');
+    });
+
+    it('uses maxMatches and warns when it is reached', async () => {
+        const onWarning = vi.fn();
+        const safe = new SafeRegex({ maxMatches: 2, onWarning });
+
+        const result = await safe.matchAllWithTimeout(/\d/g, '1 2 3');
+        expect(result.matches.map((match) => match[0])).toEqual(['1', '2']);
+        expect(result.truncated).toBe(true);
+        expect(onWarning).toHaveBeenCalledWith('Regex matched more than 2 times', '\\d');
+    });
+
+    it('replaces with named groups and replacer functions', async () => {
+        const safe = new SafeRegex();
+        const date = /(?<year>\d{4})-(?<month>\d\d)/g;
+
+        expect((await safe.replaceWithTimeout(date, '2024-05 2025-01', '$<month>/$<year>')).output).toBe('05/2024 01/2025');
+        const upper = await safe.replaceWithTimeout(/[a-z]+/, 'abc def', (word) => word.toUpperCase());
+        expect(upper).toEqual({ matched: true, output: 'ABC def', replacements: 1, truncated: false, reason: 'ok' });
+    });
+
+    it('matches', async () => {
+        const safe = new SafeRegex();
+        expect(await safe.matchWithTimeout(/\d+/g, 'a1 b23')).toEqual({ matched: true, match: ['1', '23'], truncated: false, reason: 'ok' });
+        expect((await safe.matchWithTimeout(/(\d)(\d)/, 'a123')).match?.slice(1)).toEqual(['1', '2']);
+        expect(await safe.matchWithTimeoutOrThrow(/x/g, 'abc')).toBeNull();
+    });
+
+    it('splits', async () => {
+        const result = await new SafeRegex().splitWithTimeout(/\s*,\s*/, 'a , b,c', 2);
+        expect(result).toEqual({ matched: true, parts: ['a', 'b'], truncated: false, reason: 'ok' });
+    });
+});
@@ -7,6 +7,7 @@ describe('Types', () => {
             expect(DEFAULT_CONFIG.maxLength).toBe(500);
             expect(DEFAULT_CONFIG.timeoutMs).toBe(1000);
             expect(DEFAULT_CONFIG.maxBacktrackDepth).toBe(100000);
+            expect(DEFAULT_CONFIG.maxMatches).toBe(10000);
         });
     });
 });
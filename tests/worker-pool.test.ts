@@ -0,0 +1,126 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { Worker } from 'node:worker_threads';
+import { RegexWorkerPool } from '../src/worker-pool';
+import { SafeRegex } from '../src/safe-regex';
+
+// codeql[js/redos]: Intentional ReDoS pattern, only run on workers that get terminated
+const CATASTROPHIC = /^(a+)+$/;
+const ATTACK = 'a'.repeat(40) + 'b';
+
+describe('RegexWorkerPool', () => {
+    let pool: RegexWorkerPool | undefined;
+
+    afterEach(async () => {
+        await pool?.close();
+        pool = undefined;
+    });
+
+    it('runs matches on a worker', async () => {
+        pool = new RegexWorkerPool({ size: 1 });
+        expect(await pool.test(/^hello$/i, 'HELLO')).toEqual({ matched: true, reason: 'ok' });
+        expect(await pool.test(/^hello$/, 'world')).toEqual({ matched: false, reason: 'ok' });
+    });
+
+    it('terminates a catastrophic match without blocking the main thread', async () => {
+        pool = new RegexWorkerPool({ size: 1 });
+        let ticks = 0;
+        const interval = setInterval(() => ticks++, 10);
+        const result = await pool.test(CATASTROPHIC, ATTACK, 200);
+        clearInterval(interval);
+
+        expect(result.reason).toBe('execution_timeout');
+        expect(result.matched).toBe(false);
+        expect(result.error).toContain('200ms');
+        expect(ticks).toBeGreaterThan(5);
+    });
+
+    it('keeps working after a worker is terminated', async () => {
+        pool = new RegexWorkerPool({ size: 1, warm: true });
+        await pool.test(CATASTROPHIC, ATTACK, 100);
+        expect(pool.threads).toBe(1);
+        expect((await pool.test(/b$/, ATTACK)).matched).toBe(true);
+    });
+
+    it('starts warm workers up front and spawns others on demand', async () => {
+        pool = new RegexWorkerPool({ size: 2, warm: true });
+        expect(pool.threads).toBe(2);
+        await pool.close();
+
+        pool = new RegexWorkerPool({ size: 2 });
+        expect(pool.threads).toBe(0);
+        await Promise.all([pool.test(/a/, 'a'), pool.test(/b/, 'b'), pool.test(/c/, 'c')]);
+        expect(pool.threads).toBe(2);
+    });
+
+    it('queues tasks beyond the pool size', async () => {
+        pool = new RegexWorkerPool({ size: 1 });
+        const results = await Promise.all([
+            pool.test(CATASTROPHIC, ATTACK, 100),
+            pool.test(/^a+b$/, ATTACK, 1000),
+        ]);
+        expect(results.map((result) => result.reason)).toEqual(['execution_timeout', 'ok']);
+        expect(results[1].matched).toBe(true);
+    });
+
+    it('times matches on a worker', async () => {
+        pool = new RegexWorkerPool({ size: 1 });
+        const result = await pool.measure(/^\d+$/g, '1'.repeat(1000), 1000, 5);
+        expect(result).toMatchObject({ matched: true, reason: 'ok' });
+        expect(result.elapsedMs).toBeGreaterThan(0);
+        expect(result.elapsedMs).toBeLessThan(5);
+
+        const stopped = await pool.measure(CATASTROPHIC, ATTACK, 100);
+        expect(stopped.reason).toBe('execution_timeout');
+        expect(stopped.elapsedMs).toBeUndefined();
+    });
+
+    it('reports patterns the worker cannot compile', async () => {
+        pool = new RegexWorkerPool({ size: 1 });
+        const result = await pool.test({ source: '(', flags: '' } as RegExp, 'x');
+        expect(result.reason).toBe('invalid_syntax');
+    });
+
+    it('does not count the time to spawn a worker toward the timeout', async () => {
+        pool = new RegexWorkerPool({ size: 1 });
+        expect(await pool.test(/a/, 'a', 20)).toEqual({ matched: true, reason: 'ok' });
+    });
+
+    it('rejects the task of a worker that exits and replaces it', async () => {
+        pool = new RegexWorkerPool({ size: 1, warm: true });
+        const pending = expect(pool.test(CATASTROPHIC, ATTACK, 5000)).rejects.toThrow('Regex worker exited with code');
+        const running = (pool as unknown as { running: Map<Worker, unknown> }).running;
+        const [worker] = running.keys();
+        // Exits without an 'error' event, as process.exit() in the worker would
+        await worker.terminate();
+        await pending;
+        expect(pool.threads).toBe(1);
+        expect(await pool.test(/a/, 'a')).toEqual({ matched: true, reason: 'ok' });
+    });
+
+    it('rejects tasks once closed', async () => {
+        pool = new RegexWorkerPool({ size: 1 });
+        const pending = expect(pool.test(CATASTROPHIC, ATTACK, 5000)).rejects.toThrow('closed');
+        await pool.close();
+        await pending;
+        await expect(pool.test(/a/, 'a')).rejects.toThrow('closed');
+    });
+});
+
+describe('SafeRegex.testInWorker()', () => {
+    it('returns execution_timeout and warns when the match is stopped', async () => {
+        const pool = new RegexWorkerPool({ size: 1 });
+        const onWarning = vi.fn();
+        const safe = new SafeRegex({ timeoutMs: 100, workerPool: pool, onWarning });
+
+        expect(await safe.testInWorker(/^hello$/, 'hello')).toEqual({ matched: true, reason: 'ok' });
+        const result = await safe.testInWorker(CATASTROPHIC, ATTACK);
+        expect(result.reason).toBe('execution_timeout');
+        expect(onWarning).toHaveBeenCalledTimes(1);
+        await pool.close();
+    });
+
+    it('uses the shared pool by default', async () => {
+        const result = await new SafeRegex().testInWorker(/x/, 'xyz');
+        expect(result).toEqual({ matched: true, reason: 'ok' });
+    });
+});
@@ -29,6 +29,12 @@ try {
     console.log('Directory does not have a Git repository, skipping git info');
 }
 
+// Library entry, the pressurelid command line and the ESLint plugin
+const entries = {
+    pressurelid: 'src/pressurelid.ts',
+    bin: 'src/bin.ts',
+    'eslint-plugin': 'src/eslint-plugin.ts',
+};
 
 export default defineConfig({
     server: {
@@ -44,6 +50,11 @@ export default defineConfig({
                 sourceMaps: true,
             },
         }),
+        {
+            // VitePluginNode replaces the build input with its appPath
+            name: 'pressurelid-entries',
+            config: () => ({ build: { rollupOptions: { input: entries } } }),
+        },
         replace({
             '__VERSION__': process.env.npm_package_version,
             '__GIT_BRANCH__': gitInfo.branch,
@@ -64,10 +75,10 @@ export default defineConfig({
         target: 'esnext',
         outDir: 'dist',
         lib: {
-            entry: './src/pressurelid.ts',
+            entry: entries,
         },
         rollupOptions: {
-            input: 'src/pressurelid.ts',
+            input: entries,
             output: [
                 {
                     format: 'es',
@@ -76,10 +87,11 @@ export default defineConfig({
                     preserveModules: true,
                     preserveModulesRoot: 'src',
                     exports: 'named',
+                    banner: (chunk) => (chunk.isEntry && chunk.name === 'bin' ? '#!/usr/bin/env node' : ''),
                 },
                 {
                     format: 'cjs',
-                    entryFileNames: 'pressurelid.cjs',
+                    entryFileNames: '[name].cjs',
                     chunkFileNames: '[name].cjs',
                     preserveModules: false,
                     exports: 'named',